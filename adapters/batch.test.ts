@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { runBatch } from './batch';
+import { LinearAdapter } from './linear';
+import { MemoryAdapter } from './memory';
+import { createLinearStubTransport } from './stubs';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('runBatch keeps input order and stays within the concurrency limit', async () => {
+  let running = 0;
+  let peak = 0;
+
+  const results = await runBatch([30, 5, 20, 1, 10], async (ms, index) => {
+    running++;
+    peak = Math.max(peak, running);
+    await delay(ms);
+    running--;
+    return `item ${index}`;
+  }, 2);
+
+  assert.deepEqual(results.map(r => r.ok && r.value), ['item 0', 'item 1', 'item 2', 'item 3', 'item 4']);
+  assert.equal(peak, 2);
+});
+
+test('runBatch reports each failure without stopping the others', async () => {
+  const results = await runBatch(['a', 'b', 'c'], async item => {
+    if (item === 'a') throw new Error('first failed');
+    if (item === 'b') throw 'not an Error';
+    return item.toUpperCase();
+  });
+
+  assert.deepEqual(results.map(r => r.ok ? r.value : r.error.message), ['first failed', 'not an Error', 'C']);
+  assert.deepEqual(results.map(r => r.index), [0, 1, 2]);
+  assert.deepEqual(await runBatch([], async () => 1), []);
+});
+
+test('Linear sends batchSize aliased mutations per request and fails items alone', async () => {
+  const backend = new MemoryAdapter();
+  const transport = createLinearStubTransport(backend);
+  const adapter = new LinearAdapter({ apiKey: 'stub', fetch: transport.fetch });
+
+  const created = await adapter.batchCreateIssues(
+    [{ title: 'One' }, { title: 'Two' }, { title: 'Three', priority: 'P1-High' }],
+    { batchSize: 2 }
+  );
+  assert.deepEqual(created.map(r => r.ok && r.value.title), ['One', 'Two', 'Three']);
+  assert.equal(transport.requests.filter(r => /\bm0: issueCreate\b/.test(r.query || '')).length, 2);
+
+  const [one] = created.map(r => r.ok ? r.value : null);
+  const updated = await adapter.batchUpdateIssues([
+    { id: one!.id, data: { title: 'One, renamed' } },
+    { id: 'missing', data: { title: 'Nowhere' } },
+  ]);
+
+  assert.equal(updated[0].ok, true);
+  assert.equal(updated[1].ok, false);
+  assert.equal((await backend.getIssue(one!.id))?.title, 'One, renamed');
+});
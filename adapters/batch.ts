@@ -0,0 +1,43 @@
+/**
+ * Batch Operations
+ *
+ * Fallback for adapters without native batching: runs the single-item
+ * operation over every input with bounded concurrency, and reports each
+ * item's outcome instead of stopping at the first failure.
+ */
+
+import type { BatchResult } from './interface';
+
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * Run `operation` over `items`, at most `concurrency` at a time. Results
+ * are in input order whatever order the operations finish in.
+ */
+export async function runBatch<T, R>(
+  items: T[],
+  operation: (item: T, index: number) => Promise<R>,
+  concurrency: number = DEFAULT_BATCH_CONCURRENCY
+): Promise<BatchResult<R>[]> {
+  const results: BatchResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { index, ok: true, value: await operation(items[index], index) };
+      } catch (error) {
+        results[index] = { index, ok: false, error: toError(error) };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { MetadataCache } from './cache';
+
+test('concurrent getOrLoad calls share one load', async () => {
+  const cache = new MetadataCache();
+  let loads = 0;
+  const loader = async () => { loads++; return ['Todo']; };
+
+  const results = await Promise.all([cache.getOrLoad('states', loader), cache.getOrLoad('states', loader)]);
+  await cache.getOrLoad('states', loader);
+
+  assert.deepEqual(results, [['Todo'], ['Todo']]);
+  assert.equal(loads, 1);
+});
+
+test('expired entries and a TTL of 0 load again', async () => {
+  let loads = 0;
+  const loader = async () => ++loads;
+
+  const short = new MetadataCache({ ttlMs: 5 });
+  await short.getOrLoad('viewer', loader);
+  await new Promise(resolve => setTimeout(resolve, 10));
+  assert.equal(await short.getOrLoad('viewer', loader), 2);
+
+  const disabled = new MetadataCache({ ttlMs: 0 });
+  await disabled.getOrLoad('viewer', loader);
+  assert.equal(await disabled.getOrLoad('viewer', loader), 4);
+});
+
+test('invalidate drops keys by prefix and update keeps others intact', async () => {
+  const cache = new MetadataCache();
+  await cache.set('key-a:states', ['Todo']);
+  await cache.set('key-a:labels', ['api']);
+  await cache.set('key-b:states', ['Done']);
+
+  await cache.update<string[]>('key-a:labels', labels => [...labels, 'web']);
+  await cache.update<string[]>('key-a:missing', labels => [...labels, 'web']);
+  await cache.invalidate('key-a:states');
+
+  assert.equal(await cache.get('key-a:states'), undefined);
+  assert.deepEqual(await cache.get('key-a:labels'), ['api', 'web']);
+  assert.equal(await cache.get('key-a:missing'), undefined);
+
+  await cache.invalidate();
+  assert.equal(await cache.get('key-b:states'), undefined);
+});
+
+test('a persisted cache starts the next instance warm', async () => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-cache-'));
+  try {
+    const persistPath = path.join(directory, 'nested', 'cache.json');
+    await new MetadataCache({ persistPath }).set('states', ['Todo']);
+
+    const warm = new MetadataCache({ persistPath });
+    assert.deepEqual(await warm.getOrLoad('states', async () => ['refetched']), ['Todo']);
+
+    // An unreadable file is a cold start, not an error
+    await fs.writeFile(persistPath, '{ not json', 'utf8');
+    assert.equal(await new MetadataCache({ persistPath }).get('states'), undefined);
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,162 @@
+/**
+ * Adapter Metadata Cache
+ *
+ * Keyed cache with a TTL for slow-changing tracker metadata such as
+ * workflow states, labels and the current user. Optionally persisted to a
+ * JSON file so the next planning session starts warm.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MetadataCacheOptions {
+  ttlMs?: number;             // Entry lifetime; 0 disables caching (default: 5 minutes)
+  persistPath?: string;       // JSON file to load from and save to
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;          // Epoch milliseconds
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// Metadata Cache
+// ============================================================================
+
+export class MetadataCache {
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<unknown>>();
+  private loaded?: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+  private ttlMs: number;
+
+  constructor(private options: MetadataCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  /**
+   * Return the cached value for a key, or run the loader and cache its
+   * result. Concurrent callers for the same key share a single load.
+   */
+  async getOrLoad<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== undefined) return cached;
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight as Promise<T>;
+
+    const load = (async () => {
+      try {
+        const value = await loader();
+        await this.set(key, value);
+        return value;
+      } finally {
+        this.pending.delete(key);
+      }
+    })();
+
+    this.pending.set(key, load);
+    return load;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    await this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value as T;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await this.load();
+    if (this.ttlMs <= 0) return;
+
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    await this.save();
+  }
+
+  /**
+   * Modify a cached value in place (e.g. append a newly created label).
+   * Does nothing when the key is not cached, and keeps the original expiry.
+   */
+  async update<T>(key: string, fn: (value: T) => T): Promise<void> {
+    const current = await this.get<T>(key);
+    if (current === undefined) return;
+
+    this.entries.get(key)!.value = fn(current);
+    await this.save();
+  }
+
+  /**
+   * Drop entries whose key starts with `prefix`, or everything without one
+   */
+  async invalidate(prefix?: string): Promise<void> {
+    await this.load();
+
+    for (const key of [...this.entries.keys()]) {
+      if (prefix === undefined || key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+
+    await this.save();
+  }
+
+  // -------------------------------------------------------------------------
+  // Persistence
+  // -------------------------------------------------------------------------
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFile();
+    }
+    return this.loaded;
+  }
+
+  private async readFile(): Promise<void> {
+    if (!this.options.persistPath) return;
+
+    let data: Record<string, CacheEntry>;
+    try {
+      data = JSON.parse(await fs.readFile(this.options.persistPath, 'utf8'));
+    } catch {
+      // Missing or unreadable cache file: start cold
+      return;
+    }
+
+    const now = Date.now();
+    for (const [key, entry] of Object.entries(data || {})) {
+      if (entry && typeof entry.expiresAt === 'number' && entry.expiresAt > now) {
+        this.entries.set(key, entry);
+      }
+    }
+  }
+
+  private save(): Promise<void> {
+    const file = this.options.persistPath;
+    if (!file) return Promise.resolve();
+
+    // Serialize writes so a slow save never overwrites a newer one
+    this.saving = this.saving.then(async () => {
+      const data = Object.fromEntries(this.entries);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(data, null, 2), 'utf8');
+    }).catch(() => {
+      // The cache is an optimization; a failed write must not fail the request
+    });
+
+    return this.saving;
+  }
+}
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { CapabilityGuard, Capability } from './capabilities';
+import { MemoryAdapter } from './memory';
+
+/** A memory tracker that reports the given capabilities as missing */
+function limited(...missing: Capability[]) {
+  const backend = new MemoryAdapter();
+  for (const capability of missing) backend.capabilities[capability] = false;
+
+  const logged: string[] = [];
+  const guard = new CapabilityGuard(backend, { log: message => logged.push(message) });
+  return { backend, guard, logged };
+}
+
+test('supported operations pass straight through', async () => {
+  const { backend, guard, logged } = limited();
+  const parent = await guard.createIssue({ title: 'Parent', estimate: 3 });
+
+  const child = await guard.createSubIssue(parent.id, { title: 'Child' });
+
+  assert.equal((await backend.getIssue(child.id))?.parent?.id, parent.id);
+  assert.equal(parent.estimate, 3);
+  assert.deepEqual(guard.degradations, []);
+  assert.deepEqual(logged, []);
+});
+
+test('missing sub-issues become top-level issues naming the parent', async () => {
+  const { guard, logged } = limited('subIssues');
+  const parent = await guard.createIssue({ title: 'Parent' });
+
+  const child = await guard.createSubIssue(parent.id, { title: 'Child', description: 'Details' });
+
+  assert.equal(child.parent, undefined);
+  assert.equal(child.description, `Details\n\nPart of ${parent.identifier}`);
+  assert.deepEqual(guard.degradations.map(d => d.capability), ['subIssues']);
+  assert.match(logged[0], /^\[memory\] createSubIssue: subIssues not supported/);
+});
+
+test('estimates and custom fields move into the description on create and drop on update', async () => {
+  const { guard } = limited('estimates', 'customFields', 'milestones');
+
+  const issue = await guard.createIssue({
+    title: 'Sized',
+    estimate: 5,
+    milestoneId: 'milestone-1',
+    customFields: { Component: 'API', Team: null },
+  });
+  assert.equal(issue.description, 'Estimate: 5\n\nComponent: API');
+  assert.equal(issue.estimate, undefined);
+  assert.equal(issue.milestone, undefined);
+
+  const updated = await guard.updateIssue(issue.id, { estimate: 8, customFields: { Component: 'Web' }, title: 'Resized' });
+  assert.equal(updated.title, 'Resized');
+  assert.equal(updated.estimate, undefined);
+  assert.deepEqual(guard.degradations.map(d => `${d.operation}:${d.capability}`), [
+    'createIssue:estimates',
+    'createIssue:milestones',
+    'createIssue:customFields',
+    'updateIssue:estimates',
+    'updateIssue:customFields',
+  ]);
+});
+
+test('project updates go to one tracking issue, created once', async () => {
+  const { backend, guard } = limited('projectUpdates', 'projectStatuses');
+  const project = backend.addProject({ name: 'Checkout' });
+
+  await guard.createProjectUpdate(project.id, { body: 'Wave 1 done', health: 'atRisk' });
+  await guard.updateProjectStatus(project.id, 'In Progress');
+
+  const tracking = await backend.listIssues({ projectId: project.id });
+  assert.deepEqual(tracking.map(i => i.title), ['Project updates: Checkout']);
+  assert.deepEqual((await backend.listComments(tracking[0].id)).map(c => c.body), [
+    '**Project update** (At risk)\n\nWave 1 done',
+    '**Project status:** In Progress',
+  ]);
+
+  // A new guard finds the existing issue instead of creating another
+  await new CapabilityGuard(backend, { log: () => {} }).updateProjectStatus(project.id, 'Completed');
+  assert.equal((await backend.listIssues({ projectId: project.id })).length, 1);
+});
+
+test('replies without threads quote the parent in a top-level comment', async () => {
+  const { backend, guard } = limited('threadedComments');
+  const issue = await backend.createIssue({ title: 'Question' });
+  const question = await backend.addComment(issue.id, 'Which endpoint?\nMore context');
+
+  const reply = await guard.replyToComment(issue.id, question.id, 'The v2 one');
+
+  assert.equal(reply.parentId, undefined);
+  assert.equal(reply.body, '> **Me**: Which endpoint?\n\nThe v2 one');
+});
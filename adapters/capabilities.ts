@@ -0,0 +1,237 @@
+/**
+ * Capability-Aware Operations
+ *
+ * Wraps the PMAdapter operations that not every tracker supports. Each one
+ * checks `adapter.capabilities` first and, where the feature is missing,
+ * falls back to something the tracker can do instead of throwing:
+ *
+ * - Project updates and statuses: a comment on the project's tracking issue
+ *   (given, or found/created as "Project updates: <name>")
+ * - Sub-issues: a top-level issue whose description names the parent
+ * - Estimates: an "Estimate:" line in the description on create; dropped on update
+ * - Custom fields: "Name: value" lines in the description on create; dropped on update
+ * - Milestones: dropped
+ * - Threaded replies: a top-level comment quoting the parent
+ *
+ * Every fallback is logged and recorded in `degradations`.
+ */
+
+import {
+  PMAdapter,
+  AdapterCapabilities,
+  Issue,
+  Comment,
+  CreateIssueInput,
+  UpdateIssueInput,
+  ProjectUpdate,
+} from './interface';
+import { redactingLogger } from './credentials';
+import { formatCustomFieldValue } from './custom-fields';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Capability = keyof AdapterCapabilities;
+
+export interface CapabilityOptions {
+  /** Issue that carries project updates where the tracker has none */
+  trackingIssueId?: string;
+
+  /** Where degradations are reported (default: console.warn, redacted) */
+  log?: (message: string) => void;
+}
+
+export interface Degradation {
+  capability: Capability;
+  operation: string;
+  fallback: string;           // What was done instead
+}
+
+const HEALTH_LABELS: Record<NonNullable<ProjectUpdate['health']>, string> = {
+  onTrack: 'On track',
+  atRisk: 'At risk',
+  offTrack: 'Off track',
+};
+
+// ============================================================================
+// Capability Guard
+// ============================================================================
+
+export class CapabilityGuard {
+  /** Fallbacks taken so far, in call order */
+  readonly degradations: Degradation[] = [];
+
+  private log: (message: string) => void;
+  private trackingIssues = new Map<string, Promise<Issue>>();
+
+  constructor(
+    private adapter: PMAdapter,
+    private options: CapabilityOptions = {}
+  ) {
+    this.log = options.log || redactingLogger(console.warn);
+  }
+
+  supports(capability: Capability): boolean {
+    return this.adapter.capabilities[capability];
+  }
+
+  // -------------------------------------------------------------------------
+  // Projects
+  // -------------------------------------------------------------------------
+
+  async createProjectUpdate(projectId: string, update: ProjectUpdate): Promise<void> {
+    if (this.supports('projectUpdates')) {
+      return this.adapter.createProjectUpdate(projectId, update);
+    }
+
+    const health = update.health ? ` (${HEALTH_LABELS[update.health]})` : '';
+    const tracking = await this.trackingIssue(projectId);
+    await this.adapter.addComment(tracking.id, `**Project update**${health}\n\n${update.body}`);
+
+    this.degrade('projectUpdates', 'createProjectUpdate', `posted as a comment on ${tracking.identifier}`);
+  }
+
+  async updateProjectStatus(projectId: string, status: string): Promise<void> {
+    if (this.supports('projectStatuses')) {
+      return this.adapter.updateProjectStatus(projectId, status);
+    }
+
+    const tracking = await this.trackingIssue(projectId);
+    await this.adapter.addComment(tracking.id, `**Project status:** ${status}`);
+
+    this.degrade('projectStatuses', 'updateProjectStatus', `posted as a comment on ${tracking.identifier}`);
+  }
+
+  // -------------------------------------------------------------------------
+  // Issues
+  // -------------------------------------------------------------------------
+
+  async createIssue(data: CreateIssueInput): Promise<Issue> {
+    return this.adapter.createIssue(this.createInput(data, 'createIssue'));
+  }
+
+  async createSubIssue(parentId: string, data: CreateIssueInput): Promise<Issue> {
+    const input = this.createInput(data, 'createSubIssue');
+    if (this.supports('subIssues')) {
+      return this.adapter.createSubIssue(parentId, input);
+    }
+
+    const parent = await this.adapter.getIssue(parentId);
+    const ref = parent?.identifier || parentId;
+    const issue = await this.adapter.createIssue({
+      ...input,
+      parentId: undefined,
+      description: appendLine(input.description, `Part of ${ref}`),
+    });
+
+    this.degrade('subIssues', 'createSubIssue', `created a top-level issue referencing ${ref}`);
+    return issue;
+  }
+
+  async updateIssue(id: string, data: UpdateIssueInput): Promise<Issue> {
+    const input = { ...data };
+
+    if (input.estimate !== undefined && !this.supports('estimates')) {
+      delete input.estimate;
+      this.degrade('estimates', 'updateIssue', 'estimate not stored');
+    }
+    if (input.milestoneId !== undefined && !this.supports('milestones')) {
+      delete input.milestoneId;
+      this.degrade('milestones', 'updateIssue', 'milestone not set');
+    }
+    if (input.customFields !== undefined && !this.supports('customFields')) {
+      delete input.customFields;
+      this.degrade('customFields', 'updateIssue', 'custom fields not stored');
+    }
+
+    return this.adapter.updateIssue(id, input);
+  }
+
+  // -------------------------------------------------------------------------
+  // Comments
+  // -------------------------------------------------------------------------
+
+  async replyToComment(issueId: string, commentId: string, body: string): Promise<Comment> {
+    if (this.supports('threadedComments')) {
+      return this.adapter.replyToComment(issueId, commentId, body);
+    }
+
+    const parent = (await this.adapter.listComments(issueId)).find(c => c.id === commentId);
+    const quote = parent
+      ? `> **${parent.author.name}**: ${parent.body.split('\n')[0]}\n\n`
+      : '';
+    const comment = await this.adapter.addComment(issueId, `${quote}${body}`);
+
+    this.degrade('threadedComments', 'replyToComment', 'posted as a top-level comment');
+    return comment;
+  }
+
+  // -------------------------------------------------------------------------
+  // Private Helpers
+  // -------------------------------------------------------------------------
+
+  private createInput(data: CreateIssueInput, operation: string): CreateIssueInput {
+    const input = { ...data };
+
+    if (input.estimate !== undefined && !this.supports('estimates')) {
+      input.description = appendLine(input.description, `Estimate: ${input.estimate}`);
+      delete input.estimate;
+      this.degrade('estimates', operation, 'estimate added to the description');
+    }
+    if (input.milestoneId !== undefined && !this.supports('milestones')) {
+      delete input.milestoneId;
+      this.degrade('milestones', operation, 'milestone not set');
+    }
+    if (input.customFields !== undefined && !this.supports('customFields')) {
+      const lines = Object.entries(input.customFields)
+        .filter(([, value]) => value !== null)
+        .map(([name, value]) => `${name}: ${formatCustomFieldValue(value)}`);
+      if (lines.length) input.description = appendLine(input.description, lines.join('\n'));
+      delete input.customFields;
+      this.degrade('customFields', operation, 'custom fields added to the description');
+    }
+
+    return input;
+  }
+
+  /** The issue project updates are posted to, found or created once per project */
+  private trackingIssue(projectId: string): Promise<Issue> {
+    if (!this.trackingIssues.has(projectId)) {
+      const lookup = this.findTrackingIssue(projectId);
+      // Don't cache a failure; the next call retries
+      lookup.catch(() => this.trackingIssues.delete(projectId));
+      this.trackingIssues.set(projectId, lookup);
+    }
+    return this.trackingIssues.get(projectId)!;
+  }
+
+  private async findTrackingIssue(projectId: string): Promise<Issue> {
+    if (this.options.trackingIssueId) {
+      const issue = await this.adapter.getIssue(this.options.trackingIssueId);
+      if (issue) return issue;
+    }
+
+    const project = await this.adapter.getProject(projectId);
+    const title = `Project updates: ${project?.name || projectId}`;
+
+    const candidates = await this.adapter.listIssues({ projectId, search: title });
+    const existing = candidates.find(i => i.title === title);
+    if (existing) return existing;
+
+    return this.adapter.createIssue({
+      title,
+      description: `Status updates for ${project?.name || projectId}, posted by the wave planner.`,
+      projectId,
+    });
+  }
+
+  private degrade(capability: Capability, operation: string, fallback: string): void {
+    this.degradations.push({ capability, operation, fallback });
+    this.log(`[${this.adapter.name}] ${operation}: ${capability} not supported, ${fallback}`);
+  }
+}
+
+function appendLine(text: string | undefined, line: string): string {
+  return text ? `${text.trimEnd()}\n\n${line}` : line;
+}
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { PMAdapter } from './interface';
+import { ConformanceOptions, runConformanceSuite, formatConformanceReport } from './conformance';
+import { MemoryAdapter } from './memory';
+import { FileAdapter } from './file';
+import { LinearAdapter } from './linear';
+import { GitHubAdapter } from './github';
+import { JiraAdapter } from './jira';
+import { createLinearStubTransport, createGitHubStubTransport, createJiraStubTransport } from './stubs';
+
+/** A backend with a project, a milestone and a select field, as the suite expects */
+function seededBackend(): { backend: MemoryAdapter; options: ConformanceOptions } {
+  const backend = new MemoryAdapter();
+  const project = backend.addProject({ name: 'Conformance' });
+  const milestone = backend.addMilestone(project.id, { name: 'v1' });
+  backend.defineCustomField({ name: 'Team', type: 'select', options: ['API', 'Web'] });
+  return { backend, options: { projectId: project.id, milestoneId: milestone.id } };
+}
+
+async function assertConforms(adapter: PMAdapter, options: ConformanceOptions = {}) {
+  const report = await runConformanceSuite(adapter, options);
+  assert.equal(report.failed, 0, formatConformanceReport(report));
+  return report;
+}
+
+test('memory adapter conforms', async () => {
+  const { backend, options } = seededBackend();
+  await assertConforms(backend, options);
+});
+
+test('file adapter conforms', async () => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-conformance-'));
+  try {
+    await assertConforms(new FileAdapter({ directory }));
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+});
+
+test('linear adapter conforms over the stub', async () => {
+  const { backend, options } = seededBackend();
+  const transport = createLinearStubTransport(backend);
+  await assertConforms(new LinearAdapter({ apiKey: 'stub', fetch: transport.fetch }), options);
+});
+
+test('github adapter conforms over the stub', async () => {
+  const { backend, options } = seededBackend();
+  const transport = createGitHubStubTransport(backend);
+  const adapter = new GitHubAdapter({ apiKey: 'stub', repository: 'acme/app', fetch: transport.fetch });
+  const [milestone] = await adapter.listMilestones(options.projectId!);
+
+  await assertConforms(adapter, {
+    ...options,
+    milestoneId: milestone.id,
+    // Issues can sit in several GitHub projects, so they don't report one
+    skip: ['listIssues respects projectId'],
+  });
+  assert.ok(transport.requests.some(r => r.path === '/graphql'));
+  assert.ok(transport.requests.some(r => r.path.startsWith('/repos/acme/app/issues')));
+});
+
+for (const deployment of ['cloud', 'server'] as const) {
+  test(`jira ${deployment} adapter conforms over the stub`, async () => {
+    const { backend, options } = seededBackend();
+    const transport = createJiraStubTransport(backend, { deployment });
+    const adapter = new JiraAdapter({
+      apiKey: 'stub',
+      baseUrl: 'https://jira.example.com',
+      email: deployment === 'cloud' ? 'me@example.com' : undefined,
+      projectKey: options.projectId,
+      fetch: transport.fetch,
+    });
+
+    await assertConforms(adapter, {
+      ...options,
+      skip: [
+        // Jira issues always belong to a project; "no project" lands in projectKey
+        'listIssues respects projectId',
+        // Jira labels exist once applied, so an unused label can't be found again
+        'ensureLabel is idempotent',
+      ],
+    });
+
+    const searches = transport.requests.filter(r => r.path.includes('/search'));
+    assert.ok(searches.length > 0);
+    assert.ok(searches.every(r => r.path.endsWith(deployment === 'cloud' ? '/search/jql' : '/search')));
+  });
+}
@@ -0,0 +1,418 @@
+/**
+ * PMAdapter Conformance Suite
+ *
+ * Runs the PMAdapter contract against any adapter instance and reports
+ * which checks pass. Framework-agnostic: call it from any test runner and
+ * assert on the report. Intended for adapters wired to stubbed transports
+ * or scratch workspaces, since the checks create issues and labels.
+ */
+
+import { PMAdapter, Issue, IssueFilter, Priority } from './interface';
+import { matchesSearch } from './search';
+import { customFieldValue } from './custom-fields';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ConformanceStatus = 'pass' | 'fail' | 'skip';
+
+export interface ConformanceResult {
+  name: string;
+  status: ConformanceStatus;
+  message?: string;
+}
+
+export interface ConformanceReport {
+  adapter: string;
+  results: ConformanceResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface ConformanceOptions {
+  /** Existing project to attach issues to; project checks skip without it */
+  projectId?: string;
+
+  /** Milestone within projectId; milestone checks skip without it */
+  milestoneId?: string;
+
+  /** Check names to skip (e.g. for documented adapter limitations) */
+  skip?: string[];
+
+  /** Upper bound passed to listIssues when scanning results (default: 250) */
+  scanLimit?: number;
+}
+
+type Check = (ctx: CheckContext) => Promise<void | 'skip'>;
+
+interface CheckContext {
+  adapter: PMAdapter;
+  options: ConformanceOptions;
+  token: string;
+  list(filter: IssueFilter): Promise<Issue[]>;
+}
+
+class ConformanceFailure extends Error {}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+const CHECKS: Record<string, Check> = {
+  'isConfigured returns true': async ({ adapter }) => {
+    expect(await adapter.isConfigured(), 'isConfigured() returned false');
+  },
+
+  'createIssue round-trips fields': async ({ adapter, token }) => {
+    const label = await adapter.ensureLabel(`conf-${token}-create`);
+    const issue = await adapter.createIssue({
+      title: `Create ${token}`,
+      description: 'Conformance description',
+      priority: 'P1-High',
+      labels: [label.name],
+    });
+
+    expectEqual(issue.title, `Create ${token}`, 'title');
+    expectEqual(issue.description, 'Conformance description', 'description');
+    expectEqual(issue.priority, 'P1-High', 'priority');
+    expect(issue.labels.some(l => l.id === label.id), 'label was not applied');
+    expect(Boolean(issue.identifier), 'identifier is empty');
+  },
+
+  'getIssue finds by id and identifier': async ({ adapter, token }) => {
+    const created = await adapter.createIssue({ title: `Lookup ${token}` });
+
+    const byId = await adapter.getIssue(created.id);
+    expectEqual(byId?.id, created.id, 'getIssue(id)');
+
+    const byIdentifier = await adapter.getIssue(created.identifier);
+    expectEqual(byIdentifier?.id, created.id, 'getIssue(identifier)');
+  },
+
+  'getIssue returns null for unknown issues': async ({ adapter }) => {
+    expectEqual(await adapter.getIssue('ZZZ-999999'), null, 'getIssue(unknown)');
+  },
+
+  'createSubIssue sets parent and children': async ({ adapter, token }) => {
+    if (!adapter.capabilities.subIssues) return 'skip';
+
+    const parent = await adapter.createIssue({ title: `Parent ${token}` });
+    const child = await adapter.createSubIssue(parent.id, { title: `Child ${token}` });
+
+    expectEqual(child.parent?.id, parent.id, 'child.parent.id');
+
+    const reloaded = await adapter.getIssue(parent.id);
+    expect(
+      Boolean(reloaded?.children?.some(c => c.id === child.id)),
+      'parent.children does not include the sub-issue'
+    );
+  },
+
+  'updateIssue applies changes': async ({ adapter, token }) => {
+    const issue = await adapter.createIssue({ title: `Update ${token}`, priority: 'P3-Low' });
+    const updated = await adapter.updateIssue(issue.id, {
+      title: `Updated ${token}`,
+      priority: 'P0-Critical',
+      state: 'Done',
+    });
+
+    expectEqual(updated.title, `Updated ${token}`, 'title');
+    expectEqual(updated.priority, 'P0-Critical', 'priority');
+    expectEqual(updated.state.type, 'completed', 'state.type');
+  },
+
+  'addComment returns the comment': async ({ adapter, token }) => {
+    const issue = await adapter.createIssue({ title: `Comment ${token}` });
+    const comment = await adapter.addComment(issue.id, `Comment body ${token}`);
+
+    expectEqual(comment.body, `Comment body ${token}`, 'body');
+    expect(Boolean(comment.id), 'comment id is empty');
+    expect(comment.createdAt instanceof Date, 'createdAt is not a Date');
+  },
+
+  'listComments returns comments oldest first': async ({ adapter, token }) => {
+    const issue = await adapter.createIssue({ title: `Thread ${token}` });
+    const first = await adapter.addComment(issue.id, `First ${token}`);
+    const second = await adapter.addComment(issue.id, `Second ${token}`);
+
+    const comments = await adapter.listComments(issue.id);
+    expectEqual(comments.map(c => c.id).join(','), `${first.id},${second.id}`, 'comment order');
+    expectEqual(comments[0].body, `First ${token}`, 'body');
+    expect(Boolean(comments[0].author?.name), 'author name is empty');
+  },
+
+  'updateComment replaces the body': async ({ adapter, token }) => {
+    const issue = await adapter.createIssue({ title: `Edit ${token}` });
+    const comment = await adapter.addComment(issue.id, `Draft ${token}`);
+
+    const updated = await adapter.updateComment(issue.id, comment.id, `Final ${token}`);
+    expectEqual(updated.body, `Final ${token}`, 'returned body');
+
+    const [listed] = await adapter.listComments(issue.id);
+    expectEqual(listed.body, `Final ${token}`, 'listed body');
+  },
+
+  'replyToComment threads the reply': async ({ adapter, token }) => {
+    if (!adapter.capabilities.threadedComments) return 'skip';
+
+    const issue = await adapter.createIssue({ title: `Reply ${token}` });
+    const comment = await adapter.addComment(issue.id, `Question ${token}`);
+    const reply = await adapter.replyToComment(issue.id, comment.id, `Answer ${token}`);
+
+    expectEqual(reply.parentId, comment.id, 'returned parentId');
+
+    const listed = (await adapter.listComments(issue.id)).find(c => c.id === reply.id);
+    expectEqual(listed?.parentId, comment.id, 'listed parentId');
+  },
+
+  'createRelation and removeRelation round-trip': async ({ adapter, token }) => {
+    const blocker = await adapter.createIssue({ title: `Blocker ${token}` });
+    const blocked = await adapter.createIssue({ title: `Blocked ${token}` });
+
+    const relation = await adapter.createRelation(blocker.id, blocked.id, 'blocks');
+    expectEqual(relation.type, 'blocks', 'relation.type');
+    expectEqual(relation.issue.id, blocked.id, 'relation.issue.id');
+
+    const reloadedBlocked = await adapter.getIssue(blocked.id);
+    expect(
+      Boolean(reloadedBlocked?.relations?.some(r => r.type === 'blocked-by' && r.issue.id === blocker.id)),
+      'blocked issue does not report blocked-by'
+    );
+
+    // Removing from the other side must remove the same relation
+    await adapter.removeRelation(blocked.id, blocker.id, 'blocked-by');
+    const reloadedBlocker = await adapter.getIssue(blocker.id);
+    expect(
+      !reloadedBlocker?.relations?.some(r => r.issue.id === blocked.id),
+      'relation still present after removeRelation'
+    );
+  },
+
+  'ensureLabel is idempotent': async ({ adapter, token }) => {
+    const name = `conf-${token}-ensure`;
+    const first = await adapter.ensureLabel(name);
+    const second = await adapter.ensureLabel(name);
+    const third = await adapter.ensureLabel(name.toUpperCase());
+
+    expectEqual(second.id, first.id, 'second ensureLabel id');
+    expectEqual(third.id, first.id, 'case-insensitive ensureLabel id');
+
+    const matches = (await adapter.listLabels()).filter(
+      l => l.name.toLowerCase() === name.toLowerCase()
+    );
+    expectEqual(matches.length, 1, 'labels with that name');
+  },
+
+  'applyLabels replaces labels': async ({ adapter, token }) => {
+    const a = await adapter.ensureLabel(`conf-${token}-a`);
+    const b = await adapter.ensureLabel(`conf-${token}-b`);
+    const issue = await adapter.createIssue({ title: `Labels ${token}`, labels: [a.name] });
+
+    await adapter.applyLabels(issue.id, [b.id]);
+    const reloaded = await adapter.getIssue(issue.id);
+    const ids = (reloaded?.labels || []).map(l => l.id);
+
+    expect(ids.includes(b.id), 'applied label missing');
+    expect(!ids.includes(a.id), 'previous label still present');
+  },
+
+  'listIssues respects projectId': async ({ adapter, options, token, list }) => {
+    if (!options.projectId) return 'skip';
+
+    const inside = await adapter.createIssue({ title: `Project ${token}`, projectId: options.projectId });
+    const outside = await adapter.createIssue({ title: `No project ${token}` });
+
+    expectFiltered(await list({ projectId: options.projectId }), inside, outside,
+      i => i.project?.id === options.projectId);
+  },
+
+  'listIssues respects milestoneId': async ({ adapter, options, token, list }) => {
+    if (!options.projectId || !options.milestoneId || !adapter.capabilities.milestones) return 'skip';
+
+    const inside = await adapter.createIssue({
+      title: `Milestone ${token}`,
+      projectId: options.projectId,
+      milestoneId: options.milestoneId,
+    });
+    const outside = await adapter.createIssue({ title: `No milestone ${token}`, projectId: options.projectId });
+
+    expectFiltered(await list({ milestoneId: options.milestoneId }), inside, outside,
+      i => i.milestone?.id === options.milestoneId);
+  },
+
+  'listIssues respects priority': async ({ adapter, token, list }) => {
+    const wanted: Priority[] = ['P0-Critical'];
+    const inside = await adapter.createIssue({ title: `Urgent ${token}`, priority: 'P0-Critical' });
+    const outside = await adapter.createIssue({ title: `Low ${token}`, priority: 'P3-Low' });
+
+    expectFiltered(await list({ priority: wanted }), inside, outside,
+      i => wanted.includes(i.priority));
+  },
+
+  'listIssues respects state': async ({ adapter, token, list }) => {
+    const inside = await adapter.createIssue({ title: `Done ${token}`, state: 'Done' });
+    const outside = await adapter.createIssue({ title: `Open ${token}` });
+
+    expectFiltered(await list({ state: ['completed'] }), inside, outside,
+      i => i.state.type === 'completed');
+  },
+
+  'listIssues respects labels': async ({ adapter, token, list }) => {
+    const label = await adapter.ensureLabel(`conf-${token}-filter`);
+    const inside = await adapter.createIssue({ title: `Labelled ${token}`, labels: [label.name] });
+    const outside = await adapter.createIssue({ title: `Unlabelled ${token}` });
+
+    expectFiltered(await list({ labels: [label.name] }), inside, outside,
+      i => i.labels.some(l => l.id === label.id));
+  },
+
+  'listIssues respects customFields': async ({ adapter, token, list }) => {
+    if (!adapter.capabilities.customFields) return 'skip';
+
+    const field = (await adapter.listCustomFields()).find(
+      f => f.type === 'select' && (f.options?.length || 0) >= 2
+    );
+    if (!field) return 'skip';
+
+    const [wanted, other] = field.options!;
+    const inside = await adapter.createIssue({ title: `Field ${token}`, customFields: { [field.name]: wanted } });
+    const outside = await adapter.createIssue({ title: `Other field ${token}`, customFields: { [field.name]: other } });
+    expectEqual(customFieldValue(inside, field.name), wanted, `customFields["${field.name}"]`);
+
+    expectFiltered(await list({ customFields: { [field.name]: wanted } }), inside, outside,
+      i => customFieldValue(i, field.name) === wanted);
+  },
+
+  'listIssues respects assignee': async ({ adapter, token, list }) => {
+    const inside = await adapter.createIssue({ title: `Mine ${token}`, assignee: 'me' });
+    const outside = await adapter.createIssue({ title: `Unassigned ${token}` });
+    const assigneeId = inside.assignee?.id;
+
+    expect(Boolean(assigneeId), 'assignee "me" was not resolved on create');
+    expectFiltered(await list({ assignee: 'me' }), inside, outside,
+      i => i.assignee?.id === assigneeId);
+  },
+
+  'listIssues respects search': async ({ adapter, token, list }) => {
+    const needle = `needle${token}`;
+    const inside = await adapter.createIssue({ title: `Search ${needle}` });
+    const outside = await adapter.createIssue({ title: `Haystack ${token}` });
+
+    const results = await list({ search: needle });
+    expectFiltered(results, inside, outside, i => matchesSearch(i, needle));
+
+    const unscored = results.find(i => typeof i.relevance !== 'number');
+    expect(!unscored, `result ${unscored?.identifier} has no relevance score`);
+  },
+
+  'listIssues respects limit': async ({ adapter, token }) => {
+    await adapter.createIssue({ title: `Limit A ${token}` });
+    await adapter.createIssue({ title: `Limit B ${token}` });
+
+    const issues = await adapter.listIssues({ limit: 1 });
+    expect(issues.length <= 1, `limit 1 returned ${issues.length} issues`);
+  },
+};
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Run every contract check against an adapter and collect the results.
+ * Checks run in sequence and never throw; failures land in the report.
+ */
+export async function runConformanceSuite(
+  adapter: PMAdapter,
+  options: ConformanceOptions = {}
+): Promise<ConformanceReport> {
+  const token = Date.now().toString(36);
+  const skip = new Set(options.skip || []);
+  const ctx: CheckContext = {
+    adapter,
+    options,
+    token,
+    list: filter => adapter.listIssues({ limit: options.scanLimit || 250, ...filter }),
+  };
+
+  const results: ConformanceResult[] = [];
+
+  for (const [name, check] of Object.entries(CHECKS)) {
+    if (skip.has(name)) {
+      results.push({ name, status: 'skip', message: 'Skipped by options' });
+      continue;
+    }
+
+    try {
+      const outcome = await check(ctx);
+      results.push(outcome === 'skip'
+        ? { name, status: 'skip', message: 'Missing fixtures or unsupported by the adapter' }
+        : { name, status: 'pass' });
+    } catch (error) {
+      results.push({
+        name,
+        status: 'fail',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return {
+    adapter: adapter.name,
+    results,
+    passed: results.filter(r => r.status === 'pass').length,
+    failed: results.filter(r => r.status === 'fail').length,
+    skipped: results.filter(r => r.status === 'skip').length,
+  };
+}
+
+/**
+ * Names of all contract checks, for use with ConformanceOptions.skip
+ */
+export function listConformanceChecks(): string[] {
+  return Object.keys(CHECKS);
+}
+
+/**
+ * Render a report as plain text, one line per check
+ */
+export function formatConformanceReport(report: ConformanceReport): string {
+  const icons: Record<ConformanceStatus, string> = { pass: '✅', fail: '❌', skip: '⏭️' };
+  const lines = report.results.map(r =>
+    `${icons[r.status]} ${r.name}${r.message ? ` — ${r.message}` : ''}`
+  );
+
+  lines.push(`${report.adapter}: ${report.passed} passed, ${report.failed} failed, ${report.skipped} skipped`);
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Assertions
+// ============================================================================
+
+function expect(condition: boolean, message: string): void {
+  if (!condition) throw new ConformanceFailure(message);
+}
+
+function expectEqual<T>(actual: T, expected: T, what: string): void {
+  if (actual !== expected) {
+    throw new ConformanceFailure(
+      `${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+    );
+  }
+}
+
+function expectFiltered(
+  results: Issue[],
+  inside: Issue,
+  outside: Issue,
+  predicate: (issue: Issue) => boolean
+): void {
+  expect(results.some(i => i.id === inside.id), `matching issue ${inside.identifier} missing from results`);
+  expect(!results.some(i => i.id === outside.id), `non-matching issue ${outside.identifier} was returned`);
+
+  const stray = results.find(i => !predicate(i));
+  expect(!stray, `result ${stray?.identifier} does not satisfy the filter`);
+}
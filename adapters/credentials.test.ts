@@ -0,0 +1,140 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { AdapterError } from './interface';
+import {
+  CommandCredentialProvider,
+  Credential,
+  CredentialError,
+  EnvCredentialProvider,
+  GitCryptCredentialProvider,
+  loadCredentialProvider,
+  parseDotenv,
+  parseNetrc,
+  redactingLogger,
+  redactSecrets,
+  registerSecret,
+} from './credentials';
+
+async function withDir(fn: (dir: string) => Promise<void>) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-credentials-'));
+  try {
+    await fn(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+test('parseDotenv reads exports, quotes and trailing comments', () => {
+  const values = parseDotenv([
+    '# Tracker keys',
+    'export LINEAR_API_KEY=lin_api_123',
+    'GITHUB_TOKEN = "ghp abc # not a comment"',
+    "JIRA_API_TOKEN='single\\nquoted'",
+    'MULTILINE="line one\\nline two"',
+    'PLAIN=value # a comment',
+    'EMPTY=',
+    'not a line',
+  ].join('\r\n'));
+
+  assert.deepEqual(Object.fromEntries(values), {
+    LINEAR_API_KEY: 'lin_api_123',
+    GITHUB_TOKEN: 'ghp abc # not a comment',
+    JIRA_API_TOKEN: 'single\\nquoted',
+    MULTILINE: 'line one\nline two',
+    PLAIN: 'value',
+    EMPTY: '',
+  });
+});
+
+test('parseNetrc maps machines to passwords, with default and macdef handling', () => {
+  const entries = parseNetrc(`
+    # Tokens
+    machine api.github.com login me password ghp_one
+    machine api.linear.app
+      login me
+      password lin_two
+    default login anyone password fallback_pw
+    macdef init
+    machine evil.example.com password never
+  `);
+
+  assert.deepEqual(Object.fromEntries(entries), {
+    'api.github.com': 'ghp_one',
+    'api.linear.app': 'lin_two',
+    '*': 'fallback_pw',
+  });
+});
+
+test('registered secrets are redacted from text, logs and adapter errors', () => {
+  registerSecret('tok_short_and_tok_longer');
+  registerSecret('tok_short');
+  registerSecret('abc');
+
+  assert.equal(redactSecrets('key tok_short_and_tok_longer, abc'), 'key [REDACTED], abc');
+
+  const logged: unknown[][] = [];
+  const log = redactingLogger((...args) => logged.push(args));
+  log('sent tok_short', { header: 'Bearer tok_short' }, 42);
+  assert.deepEqual(logged, [['sent [REDACTED]', '{"header":"Bearer [REDACTED]"}', 42]]);
+
+  assert.equal(new AdapterError('bad key tok_short', 'linear', 'auth').message, '[linear] auth: bad key [REDACTED]');
+});
+
+test('Credential prefers an explicit value, then tries names in order', async () => {
+  const env = new EnvCredentialProvider({ GH_TOKEN: 'gh_fallback_token' });
+
+  assert.equal(await new Credential(env, ['GITHUB_TOKEN', 'GH_TOKEN']).get(), 'gh_fallback_token');
+  assert.equal(await new Credential(env, ['GITHUB_TOKEN', 'GH_TOKEN'], 'explicit_token').get(), 'explicit_token');
+  assert.equal(await new Credential(env, ['GITHUB_TOKEN']).get(), undefined);
+});
+
+test('a locked git-crypt file is reported, not parsed', async () => {
+  await withDir(async dir => {
+    const file = path.join(dir, 'secrets.env');
+    await fs.writeFile(file, Buffer.concat([Buffer.from('\0GITCRYPT\0'), Buffer.from([1, 2, 3])]));
+
+    await assert.rejects(new GitCryptCredentialProvider(file).get('LINEAR_API_KEY'), CredentialError);
+    assert.equal(await new GitCryptCredentialProvider(path.join(dir, 'missing.env')).get('LINEAR_API_KEY'), undefined);
+  });
+});
+
+test('a command provider uses the first line of output', async () => {
+  const provider = new CommandCredentialProvider('printf "value_for_{key}\\nsecond line"');
+
+  assert.equal(await provider.get('LINEAR_API_KEY'), 'value_for_LINEAR_API_KEY');
+  assert.equal(await new CommandCredentialProvider('exit 1').get('LINEAR_API_KEY'), undefined);
+  await assert.rejects(provider.get('KEY; rm -rf /'), /Invalid credential name/);
+});
+
+test('config.yaml providers chain in order, with per-credential overrides', async () => {
+  await withDir(async dir => {
+    await fs.mkdir(path.join(dir, '.claude'));
+    await fs.writeFile(path.join(dir, '.env'), 'LINEAR_API_KEY=from_dotenv\nGITHUB_TOKEN=from_dotenv\n', 'utf8');
+    await fs.writeFile(path.join(dir, '.netrc'), 'machine api.github.com password from_netrc\n', 'utf8');
+    await fs.writeFile(path.join(dir, '.claude', 'config.yaml'), [
+      'wave-planner:',
+      '  credentials:',
+      '    providers:',
+      '      - env',
+      '      - dotenv: .env',
+      '    overrides:',
+      '      GITHUB_TOKEN:',
+      '        netrc: .netrc',
+      '',
+    ].join('\n'), 'utf8');
+
+    const provider = await loadCredentialProvider({
+      projectRoot: dir,
+      homeDir: dir,
+      env: { JIRA_API_TOKEN: 'from_env' },
+    });
+
+    assert.equal(await provider.get('JIRA_API_TOKEN'), 'from_env');
+    assert.equal(await provider.get('LINEAR_API_KEY'), 'from_dotenv');
+    assert.equal(await provider.get('GITHUB_TOKEN'), 'from_netrc');
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * Credential Providers
+ *
+ * Adapters look secrets up by name (LINEAR_API_KEY, GITHUB_TOKEN,
+ * JIRA_API_TOKEN) through a CredentialProvider instead of reading
+ * process.env directly. Providers cover environment variables, dotenv
+ * files, .netrc, an external command (pass, a vault CLI) and git-crypt'd
+ * project files, and chain so the first one with a value wins.
+ *
+ * Every secret a provider returns is registered for redaction: AdapterError
+ * messages and redactingLogger output replace it with "[REDACTED]".
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig, getConfigValue, ConfigLoadOptions } from '../lib/config';
+import type { YamlValue } from '../lib/yaml';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CredentialProvider {
+  readonly name: string;
+
+  /** Value for a credential name, or undefined if this provider has none */
+  get(key: string): Promise<string | undefined>;
+}
+
+export class CredentialError extends Error {
+  constructor(message: string, public readonly provider: string) {
+    super(redactSecrets(`[${provider}] ${message}`));
+    this.name = 'CredentialError';
+  }
+}
+
+/** Hosts looked up in .netrc for each credential name */
+export const NETRC_MACHINES: Record<string, string> = {
+  LINEAR_API_KEY: 'api.linear.app',
+  GITHUB_TOKEN: 'api.github.com',
+  GH_TOKEN: 'api.github.com',
+};
+
+// Key for a .netrc `default` entry; not a valid host name
+const NETRC_DEFAULT = '*';
+
+const GIT_CRYPT_HEADER = Buffer.from('\0GITCRYPT\0');
+
+const REDACTED = '[REDACTED]';
+
+// Shorter values are too likely to occur in ordinary text
+const MIN_SECRET_LENGTH = 6;
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+const knownSecrets = new Set<string>();
+
+/**
+ * Mark a value as secret so it's removed from error messages and logs
+ */
+export function registerSecret(value: string | undefined): void {
+  if (value && value.length >= MIN_SECRET_LENGTH) {
+    knownSecrets.add(value);
+  }
+}
+
+/** Register a value a provider is about to return */
+function revealed(value: string | undefined): string | undefined {
+  registerSecret(value);
+  return value;
+}
+
+/**
+ * Replace every registered secret in `text` with "[REDACTED]"
+ */
+export function redactSecrets(text: string): string {
+  let result = text;
+  // Longest first, so a secret containing another is removed whole
+  for (const secret of [...knownSecrets].sort((a, b) => b.length - a.length)) {
+    result = result.split(secret).join(REDACTED);
+  }
+  return result;
+}
+
+/**
+ * Wrap a log function (default: console.debug) so secrets never reach it
+ */
+export function redactingLogger(
+  log: (...args: unknown[]) => void = console.debug
+): (...args: unknown[]) => void {
+  return (...args) => log(...args.map(arg =>
+    typeof arg === 'string'
+      ? redactSecrets(arg)
+      : arg instanceof Error
+        ? redactSecrets(arg.stack || arg.message)
+        : typeof arg === 'object' && arg !== null
+          ? redactSecrets(JSON.stringify(arg))
+          : arg
+  ));
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+export class EnvCredentialProvider implements CredentialProvider {
+  readonly name = 'env';
+
+  constructor(private env: Record<string, string | undefined> = process.env) {}
+
+  async get(key: string): Promise<string | undefined> {
+    return revealed(this.env[key] || undefined);
+  }
+}
+
+/**
+ * KEY=value lines, as read by dotenv: `export` prefixes, quoted values and
+ * comments are understood; variable expansion is not
+ */
+export class DotenvCredentialProvider implements CredentialProvider {
+  readonly name: string = 'dotenv';
+  private values?: Promise<Map<string, string>>;
+
+  constructor(protected file: string) {}
+
+  async get(key: string): Promise<string | undefined> {
+    this.values ??= this.load();
+    return revealed((await this.values).get(key));
+  }
+
+  protected async read(): Promise<string | null> {
+    try {
+      return await fs.readFile(this.file, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw new CredentialError(`Cannot read ${this.file}: ${error.message}`, this.name);
+    }
+  }
+
+  private async load(): Promise<Map<string, string>> {
+    const text = await this.read();
+    return text === null ? new Map() : parseDotenv(text);
+  }
+}
+
+/**
+ * A dotenv file committed with git-crypt. In an unlocked checkout the file
+ * is plain text; a locked one still holds ciphertext, which is reported
+ * rather than parsed as garbage.
+ */
+export class GitCryptCredentialProvider extends DotenvCredentialProvider {
+  readonly name = 'git-crypt';
+
+  protected async read(): Promise<string | null> {
+    let data: Buffer;
+    try {
+      data = await fs.readFile(this.file);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw new CredentialError(`Cannot read ${this.file}: ${error.message}`, this.name);
+    }
+
+    if (data.subarray(0, GIT_CRYPT_HEADER.length).equals(GIT_CRYPT_HEADER)) {
+      throw new CredentialError(`${this.file} is encrypted; run \`git-crypt unlock\` first`, this.name);
+    }
+    return data.toString('utf8');
+  }
+}
+
+/**
+ * Passwords from a .netrc file (default: ~/.netrc), by API host
+ */
+export class NetrcCredentialProvider implements CredentialProvider {
+  readonly name = 'netrc';
+  private machines: Record<string, string>;
+  private entries?: Promise<Map<string, string>>;
+
+  constructor(
+    private file: string = path.join(os.homedir(), '.netrc'),
+    machines: Record<string, string> = {}
+  ) {
+    this.machines = { ...NETRC_MACHINES, ...machines };
+
+    const jiraUrl = process.env.JIRA_BASE_URL;
+    if (jiraUrl && !this.machines.JIRA_API_TOKEN) {
+      try {
+        this.machines.JIRA_API_TOKEN = new URL(jiraUrl).hostname;
+      } catch {
+        // Not a URL; the Jira adapter reports that itself
+      }
+    }
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const machine = this.machines[key];
+    if (!machine) return undefined;
+
+    this.entries ??= this.load();
+    const entries = await this.entries;
+    return revealed(entries.get(machine) ?? entries.get(NETRC_DEFAULT));
+  }
+
+  private async load(): Promise<Map<string, string>> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.file, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return new Map();
+      throw new CredentialError(`Cannot read ${this.file}: ${error.message}`, this.name);
+    }
+    return parseNetrc(text);
+  }
+}
+
+/**
+ * Run a command and use its first line of output, e.g.
+ * `pass show wave-planner/{key}` or `vault kv get -field=token secret/{key}`.
+ * `{key}` is replaced with the credential name. A command that fails or
+ * prints nothing means "no value".
+ */
+export class CommandCredentialProvider implements CredentialProvider {
+  readonly name = 'command';
+  private cache = new Map<string, Promise<string | undefined>>();
+
+  constructor(
+    private command: string,
+    private options: { timeoutMs?: number; cwd?: string } = {}
+  ) {}
+
+  async get(key: string): Promise<string | undefined> {
+    if (!/^[A-Za-z0-9_]+$/.test(key)) {
+      throw new CredentialError(`Invalid credential name: ${key}`, this.name);
+    }
+
+    if (!this.cache.has(key)) {
+      this.cache.set(key, this.run(this.command.replace(/\{key\}/g, key)));
+    }
+    return this.cache.get(key)!;
+  }
+
+  private run(command: string): Promise<string | undefined> {
+    return new Promise(resolve => {
+      execFile('/bin/sh', ['-c', command], {
+        cwd: this.options.cwd,
+        timeout: this.options.timeoutMs ?? 10000,
+        windowsHide: true,
+      }, (error, stdout) => {
+        const value = error ? '' : String(stdout).split('\n')[0].trim();
+        resolve(revealed(value || undefined));
+      });
+    });
+  }
+}
+
+/**
+ * Ask each provider in turn; the first value wins
+ */
+export class ChainCredentialProvider implements CredentialProvider {
+  readonly name = 'chain';
+
+  constructor(private providers: CredentialProvider[]) {}
+
+  async get(key: string): Promise<string | undefined> {
+    for (const provider of this.providers) {
+      const value = await provider.get(key);
+      if (value) return value;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Route some credential names to their own provider, the rest to `fallback`
+ */
+export class OverrideCredentialProvider implements CredentialProvider {
+  readonly name = 'overrides';
+
+  constructor(
+    private overrides: Record<string, CredentialProvider>,
+    private fallback: CredentialProvider
+  ) {}
+
+  async get(key: string): Promise<string | undefined> {
+    return (this.overrides[key] || this.fallback).get(key);
+  }
+}
+
+// ============================================================================
+// Credential
+// ============================================================================
+
+/**
+ * One credential an adapter needs, resolved on first use. An explicit
+ * value (AdapterConfig.apiKey) wins; otherwise the names are tried in
+ * order, e.g. GITHUB_TOKEN then GH_TOKEN.
+ */
+export class Credential {
+  private value?: Promise<string | undefined>;
+
+  constructor(
+    private provider: CredentialProvider,
+    private keys: string[],
+    explicit?: string
+  ) {
+    if (explicit) {
+      registerSecret(explicit);
+      this.value = Promise.resolve(explicit);
+    }
+  }
+
+  get(): Promise<string | undefined> {
+    this.value ??= this.resolve();
+    return this.value;
+  }
+
+  private async resolve(): Promise<string | undefined> {
+    for (const key of this.keys) {
+      const value = await this.provider.get(key);
+      if (value) return value;
+    }
+    return undefined;
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Build the provider chain from the `credentials` section of config.yaml.
+ * A project's .claude/config.yaml replaces the provider list and adds or
+ * replaces per-credential overrides. Relative paths resolve against the
+ * project root. Without configuration, credentials come from the
+ * environment.
+ */
+export async function loadCredentialProvider(
+  options: ConfigLoadOptions & { env?: Record<string, string | undefined> } = {}
+): Promise<CredentialProvider> {
+  const config = await loadConfig(options);
+  const root = options.projectRoot ?? process.cwd();
+  const home = options.homeDir ?? os.homedir();
+
+  const specs = getConfigValue(config, 'credentials.providers');
+  const chain = Array.isArray(specs) && specs.length > 0
+    ? new ChainCredentialProvider(specs.map(spec => providerFromSpec(spec, root, home, options.env)))
+    : new EnvCredentialProvider(options.env);
+
+  const overrides = getConfigValue(config, 'credentials.overrides');
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return chain;
+  }
+
+  const routed: Record<string, CredentialProvider> = {};
+  for (const [key, spec] of Object.entries(overrides)) {
+    routed[key] = providerFromSpec(spec, root, home, options.env);
+  }
+  return new OverrideCredentialProvider(routed, chain);
+}
+
+/**
+ * `env`, or a single-key map: `dotenv: path`, `netrc: path`,
+ * `command: "..."`, `git_crypt: path`
+ */
+function providerFromSpec(
+  spec: YamlValue,
+  root: string,
+  home: string,
+  env?: Record<string, string | undefined>
+): CredentialProvider {
+  if (spec === 'env') return new EnvCredentialProvider(env);
+  if (spec === 'netrc') return new NetrcCredentialProvider(path.join(home, '.netrc'));
+
+  const entries = spec && typeof spec === 'object' && !Array.isArray(spec) ? Object.entries(spec) : [];
+  if (entries.length !== 1 || typeof entries[0][1] !== 'string') {
+    throw new CredentialError(`Invalid credential provider: ${JSON.stringify(spec)}`, 'config');
+  }
+
+  const [kind, value] = entries[0] as [string, string];
+  const resolvePath = (p: string) =>
+    p.startsWith('~/') ? path.join(home, p.slice(2)) : path.resolve(root, p);
+
+  switch (kind) {
+    case 'dotenv':
+      return new DotenvCredentialProvider(resolvePath(value));
+    case 'netrc':
+      return new NetrcCredentialProvider(resolvePath(value));
+    case 'git_crypt':
+      return new GitCryptCredentialProvider(resolvePath(value));
+    case 'command':
+      return new CommandCredentialProvider(value, { cwd: root });
+    default:
+      throw new CredentialError(`Unknown credential provider: ${kind}`, 'config');
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+export function parseDotenv(text: string): Map<string, string> {
+  const values = new Map<string, string>();
+
+  for (const raw of text.split(/\r?\n/)) {
+    const match = raw.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/);
+    if (!match) continue;
+
+    let value = match[2].trim();
+    const quote = value[0];
+    if ((quote === '"' || quote === "'") && value.indexOf(quote, 1) > 0) {
+      value = value.slice(1, value.indexOf(quote, 1));
+      if (quote === '"') value = value.replace(/\\n/g, '\n');
+    } else {
+      value = value.replace(/\s+#.*$/, '');
+    }
+
+    values.set(match[1], value);
+  }
+
+  return values;
+}
+
+/** Machine name to password; the `default` entry is stored under NETRC_DEFAULT */
+export function parseNetrc(text: string): Map<string, string> {
+  const entries = new Map<string, string>();
+  const tokens = text.replace(/#.*$/gm, '').split(/\s+/).filter(Boolean);
+
+  let machine: string | null = null;
+  let fallback: string | null = null;
+  let isDefault = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === 'machine') {
+      machine = tokens[++i];
+      isDefault = false;
+    } else if (token === 'default') {
+      machine = null;
+      isDefault = true;
+    } else if (token === 'password') {
+      const password = tokens[++i];
+      if (machine) entries.set(machine, password);
+      else if (isDefault) fallback = password;
+    } else if (token === 'login' || token === 'account') {
+      i++;
+    } else if (token === 'macdef') {
+      // Macro bodies run to the next blank line, which split() has lost;
+      // stop rather than misread them as entries
+      break;
+    }
+  }
+
+  if (fallback !== null) entries.set(NETRC_DEFAULT, fallback);
+  return entries;
+}
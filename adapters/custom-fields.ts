@@ -0,0 +1,191 @@
+/**
+ * Custom Fields
+ *
+ * Shared handling of tracker-specific fields (Issue.customFields). Inputs
+ * and filters may name a field by display name or ID, in any case;
+ * adapters resolve those keys against listCustomFields() with
+ * `resolveCustomFields`, and the ones without native filtering match
+ * issues with `matchesCustomFields`.
+ */
+
+import {
+  Issue,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  AdapterError,
+} from './interface';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ResolvedCustomField {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue;     // Canonical: option casing, Date for date fields
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Find a field by ID or name, case-insensitively
+ */
+export function findCustomField(
+  fields: CustomFieldDefinition[],
+  key: string
+): CustomFieldDefinition | undefined {
+  const lower = key.toLowerCase();
+  return fields.find(f => f.id === key) || fields.find(f => f.name.toLowerCase() === lower);
+}
+
+/**
+ * Resolve the keys of `values` to field definitions and check each value
+ * against its field's type and options. Unknown fields and values outside
+ * a select field's options throw AdapterError.
+ */
+export function resolveCustomFields(
+  fields: CustomFieldDefinition[],
+  values: Record<string, CustomFieldValue>,
+  adapter: string,
+  operation: string
+): ResolvedCustomField[] {
+  return Object.entries(values).map(([key, value]) => {
+    const field = findCustomField(fields, key);
+    if (!field) {
+      const known = fields.map(f => f.name).join(', ') || 'none';
+      throw new AdapterError(`Unknown custom field "${key}" (known: ${known})`, adapter, operation);
+    }
+    return { field, value: coerceValue(field, value, adapter, operation) };
+  });
+}
+
+function coerceValue(
+  field: CustomFieldDefinition,
+  value: CustomFieldValue,
+  adapter: string,
+  operation: string
+): CustomFieldValue {
+  if (value === null) return null;
+
+  const invalid = (expected: string) => new AdapterError(
+    `Custom field "${field.name}" expects ${expected}, got ${JSON.stringify(value)}`,
+    adapter,
+    operation
+  );
+
+  switch (field.type) {
+    case 'number':
+      if (typeof value !== 'number') throw invalid('a number');
+      return value;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') throw invalid('true or false');
+      return value;
+
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(String(value));
+      if (isNaN(date.getTime())) throw invalid('a date');
+      return date;
+    }
+
+    case 'select':
+    case 'multiselect': {
+      // Filters pass arrays to mean "any of", so both shapes are accepted
+      const names = Array.isArray(value) ? value : [String(value)];
+      const options = names.map(name => {
+        if (!field.options) return name;
+        const option = field.options.find(o => o.toLowerCase() === name.toLowerCase());
+        if (!option) throw invalid(`one of ${field.options.join(', ')}`);
+        return option;
+      });
+      return Array.isArray(value) ? options : options[0];
+    }
+
+    default:
+      return Array.isArray(value) ? value.map(String) : String(value);
+  }
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Read a field from an issue by name, case-insensitively
+ */
+export function customFieldValue(issue: Issue, name: string): CustomFieldValue | undefined {
+  const fields = issue.customFields || {};
+  if (name in fields) return fields[name];
+
+  const key = Object.keys(fields).find(k => k.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : fields[key];
+}
+
+/**
+ * True when the issue matches every resolved filter. An array matches
+ * any of its values; null matches an unset field.
+ */
+export function matchesCustomFields(issue: Issue, filters: ResolvedCustomField[]): boolean {
+  return filters.every(({ field, value }) => {
+    const actual = customFieldValue(issue, field.name);
+    if (value === null) return actual === undefined || actual === null;
+    if (actual === undefined || actual === null) return false;
+
+    const wanted = (Array.isArray(value) ? value : [value]).map(comparable);
+    const present = (Array.isArray(actual) ? actual : [actual]).map(comparable);
+    return wanted.some(v => present.includes(v));
+  });
+}
+
+function comparable(value: string | number | boolean | Date): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value).toLowerCase();
+}
+
+// ============================================================================
+// Discovery
+// ============================================================================
+
+/**
+ * Field definitions implied by the values issues carry, for trackers with
+ * no schema. Arrays become multiselect fields whose options are every
+ * value seen.
+ */
+export function inferCustomFields(
+  values: Array<Record<string, CustomFieldValue> | undefined>
+): CustomFieldDefinition[] {
+  const fields = new Map<string, CustomFieldDefinition>();
+
+  for (const record of values) {
+    for (const [name, value] of Object.entries(record || {})) {
+      if (value === null) continue;
+
+      const key = name.toLowerCase();
+      const field = fields.get(key) || { id: name, name, type: inferType(value) };
+      if (Array.isArray(value)) {
+        field.options = [...new Set([...(field.options || []), ...value])];
+      }
+      fields.set(key, field);
+    }
+  }
+
+  return [...fields.values()];
+}
+
+function inferType(value: Exclude<CustomFieldValue, null>): CustomFieldDefinition['type'] {
+  if (Array.isArray(value)) return 'multiselect';
+  if (value instanceof Date) return 'date';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'string';
+}
+
+/**
+ * Render a value for descriptions and wave names
+ */
+export function formatCustomFieldValue(value: CustomFieldValue | undefined): string {
+  if (value === undefined || value === null) return '(none)';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+}
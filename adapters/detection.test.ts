@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { detectAdapter } from './interface';
+import { DetectionOptions, detectAdapterWithReport, loadDetectionConfig } from './detection';
+
+const BOTH = { LINEAR_API_KEY: 'lin_api_x', GITHUB_TOKEN: 'ghp_x' };
+const NO_PROMPT_STEP = ['check_claude_md', 'check_skill_availability', 'check_environment'];
+
+/** An empty project and home directory, so only the given files count */
+async function withDirs(fn: (options: DetectionOptions, root: string) => Promise<void>) {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-detect-'));
+  try {
+    await fs.mkdir(path.join(root, 'home'));
+    await fs.mkdir(path.join(root, 'project'));
+    await fn({ projectRoot: path.join(root, 'project'), homeDir: path.join(root, 'home'), env: {} }, root);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+test('the fallback defaults to linear, as in config.yaml', async () => {
+  await withDirs(async options => {
+    assert.equal((await loadDetectionConfig(options)).fallback, 'linear');
+
+    const report = await detectAdapterWithReport(options);
+    assert.equal(report.adapter, 'linear');
+    assert.equal(report.decidedBy, 'fallback');
+  });
+});
+
+test('fallback: none in config.yaml disables the fallback', async () => {
+  await withDirs(async (options, root) => {
+    await fs.mkdir(path.join(root, 'project', '.claude'));
+    await fs.writeFile(path.join(root, 'project', '.claude', 'config.yaml'),
+      'wave-planner:\n  adapters:\n    fallback: none\n', 'utf8');
+
+    assert.equal(await detectAdapter(options), null);
+  });
+});
+
+test('detectAdapter returns null when credentials for several trackers are set', async () => {
+  await withDirs(async options => {
+    assert.equal(await detectAdapter({ ...options, env: BOTH }), null);
+
+    const report = await detectAdapterWithReport({ ...options, env: BOTH });
+    assert.equal(report.needsPrompt, true);
+    assert.deepEqual(report.candidates, ['linear', 'github']);
+
+    const chosen = await detectAdapterWithReport({ ...options, env: BOTH, prompt: async () => 'github' });
+    assert.equal(chosen.adapter, 'github');
+    assert.equal(chosen.decidedBy, 'prompt_user');
+  });
+});
+
+test('without prompt_user, ambiguity goes to the fallback, else the first candidate', async () => {
+  await withDirs(async options => {
+    const env = { GITHUB_TOKEN: 'ghp_x', WAVE_PLANNER_ISSUES_DIR: '/tmp/issues' };
+
+    const fallback = await detectAdapterWithReport({ ...options, env, config: { detectionOrder: NO_PROMPT_STEP, fallback: 'file' } });
+    assert.equal(fallback.adapter, 'file');
+    assert.equal(fallback.decidedBy, 'fallback');
+
+    const first = await detectAdapterWithReport({ ...options, env, config: { detectionOrder: NO_PROMPT_STEP } });
+    assert.equal(first.adapter, 'github');
+    assert.equal(first.decidedBy, 'first-candidate');
+  });
+});
+
+test('a CLAUDE.md declaration decides between credentials', async () => {
+  await withDirs(async (options, root) => {
+    await fs.writeFile(path.join(root, 'project', 'CLAUDE.md'), '# Notes\n\n- **Issue tracker**: GitHub Issues\n', 'utf8');
+
+    const report = await detectAdapterWithReport({ ...options, env: BOTH });
+    assert.equal(report.adapter, 'github');
+    assert.equal(report.decidedBy, 'check_claude_md');
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * PM Tool Detection
+ *
+ * Picks the adapter for a planning session from the `adapters` section of
+ * config.yaml: a `preferred` tool, or (with `preferred: auto`) the steps
+ * in `detection_order`, then `fallback`. Each step narrows the candidates
+ * left by the previous one; a step that leaves exactly one decides.
+ *
+ * Steps:
+ * - check_claude_md: a declared tool in CLAUDE.md ("PM tool: Linear")
+ * - check_skill_availability: installed linear/github/jira skills
+ * - check_environment: credentials in environment variables
+ * - prompt_user: ask, if candidates are still ambiguous
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AdapterType,
+  AdapterConfig,
+  PMAdapter,
+  createAdapter,
+} from './interface';
+import { loadCredentialProvider, redactingLogger } from './credentials';
+import { loadMappings, assertValidMappings } from './mappings';
+import { loadConfig, getConfigValue, ConfigLoadOptions, ConfigMap } from '../lib/config';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DetectionStep =
+  | 'check_claude_md'
+  | 'check_skill_availability'
+  | 'check_environment'
+  | 'prompt_user';
+
+export interface DetectionConfig {
+  preferred: AdapterType | 'auto';
+  detectionOrder: string[];
+  fallback: AdapterType | null;
+  dryRun: boolean;            // debug.dry_run
+}
+
+export interface DetectionOptions extends ConfigLoadOptions {
+  env?: Record<string, string | undefined>;   // Default: process.env
+
+  /** Overrides on top of config.yaml */
+  config?: Partial<DetectionConfig>;
+
+  /** Asked at the prompt_user step; without it, ambiguity is reported instead */
+  prompt?: (candidates: AdapterType[]) => Promise<AdapterType | null>;
+
+  /** Check mapped workflow states against the tracker (default: true) */
+  validateMappings?: boolean;
+
+  /** Where mapping warnings go (default: console.warn, redacted) */
+  log?: (message: string) => void;
+}
+
+export interface DetectionStepResult {
+  step: string;
+  found: AdapterType[];
+  detail: string;
+}
+
+export interface AdapterVerdict {
+  adapter: AdapterType;
+  chosen: boolean;
+  reason: string;
+}
+
+export interface DetectionReport {
+  adapter: AdapterType | null;
+  decidedBy: 'preferred' | DetectionStep | 'fallback' | 'first-candidate' | null;
+  needsPrompt: boolean;       // Still ambiguous and no prompt was given
+  candidates: AdapterType[];  // Left in the running when detection stopped
+  steps: DetectionStepResult[];
+  verdicts: AdapterVerdict[];
+  dryRun: boolean;
+}
+
+/** Adapters detection chooses between; "memory" is for tests only */
+const DETECTABLE: AdapterType[] = ['linear', 'github', 'jira', 'file'];
+
+const SKILL_ADAPTERS: AdapterType[] = ['linear', 'github', 'jira'];
+
+export const DEFAULT_DETECTION_CONFIG: DetectionConfig = {
+  preferred: 'auto',
+  detectionOrder: ['check_claude_md', 'check_skill_availability', 'check_environment', 'prompt_user'],
+  fallback: 'linear',         // As in config.yaml
+  dryRun: false,
+};
+
+const TOOL_NAMES: Array<[RegExp, AdapterType]> = [
+  [/^linear$/i, 'linear'],
+  [/^github(?:[ _-]issues)?$/i, 'github'],
+  [/^jira$/i, 'jira'],
+  [/^(?:files?|local(?:[ _-]files?)?)$/i, 'file'],
+];
+
+// "PM tool: Linear", "- **Issue tracker**: GitHub Issues", "pm_tool = jira"
+const DECLARATION_PATTERN =
+  /\b(?:pm[ _-]?tool|project[ _-]management(?:[ _-]tool)?|issue[ _-]tracker|tracker)\b[*_`\s]*[:=][*_`\s]*([a-z][\w -]*?)[*_`\s]*(?:$|[.,;(])/im;
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Run the configured detection pipeline and explain the outcome
+ */
+export async function detectAdapterWithReport(options: DetectionOptions = {}): Promise<DetectionReport> {
+  const config = await loadDetectionConfig(options);
+  const steps: DetectionStepResult[] = [];
+
+  const finish = (
+    adapter: AdapterType | null,
+    decidedBy: DetectionReport['decidedBy'],
+    candidates: AdapterType[],
+    needsPrompt = false
+  ): DetectionReport => ({
+    adapter,
+    decidedBy,
+    needsPrompt,
+    candidates,
+    steps,
+    verdicts: explain(adapter, decidedBy, steps, candidates, needsPrompt),
+    dryRun: config.dryRun,
+  });
+
+  if (config.preferred !== 'auto') {
+    return finish(config.preferred, 'preferred', [config.preferred]);
+  }
+
+  let candidates: AdapterType[] | null = null;
+
+  for (const step of config.detectionOrder) {
+    if (step === 'prompt_user') {
+      if (!candidates || candidates.length < 2) {
+        steps.push({ step, found: [], detail: 'Nothing ambiguous to ask about' });
+        continue;
+      }
+
+      if (!options.prompt) {
+        steps.push({ step, found: [], detail: `Ask the user to choose between ${candidates.join(', ')}` });
+        return finish(null, null, candidates, true);
+      }
+
+      const answer = await options.prompt(candidates);
+      steps.push({ step, found: answer ? [answer] : [], detail: answer ? `User chose ${answer}` : 'User declined to choose' });
+      if (answer) return finish(answer, step, [answer]);
+      continue;
+    }
+
+    const result = await runStep(step, options);
+    steps.push(result);
+    if (result.found.length === 0) continue;
+
+    // Narrow earlier candidates; a step that contradicts them all doesn't override
+    const narrowed: AdapterType[] = candidates
+      ? candidates.filter(c => result.found.includes(c))
+      : result.found;
+    if (narrowed.length === 0) continue;
+
+    candidates = narrowed;
+    if (candidates.length === 1) {
+      return finish(candidates[0], step as DetectionStep, candidates);
+    }
+  }
+
+  if (candidates && candidates.length > 1) {
+    // Ambiguous, and prompt_user isn't in the order: the fallback if it's
+    // in the running, else the first candidate
+    return config.fallback && candidates.includes(config.fallback)
+      ? finish(config.fallback, 'fallback', candidates)
+      : finish(candidates[0], 'first-candidate', candidates);
+  }
+
+  return finish(config.fallback, config.fallback ? 'fallback' : null, config.fallback ? [config.fallback] : []);
+}
+
+/**
+ * Create the detected adapter, applying debug.dry_run, the configured
+ * credential providers and the team's workflow mappings. Mapped states are
+ * checked against the tracker (MappingError if one doesn't exist; warnings
+ * go to `log`). Returns null when detection needs the user to choose (see
+ * detectAdapterWithReport).
+ */
+export async function createDetectedAdapter(
+  options: DetectionOptions = {},
+  overrides: Partial<AdapterConfig> = {}
+): Promise<PMAdapter | null> {
+  const report = await detectAdapterWithReport(options);
+  if (!report.adapter) return null;
+
+  const credentials = await loadCredentialProvider(options);
+  const team = overrides.teamId || overrides.repository;
+  const mappings = await loadMappings(report.adapter, team, options);
+
+  const adapter = createAdapter({ type: report.adapter, dryRun: report.dryRun, credentials, mappings, ...overrides });
+
+  if (options.validateMappings !== false && Object.keys(mappings.states || {}).length > 0) {
+    const log = options.log || redactingLogger(console.warn);
+    for (const warning of await assertValidMappings(adapter, mappings)) {
+      log(warning);
+    }
+  }
+
+  return adapter;
+}
+
+/**
+ * Render a detection report, one line per step and per adapter
+ */
+export function formatDetectionReport(report: DetectionReport): string {
+  const lines = report.steps.map(s =>
+    `• ${s.step}: ${s.detail}`
+  );
+
+  for (const v of report.verdicts) {
+    lines.push(`${v.chosen ? '✅' : '▫️'} ${v.adapter}: ${v.reason}`);
+  }
+
+  lines.push(report.adapter
+    ? `Using ${report.adapter}${report.dryRun ? ' (dry run)' : ''}`
+    : report.needsPrompt
+      ? `Ambiguous: choose one of ${report.candidates.join(', ')}`
+      : 'No PM tool detected');
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export async function loadDetectionConfig(options: DetectionOptions = {}): Promise<DetectionConfig> {
+  const config = await loadConfig(options);
+  return { ...fromConfig(config), ...options.config };
+}
+
+function fromConfig(config: ConfigMap): DetectionConfig {
+  const preferred = getConfigValue(config, 'adapters.preferred');
+  const order = getConfigValue(config, 'adapters.detection_order');
+  const fallback = getConfigValue(config, 'adapters.fallback');
+  const dryRun = getConfigValue(config, 'debug.dry_run');
+
+  return {
+    preferred: preferred === 'auto' || preferred === undefined || preferred === null
+      ? DEFAULT_DETECTION_CONFIG.preferred
+      : toAdapterType(String(preferred)) ?? DEFAULT_DETECTION_CONFIG.preferred,
+    detectionOrder: Array.isArray(order)
+      ? order.map(String)
+      : DEFAULT_DETECTION_CONFIG.detectionOrder,
+    fallback: fallback === undefined
+      ? DEFAULT_DETECTION_CONFIG.fallback
+      : fallback === null || fallback === 'none' ? null : toAdapterType(String(fallback)),
+    dryRun: dryRun === undefined ? DEFAULT_DETECTION_CONFIG.dryRun : dryRun === true,
+  };
+}
+
+// ============================================================================
+// Steps
+// ============================================================================
+
+async function runStep(step: string, options: DetectionOptions): Promise<DetectionStepResult> {
+  switch (step) {
+    case 'check_claude_md':
+      return checkClaudeMd(options);
+    case 'check_skill_availability':
+      return checkSkills(options);
+    case 'check_environment':
+      return checkEnvironment(options);
+    default:
+      return { step, found: [], detail: 'Unknown detection step, skipped' };
+  }
+}
+
+async function checkClaudeMd(options: DetectionOptions): Promise<DetectionStepResult> {
+  const root = options.projectRoot ?? process.cwd();
+  const home = options.homeDir ?? os.homedir();
+  const files = [
+    path.join(root, 'CLAUDE.md'),
+    path.join(root, '.claude', 'CLAUDE.md'),
+    path.join(home, '.claude', 'CLAUDE.md'),
+  ];
+
+  for (const file of files) {
+    const text = await readOptional(file);
+    if (text === null) continue;
+
+    const match = text.match(DECLARATION_PATTERN);
+    const adapter = match ? toAdapterType(match[1].trim()) : null;
+    if (adapter) {
+      return { step: 'check_claude_md', found: [adapter], detail: `${file} declares "${match![1].trim()}"` };
+    }
+  }
+
+  return { step: 'check_claude_md', found: [], detail: 'No PM tool declared in CLAUDE.md' };
+}
+
+async function checkSkills(options: DetectionOptions): Promise<DetectionStepResult> {
+  const root = options.projectRoot ?? process.cwd();
+  const home = options.homeDir ?? os.homedir();
+  const found: AdapterType[] = [];
+  const dirs: string[] = [];
+
+  for (const adapter of SKILL_ADAPTERS) {
+    for (const base of [path.join(root, '.claude', 'skills'), path.join(home, '.claude', 'skills')]) {
+      const dir = path.join(base, adapter);
+      if (await isDirectory(dir)) {
+        found.push(adapter);
+        dirs.push(dir);
+        break;
+      }
+    }
+  }
+
+  return {
+    step: 'check_skill_availability',
+    found,
+    detail: found.length ? `Installed: ${dirs.join(', ')}` : 'No PM tool skills installed',
+  };
+}
+
+function checkEnvironment(options: DetectionOptions): DetectionStepResult {
+  const env = options.env ?? process.env;
+  const found: AdapterType[] = [];
+  const vars: string[] = [];
+
+  const check = (adapter: AdapterType, present: string[]) => {
+    if (present.length === 0) return;
+    found.push(adapter);
+    vars.push(...present);
+  };
+
+  check('linear', ['LINEAR_API_KEY'].filter(v => env[v]));
+  check('github', ['GITHUB_TOKEN', 'GH_TOKEN'].filter(v => env[v]).slice(0, 1));
+  check('jira', env.JIRA_API_TOKEN && env.JIRA_BASE_URL ? ['JIRA_API_TOKEN', 'JIRA_BASE_URL'] : []);
+  check('file', ['WAVE_PLANNER_ISSUES_DIR'].filter(v => env[v]));
+
+  return {
+    step: 'check_environment',
+    found,
+    detail: found.length ? `Credentials set: ${vars.join(', ')}` : 'No PM tool credentials in the environment',
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Why each adapter was or wasn't chosen */
+function explain(
+  chosen: AdapterType | null,
+  decidedBy: DetectionReport['decidedBy'],
+  steps: DetectionStepResult[],
+  candidates: AdapterType[],
+  needsPrompt: boolean
+): AdapterVerdict[] {
+  return DETECTABLE.map(adapter => {
+    const evidence = steps.filter(s => s.found.includes(adapter)).map(s => s.step);
+    const seen = evidence.length ? `found by ${evidence.join(', ')}` : 'no evidence found';
+
+    if (adapter === chosen) {
+      const why = decidedBy === 'preferred'
+        ? 'set as adapters.preferred'
+        : decidedBy === 'fallback'
+          ? `adapters.fallback (${seen})`
+          : decidedBy === 'first-candidate'
+            ? `first of the remaining candidates (${seen})`
+            : seen;
+      return { adapter, chosen: true, reason: `Chosen: ${why}` };
+    }
+
+    if (needsPrompt && evidence.length) {
+      return { adapter, chosen: false, reason: `Candidate, ${seen}; awaiting the user's choice` };
+    }
+
+    if (candidates.includes(adapter) && (decidedBy === 'fallback' || decidedBy === 'first-candidate')) {
+      const tieBreak = decidedBy === 'fallback' ? `${chosen} is adapters.fallback` : `${chosen} comes first`;
+      return { adapter, chosen: false, reason: `Not chosen: ${seen}, but still ambiguous and ${tieBreak}` };
+    }
+
+    return {
+      adapter,
+      chosen: false,
+      reason: chosen ? `Not chosen: ${seen}, and ${chosen} was chosen first` : `Not chosen: ${seen}`,
+    };
+  });
+}
+
+function toAdapterType(name: string): AdapterType | null {
+  return TOOL_NAMES.find(([pattern]) => pattern.test(name))?.[1] ?? null;
+}
+
+async function readOptional(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+async function isDirectory(dir: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dir)).isDirectory();
+  } catch {
+    return false;
+  }
+}
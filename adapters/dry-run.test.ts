@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { DryRunAdapter } from './dry-run';
+import { MemoryAdapter } from './memory';
+
+test('planned issues can be referred to by identifier and replay in order', async () => {
+  const inner = new MemoryAdapter();
+  const dryRun = new DryRunAdapter(inner);
+
+  const epic = await dryRun.createIssue({ title: 'Epic' });
+  assert.equal(epic.identifier, 'DRY-1');
+  await dryRun.updateIssue('DRY-1', { title: 'Checkout epic', priority: 'P1-High' });
+  await dryRun.createSubIssue('DRY-1', { title: 'Payment form' });
+
+  // The update is part of the preview
+  const previewed = await dryRun.getIssue('DRY-1');
+  assert.equal(previewed?.title, 'Checkout epic');
+  assert.equal((await dryRun.getIssue('DRY-2'))?.parent?.title, 'Checkout epic');
+  assert.deepEqual(await inner.listIssues(), []);
+
+  dryRun.approve();
+  const result = await dryRun.replay();
+  assert.equal(result.failed, undefined);
+  assert.equal(result.applied.length, 3);
+
+  const [created] = (await inner.listIssues()).filter(i => !i.parent);
+  assert.equal(created.title, 'Checkout epic');
+  assert.equal(created.priority, 'P1-High');
+  assert.deepEqual((await inner.listIssues()).find(i => i.parent)?.parent?.id, created.id);
+});
+
+test('updates to existing issues are overlaid on later reads', async () => {
+  const inner = new MemoryAdapter();
+  const existing = await inner.createIssue({ title: 'Existing', priority: 'P3-Low' });
+  const dryRun = new DryRunAdapter(inner);
+
+  await dryRun.updateIssue(existing.identifier, { title: 'Renamed' });
+  await dryRun.updateIssue(existing.id, { priority: 'P0-Critical' });
+
+  const previewed = await dryRun.getIssue(existing.identifier);
+  assert.equal(previewed?.title, 'Renamed');
+  assert.equal(previewed?.priority, 'P0-Critical');
+
+  const child = await dryRun.createSubIssue(existing.id, { title: 'Follow-up' });
+  assert.equal(child.parent?.title, 'Renamed');
+  assert.equal((await inner.getIssue(existing.id))?.title, 'Existing');
+});
+
+test('replay stops at a change that needs a rejected create', async () => {
+  const inner = new MemoryAdapter();
+  const dryRun = new DryRunAdapter(inner);
+
+  await dryRun.createIssue({ title: 'Rejected' });
+  await dryRun.addComment('DRY-1', 'Depends on the rejected issue');
+  dryRun.reject([1]);
+  dryRun.approve([2]);
+
+  const result = await dryRun.replay();
+
+  assert.deepEqual(result.skipped.map(c => c.id), [1]);
+  assert.equal(result.failed?.change.id, 2);
+  assert.match(result.failed!.error.message, /dry-run-issue-1, which was not created/);
+});
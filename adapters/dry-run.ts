@@ -0,0 +1,631 @@
+/**
+ * Dry-Run PM Adapter
+ *
+ * Wraps another PMAdapter so a planning run can be previewed: reads pass
+ * through to the wrapped adapter, while every mutation is recorded in a
+ * change set and answered with a simulated result. Once reviewed, approved
+ * changes are replayed against the real adapter.
+ *
+ * Entities created during the dry run get placeholder IDs ("dry-run-issue-1").
+ * Later calls may use them, or a planned issue's "DRY-1" identifier (e.g.
+ * createSubIssue under a planned parent); identifiers are recorded as the
+ * placeholder, and replay swaps each placeholder for the real ID as it is
+ * created. Updates to existing issues are overlaid on later reads.
+ */
+
+import {
+  PMAdapter,
+  AdapterCapabilities,
+  Project,
+  Milestone,
+  Issue,
+  IssueFilter,
+  CreateIssueInput,
+  UpdateIssueInput,
+  BatchOptions,
+  BatchResult,
+  IssueUpdateItem,
+  Comment,
+  IssueRelation,
+  IssueRelationType,
+  Label,
+  Resource,
+  ProjectUpdate,
+  Priority,
+  IssueStateType,
+  IssueState,
+  CustomFieldDefinition,
+  AdapterError,
+  NotFoundError,
+} from './interface';
+import { runBatch } from './batch';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChangeKind = 'create' | 'update' | 'comment' | 'label' | 'relation' | 'project';
+
+export type ChangeStatus = 'pending' | 'approved' | 'rejected' | 'applied';
+
+export interface Change {
+  id: number;
+  kind: ChangeKind;
+  operation: string;           // PMAdapter method, e.g. "createIssue"
+  args: unknown[];             // Arguments as called, placeholders included
+  summary: string;             // One-line description for review
+  placeholderId?: string;      // ID handed out for the entity this creates
+  status: ChangeStatus;
+}
+
+export interface ChangeSet {
+  adapter: string;
+  createdAt: Date;
+  changes: Change[];
+
+  /** Placeholder -> real ID, filled in as changes are replayed */
+  resolvedIds: Record<string, string>;
+}
+
+export interface ReplayResult {
+  applied: { change: Change; result: unknown }[];
+  skipped: Change[];           // Not approved
+  failed?: { change: Change; error: Error };
+}
+
+const PLACEHOLDER_PATTERN = /^dry-run-(issue|label|comment)-\d+$/;
+
+// ============================================================================
+// Dry-Run Adapter Implementation
+// ============================================================================
+
+export class DryRunAdapter implements PMAdapter {
+  readonly name: string;
+  readonly displayName: string;
+  readonly capabilities: AdapterCapabilities;
+
+  private changeSet: ChangeSet;
+  private planned = new Map<string, Issue>();
+  private updated = new Map<string, Issue>();
+  private plannedLabels: Label[] = [];
+  private plannedComments = new Map<string, Comment[]>();
+  private counter = 0;
+
+  constructor(private inner: PMAdapter) {
+    this.name = inner.name;
+    this.displayName = `${inner.displayName} (dry run)`;
+    this.capabilities = inner.capabilities;
+    this.changeSet = {
+      adapter: inner.name,
+      createdAt: new Date(),
+      changes: [],
+      resolvedIds: {},
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Change Set
+  // -------------------------------------------------------------------------
+
+  /** The recorded changes, in call order */
+  getChangeSet(): ChangeSet {
+    return {
+      ...this.changeSet,
+      changes: this.changeSet.changes.map(c => ({ ...c })),
+      resolvedIds: { ...this.changeSet.resolvedIds },
+    };
+  }
+
+  /** Approve pending changes for replay (all of them without IDs) */
+  approve(changeIds?: number[]): void {
+    this.setStatus('approved', changeIds);
+  }
+
+  /** Exclude pending changes from replay */
+  reject(changeIds?: number[]): void {
+    this.setStatus('rejected', changeIds);
+  }
+
+  /**
+   * Apply approved changes to the wrapped adapter (or another target).
+   * Stops at the first failure; calling again resumes from there.
+   */
+  async replay(target: PMAdapter = this.inner): Promise<ReplayResult> {
+    return replayChangeSet(this.changeSet, target);
+  }
+
+  // -------------------------------------------------------------------------
+  // Configuration
+  // -------------------------------------------------------------------------
+
+  async isConfigured(): Promise<boolean> {
+    return this.inner.isConfigured();
+  }
+
+  // -------------------------------------------------------------------------
+  // Discovery
+  // -------------------------------------------------------------------------
+
+  async listProjects(): Promise<Project[]> {
+    return this.inner.listProjects();
+  }
+
+  async getProject(idOrName: string): Promise<Project | null> {
+    return this.inner.getProject(idOrName);
+  }
+
+  async listMilestones(projectId: string): Promise<Milestone[]> {
+    return this.inner.listMilestones(projectId);
+  }
+
+  async listWorkflowStates(): Promise<IssueState[]> {
+    return this.inner.listWorkflowStates();
+  }
+
+  async listCustomFields(): Promise<CustomFieldDefinition[]> {
+    return this.inner.listCustomFields();
+  }
+
+  // -------------------------------------------------------------------------
+  // Issue Operations
+  // -------------------------------------------------------------------------
+
+  async getIssue(idOrIdentifier: string): Promise<Issue | null> {
+    const planned = this.findPlanned(idOrIdentifier);
+    if (planned) return planned;
+
+    const issue = await this.inner.getIssue(idOrIdentifier);
+    const updated = issue && this.updated.get(issue.id);
+    return updated ? { ...updated } : issue;
+  }
+
+  /**
+   * Lists existing issues only; planned issues are not merged in, since
+   * the wrapped adapter's filters can't be applied to them faithfully
+   */
+  async listIssues(filter?: IssueFilter): Promise<Issue[]> {
+    return this.inner.listIssues(filter);
+  }
+
+  async createIssue(data: CreateIssueInput): Promise<Issue> {
+    return this.planIssue('createIssue', [this.refParent(data)], data);
+  }
+
+  async createSubIssue(parentId: string, data: CreateIssueInput): Promise<Issue> {
+    return this.planIssue('createSubIssue', [this.ref(parentId), this.refParent(data)], { ...data, parentId });
+  }
+
+  async updateIssue(id: string, data: UpdateIssueInput): Promise<Issue> {
+    const current = await this.requireIssue(id);
+    const updated = await this.applyUpdate(current, data);
+    this.store(updated);
+
+    const fields = Object.keys(data).filter(k => (data as any)[k] !== undefined);
+    this.record('update', 'updateIssue', [this.ref(id), this.refParent(data)],
+      `Update ${current.identifier}: ${fields.join(', ')}`);
+
+    return { ...updated };
+  }
+
+  /** One at a time, so planned identifiers follow input order */
+  async batchCreateIssues(inputs: CreateIssueInput[], _options: BatchOptions = {}): Promise<BatchResult<Issue>[]> {
+    return runBatch(inputs, data => this.createIssue(data), 1);
+  }
+
+  async batchUpdateIssues(updates: IssueUpdateItem[], _options: BatchOptions = {}): Promise<BatchResult<Issue>[]> {
+    return runBatch(updates, ({ id, data }) => this.updateIssue(id, data), 1);
+  }
+
+  // -------------------------------------------------------------------------
+  // Comments
+  // -------------------------------------------------------------------------
+
+  /** Existing comments followed by the ones planned in this dry run */
+  async listComments(issueId: string): Promise<Comment[]> {
+    const issue = await this.requireIssue(issueId);
+    const existing = this.planned.has(issue.id) ? [] : await this.inner.listComments(issue.id);
+    return [...existing, ...(this.plannedComments.get(issue.id) || []).map(c => ({ ...c }))];
+  }
+
+  async addComment(issueId: string, body: string): Promise<Comment> {
+    const issue = await this.requireIssue(issueId);
+    const placeholderId = this.placeholder('comment');
+
+    this.record('comment', 'addComment', [this.ref(issueId), body],
+      `Comment on ${issue.identifier}: ${excerpt(body)}`, placeholderId);
+
+    return this.planComment(issue.id, placeholderId, body);
+  }
+
+  async replyToComment(issueId: string, commentId: string, body: string): Promise<Comment> {
+    const issue = await this.requireIssue(issueId);
+    const placeholderId = this.placeholder('comment');
+
+    this.record('comment', 'replyToComment', [this.ref(issueId), commentId, body],
+      `Reply on ${issue.identifier}: ${excerpt(body)}`, placeholderId);
+
+    return this.planComment(issue.id, placeholderId, body, commentId);
+  }
+
+  async updateComment(issueId: string, commentId: string, body: string): Promise<Comment> {
+    const issue = await this.requireIssue(issueId);
+    const current = (await this.listComments(issue.id)).find(c => c.id === commentId);
+    if (!current) {
+      throw new NotFoundError(this.name, 'Comment', commentId);
+    }
+
+    this.record('comment', 'updateComment', [this.ref(issueId), commentId, body],
+      `Edit comment on ${issue.identifier}: ${excerpt(body)}`);
+
+    const updated = { ...current, body, updatedAt: new Date() };
+    const planned = this.plannedComments.get(issue.id)?.find(c => c.id === commentId);
+    if (planned) Object.assign(planned, updated);
+
+    return updated;
+  }
+
+  // -------------------------------------------------------------------------
+  // Relations
+  // -------------------------------------------------------------------------
+
+  async createRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Promise<IssueRelation> {
+    const [issue, related] = await Promise.all([
+      this.requireIssue(issueId),
+      this.requireIssue(relatedIssueId),
+    ]);
+
+    this.record('relation', 'createRelation', [this.ref(issueId), this.ref(relatedIssueId), type],
+      `Relate ${issue.identifier} ${type} ${related.identifier}`);
+
+    return { type, issue: related };
+  }
+
+  async removeRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Promise<void> {
+    const [issue, related] = await Promise.all([
+      this.requireIssue(issueId),
+      this.requireIssue(relatedIssueId),
+    ]);
+
+    this.record('relation', 'removeRelation', [this.ref(issueId), this.ref(relatedIssueId), type],
+      `Remove ${issue.identifier} ${type} ${related.identifier}`);
+  }
+
+  // -------------------------------------------------------------------------
+  // Labels
+  // -------------------------------------------------------------------------
+
+  async listLabels(teamId?: string): Promise<Label[]> {
+    const labels = await this.inner.listLabels(teamId);
+    return [...labels, ...this.plannedLabels.map(l => ({ ...l }))];
+  }
+
+  async applyLabels(issueId: string, labelIds: string[]): Promise<void> {
+    const issue = await this.requireIssue(issueId);
+    const labels = await this.resolveLabels(labelIds);
+
+    this.store({ ...issue, labels });
+
+    this.record('label', 'applyLabels', [this.ref(issueId), labelIds],
+      `Set labels on ${issue.identifier}: ${labels.map(l => l.name).join(', ') || '(none)'}`);
+  }
+
+  async ensureLabel(name: string, teamId?: string): Promise<Label> {
+    const existing = (await this.listLabels(teamId)).find(
+      l => l.name.toLowerCase() === name.toLowerCase()
+    );
+    if (existing) return existing;
+
+    const label: Label = { id: this.placeholder('label'), name };
+    this.plannedLabels.push(label);
+    this.record('label', 'ensureLabel', teamId === undefined ? [name] : [name, teamId],
+      `Create label "${name}"`, label.id);
+
+    return { ...label };
+  }
+
+  // -------------------------------------------------------------------------
+  // Project Operations
+  // -------------------------------------------------------------------------
+
+  async linkResourceToProject(projectId: string, resource: Resource): Promise<void> {
+    this.record('project', 'linkResourceToProject', [projectId, resource],
+      `Link "${resource.label}" (${resource.url}) to project ${projectId}`);
+  }
+
+  async createProjectUpdate(projectId: string, update: ProjectUpdate): Promise<void> {
+    this.record('project', 'createProjectUpdate', [projectId, update],
+      `Post project update to ${projectId}${update.health ? ` (${update.health})` : ''}`);
+  }
+
+  async updateProjectStatus(projectId: string, status: string): Promise<void> {
+    this.record('project', 'updateProjectStatus', [projectId, status],
+      `Set project ${projectId} status to "${status}"`);
+  }
+
+  // -------------------------------------------------------------------------
+  // Utilities
+  // -------------------------------------------------------------------------
+
+  normalizePriority(priority: string): Priority {
+    return this.inner.normalizePriority(priority);
+  }
+
+  normalizeState(state: string): IssueStateType {
+    return this.inner.normalizeState(state);
+  }
+
+  buildIssueUrl(issue: Issue): string {
+    return this.inner.buildIssueUrl(issue);
+  }
+
+  buildProjectUrl(project: Project): string {
+    return this.inner.buildProjectUrl(project);
+  }
+
+  // -------------------------------------------------------------------------
+  // Private Helpers
+  // -------------------------------------------------------------------------
+
+  private placeholder(kind: 'issue' | 'label' | 'comment'): string {
+    return `dry-run-${kind}-${++this.counter}`;
+  }
+
+  private record(
+    kind: ChangeKind,
+    operation: string,
+    args: unknown[],
+    summary: string,
+    placeholderId?: string
+  ): void {
+    this.changeSet.changes.push({
+      id: this.changeSet.changes.length + 1,
+      kind,
+      operation,
+      args,
+      summary,
+      placeholderId,
+      status: 'pending',
+    });
+  }
+
+  private planComment(issueId: string, id: string, body: string, parentId?: string): Comment {
+    const comment: Comment = {
+      id,
+      body,
+      author: { id: 'dry-run', name: 'Dry run' },
+      createdAt: new Date(),
+      parentId,
+    };
+
+    this.plannedComments.set(issueId, [...(this.plannedComments.get(issueId) || []), comment]);
+    return { ...comment };
+  }
+
+  private setStatus(status: ChangeStatus, changeIds?: number[]): void {
+    const ids = changeIds ? new Set(changeIds) : null;
+
+    for (const change of this.changeSet.changes) {
+      if (change.status === 'applied') continue;
+      if (!ids || ids.has(change.id)) change.status = status;
+    }
+  }
+
+  /** Keep the previewed state of a planned or existing issue for later reads */
+  private store(issue: Issue): void {
+    (this.planned.has(issue.id) ? this.planned : this.updated).set(issue.id, issue);
+  }
+
+  /**
+   * The placeholder ID for a planned issue named by its "DRY-n" identifier,
+   * so replay can resolve it; other IDs are recorded as given
+   */
+  private ref(idOrIdentifier: string): string {
+    return this.findPlanned(idOrIdentifier)?.id ?? idOrIdentifier;
+  }
+
+  private refParent<T extends { parentId?: string }>(data: T): T {
+    return data.parentId ? { ...data, parentId: this.ref(data.parentId) } : data;
+  }
+
+  private findPlanned(idOrIdentifier: string): Issue | null {
+    const planned = this.planned.get(idOrIdentifier) || [...this.planned.values()].find(
+      i => i.identifier.toLowerCase() === idOrIdentifier.toLowerCase()
+    );
+    return planned ? { ...planned } : null;
+  }
+
+  private async requireIssue(idOrIdentifier: string): Promise<Issue> {
+    const issue = await this.getIssue(idOrIdentifier);
+    if (!issue) {
+      throw new NotFoundError(this.name, 'Issue', idOrIdentifier);
+    }
+    return issue;
+  }
+
+  private async planIssue(
+    operation: string,
+    args: unknown[],
+    data: CreateIssueInput
+  ): Promise<Issue> {
+    const parent = data.parentId ? await this.requireIssue(data.parentId) : undefined;
+    const id = this.placeholder('issue');
+
+    const issue = await this.applyUpdate({
+      id,
+      identifier: `DRY-${this.counter}`,
+      title: data.title,
+      description: '',
+      priority: 'P2-Medium',
+      state: { id: '', name: '', type: 'unstarted' },
+      labels: [],
+    }, data);
+
+    if (parent) {
+      issue.parent = parent;
+    }
+
+    this.planned.set(id, issue);
+    this.record('create', operation, args,
+      `Create ${parent ? `sub-issue of ${parent.identifier}` : 'issue'}: ${data.title}`, id);
+
+    return { ...issue };
+  }
+
+  /**
+   * Build the issue as it would look after an update, without writing
+   */
+  private async applyUpdate(issue: Issue, data: UpdateIssueInput): Promise<Issue> {
+    const result: Issue = { ...issue };
+
+    if (data.title !== undefined) result.title = data.title;
+    if (data.description !== undefined) result.description = data.description;
+    if (data.priority) result.priority = data.priority;
+    if (data.estimate !== undefined) result.estimate = data.estimate;
+    if (data.labels) result.labels = await this.resolveLabels(data.labels);
+    if (data.assignee) result.assignee = { id: data.assignee, name: data.assignee };
+    if (data.projectId) result.project = { id: data.projectId, name: data.projectId };
+    if (data.milestoneId) result.milestone = { id: data.milestoneId, name: data.milestoneId };
+
+    if (data.customFields) {
+      const fields = { ...result.customFields };
+      for (const [name, value] of Object.entries(data.customFields)) {
+        if (value === null) delete fields[name];
+        else fields[name] = value;
+      }
+      result.customFields = Object.keys(fields).length ? fields : undefined;
+    }
+
+    if (data.state) {
+      result.state = { id: data.state, name: data.state, type: this.normalizeState(data.state) };
+    }
+
+    if (data.parentId) {
+      result.parent = (await this.getIssue(data.parentId)) || undefined;
+    }
+
+    return result;
+  }
+
+  private async resolveLabels(idsOrNames: string[]): Promise<Label[]> {
+    const known = await this.listLabels();
+    return idsOrNames.map(value =>
+      known.find(l => l.id === value || l.name.toLowerCase() === value.toLowerCase()) ||
+      { id: value, name: value }
+    );
+  }
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Apply a change set's approved changes to an adapter, in recorded order.
+ * Placeholder IDs in arguments are replaced by the IDs of the entities
+ * created earlier in the replay. Works on change sets restored from JSON.
+ */
+export async function replayChangeSet(
+  changeSet: ChangeSet,
+  adapter: PMAdapter
+): Promise<ReplayResult> {
+  const result: ReplayResult = { applied: [], skipped: [] };
+
+  for (const change of changeSet.changes) {
+    if (change.status === 'applied') continue;
+    if (change.status !== 'approved') {
+      result.skipped.push(change);
+      continue;
+    }
+
+    try {
+      const args = resolvePlaceholders(change.args, changeSet.resolvedIds, change, adapter.name);
+      const method = (adapter as any)[change.operation];
+      if (typeof method !== 'function') {
+        throw new AdapterError(`Unknown operation: ${change.operation}`, adapter.name, 'replay');
+      }
+
+      const value = await method.apply(adapter, args);
+
+      if (change.placeholderId && value?.id) {
+        changeSet.resolvedIds[change.placeholderId] = value.id;
+      }
+
+      change.status = 'applied';
+      result.applied.push({ change, result: value });
+    } catch (error) {
+      result.failed = {
+        change,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Render a change set for review, one line per change
+ */
+export function formatChangeSet(changeSet: ChangeSet): string {
+  const icons: Record<ChangeStatus, string> = {
+    pending: '⏳',
+    approved: '✅',
+    rejected: '🚫',
+    applied: '✔️',
+  };
+
+  const lines = changeSet.changes.map(c =>
+    `${icons[c.status]} #${c.id} [${c.kind}] ${c.summary}`
+  );
+
+  lines.push(`${changeSet.adapter}: ${changeSet.changes.length} change(s)`);
+  return lines.join('\n');
+}
+
+function resolvePlaceholders(
+  value: unknown,
+  resolved: Record<string, string>,
+  change: Change,
+  adapter: string
+): any {
+  if (typeof value === 'string') {
+    if (!PLACEHOLDER_PATTERN.test(value)) return value;
+
+    const id = resolved[value];
+    if (!id) {
+      throw new AdapterError(
+        `Change #${change.id} refers to ${value}, which was not created (rejected or not yet approved)`,
+        adapter,
+        'replay'
+      );
+    }
+    return id;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(v => resolvePlaceholders(v, resolved, change, adapter));
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, resolvePlaceholders(v, resolved, change, adapter)])
+    );
+  }
+
+  return value;
+}
+
+/** First line of a comment body, shortened for a change summary */
+function excerpt(body: string): string {
+  const firstLine = body.split('\n')[0];
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+}
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { FileAdapter } from './file';
+
+async function tempAdapter(config: { format?: 'markdown' | 'yaml' } = {}) {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-file-'));
+  const warnings: string[] = [];
+  const adapter = new FileAdapter({ directory, user: 'tester', log: m => warnings.push(m), ...config });
+  return { adapter, directory, warnings };
+}
+
+test('indented descriptions and comments survive a reload', async () => {
+  for (const format of ['markdown', 'yaml'] as const) {
+    const { adapter, directory } = await tempAdapter({ format });
+    try {
+      const description = '    const x = 1;\nplain text';
+      const issue = await adapter.createIssue({ title: 'Indented', description });
+      await adapter.addComment(issue.id, '  indented\nok');
+
+      const reloaded = await adapter.getIssue(issue.id);
+      assert.equal(reloaded?.description, description, format);
+      assert.deepEqual((await adapter.listComments(issue.id)).map(c => c.body), ['  indented\nok']);
+      assert.equal((await adapter.listIssues()).length, 1);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  }
+});
+
+test('an unreadable issue file is skipped and reported', async () => {
+  const { adapter, directory, warnings } = await tempAdapter();
+  try {
+    await adapter.createIssue({ title: 'Good' });
+    await fs.writeFile(path.join(directory, 'issues', 'LOCAL-2.yaml'), 'title: x\n  bad: indent\n', 'utf8');
+
+    assert.deepEqual((await adapter.listIssues()).map(i => i.title), ['Good']);
+    await adapter.listIssues();
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /LOCAL-2\.yaml/);
+
+    // The broken file keeps its ID
+    const created = await adapter.createIssue({ title: 'Next' });
+    assert.equal(created.identifier, 'LOCAL-3');
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+});
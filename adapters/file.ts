@@ -0,0 +1,935 @@
+/**
+ * File PM Adapter
+ *
+ * Implements PMAdapter interface on top of a local directory, so planning
+ * works offline and before issues exist in any tracker.
+ *
+ * Layout:
+ *   <dir>/issues/<ID>.md     Markdown body with YAML frontmatter
+ *   <dir>/issues/<ID>.yaml   All fields, description included
+ *   <dir>/projects.yaml      Projects with milestones, links and updates
+ *   <dir>/labels.yaml        Label definitions
+ *   <dir>/fields.yaml        Custom field definitions (optional; fields used
+ *                            on issues exist without being declared)
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import {
+  PMAdapter,
+  AdapterCapabilities,
+  Project,
+  Milestone,
+  Issue,
+  IssueFilter,
+  CreateIssueInput,
+  UpdateIssueInput,
+  BatchOptions,
+  BatchResult,
+  IssueUpdateItem,
+  Comment,
+  IssueRelation,
+  IssueRelationType,
+  Label,
+  Resource,
+  ProjectUpdate,
+  Priority,
+  IssueStateType,
+  IssueState,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  AdapterError,
+  NotFoundError,
+  registerAdapter,
+} from './interface';
+import { runBatch } from './batch';
+import { matchesSearch, rankIssues } from './search';
+import { WorkflowMapper, WorkflowMappings } from './mappings';
+import {
+  resolveCustomFields,
+  matchesCustomFields,
+  findCustomField,
+  inferCustomFields,
+  formatCustomFieldValue,
+} from './custom-fields';
+import { parseYaml, stringifyYaml } from '../lib/yaml';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FileAdapterConfig {
+  directory?: string;          // Root directory (default: .wave-planner)
+  prefix?: string;             // Identifier prefix for new issues (default: LOCAL)
+  format?: 'markdown' | 'yaml'; // Format for new issue files (default: markdown)
+  user?: string;               // Who "me" refers to (default: $USER)
+  mappings?: WorkflowMappings; // Custom state and priority names
+  log?: (message: string) => void; // Where unreadable issue files are reported (default: console.warn)
+}
+
+/** On-disk shape of an issue file */
+interface IssueRecord {
+  id: string;
+  title: string;
+  description?: string;
+  priority?: string;
+  state?: string;
+  labels?: string[];
+  parent?: string;
+  blocks?: string[];           // Issues this one blocks; "blocked by" is derived
+  related?: string[];
+  project?: string;
+  milestone?: string;
+  assignee?: string;
+  estimate?: number;
+  customFields?: Record<string, CustomFieldValue>; // Dates stored as YYYY-MM-DD
+  createdAt?: string;
+  updatedAt?: string;
+  comments?: CommentRecord[];
+}
+
+interface CommentRecord {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: string;
+  updatedAt?: string;
+  parentId?: string;            // Comment this replies to
+}
+
+interface ProjectRecord {
+  id: string;
+  name: string;
+  description?: string;
+  state?: string;
+  milestones?: { id: string; name: string; description?: string; targetDate?: string }[];
+  links?: Resource[];
+  updates?: { body: string; health?: string; createdAt: string }[];
+}
+
+interface LoadedIssue {
+  record: IssueRecord;
+  file: string;
+}
+
+const DEFAULT_STATE = 'Todo';
+
+// ============================================================================
+// File Adapter Implementation
+// ============================================================================
+
+export class FileAdapter implements PMAdapter {
+  readonly name = 'file';
+  readonly displayName = 'Local Files';
+  readonly capabilities: AdapterCapabilities = {
+    subIssues: true,
+    projectUpdates: true,
+    projectStatuses: true,
+    milestones: true,
+    estimates: true,
+    threadedComments: true,
+    customFields: true,
+  };
+
+  private directory: string;
+  private prefix: string;
+  private format: 'markdown' | 'yaml';
+  private user: string;
+  private mapper: WorkflowMapper;
+  private log: (message: string) => void;
+  private unreadable = new Set<string>();  // Issue files skipped on the last load
+
+  constructor(config: FileAdapterConfig = {}) {
+    this.directory = path.resolve(
+      config.directory || process.env.WAVE_PLANNER_ISSUES_DIR || '.wave-planner'
+    );
+    this.prefix = config.prefix || 'LOCAL';
+    this.format = config.format || 'markdown';
+    this.user = config.user || process.env.USER || 'me';
+    this.mapper = new WorkflowMapper(config.mappings);
+    this.log = config.log || console.warn;
+  }
+
+  // -------------------------------------------------------------------------
+  // Configuration
+  // -------------------------------------------------------------------------
+
+  async isConfigured(): Promise<boolean> {
+    try {
+      const stat = await fs.stat(this.directory);
+      return stat.isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Discovery
+  // -------------------------------------------------------------------------
+
+  async listProjects(): Promise<Project[]> {
+    const projects = await this.readProjects();
+    return projects.map(p => this.mapProject(p));
+  }
+
+  async getProject(idOrName: string): Promise<Project | null> {
+    const projects = await this.listProjects();
+    const match =
+      projects.find(p => p.id === idOrName) ||
+      projects.find(p => p.name.toLowerCase().includes(idOrName.toLowerCase()));
+
+    return match || null;
+  }
+
+  async listMilestones(projectId: string): Promise<Milestone[]> {
+    const projects = await this.readProjects();
+    const project = projects.find(p => p.id === projectId);
+
+    if (!project) {
+      throw new NotFoundError(this.name, 'Project', projectId);
+    }
+
+    return (project.milestones || []).map(m => ({
+      id: m.id,
+      name: m.name,
+      description: m.description,
+      targetDate: m.targetDate ? new Date(m.targetDate) : undefined,
+      project: this.mapProject(project),
+    }));
+  }
+
+  /** States used by the issue files, plus the default for new issues */
+  async listWorkflowStates(): Promise<IssueState[]> {
+    const names = new Map<string, string>([[DEFAULT_STATE.toLowerCase(), DEFAULT_STATE]]);
+    for (const { record } of await this.loadIssues()) {
+      if (record.state) names.set(record.state.toLowerCase(), record.state);
+    }
+    return [...names.values()].map(state => this.mapState({ state } as IssueRecord));
+  }
+
+  /** Fields declared in fields.yaml, plus any used on issues */
+  async listCustomFields(): Promise<CustomFieldDefinition[]> {
+    return this.customFieldDefinitions(await this.loadIssues());
+  }
+
+  // -------------------------------------------------------------------------
+  // Issue Operations
+  // -------------------------------------------------------------------------
+
+  async getIssue(idOrIdentifier: string): Promise<Issue | null> {
+    const loaded = await this.loadIssues();
+    const match = loaded.find(
+      l => l.record.id.toLowerCase() === idOrIdentifier.toLowerCase()
+    );
+
+    return match ? this.mapIssue(match, loaded, await this.readProjects()) : null;
+  }
+
+  async listIssues(filter?: IssueFilter): Promise<Issue[]> {
+    const loaded = await this.loadIssues();
+    const projects = await this.readProjects();
+
+    const customFields = filter?.customFields
+      ? resolveCustomFields(
+          await this.customFieldDefinitions(loaded, filter.customFields),
+          filter.customFields,
+          this.name,
+          'listIssues'
+        )
+      : [];
+
+    const issues = loaded
+      .map(l => this.mapIssue(l, loaded, projects))
+      .filter(issue => this.matchesFilter(issue, filter))
+      .filter(issue => matchesCustomFields(issue, customFields));
+
+    const ranked = filter?.search ? rankIssues(issues, filter.search) : issues;
+    return ranked.slice(0, filter?.limit || 50);
+  }
+
+  async createIssue(data: CreateIssueInput): Promise<Issue> {
+    const loaded = await this.loadIssues();
+
+    if (data.parentId) {
+      this.requireRecord(loaded, data.parentId);
+    }
+
+    const now = new Date().toISOString();
+    const record: IssueRecord = {
+      id: this.nextIdentifier(loaded),
+      title: data.title,
+      description: data.description || '',
+      priority: data.priority,
+      state: data.state || DEFAULT_STATE,
+      labels: data.labels?.length ? await this.resolveLabels(data.labels) : undefined,
+      parent: data.parentId,
+      project: data.projectId,
+      milestone: data.milestoneId,
+      assignee: data.assignee ? this.resolveAssignee(data.assignee) : undefined,
+      estimate: data.estimate,
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (data.customFields) {
+      await this.setCustomFields(record, data.customFields, loaded, 'createIssue');
+    }
+
+    const extension = this.format === 'yaml' ? '.yaml' : '.md';
+    const file = path.join(this.issuesDirectory(), `${record.id}${extension}`);
+    await this.writeIssue({ record, file });
+
+    return this.requireIssue(record.id, 'createIssue');
+  }
+
+  async createSubIssue(parentId: string, data: CreateIssueInput): Promise<Issue> {
+    return this.createIssue({ ...data, parentId });
+  }
+
+  async updateIssue(id: string, data: UpdateIssueInput): Promise<Issue> {
+    const loaded = await this.loadIssues();
+    const target = this.requireRecord(loaded, id);
+    const record = target.record;
+
+    if (data.title !== undefined) record.title = data.title;
+    if (data.description !== undefined) record.description = data.description;
+    if (data.priority) record.priority = data.priority;
+    if (data.state) record.state = data.state;
+    if (data.labels) record.labels = await this.resolveLabels(data.labels);
+    if (data.assignee) record.assignee = this.resolveAssignee(data.assignee);
+    if (data.estimate !== undefined) record.estimate = data.estimate;
+    if (data.projectId) record.project = data.projectId;
+    if (data.milestoneId) record.milestone = data.milestoneId;
+    if (data.customFields) {
+      await this.setCustomFields(record, data.customFields, loaded, 'updateIssue');
+    }
+
+    if (data.parentId) {
+      const parent = this.requireRecord(loaded, data.parentId);
+      record.parent = parent.record.id;
+    }
+
+    record.updatedAt = new Date().toISOString();
+    await this.writeIssue(target);
+
+    return this.requireIssue(record.id, 'updateIssue');
+  }
+
+  /** One at a time: each write reads and rewrites the issue directory */
+  async batchCreateIssues(inputs: CreateIssueInput[], _options: BatchOptions = {}): Promise<BatchResult<Issue>[]> {
+    return runBatch(inputs, data => this.createIssue(data), 1);
+  }
+
+  async batchUpdateIssues(updates: IssueUpdateItem[], _options: BatchOptions = {}): Promise<BatchResult<Issue>[]> {
+    return runBatch(updates, ({ id, data }) => this.updateIssue(id, data), 1);
+  }
+
+  // -------------------------------------------------------------------------
+  // Comments
+  // -------------------------------------------------------------------------
+
+  async listComments(issueId: string): Promise<Comment[]> {
+    const loaded = await this.loadIssues();
+    const target = this.requireRecord(loaded, issueId);
+    return (target.record.comments || []).map(c => this.mapComment(c));
+  }
+
+  async addComment(issueId: string, body: string): Promise<Comment> {
+    return this.storeComment(issueId, body);
+  }
+
+  async replyToComment(issueId: string, commentId: string, body: string): Promise<Comment> {
+    return this.storeComment(issueId, body, commentId);
+  }
+
+  async updateComment(issueId: string, commentId: string, body: string): Promise<Comment> {
+    const loaded = await this.loadIssues();
+    const target = this.requireRecord(loaded, issueId);
+    const comment = target.record.comments?.find(c => String(c.id) === commentId);
+    if (!comment) {
+      throw new NotFoundError(this.name, 'Comment', commentId);
+    }
+
+    comment.body = body;
+    comment.updatedAt = new Date().toISOString();
+    target.record.updatedAt = comment.updatedAt;
+    await this.writeIssue(target);
+
+    return this.mapComment(comment);
+  }
+
+  // -------------------------------------------------------------------------
+  // Relations
+  // -------------------------------------------------------------------------
+
+  async createRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Promise<IssueRelation> {
+    const loaded = await this.loadIssues();
+    const issue = this.requireRecord(loaded, issueId);
+    const related = this.requireRecord(loaded, relatedIssueId);
+
+    if (issue.record.id === related.record.id) {
+      throw new AdapterError('An issue cannot be related to itself', this.name, 'createRelation');
+    }
+
+    const { owner, field, target } = this.relationSide(issue, related, type);
+    const ids = owner.record[field] || [];
+    const exists = ids.some(id => id.toLowerCase() === target.toLowerCase()) ||
+      // "related" has no direction; it may already be stored on the other side
+      (type === 'related' && (related.record.related || []).some(
+        id => id.toLowerCase() === issue.record.id.toLowerCase()
+      ));
+
+    if (!exists) {
+      owner.record[field] = [...ids, target];
+      owner.record.updatedAt = new Date().toISOString();
+      await this.writeIssue(owner);
+    }
+
+    return { type, issue: this.mapStub(related.record) };
+  }
+
+  async removeRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Promise<void> {
+    const loaded = await this.loadIssues();
+    const issue = this.requireRecord(loaded, issueId);
+    const related = this.requireRecord(loaded, relatedIssueId);
+
+    const sides = [this.relationSide(issue, related, type)];
+    if (type === 'related') {
+      sides.push(this.relationSide(related, issue, type));
+    }
+
+    for (const { owner, field, target } of sides) {
+      const ids = owner.record[field] || [];
+      const remaining = ids.filter(id => id.toLowerCase() !== target.toLowerCase());
+      if (remaining.length === ids.length) continue;
+
+      owner.record[field] = remaining.length ? remaining : undefined;
+      owner.record.updatedAt = new Date().toISOString();
+      await this.writeIssue(owner);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Labels
+  // -------------------------------------------------------------------------
+
+  async listLabels(_teamId?: string): Promise<Label[]> {
+    const data = await this.readYamlFile('labels.yaml');
+    const labels: any[] = data?.labels || [];
+
+    // Labels used on issues count as existing even if not declared
+    const declared = new Map<string, Label>(
+      labels.map(l => [String(l.name).toLowerCase(), {
+        id: String(l.name),
+        name: String(l.name),
+        color: l.color || undefined,
+        description: l.description || undefined,
+      }])
+    );
+
+    for (const { record } of await this.loadIssues()) {
+      for (const name of record.labels || []) {
+        if (!declared.has(name.toLowerCase())) {
+          declared.set(name.toLowerCase(), { id: name, name });
+        }
+      }
+    }
+
+    return [...declared.values()];
+  }
+
+  async applyLabels(issueId: string, labelIds: string[]): Promise<void> {
+    await this.updateIssue(issueId, { labels: labelIds });
+  }
+
+  async ensureLabel(name: string, _teamId?: string): Promise<Label> {
+    const data = (await this.readYamlFile('labels.yaml')) || {};
+    const labels: any[] = data.labels || [];
+    const existing = labels.find(
+      l => String(l.name).toLowerCase() === name.toLowerCase()
+    );
+
+    if (existing) {
+      return {
+        id: String(existing.name),
+        name: String(existing.name),
+        color: existing.color || undefined,
+        description: existing.description || undefined,
+      };
+    }
+
+    await this.writeYamlFile('labels.yaml', { ...data, labels: [...labels, { name }] });
+    return { id: name, name };
+  }
+
+  // -------------------------------------------------------------------------
+  // Project Operations
+  // -------------------------------------------------------------------------
+
+  async linkResourceToProject(projectId: string, resource: Resource): Promise<void> {
+    await this.updateProjectRecord(projectId, p => {
+      p.links = [...(p.links || []), resource];
+    });
+  }
+
+  async createProjectUpdate(projectId: string, update: ProjectUpdate): Promise<void> {
+    await this.updateProjectRecord(projectId, p => {
+      p.updates = [
+        ...(p.updates || []),
+        { body: update.body, health: update.health, createdAt: new Date().toISOString() },
+      ];
+    });
+  }
+
+  async updateProjectStatus(projectId: string, status: string): Promise<void> {
+    await this.updateProjectRecord(projectId, p => {
+      p.state = status;
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // Utilities
+  // -------------------------------------------------------------------------
+
+  normalizePriority(priority: string): Priority {
+    const mapped = this.mapper.priority(priority);
+    if (mapped) return mapped;
+
+    const map: Record<string, Priority> = {
+      none: 'none',
+      'no priority': 'none',
+      'p0-critical': 'P0-Critical',
+      'p1-high': 'P1-High',
+      'p2-medium': 'P2-Medium',
+      'p3-low': 'P3-Low',
+      p0: 'P0-Critical',
+      p1: 'P1-High',
+      p2: 'P2-Medium',
+      p3: 'P3-Low',
+      urgent: 'P0-Critical',
+      critical: 'P0-Critical',
+      high: 'P1-High',
+      medium: 'P2-Medium',
+      low: 'P3-Low',
+    };
+
+    const normalized = priority.toLowerCase();
+    return map[normalized] || 'P2-Medium';
+  }
+
+  normalizeState(state: string): IssueStateType {
+    const mapped = this.mapper.state(state);
+    if (mapped) return mapped;
+
+    const map: Record<string, IssueStateType> = {
+      backlog: 'backlog',
+      todo: 'unstarted',
+      'to do': 'unstarted',
+      unstarted: 'unstarted',
+      'in progress': 'started',
+      'in review': 'started',
+      started: 'started',
+      done: 'completed',
+      completed: 'completed',
+      canceled: 'canceled',
+      cancelled: 'canceled',
+    };
+
+    const normalized = state.toLowerCase();
+    return map[normalized] || 'unstarted';
+  }
+
+  buildIssueUrl(issue: Issue): string {
+    return issue.url || `file://${path.join(this.issuesDirectory(), issue.identifier)}`;
+  }
+
+  buildProjectUrl(project: Project): string {
+    return project.url || `file://${path.join(this.directory, 'projects.yaml')}#${project.id}`;
+  }
+
+  // -------------------------------------------------------------------------
+  // Private Helpers
+  // -------------------------------------------------------------------------
+
+  private issuesDirectory(): string {
+    return path.join(this.directory, 'issues');
+  }
+
+  private async loadIssues(): Promise<LoadedIssue[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.issuesDirectory());
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw new AdapterError(error.message, this.name, 'loadIssues', error);
+    }
+
+    const loaded: LoadedIssue[] = [];
+    const unreadable = new Set<string>();
+
+    for (const entry of entries.sort()) {
+      if (!/\.(md|ya?ml)$/.test(entry)) continue;
+
+      const file = path.join(this.issuesDirectory(), entry);
+      const text = await fs.readFile(file, 'utf8');
+
+      // One broken file shouldn't take the rest of the backlog with it
+      try {
+        loaded.push({ record: this.parseIssueFile(text, entry), file });
+      } catch (error: any) {
+        unreadable.add(entry);
+        if (!this.unreadable.has(entry)) {
+          this.log(`Skipping unreadable issue file ${entry}: ${error.message}`);
+        }
+      }
+    }
+
+    this.unreadable = unreadable;
+    return loaded;
+  }
+
+  private parseIssueFile(text: string, fileName: string): IssueRecord {
+    let data: any;
+    let body: string | undefined;
+
+    if (fileName.endsWith('.md')) {
+      const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)([\s\S]*)$/);
+      data = match ? parseYaml(match[1]) : {};
+      // Only the separating blank line goes; indented Markdown keeps its indentation
+      body = (match ? match[2] : text).replace(/^(?:\r?\n)+|\s+$/g, '');
+    } else {
+      data = parseYaml(text);
+    }
+
+    const fallbackId = fileName.replace(/\.(md|ya?ml)$/, '');
+    return {
+      ...data,
+      id: String(data?.id ?? fallbackId),
+      title: String(data?.title ?? fallbackId),
+      description: body ?? (data?.description || ''),
+      labels: (data?.labels || []).map(String),
+      blocks: data?.blocks ? data.blocks.map(String) : undefined,
+      related: data?.related ? data.related.map(String) : undefined,
+    };
+  }
+
+  private async writeIssue(loaded: LoadedIssue): Promise<void> {
+    const { description, ...rest } = loaded.record;
+    const text = loaded.file.endsWith('.md')
+      ? `---\n${stringifyYaml(rest)}---\n\n${description || ''}\n`
+      : stringifyYaml(loaded.record);
+
+    await fs.mkdir(path.dirname(loaded.file), { recursive: true });
+    await fs.writeFile(loaded.file, text, 'utf8');
+  }
+
+  private async readYamlFile(name: string): Promise<any> {
+    try {
+      return parseYaml(await fs.readFile(path.join(this.directory, name), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw new AdapterError(`${name}: ${error.message}`, this.name, 'read', error);
+    }
+  }
+
+  private async writeYamlFile(name: string, data: unknown): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, name), stringifyYaml(data), 'utf8');
+  }
+
+  private async readProjects(): Promise<ProjectRecord[]> {
+    const data = await this.readYamlFile('projects.yaml');
+    return (data?.projects || []).map((p: any) => ({ ...p, id: String(p.id) }));
+  }
+
+  private async updateProjectRecord(
+    projectId: string,
+    mutate: (project: ProjectRecord) => void
+  ): Promise<void> {
+    const data = (await this.readYamlFile('projects.yaml')) || {};
+    const projects: ProjectRecord[] = data.projects || [];
+    const project = projects.find(p => String(p.id) === projectId);
+
+    if (!project) {
+      throw new NotFoundError(this.name, 'Project', projectId);
+    }
+
+    mutate(project);
+    await this.writeYamlFile('projects.yaml', { ...data, projects });
+  }
+
+  private requireRecord(loaded: LoadedIssue[], id: string): LoadedIssue {
+    const match = loaded.find(l => l.record.id.toLowerCase() === id.toLowerCase());
+    if (!match) {
+      throw new NotFoundError(this.name, 'Issue', id);
+    }
+    return match;
+  }
+
+  private async requireIssue(id: string, operation: string): Promise<Issue> {
+    const issue = await this.getIssue(id);
+    if (!issue) {
+      throw new AdapterError(`Issue not found after ${operation}: ${id}`, this.name, operation);
+    }
+    return issue;
+  }
+
+  private nextIdentifier(loaded: LoadedIssue[]): string {
+    const pattern = new RegExp(`^${this.prefix}-(\\d+)$`, 'i');
+    // Skipped files still hold their ID
+    const ids = [
+      ...loaded.map(l => l.record.id),
+      ...[...this.unreadable].map(entry => entry.replace(/\.(md|ya?ml)$/, '')),
+    ];
+    const highest = ids.reduce((max, id) => {
+      const match = id.match(pattern);
+      return match ? Math.max(max, Number(match[1])) : max;
+    }, 0);
+
+    return `${this.prefix}-${highest + 1}`;
+  }
+
+  private async resolveLabels(labels: string[]): Promise<string[]> {
+    // Labels are stored by name; match declared names case-insensitively
+    const known = await this.listLabels();
+    const byName = new Map(known.map(l => [l.name.toLowerCase(), l.name]));
+    return [...new Set(labels.map(l => byName.get(l.toLowerCase()) || l))];
+  }
+
+  /**
+   * Which record stores a relation: "blocks" lives on the blocker,
+   * "blocked-by" is the same edge stored on the other issue
+   */
+  private relationSide(
+    issue: LoadedIssue,
+    related: LoadedIssue,
+    type: IssueRelationType
+  ): { owner: LoadedIssue; field: 'blocks' | 'related'; target: string } {
+    switch (type) {
+      case 'blocks':
+        return { owner: issue, field: 'blocks', target: related.record.id };
+      case 'blocked-by':
+        return { owner: related, field: 'blocks', target: issue.record.id };
+      default:
+        return { owner: issue, field: 'related', target: related.record.id };
+    }
+  }
+
+  private mapRelations(r: IssueRecord, all: LoadedIssue[]): IssueRelation[] {
+    const find = (id: string) =>
+      all.find(l => l.record.id.toLowerCase() === id.toLowerCase())?.record;
+    const mentions = (ids: string[] | undefined) =>
+      (ids || []).some(id => id.toLowerCase() === r.id.toLowerCase());
+
+    const relations: IssueRelation[] = [];
+    const add = (type: IssueRelationType, other: IssueRecord | undefined) => {
+      if (other) relations.push({ type, issue: this.mapStub(other) });
+    };
+
+    for (const id of r.blocks || []) add('blocks', find(id));
+    for (const id of r.related || []) add('related', find(id));
+
+    for (const { record } of all) {
+      if (mentions(record.blocks)) add('blocked-by', record);
+      if (mentions(record.related)) add('related', record);
+    }
+
+    return relations;
+  }
+
+  /**
+   * Declared fields first, then fields inferred from issue values; `extra`
+   * (values being written or filtered on) may introduce new fields
+   */
+  private async customFieldDefinitions(
+    loaded: LoadedIssue[],
+    extra?: Record<string, CustomFieldValue>
+  ): Promise<CustomFieldDefinition[]> {
+    const data = await this.readYamlFile('fields.yaml');
+    const declared: CustomFieldDefinition[] = (data?.fields || []).map((f: any) => ({
+      id: String(f.id ?? f.name),
+      name: String(f.name),
+      type: f.type || 'string',
+      options: f.options ? f.options.map(String) : undefined,
+    }));
+
+    const inferred = inferCustomFields([...loaded.map(l => l.record.customFields), extra])
+      .filter(f => !findCustomField(declared, f.name));
+
+    return [...declared, ...inferred];
+  }
+
+  /** Merge values into the record under their field names; null removes a field */
+  private async setCustomFields(
+    record: IssueRecord,
+    values: Record<string, CustomFieldValue>,
+    loaded: LoadedIssue[],
+    operation: string
+  ): Promise<void> {
+    const fields = await this.customFieldDefinitions(loaded, values);
+    const stored = { ...record.customFields };
+
+    for (const { field, value } of resolveCustomFields(fields, values, this.name, operation)) {
+      for (const key of Object.keys(stored)) {
+        if (key.toLowerCase() === field.name.toLowerCase()) delete stored[key];
+      }
+      if (value !== null) {
+        stored[field.name] = value instanceof Date ? formatCustomFieldValue(value) : value;
+      }
+    }
+
+    record.customFields = Object.keys(stored).length ? stored : undefined;
+  }
+
+  private resolveAssignee(assignee: string): string {
+    return assignee === 'me' ? this.user : assignee;
+  }
+
+  private matchesFilter(issue: Issue, filter?: IssueFilter): boolean {
+    if (!filter) return true;
+
+    if (filter.projectId && issue.project?.id !== filter.projectId) return false;
+    if (filter.milestoneId && issue.milestone?.id !== filter.milestoneId) return false;
+    if (filter.priority?.length && !filter.priority.includes(issue.priority)) return false;
+    if (filter.state?.length && !filter.state.includes(issue.state.type)) return false;
+
+    if (filter.labels?.length) {
+      const wanted = new Set(filter.labels.map(l => l.toLowerCase()));
+      if (!issue.labels.some(l => wanted.has(l.name.toLowerCase()))) return false;
+    }
+
+    if (filter.assignee && issue.assignee?.id !== this.resolveAssignee(filter.assignee)) {
+      return false;
+    }
+
+    if (filter.search && !matchesSearch(issue, filter.search)) return false;
+
+    return true;
+  }
+
+  private async storeComment(issueId: string, body: string, parentId?: string): Promise<Comment> {
+    const loaded = await this.loadIssues();
+    const target = this.requireRecord(loaded, issueId);
+    const comments = target.record.comments || [];
+
+    if (parentId && !comments.some(c => String(c.id) === parentId)) {
+      throw new NotFoundError(this.name, 'Comment', parentId);
+    }
+
+    const comment: CommentRecord = {
+      id: `${target.record.id}-c${comments.length + 1}`,
+      author: this.user,
+      body,
+      createdAt: new Date().toISOString(),
+    };
+    if (parentId) comment.parentId = parentId;
+
+    target.record.comments = [...comments, comment];
+    target.record.updatedAt = comment.createdAt;
+    await this.writeIssue(target);
+
+    return this.mapComment(comment);
+  }
+
+  private mapComment(c: CommentRecord): Comment {
+    return {
+      id: String(c.id),
+      body: String(c.body ?? ''),
+      author: { id: String(c.author), name: String(c.author) },
+      createdAt: new Date(c.createdAt),
+      updatedAt: c.updatedAt ? new Date(c.updatedAt) : undefined,
+      parentId: c.parentId ? String(c.parentId) : undefined,
+    };
+  }
+
+  private mapProject(p: ProjectRecord): Project {
+    return {
+      id: p.id,
+      name: p.name,
+      description: p.description,
+      state: p.state,
+    };
+  }
+
+  private mapStub(record: IssueRecord): Issue {
+    return {
+      id: record.id,
+      identifier: record.id,
+      title: record.title,
+      description: '',
+      priority: this.normalizePriority(record.priority || ''),
+      state: this.mapState(record),
+      labels: [],
+    };
+  }
+
+  private mapState(record: IssueRecord): Issue['state'] {
+    const name = record.state || DEFAULT_STATE;
+    return {
+      id: name.toLowerCase().replace(/\s+/g, '-'),
+      name,
+      type: this.normalizeState(name),
+    };
+  }
+
+  private mapIssue(
+    loaded: LoadedIssue,
+    all: LoadedIssue[],
+    projects: ProjectRecord[]
+  ): Issue {
+    const r = loaded.record;
+    const parent = r.parent
+      ? all.find(l => l.record.id.toLowerCase() === r.parent!.toLowerCase())
+      : undefined;
+    const children = all.filter(
+      l => l.record.parent?.toLowerCase() === r.id.toLowerCase()
+    );
+    const project = r.project ? projects.find(p => p.id === r.project) : undefined;
+    const milestone = r.milestone
+      ? projects.flatMap(p => p.milestones || []).find(m => String(m.id) === r.milestone)
+      : undefined;
+
+    return {
+      id: r.id,
+      identifier: r.id,
+      title: r.title,
+      description: r.description || '',
+      priority: this.normalizePriority(r.priority || ''),
+      state: this.mapState(r),
+      labels: (r.labels || []).map(name => ({ id: name, name })),
+      parent: parent ? this.mapStub(parent.record) : undefined,
+      children: children.length ? children.map(c => this.mapStub(c.record)) : undefined,
+      relations: this.mapRelations(r, all),
+      project: project ? this.mapProject(project) : r.project ? { id: r.project, name: r.project } : undefined,
+      milestone: r.milestone ? {
+        id: r.milestone,
+        name: milestone?.name || r.milestone,
+        description: milestone?.description,
+        targetDate: milestone?.targetDate ? new Date(milestone.targetDate) : undefined,
+      } : undefined,
+      assignee: r.assignee ? { id: r.assignee, name: r.assignee } : undefined,
+      estimate: typeof r.estimate === 'number' ? r.estimate : undefined,
+      customFields: r.customFields && Object.keys(r.customFields).length ? { ...r.customFields } : undefined,
+      url: `file://${loaded.file}`,
+      createdAt: r.createdAt ? new Date(r.createdAt) : undefined,
+      updatedAt: r.updatedAt ? new Date(r.updatedAt) : undefined,
+    };
+  }
+}
+
+// Register the adapter
+registerAdapter('file', (config) => new FileAdapter({
+  directory: config.directory,
+  prefix: config.teamId,
+  mappings: config.mappings,
+}));
+
+export default FileAdapter;
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { GitHubAdapter } from './github';
+import { MemoryAdapter } from './memory';
+import { createGitHubStubTransport } from './stubs';
+
+function stubbed(backend = new MemoryAdapter()) {
+  const transport = createGitHubStubTransport(backend);
+  const adapter = new GitHubAdapter({ apiKey: 'stub', repository: 'acme/app', fetch: transport.fetch });
+  return { adapter, backend, transport };
+}
+
+test('listProjects follows every page', async () => {
+  const { adapter, backend, transport } = stubbed();
+  for (let i = 1; i <= 120; i++) backend.addProject({ name: `Project ${i}` });
+
+  const projects = await adapter.listProjects();
+
+  assert.equal(projects.length, 120);
+  assert.equal(projects[119].name, 'Project 120');
+  assert.equal(transport.requests.filter(r => /projectsV2/.test(r.query || '')).length, 2);
+});
+
+test('issues without a priority label are unprioritised', async () => {
+  const { adapter } = stubbed();
+
+  const plain = await adapter.createIssue({ title: 'Untriaged' });
+  const high = await adapter.createIssue({ title: 'Triaged', priority: 'P1-High' });
+
+  assert.equal((await adapter.getIssue(plain.id))?.priority, 'none');
+  assert.equal((await adapter.getIssue(high.id))?.priority, 'P1-High');
+  assert.deepEqual((await adapter.listIssues({ priority: ['none'] })).map(i => i.title), ['Untriaged']);
+});
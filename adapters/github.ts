@@ -0,0 +1,1184 @@
+/**
+ * GitHub PM Adapter
+ *
+ * Implements PMAdapter interface for GitHub Issues integration.
+ * Reads go through the GraphQL API (sub-issues, Projects v2), writes
+ * through the REST API. Both honour `baseUrl`, so the adapter can be
+ * pointed at GitHub Enterprise or a local HTTP stand-in.
+ */
+
+import {
+  PMAdapter,
+  AdapterCapabilities,
+  Project,
+  Milestone,
+  Issue,
+  IssueFilter,
+  CreateIssueInput,
+  UpdateIssueInput,
+  BatchOptions,
+  BatchResult,
+  IssueUpdateItem,
+  Comment,
+  IssueRelation,
+  IssueRelationType,
+  Label,
+  Resource,
+  ProjectUpdate,
+  Priority,
+  IssueState,
+  IssueStateType,
+  CustomFieldDefinition,
+  AdapterError,
+  NotFoundError,
+  AuthenticationError,
+  registerAdapter,
+} from './interface';
+import { runBatch } from './batch';
+import { RequestPipeline, RetryOptions } from './transport';
+import { rankIssues } from './search';
+import { Credential, CredentialProvider, EnvCredentialProvider } from './credentials';
+import { WorkflowMapper, WorkflowMappings } from './mappings';
+
+// ============================================================================
+// Label Conventions
+// ============================================================================
+
+/**
+ * GitHub has no native priority, so priority is carried by labels.
+ * Accepts "P1", "P1-High", "priority: high", "priority/high", "high", etc.
+ * Issues without a priority label are unprioritised ('none').
+ */
+const PRIORITY_LABELS: Record<string, Priority> = {
+  p0: 'P0-Critical',
+  'p0-critical': 'P0-Critical',
+  critical: 'P0-Critical',
+  urgent: 'P0-Critical',
+  p1: 'P1-High',
+  'p1-high': 'P1-High',
+  high: 'P1-High',
+  p2: 'P2-Medium',
+  'p2-medium': 'P2-Medium',
+  medium: 'P2-Medium',
+  p3: 'P3-Low',
+  'p3-low': 'P3-Low',
+  low: 'P3-Low',
+};
+
+/** Labels that mark an open issue as in progress */
+const STARTED_LABELS = ['in progress', 'in-progress', 'in review', 'in-review', 'status: in progress'];
+
+/** Labels that mark an open issue as backlog */
+const BACKLOG_LABELS = ['backlog', 'status: backlog'];
+
+/** Projects v2 status update values */
+const PROJECT_STATUSES: Record<string, string> = {
+  inactive: 'INACTIVE',
+  'on track': 'ON_TRACK',
+  ontrack: 'ON_TRACK',
+  'at risk': 'AT_RISK',
+  atrisk: 'AT_RISK',
+  'off track': 'OFF_TRACK',
+  offtrack: 'OFF_TRACK',
+  complete: 'COMPLETE',
+  completed: 'COMPLETE',
+};
+
+// ============================================================================
+// GitHub Adapter Implementation
+// ============================================================================
+
+export class GitHubAdapter implements PMAdapter {
+  readonly name = 'github';
+  readonly displayName = 'GitHub Issues';
+  readonly capabilities: AdapterCapabilities = {
+    subIssues: true,
+    projectUpdates: true,
+    projectStatuses: true,
+    milestones: true,
+    estimates: false,
+    threadedComments: false,
+    customFields: false,
+  };
+
+  private apiKey: Credential;
+  private baseUrl: string;
+  private repository?: string;
+  private viewerLogin?: string;
+  private pipeline: RequestPipeline;
+  private mapper: WorkflowMapper;
+
+  constructor(config: {
+    apiKey?: string;
+    credentials?: CredentialProvider;
+    baseUrl?: string;
+    repository?: string;
+    fetch?: typeof fetch;
+    retry?: RetryOptions;
+    mappings?: WorkflowMappings;  // Label names -> state types and priorities
+  } = {}) {
+    this.apiKey = new Credential(
+      config.credentials || new EnvCredentialProvider(),
+      ['GITHUB_TOKEN', 'GH_TOKEN'],
+      config.apiKey
+    );
+    this.baseUrl = (config.baseUrl || 'https://api.github.com').replace(/\/+$/, '');
+    this.repository = config.repository || process.env.GITHUB_REPOSITORY;
+    this.pipeline = new RequestPipeline(
+      this.name,
+      config.fetch || ((input, init) => fetch(input, init)),
+      config.retry
+    );
+    this.mapper = new WorkflowMapper(config.mappings);
+  }
+
+  // -------------------------------------------------------------------------
+  // Configuration
+  // -------------------------------------------------------------------------
+
+  async isConfigured(): Promise<boolean> {
+    if (!this.repository || !(await this.apiKey.get())) {
+      return false;
+    }
+
+    try {
+      await this.graphql('query { viewer { login } }');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Discovery
+  // -------------------------------------------------------------------------
+
+  async listProjects(): Promise<Project[]> {
+    const { owner, repo } = this.repo();
+    const projects: Project[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const result = await this.graphql(`
+        query($owner: String!, $repo: String!, $after: String) {
+          repository(owner: $owner, name: $repo) {
+            projectsV2(first: 100, after: $after) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              nodes {
+                ${this.projectFragment}
+              }
+            }
+          }
+        }
+      `, { owner, repo, after: cursor });
+
+      const page = result.repository?.projectsV2;
+      projects.push(...(page?.nodes || []).map(this.mapProject));
+      cursor = page?.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return projects;
+  }
+
+  async getProject(idOrName: string): Promise<Project | null> {
+    // Try by node ID first
+    try {
+      const result = await this.graphql(`
+        query($id: ID!) {
+          node(id: $id) {
+            ... on ProjectV2 {
+              ${this.projectFragment}
+            }
+          }
+        }
+      `, { id: idOrName });
+
+      if (result.node?.id) {
+        return this.mapProject(result.node);
+      }
+    } catch {
+      // Not a node ID, try by name
+    }
+
+    const projects = await this.listProjects();
+    const match = projects.find(
+      p => p.name.toLowerCase().includes(idOrName.toLowerCase())
+    );
+
+    return match || null;
+  }
+
+  async listMilestones(projectId: string): Promise<Milestone[]> {
+    // GitHub milestones belong to the repository, not to a project
+    const milestones: any[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await this.rest('GET', `${this.repoPath()}/milestones?state=open&per_page=100&page=${page}`);
+      milestones.push(...batch);
+      if (batch.length < 100) break;
+    }
+    const project = projectId ? await this.getProject(projectId) : null;
+
+    return milestones.map((m: any) => ({
+      ...this.mapMilestone(m),
+      project: project || undefined,
+    }));
+  }
+
+  /**
+   * Open and closed, plus the repository labels that mark a state
+   * ("in progress", "backlog", or any label mapped in the configuration)
+   */
+  async listWorkflowStates(): Promise<IssueState[]> {
+    const labels = await this.listLabels();
+    const stateLabels: IssueState[] = [];
+    for (const l of labels) {
+      const type = this.labelState(l.name);
+      if (type) stateLabels.push({ id: l.id, name: l.name, type, color: l.color });
+    }
+
+    return [
+      { id: 'open', name: 'Open', type: 'unstarted' },
+      { id: 'closed', name: 'Closed', type: 'completed' },
+      { id: 'not_planned', name: 'Not planned', type: 'canceled' },
+      ...stateLabels,
+    ];
+  }
+
+  /** Issues have no custom fields (labels carry that information instead) */
+  async listCustomFields(): Promise<CustomFieldDefinition[]> {
+    return [];
+  }
+
+  // -------------------------------------------------------------------------
+  // Issue Operations
+  // -------------------------------------------------------------------------
+
+  async getIssue(idOrIdentifier: string): Promise<Issue | null> {
+    const number = this.issueNumber(idOrIdentifier);
+    if (number === null) return null;
+
+    const node = await this.fetchIssueNode(number);
+    return node ? this.mapIssue(node) : null;
+  }
+
+  async listIssues(filter?: IssueFilter): Promise<Issue[]> {
+    if (filter?.customFields && Object.keys(filter.customFields).length) {
+      throw new AdapterError('GitHub issues have no custom fields to filter on', this.name, 'listIssues');
+    }
+
+    const limit = filter?.limit || 50;
+    const projectNumbers = filter?.projectId
+      ? await this.listProjectIssueNumbers(filter.projectId)
+      : null;
+
+    const issues: Issue[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page: { nodes: any[]; pageInfo: any } = filter?.search
+        ? await this.searchIssuePage(filter, cursor)
+        : await this.listIssuePage(filter, cursor);
+
+      for (const node of page.nodes) {
+        // Search results may include pull requests, which carry no number here
+        if (!node?.number) continue;
+        if (projectNumbers && !projectNumbers.has(node.number)) continue;
+
+        const issue = this.mapIssue(node);
+        if (this.matchesFilter(issue, filter)) {
+          issues.push(issue);
+        }
+        if (issues.length >= limit) break;
+      }
+
+      cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (cursor && issues.length < limit);
+
+    return filter?.search
+      ? rankIssues(issues, filter.search, { prefiltered: true })
+      : issues;
+  }
+
+  async createIssue(data: CreateIssueInput): Promise<Issue> {
+    const input: any = {
+      title: data.title,
+      body: data.description,
+    };
+
+    const labels = [...(data.labels || [])];
+    if (data.priority && data.priority !== 'none') {
+      labels.push(this.priorityLabel(data.priority));
+    }
+    if (labels.length) {
+      input.labels = labels;
+    }
+
+    if (data.assignee) {
+      input.assignees = [await this.resolveAssignee(data.assignee)];
+    }
+
+    if (data.milestoneId) {
+      input.milestone = Number(data.milestoneId);
+    }
+
+    // GitHub has no native estimate or custom fields; data.estimate and
+    // data.customFields are not persisted
+
+    const created = await this.rest('POST', `${this.repoPath()}/issues`, input);
+
+    if (data.state && this.isClosedState(data.state)) {
+      await this.rest('PATCH', `${this.repoPath()}/issues/${created.number}`, this.stateInput(data.state));
+    }
+
+    if (data.parentId) {
+      await this.addSubIssue(data.parentId, created.id);
+    }
+
+    if (data.projectId) {
+      await this.addToProject(data.projectId, created.node_id);
+    }
+
+    return this.requireIssue(String(created.number), 'createIssue');
+  }
+
+  async createSubIssue(parentId: string, data: CreateIssueInput): Promise<Issue> {
+    return this.createIssue({ ...data, parentId });
+  }
+
+  async updateIssue(id: string, data: UpdateIssueInput): Promise<Issue> {
+    const number = this.requireNumber(id, 'updateIssue');
+    const input: any = {};
+
+    if (data.title !== undefined) input.title = data.title;
+    if (data.description !== undefined) input.body = data.description;
+
+    if (data.labels || data.priority) {
+      let labels = data.labels;
+      if (!labels) {
+        const current = await this.requireIssue(String(number), 'updateIssue');
+        labels = current.labels.map(l => l.name);
+      }
+      if (data.priority) {
+        labels = labels.filter(l => !this.matchPriority(l));
+        if (data.priority !== 'none') labels.push(this.priorityLabel(data.priority));
+      }
+      input.labels = labels;
+    }
+
+    if (data.state) {
+      Object.assign(input, this.stateInput(data.state));
+    }
+
+    if (data.assignee) {
+      input.assignees = [await this.resolveAssignee(data.assignee)];
+    }
+
+    if (data.milestoneId) {
+      input.milestone = Number(data.milestoneId);
+    }
+
+    const updated = await this.rest('PATCH', `${this.repoPath()}/issues/${number}`, input);
+
+    if (data.parentId) {
+      await this.addSubIssue(data.parentId, updated.id);
+    }
+
+    if (data.projectId) {
+      await this.addToProject(data.projectId, updated.node_id);
+    }
+
+    return this.requireIssue(String(number), 'updateIssue');
+  }
+
+  async batchCreateIssues(inputs: CreateIssueInput[], options: BatchOptions = {}): Promise<BatchResult<Issue>[]> {
+    return runBatch(inputs, data => this.createIssue(data), options.concurrency);
+  }
+
+  async batchUpdateIssues(updates: IssueUpdateItem[], options: BatchOptions = {}): Promise<BatchResult<Issue>[]> {
+    return runBatch(updates, ({ id, data }) => this.updateIssue(id, data), options.concurrency);
+  }
+
+  // -------------------------------------------------------------------------
+  // Comments
+  // -------------------------------------------------------------------------
+
+  async listComments(issueId: string): Promise<Comment[]> {
+    const number = this.requireNumber(issueId, 'listComments');
+    const comments: Comment[] = [];
+
+    for (let page = 1; ; page++) {
+      const batch = await this.rest('GET', `${this.repoPath()}/issues/${number}/comments?per_page=100&page=${page}`);
+      comments.push(...batch.map((c: any) => this.mapComment(c)));
+      if (batch.length < 100) break;
+    }
+
+    return comments;
+  }
+
+  async addComment(issueId: string, body: string): Promise<Comment> {
+    const number = this.requireNumber(issueId, 'addComment');
+    const c = await this.rest('POST', `${this.repoPath()}/issues/${number}/comments`, { body });
+    return this.mapComment(c);
+  }
+
+  async replyToComment(_issueId: string, _commentId: string, _body: string): Promise<Comment> {
+    throw new AdapterError('GitHub issue comments are not threaded', this.name, 'replyToComment');
+  }
+
+  async updateComment(_issueId: string, commentId: string, body: string): Promise<Comment> {
+    const c = await this.rest('PATCH', `${this.repoPath()}/issues/comments/${commentId}`, { body });
+    return this.mapComment(c);
+  }
+
+  // -------------------------------------------------------------------------
+  // Relations
+  // -------------------------------------------------------------------------
+
+  async createRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Promise<IssueRelation> {
+    const { blocked, blocker } = this.dependencyEdge(issueId, relatedIssueId, type, 'createRelation');
+    const blockerIssue = await this.rest('GET', `${this.repoPath()}/issues/${blocker}`);
+
+    await this.rest('POST', `${this.repoPath()}/issues/${blocked}/dependencies/blocked_by`, {
+      issue_id: blockerIssue.id,
+    });
+
+    const related = await this.requireIssue(relatedIssueId, 'createRelation');
+    return { type, issue: related };
+  }
+
+  async removeRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Promise<void> {
+    const { blocked, blocker } = this.dependencyEdge(issueId, relatedIssueId, type, 'removeRelation');
+
+    const issue = await this.requireIssue(String(blocked), 'removeRelation');
+    if (!issue.relations?.some(r => r.type === 'blocked-by' && r.issue.id === String(blocker))) {
+      return;
+    }
+
+    const blockerIssue = await this.rest('GET', `${this.repoPath()}/issues/${blocker}`);
+    await this.rest('DELETE', `${this.repoPath()}/issues/${blocked}/dependencies/blocked_by/${blockerIssue.id}`);
+  }
+
+  // -------------------------------------------------------------------------
+  // Labels
+  // -------------------------------------------------------------------------
+
+  async listLabels(_teamId?: string): Promise<Label[]> {
+    const labels: Label[] = [];
+
+    for (let page = 1; ; page++) {
+      const batch = await this.rest('GET', `${this.repoPath()}/labels?per_page=100&page=${page}`);
+      labels.push(...batch.map(this.mapLabel));
+      if (batch.length < 100) break;
+    }
+
+    return labels;
+  }
+
+  async applyLabels(issueId: string, labelIds: string[]): Promise<void> {
+    const number = this.requireNumber(issueId, 'applyLabels');
+    await this.rest('PUT', `${this.repoPath()}/issues/${number}/labels`, { labels: labelIds });
+  }
+
+  async ensureLabel(name: string, _teamId?: string): Promise<Label> {
+    const labels = await this.listLabels();
+    const existing = labels.find(
+      l => l.name.toLowerCase() === name.toLowerCase()
+    );
+
+    if (existing) return existing;
+
+    const created = await this.rest('POST', `${this.repoPath()}/labels`, {
+      name,
+      color: 'ededed',
+    });
+
+    return this.mapLabel(created);
+  }
+
+  // -------------------------------------------------------------------------
+  // Project Operations
+  // -------------------------------------------------------------------------
+
+  async linkResourceToProject(projectId: string, resource: Resource): Promise<void> {
+    // Projects v2 has no external links; append them to the project README
+    const result = await this.graphql(`
+      query($id: ID!) {
+        node(id: $id) {
+          ... on ProjectV2 {
+            readme
+          }
+        }
+      }
+    `, { id: projectId });
+
+    if (!result.node) {
+      throw new NotFoundError(this.name, 'Project', projectId);
+    }
+
+    const readme = result.node.readme ? `${result.node.readme.trimEnd()}\n` : '';
+
+    await this.graphql(`
+      mutation($projectId: ID!, $readme: String!) {
+        updateProjectV2(input: { projectId: $projectId, readme: $readme }) {
+          projectV2 {
+            id
+          }
+        }
+      }
+    `, {
+      projectId,
+      readme: `${readme}- [${resource.label}](${resource.url})\n`,
+    });
+  }
+
+  async createProjectUpdate(projectId: string, update: ProjectUpdate): Promise<void> {
+    const healthMap: Record<NonNullable<ProjectUpdate['health']>, string> = {
+      onTrack: 'ON_TRACK',
+      atRisk: 'AT_RISK',
+      offTrack: 'OFF_TRACK',
+    };
+
+    await this.graphql(`
+      mutation($projectId: ID!, $body: String!, $status: ProjectV2StatusUpdateStatus) {
+        createProjectV2StatusUpdate(input: {
+          projectId: $projectId,
+          body: $body,
+          status: $status
+        }) {
+          statusUpdate {
+            id
+          }
+        }
+      }
+    `, {
+      projectId,
+      body: update.body,
+      status: update.health ? healthMap[update.health] : undefined,
+    });
+  }
+
+  async updateProjectStatus(projectId: string, status: string): Promise<void> {
+    const statusValue = PROJECT_STATUSES[status.toLowerCase().replace(/[_-]/g, ' ')];
+
+    if (!statusValue) {
+      throw new NotFoundError(this.name, 'ProjectStatus', status);
+    }
+
+    await this.graphql(`
+      mutation($projectId: ID!, $status: ProjectV2StatusUpdateStatus!) {
+        createProjectV2StatusUpdate(input: { projectId: $projectId, status: $status }) {
+          statusUpdate {
+            id
+          }
+        }
+      }
+    `, { projectId, status: statusValue });
+  }
+
+  // -------------------------------------------------------------------------
+  // Utilities
+  // -------------------------------------------------------------------------
+
+  normalizePriority(priority: string): Priority {
+    return this.matchPriority(priority) || 'P2-Medium';
+  }
+
+  normalizeState(state: string): IssueStateType {
+    const mapped = this.mapper.state(state);
+    if (mapped) return mapped;
+
+    const map: Record<string, IssueStateType> = {
+      open: 'unstarted',
+      reopened: 'unstarted',
+      closed: 'completed',
+      not_planned: 'canceled',
+      'not planned': 'canceled',
+      backlog: 'backlog',
+      todo: 'unstarted',
+      'in progress': 'started',
+      'in review': 'started',
+      done: 'completed',
+      completed: 'completed',
+      canceled: 'canceled',
+      cancelled: 'canceled',
+    };
+
+    const normalized = state.toLowerCase();
+    return map[normalized] || 'unstarted';
+  }
+
+  buildIssueUrl(issue: Issue): string {
+    return issue.url || `https://github.com/${this.repository}/issues/${issue.id}`;
+  }
+
+  buildProjectUrl(project: Project): string {
+    return project.url || `https://github.com/${this.repository}/projects`;
+  }
+
+  // -------------------------------------------------------------------------
+  // Private Helpers
+  // -------------------------------------------------------------------------
+
+  private async rest(method: string, path: string, body?: unknown): Promise<any> {
+    const apiKey = await this.apiKey.get();
+    if (!apiKey) {
+      throw new AuthenticationError(this.name);
+    }
+
+    const response = await this.pipeline.send(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }, {
+      idempotent: ['GET', 'HEAD', 'PUT', 'DELETE'].includes(method),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new AuthenticationError(this.name);
+      }
+      throw new AdapterError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        this.name,
+        `${method} ${path.split('?')[0]}`
+      );
+    }
+
+    return response.status === 204 ? null : response.json();
+  }
+
+  private async graphql(query: string, variables?: Record<string, any>): Promise<any> {
+    const apiKey = await this.apiKey.get();
+    if (!apiKey) {
+      throw new AuthenticationError(this.name);
+    }
+
+    const response = await this.pipeline.send(this.graphqlUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+        'GraphQL-Features': 'sub_issues',
+      },
+      body: JSON.stringify({ query, variables }),
+    }, {
+      idempotent: !/^\s*mutation\b/.test(query),
+      // GraphQL quota exhaustion comes back as HTTP 200 with a RATE_LIMITED error
+      detectRateLimit: async r => {
+        const result = await r.json();
+        return (result.errors || []).some((e: any) => e.type === 'RATE_LIMITED');
+      },
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new AuthenticationError(this.name);
+      }
+      throw new AdapterError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        this.name,
+        'query'
+      );
+    }
+
+    const result = await response.json();
+
+    // NOT_FOUND errors come back alongside a null field; let callers see the null
+    const errors = (result.errors || []).filter((e: any) => e.type !== 'NOT_FOUND');
+    if (errors.length) {
+      throw new AdapterError(
+        errors[0].message,
+        this.name,
+        'query'
+      );
+    }
+
+    return result.data;
+  }
+
+  private graphqlUrl(): string {
+    // GitHub Enterprise serves REST under /api/v3 and GraphQL under /api/graphql
+    if (this.baseUrl.endsWith('/api/v3')) {
+      return this.baseUrl.replace(/\/api\/v3$/, '/api/graphql');
+    }
+    return `${this.baseUrl}/graphql`;
+  }
+
+  private repo(): { owner: string; repo: string } {
+    const [owner, repo] = (this.repository || '').split('/');
+    if (!owner || !repo) {
+      throw new AdapterError(
+        'Repository not configured (expected "owner/name" or GITHUB_REPOSITORY)',
+        this.name,
+        'config'
+      );
+    }
+    return { owner, repo };
+  }
+
+  private repoPath(): string {
+    const { owner, repo } = this.repo();
+    return `/repos/${owner}/${repo}`;
+  }
+
+  private readonly projectFragment = `
+    id
+    title
+    shortDescription
+    closed
+    url
+  `;
+
+  private readonly issueFragment = `
+    id
+    number
+    title
+    body
+    url
+    state
+    stateReason
+    createdAt
+    updatedAt
+    labels(first: 50) {
+      nodes {
+        id
+        name
+        color
+        description
+      }
+    }
+    assignees(first: 1) {
+      nodes {
+        login
+        name
+        email
+      }
+    }
+    milestone {
+      number
+      title
+      description
+      dueOn
+    }
+    parent {
+      number
+      title
+    }
+    subIssues(first: 50) {
+      nodes {
+        number
+        title
+      }
+    }
+    blocking(first: 50) {
+      nodes {
+        number
+        title
+      }
+    }
+    blockedBy(first: 50) {
+      nodes {
+        number
+        title
+      }
+    }
+  `;
+
+  private async fetchIssueNode(number: number): Promise<any | null> {
+    const { owner, repo } = this.repo();
+    const result = await this.graphql(`
+      query($owner: String!, $repo: String!, $number: Int!) {
+        repository(owner: $owner, name: $repo) {
+          issue(number: $number) {
+            ${this.issueFragment}
+          }
+        }
+      }
+    `, { owner, repo, number });
+
+    return result.repository?.issue || null;
+  }
+
+  private async listIssuePage(
+    filter: IssueFilter | undefined,
+    cursor: string | null
+  ): Promise<{ nodes: any[]; pageInfo: any }> {
+    const { owner, repo } = this.repo();
+    const filterBy: any = {};
+
+    if (filter?.state?.length) {
+      filterBy.states = [...new Set(filter.state.map(s =>
+        s === 'completed' || s === 'canceled' ? 'CLOSED' : 'OPEN'
+      ))];
+    }
+
+    if (filter?.assignee) {
+      filterBy.assignee = await this.resolveAssignee(filter.assignee);
+    }
+
+    if (filter?.milestoneId) {
+      filterBy.milestoneNumber = filter.milestoneId;
+    }
+
+    const result = await this.graphql(`
+      query($owner: String!, $repo: String!, $filterBy: IssueFilters, $after: String) {
+        repository(owner: $owner, name: $repo) {
+          issues(first: 100, after: $after, filterBy: $filterBy, orderBy: { field: CREATED_AT, direction: DESC }) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              ${this.issueFragment}
+            }
+          }
+        }
+      }
+    `, { owner, repo, filterBy, after: cursor });
+
+    return result.repository.issues;
+  }
+
+  private async searchIssuePage(
+    filter: IssueFilter,
+    cursor: string | null
+  ): Promise<{ nodes: any[]; pageInfo: any }> {
+    const terms = [`repo:${this.repository}`, 'is:issue', filter.search];
+
+    if (filter.assignee) {
+      terms.push(`assignee:${filter.assignee === 'me' ? '@me' : filter.assignee}`);
+    }
+
+    const result = await this.graphql(`
+      query($q: String!, $after: String) {
+        search(query: $q, type: ISSUE, first: 100, after: $after) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            ... on Issue {
+              ${this.issueFragment}
+            }
+          }
+        }
+      }
+    `, { q: terms.join(' '), after: cursor });
+
+    return result.search;
+  }
+
+  private async listProjectIssueNumbers(projectId: string): Promise<Set<number>> {
+    const numbers = new Set<number>();
+    let cursor: string | null = null;
+
+    do {
+      const result = await this.graphql(`
+        query($id: ID!, $after: String) {
+          node(id: $id) {
+            ... on ProjectV2 {
+              items(first: 100, after: $after) {
+                pageInfo {
+                  hasNextPage
+                  endCursor
+                }
+                nodes {
+                  content {
+                    ... on Issue {
+                      number
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      `, { id: projectId, after: cursor });
+
+      const items = result.node?.items;
+      if (!items) {
+        throw new NotFoundError(this.name, 'Project', projectId);
+      }
+
+      for (const item of items.nodes) {
+        if (item.content?.number) numbers.add(item.content.number);
+      }
+
+      cursor = items.pageInfo.hasNextPage ? items.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return numbers;
+  }
+
+  /**
+   * Apply the parts of IssueFilter GitHub cannot express server-side
+   */
+  private matchesFilter(issue: Issue, filter?: IssueFilter): boolean {
+    if (!filter) return true;
+
+    if (filter.state?.length && !filter.state.includes(issue.state.type)) {
+      return false;
+    }
+
+    if (filter.priority?.length && !filter.priority.includes(issue.priority)) {
+      return false;
+    }
+
+    if (filter.labels?.length) {
+      const wanted = new Set(filter.labels.map(l => l.toLowerCase()));
+      if (!issue.labels.some(l => wanted.has(l.name.toLowerCase()))) {
+        return false;
+      }
+    }
+
+    if (filter.milestoneId && filter.search && issue.milestone?.id !== filter.milestoneId) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private async addSubIssue(parentId: string, childDatabaseId: number): Promise<void> {
+    const parent = this.requireNumber(parentId, 'addSubIssue');
+    await this.rest('POST', `${this.repoPath()}/issues/${parent}/sub_issues`, {
+      sub_issue_id: childDatabaseId,
+      replace_parent: true,
+    });
+  }
+
+  /**
+   * GitHub issue dependencies only model blocking. Returns the issue
+   * numbers of the blocked issue and its blocker.
+   */
+  private dependencyEdge(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType,
+    operation: string
+  ): { blocked: number; blocker: number } {
+    if (type === 'related') {
+      throw new AdapterError(
+        'Related-issue links are not supported by GitHub; only blocking dependencies are',
+        this.name,
+        operation
+      );
+    }
+
+    const issue = this.requireNumber(issueId, operation);
+    const related = this.requireNumber(relatedIssueId, operation);
+
+    return type === 'blocks'
+      ? { blocked: related, blocker: issue }
+      : { blocked: issue, blocker: related };
+  }
+
+  private async addToProject(projectId: string, contentId: string): Promise<void> {
+    await this.graphql(`
+      mutation($projectId: ID!, $contentId: ID!) {
+        addProjectV2ItemById(input: { projectId: $projectId, contentId: $contentId }) {
+          item {
+            id
+          }
+        }
+      }
+    `, { projectId, contentId });
+  }
+
+  private async resolveAssignee(assignee: string): Promise<string> {
+    if (assignee !== 'me') return assignee;
+
+    if (!this.viewerLogin) {
+      const result = await this.graphql('query { viewer { login } }');
+      this.viewerLogin = result.viewer.login as string;
+    }
+    return this.viewerLogin;
+  }
+
+  private async requireIssue(id: string, operation: string): Promise<Issue> {
+    const issue = await this.getIssue(id);
+    if (!issue) {
+      throw new AdapterError(`Issue not found after ${operation}: ${id}`, this.name, operation);
+    }
+    return issue;
+  }
+
+  private requireNumber(idOrIdentifier: string, operation: string): number {
+    const number = this.issueNumber(idOrIdentifier);
+    if (number === null) {
+      throw new AdapterError(`Invalid issue reference: ${idOrIdentifier}`, this.name, operation);
+    }
+    return number;
+  }
+
+  /**
+   * Accepts "123", "#123" or "owner/repo#123"
+   */
+  private issueNumber(idOrIdentifier: string): number | null {
+    const match = idOrIdentifier.match(/^(?:[\w.-]+\/[\w.-]+)?#?(\d+)$/);
+    return match ? Number(match[1]) : null;
+  }
+
+  private isClosedState(state: string): boolean {
+    const type = this.normalizeState(state);
+    return type === 'completed' || type === 'canceled';
+  }
+
+  private stateInput(state: string): { state: string; state_reason?: string } {
+    // GitHub only knows open/closed; started and backlog collapse to open
+    switch (this.normalizeState(state)) {
+      case 'completed':
+        return { state: 'closed', state_reason: 'completed' };
+      case 'canceled':
+        return { state: 'closed', state_reason: 'not_planned' };
+      default:
+        return { state: 'open' };
+    }
+  }
+
+  private matchPriority(name: string): Priority | null {
+    const mapped = this.mapper.priority(name);
+    if (mapped) return mapped;
+
+    const normalized = name
+      .toLowerCase()
+      .replace(/^priority\s*[:/]\s*/, '')
+      .trim();
+    return PRIORITY_LABELS[normalized] || null;
+  }
+
+  private mapProject(p: any): Project {
+    return {
+      id: p.id,
+      name: p.title,
+      description: p.shortDescription || undefined,
+      state: p.closed ? 'closed' : 'open',
+      url: p.url,
+    };
+  }
+
+  private mapMilestone(m: any): Milestone {
+    return {
+      id: String(m.number),
+      name: m.title,
+      description: m.description || undefined,
+      targetDate: m.due_on || m.dueOn ? new Date(m.due_on || m.dueOn) : undefined,
+    };
+  }
+
+  private mapLabel(l: any): Label {
+    // GitHub addresses labels by name, so the name doubles as the ID
+    return {
+      id: l.name,
+      name: l.name,
+      color: l.color,
+      description: l.description || undefined,
+    };
+  }
+
+  private mapState(i: any, labels: Label[]): IssueState {
+    const names = labels.map(l => l.name.toLowerCase());
+    let type: IssueStateType;
+
+    if (i.state === 'CLOSED') {
+      type = i.stateReason === 'NOT_PLANNED' ? 'canceled' : 'completed';
+    } else {
+      type = names.map(n => this.labelState(n)).find(t => t !== null) || 'unstarted';
+    }
+
+    return {
+      id: i.state.toLowerCase(),
+      name: i.state === 'CLOSED' ? 'Closed' : 'Open',
+      type,
+    };
+  }
+
+  /** State type a label marks on an open issue, if any */
+  private labelState(name: string): IssueStateType | null {
+    const mapped = this.mapper.state(name);
+    if (mapped) return mapped;
+
+    const normalized = name.toLowerCase();
+    if (STARTED_LABELS.includes(normalized)) return 'started';
+    if (BACKLOG_LABELS.includes(normalized)) return 'backlog';
+    return null;
+  }
+
+  /** Label written for a priority: the configured name, or e.g. "P1-High" */
+  private priorityLabel(priority: Priority): string {
+    return this.mapper.priorityNames(priority)[0] || priority;
+  }
+
+  private mapComment(c: any): Comment {
+    return {
+      id: String(c.id),
+      body: c.body,
+      author: { id: c.user.login, name: c.user.login },
+      createdAt: new Date(c.created_at),
+      updatedAt: c.updated_at && c.updated_at !== c.created_at ? new Date(c.updated_at) : undefined,
+    };
+  }
+
+  private mapStub(i: any): Issue {
+    return {
+      id: String(i.number),
+      identifier: `#${i.number}`,
+      title: i.title,
+      description: '',
+      priority: 'none',
+      state: { id: '', name: '', type: 'unstarted' },
+      labels: [],
+    };
+  }
+
+  private mapIssue(i: any): Issue {
+    const labels: Label[] = (i.labels?.nodes || []).map((l: any) => this.mapLabel(l));
+    const priorityLabel = labels.find(l => this.matchPriority(l.name));
+    const assignee = i.assignees?.nodes?.[0];
+
+    return {
+      id: String(i.number),
+      identifier: `#${i.number}`,
+      title: i.title,
+      description: i.body || '',
+      priority: priorityLabel ? this.matchPriority(priorityLabel.name)! : 'none',
+      state: this.mapState(i, labels),
+      labels,
+      assignee: assignee ? {
+        id: assignee.login,
+        name: assignee.name || assignee.login,
+        email: assignee.email || undefined,
+      } : undefined,
+      milestone: i.milestone ? this.mapMilestone(i.milestone) : undefined,
+      parent: i.parent ? this.mapStub(i.parent) : undefined,
+      children: i.subIssues?.nodes?.map((c: any) => this.mapStub(c)),
+      relations: [
+        ...(i.blocking?.nodes || []).map((b: any): IssueRelation => ({ type: 'blocks', issue: this.mapStub(b) })),
+        ...(i.blockedBy?.nodes || []).map((b: any): IssueRelation => ({ type: 'blocked-by', issue: this.mapStub(b) })),
+      ],
+      url: i.url,
+      createdAt: i.createdAt ? new Date(i.createdAt) : undefined,
+      updatedAt: i.updatedAt ? new Date(i.updatedAt) : undefined,
+    };
+  }
+}
+
+// Register the adapter
+registerAdapter('github', (config) => new GitHubAdapter(config));
+
+export default GitHubAdapter;
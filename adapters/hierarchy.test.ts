@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { NotFoundError } from './interface';
+import { loadIssueHierarchy } from './hierarchy';
+import { MemoryAdapter } from './memory';
+
+/** A memory tracker that records each getIssue call */
+function tracked() {
+  const backend = new MemoryAdapter();
+  const calls: string[] = [];
+  const getIssue = backend.getIssue.bind(backend);
+  backend.getIssue = async id => {
+    calls.push(id);
+    return getIssue(id);
+  };
+  return { backend, calls };
+}
+
+test('children load level by level to the given depth and share one object per issue', async () => {
+  const { backend, calls } = tracked();
+  const epic = await backend.createIssue({ title: 'Epic' });
+  const story = await backend.createSubIssue(epic.id, { title: 'Story' });
+  const task = await backend.createSubIssue(story.id, { title: 'Task' });
+  await backend.createSubIssue(task.id, { title: 'Subtask' });
+
+  const graph = await loadIssueHierarchy(backend, [epic.identifier], { depth: 2 });
+
+  assert.deepEqual(graph.issues.map(i => i.title), ['Epic', 'Story', 'Task']);
+  assert.equal(calls.length, 3);
+
+  const [root] = graph.roots;
+  const loadedStory = root.children![0];
+  assert.equal(loadedStory, graph.nodes.get(story.id));
+  assert.equal(loadedStory.parent, root);
+  assert.equal(loadedStory.children![0].children![0].title, 'Subtask');
+  assert.equal(graph.nodes.has(loadedStory.children![0].children![0].id), false);
+});
+
+test('ancestors are loaded above the roots but stay out of scope', async () => {
+  const { backend } = tracked();
+  const epic = await backend.createIssue({ title: 'Epic' });
+  const story = await backend.createSubIssue(epic.id, { title: 'Story' });
+  const task = await backend.createSubIssue(story.id, { title: 'Task' });
+
+  const graph = await loadIssueHierarchy(backend, [task.id], { ancestorDepth: 2 });
+
+  assert.deepEqual(graph.issues.map(i => i.title), ['Task']);
+  assert.equal(graph.roots[0].parent?.parent, graph.nodes.get(epic.id));
+  assert.equal(graph.nodes.size, 3);
+});
+
+test('shared issues are fetched once and given issues are used as-is', async () => {
+  const { backend, calls } = tracked();
+  const epic = await backend.createIssue({ title: 'Epic' });
+  const story = await backend.createSubIssue(epic.id, { title: 'Story' });
+
+  const given = (await backend.listIssues()).find(i => i.id === epic.id)!;
+  const graph = await loadIssueHierarchy(backend, [given, story.id, story.identifier]);
+
+  assert.equal(graph.roots.length, 2);
+  assert.equal(graph.roots[0], given);
+  assert.equal(given.children![0], graph.roots[1]);
+  assert.deepEqual(calls, [story.id, story.identifier]);
+});
+
+test('a missing root is an error', async () => {
+  const { backend } = tracked();
+  await assert.rejects(loadIssueHierarchy(backend, ['MEM-404']), NotFoundError);
+});
@@ -0,0 +1,179 @@
+/**
+ * Issue Hierarchy Loader
+ *
+ * Adapters return `parent` and `children` as summaries (ID, identifier,
+ * title) to keep single reads cheap. The loader replaces those summaries
+ * with complete issues, walking down to a configurable depth and up to the
+ * ancestors, and returns a graph the WaveOrganizer can plan directly.
+ *
+ * Each issue is fetched once, however many trees share it, and every
+ * reference to it points at the same object. The graph therefore contains
+ * cycles (a child's `parent.children` includes the child).
+ */
+
+import { PMAdapter, Issue, NotFoundError } from './interface';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HierarchyOptions {
+  depth?: number;             // Child levels to load below each root (default: 3)
+  ancestorDepth?: number;     // Parent levels to load above each root (default: 1)
+  concurrency?: number;       // Parallel getIssue calls (default: 5)
+}
+
+export interface IssueGraph {
+  roots: Issue[];             // Issues the load started from
+  issues: Issue[];            // Roots, then loaded descendants level by level
+  nodes: Map<string, Issue>;  // Every loaded issue by ID, ancestors included
+}
+
+const DEFAULT_HIERARCHY: Required<HierarchyOptions> = {
+  depth: 3,
+  ancestorDepth: 1,
+  concurrency: 5,
+};
+
+// ============================================================================
+// Hierarchy Loader
+// ============================================================================
+
+export class HierarchyLoader {
+  private options: Required<HierarchyOptions>;
+
+  constructor(
+    private adapter: PMAdapter,
+    options: HierarchyOptions = {}
+  ) {
+    this.options = { ...DEFAULT_HIERARCHY, ...options };
+  }
+
+  /**
+   * Load complete issues around the given roots. Roots may be IDs,
+   * identifiers, or issues already fetched (e.g. from listIssues), which
+   * are used as-is and relinked in place. A root that doesn't exist is an
+   * error; a parent or child that can't be read keeps its summary.
+   */
+  async load(roots: Array<string | Issue>): Promise<IssueGraph> {
+    const nodes = new Map<string, Issue>();
+
+    const given = roots.filter((r): r is Issue => typeof r !== 'string');
+    const ids = roots.filter((r): r is string => typeof r === 'string');
+
+    for (const issue of given) {
+      if (!nodes.has(issue.id)) nodes.set(issue.id, issue);
+    }
+
+    const fetched = await this.fetchAll(ids);
+    ids.forEach((id, index) => {
+      const issue = fetched[index];
+      if (!issue) throw new NotFoundError(this.adapter.name, 'Issue', id);
+      if (!nodes.has(issue.id)) nodes.set(issue.id, issue);
+    });
+
+    const rootIds = [...new Set([...given, ...fetched].map(i => i!.id))];
+    const rootIssues = rootIds.map(id => nodes.get(id)!);
+
+    const scope = await this.loadDescendants(rootIssues, nodes);
+    await this.loadAncestors(rootIssues, nodes);
+
+    for (const issue of nodes.values()) {
+      this.link(issue, nodes);
+    }
+
+    return { roots: rootIssues, issues: scope, nodes };
+  }
+
+  // -------------------------------------------------------------------------
+  // Traversal
+  // -------------------------------------------------------------------------
+
+  /** Breadth-first, so each level is fetched in one parallel batch */
+  private async loadDescendants(roots: Issue[], nodes: Map<string, Issue>): Promise<Issue[]> {
+    const scope = [...roots];
+    const inScope = new Set(roots.map(i => i.id));
+    let frontier = roots;
+
+    for (let level = 0; level < this.options.depth && frontier.length > 0; level++) {
+      const childIds = [...new Set(frontier.flatMap(i => (i.children || []).map(c => c.id)))]
+        .filter(id => !inScope.has(id));
+
+      const missing = childIds.filter(id => !nodes.has(id));
+      const fetched = await this.fetchAll(missing);
+      missing.forEach((id, index) => {
+        const issue = fetched[index];
+        if (issue) nodes.set(id, issue);
+      });
+
+      frontier = childIds
+        .map(id => nodes.get(id))
+        .filter((i): i is Issue => i !== undefined);
+
+      for (const issue of frontier) {
+        inScope.add(issue.id);
+        scope.push(issue);
+      }
+    }
+
+    return scope;
+  }
+
+  private async loadAncestors(roots: Issue[], nodes: Map<string, Issue>): Promise<void> {
+    let frontier = roots;
+
+    for (let level = 0; level < this.options.ancestorDepth && frontier.length > 0; level++) {
+      const parentIds = [...new Set(frontier.map(i => i.parent?.id).filter((id): id is string => !!id))];
+
+      const missing = parentIds.filter(id => !nodes.has(id));
+      const fetched = await this.fetchAll(missing);
+      missing.forEach((id, index) => {
+        const issue = fetched[index];
+        if (issue) nodes.set(id, issue);
+      });
+
+      frontier = fetched.filter((i): i is Issue => i !== null);
+    }
+  }
+
+  /** Point parent and child references at the loaded issues */
+  private link(issue: Issue, nodes: Map<string, Issue>): void {
+    if (issue.parent) {
+      issue.parent = nodes.get(issue.parent.id) || issue.parent;
+    }
+    if (issue.children) {
+      issue.children = issue.children.map(c => nodes.get(c.id) || c);
+    }
+  }
+
+  private async fetchAll(ids: string[]): Promise<Array<Issue | null>> {
+    const results: Array<Issue | null> = [];
+
+    for (let i = 0; i < ids.length; i += this.options.concurrency) {
+      const batch = ids.slice(i, i + this.options.concurrency);
+      results.push(...await Promise.all(batch.map(id => this.fetchOne(id))));
+    }
+
+    return results;
+  }
+
+  private async fetchOne(id: string): Promise<Issue | null> {
+    try {
+      return await this.adapter.getIssue(id);
+    } catch (error) {
+      if (error instanceof NotFoundError) return null;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Convenience wrapper: load the hierarchy around `roots` in one call
+ */
+export function loadIssueHierarchy(
+  adapter: PMAdapter,
+  roots: Array<string | Issue>,
+  options?: HierarchyOptions
+): Promise<IssueGraph> {
+  return new HierarchyLoader(adapter, options).load(roots);
+}
@@ -2,14 +2,23 @@
  * PM Tool Adapter Interface
  *
  * Abstract interface for project management tool integrations.
- * Implementations: LinearAdapter, GitHubAdapter, JiraAdapter
+ * Implementations: LinearAdapter, GitHubAdapter, JiraAdapter, FileAdapter, MemoryAdapter
  */
 
+import type { RetryOptions } from './transport';
+import type { MetadataCacheOptions } from './cache';
+import { DryRunAdapter } from './dry-run';
+import { detectAdapterWithReport, DetectionOptions } from './detection';
+import { redactSecrets } from './credentials';
+import type { CredentialProvider } from './credentials';
+import type { WorkflowMappings } from './mappings';
+
 // ============================================================================
 // Core Types
 // ============================================================================
 
-export type Priority = 'P0-Critical' | 'P1-High' | 'P2-Medium' | 'P3-Low';
+/** "none" is an explicitly unprioritised issue (e.g. Linear's "No priority") */
+export type Priority = 'P0-Critical' | 'P1-High' | 'P2-Medium' | 'P3-Low' | 'none';
 
 export type IssueStateType =
   | 'backlog'
@@ -47,6 +56,15 @@ export interface Milestone {
   project?: Project;
 }
 
+/** Time-boxed iteration (Linear cycle, sprint) */
+export interface Cycle {
+  id: string;
+  number: number;
+  name?: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
 export interface IssueState {
   id: string;
   name: string;
@@ -54,6 +72,35 @@ export interface IssueState {
   color?: string;
 }
 
+/** Relation type, read from the perspective of the issue that holds it */
+export type IssueRelationType = 'blocks' | 'blocked-by' | 'related';
+
+export interface IssueRelation {
+  id?: string;             // Relation ID, where the tool has one
+  type: IssueRelationType;
+  issue: Issue;            // The other issue (summary fields only)
+}
+
+export type CustomFieldType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'select'
+  | 'multiselect'
+  | 'user';
+
+/** Value of a custom field; null clears it on write */
+export type CustomFieldValue = string | number | boolean | Date | string[] | null;
+
+/** A tracker-specific field (Jira custom field or component, Linear label group) */
+export interface CustomFieldDefinition {
+  id: string;              // Tracker field ID ("customfield_10042", label group ID)
+  name: string;            // Display name; the key used in Issue.customFields
+  type: CustomFieldType;
+  options?: string[];      // Allowed values for select and multiselect fields
+}
+
 export interface Issue {
   id: string;
   identifier: string;      // "SMI-123", "#456", "PROJ-789"
@@ -64,13 +111,17 @@ export interface Issue {
   labels: Label[];
   parent?: Issue;
   children?: Issue[];
+  relations?: IssueRelation[];
   project?: Project;
   milestone?: Milestone;
+  cycle?: Cycle;
   assignee?: User;
   estimate?: number;       // Story points or similar
   url?: string;
   createdAt?: Date;
   updatedAt?: Date;
+  relevance?: number;      // Search score in [0, 1], set when listed with filter.search
+  customFields?: Record<string, CustomFieldValue>; // Keyed by field name
 }
 
 export interface Comment {
@@ -78,6 +129,8 @@ export interface Comment {
   body: string;
   author: User;
   createdAt: Date;
+  updatedAt?: Date;        // Set once the comment has been edited
+  parentId?: string;       // Comment this replies to (threaded tools only)
 }
 
 export interface Resource {
@@ -91,6 +144,20 @@ export interface ProjectUpdate {
   health?: 'onTrack' | 'atRisk' | 'offTrack';
 }
 
+/**
+ * Optional features a tracker supports. Callers check these before using
+ * the matching operations and degrade instead (see capabilities.ts).
+ */
+export interface AdapterCapabilities {
+  subIssues: boolean;         // createSubIssue, Issue.parent/children
+  projectUpdates: boolean;    // createProjectUpdate
+  projectStatuses: boolean;   // updateProjectStatus
+  milestones: boolean;        // listMilestones, milestoneId
+  estimates: boolean;         // Issue.estimate is stored
+  threadedComments: boolean;  // replyToComment
+  customFields: boolean;      // listCustomFields, Issue.customFields
+}
+
 // ============================================================================
 // Filter Types
 // ============================================================================
@@ -98,14 +165,33 @@ export interface ProjectUpdate {
 export interface IssueFilter {
   projectId?: string;
   milestoneId?: string;
+  cycleId?: string;
   priority?: Priority[];
   state?: IssueStateType[];
   labels?: string[];
   assignee?: string;        // User ID or "me"
-  search?: string;          // Full-text search
+  search?: string;          // Full-text search; results are ranked by relevance
+  customFields?: Record<string, CustomFieldValue>; // Field name or ID -> value; an array matches any of
   limit?: number;
 }
 
+// ============================================================================
+// Pagination Types
+// ============================================================================
+
+export interface PaginationOptions {
+  pageSize?: number;        // Items requested per page
+  maxItems?: number;        // Hard cap; exceeding it is an error, not a silent cut
+  onProgress?: (progress: PaginationProgress) => void;
+}
+
+export interface PaginationProgress {
+  operation: string;        // e.g. "listIssues"
+  fetched: number;          // Items yielded so far
+  pages: number;            // Pages requested so far
+  hasMore: boolean;         // Whether the server reported another page
+}
+
 // ============================================================================
 // Input Types
 // ============================================================================
@@ -120,7 +206,9 @@ export interface CreateIssueInput {
   estimate?: number;
   projectId?: string;
   milestoneId?: string;
+  cycleId?: string;
   parentId?: string;        // For sub-issues
+  customFields?: Record<string, CustomFieldValue>; // Field name or ID -> value
 }
 
 export interface UpdateIssueInput {
@@ -132,9 +220,31 @@ export interface UpdateIssueInput {
   assignee?: string;
   estimate?: number;
   projectId?: string;
+  milestoneId?: string;
+  cycleId?: string;
   parentId?: string;
+  customFields?: Record<string, CustomFieldValue>; // Only the given fields change
 }
 
+// ============================================================================
+// Batch Types
+// ============================================================================
+
+export interface BatchOptions {
+  concurrency?: number;     // Requests in flight at once (default: 4)
+  batchSize?: number;       // Mutations per request where the tool batches natively (default: 25)
+}
+
+export interface IssueUpdateItem {
+  id: string;
+  data: UpdateIssueInput;
+}
+
+/** Outcome of one batch item; `index` is its position in the input */
+export type BatchResult<T> =
+  | { index: number; ok: true; value: T }
+  | { index: number; ok: false; error: Error };
+
 // ============================================================================
 // Adapter Interface
 // ============================================================================
@@ -144,12 +254,15 @@ export interface PMAdapter {
   // Identity
   // -------------------------------------------------------------------------
 
-  /** Adapter name: "linear", "github", "jira" */
+  /** Adapter name: "linear", "github", "jira", "file" */
   readonly name: string;
 
   /** Human-readable display name */
   readonly displayName: string;
 
+  /** Optional features this tracker supports */
+  readonly capabilities: AdapterCapabilities;
+
   /** Check if adapter is properly configured */
   isConfigured(): Promise<boolean>;
 
@@ -166,6 +279,12 @@ export interface PMAdapter {
   /** List milestones/cycles for a project */
   listMilestones(projectId: string): Promise<Milestone[]>;
 
+  /** List the workflow states issues can be in (for the configured team) */
+  listWorkflowStates(): Promise<IssueState[]>;
+
+  /** List the custom fields issues can carry; [] unless capabilities.customFields */
+  listCustomFields(): Promise<CustomFieldDefinition[]>;
+
   // -------------------------------------------------------------------------
   // Issue Operations
   // -------------------------------------------------------------------------
@@ -185,9 +304,38 @@ export interface PMAdapter {
   /** Update an existing issue */
   updateIssue(id: string, data: UpdateIssueInput): Promise<Issue>;
 
+  /** Create many issues (or sub-issues, via parentId); one result per input, in order */
+  batchCreateIssues(inputs: CreateIssueInput[], options?: BatchOptions): Promise<BatchResult<Issue>[]>;
+
+  /** Update many issues; one result per item, in order */
+  batchUpdateIssues(updates: IssueUpdateItem[], options?: BatchOptions): Promise<BatchResult<Issue>[]>;
+
+  // -------------------------------------------------------------------------
+  // Comments
+  // -------------------------------------------------------------------------
+
+  /** List an issue's comments, oldest first; replies carry `parentId` */
+  listComments(issueId: string): Promise<Comment[]>;
+
   /** Add a comment to an issue */
   addComment(issueId: string, body: string): Promise<Comment>;
 
+  /** Reply to a comment; throws AdapterError unless capabilities.threadedComments */
+  replyToComment(issueId: string, commentId: string, body: string): Promise<Comment>;
+
+  /** Replace a comment's body */
+  updateComment(issueId: string, commentId: string, body: string): Promise<Comment>;
+
+  // -------------------------------------------------------------------------
+  // Relations
+  // -------------------------------------------------------------------------
+
+  /** Relate two issues, e.g. (A, B, 'blocks') means A blocks B */
+  createRelation(issueId: string, relatedIssueId: string, type: IssueRelationType): Promise<IssueRelation>;
+
+  /** Remove a relation between two issues; no-op if it does not exist */
+  removeRelation(issueId: string, relatedIssueId: string, type: IssueRelationType): Promise<void>;
+
   // -------------------------------------------------------------------------
   // Labels
   // -------------------------------------------------------------------------
@@ -235,13 +383,24 @@ export interface PMAdapter {
 // Adapter Factory
 // ============================================================================
 
-export type AdapterType = 'linear' | 'github' | 'jira';
+export type AdapterType = 'linear' | 'github' | 'jira' | 'file' | 'memory';
 
 export interface AdapterConfig {
   type: AdapterType;
   apiKey?: string;
+  credentials?: CredentialProvider; // Where apiKey comes from when not given (default: env)
+  mappings?: WorkflowMappings; // Team-specific state and priority names
   baseUrl?: string;
   teamId?: string;
+  repository?: string;      // "owner/name" (GitHub)
+  email?: string;           // Account email for basic auth (Jira Cloud)
+  storyPointsField?: string; // Custom field holding estimates (Jira)
+  customFields?: string[];  // Custom fields to expose, by name or ID (Jira; default: all)
+  directory?: string;       // Local issue directory (file)
+  fetch?: typeof fetch;     // Transport override (stubs, proxies)
+  retry?: RetryOptions;     // Rate-limit retries and request budget
+  cache?: MetadataCacheOptions; // Metadata cache TTL and persistence (Linear)
+  dryRun?: boolean;         // Record mutations instead of applying them (debug.dry_run)
 }
 
 /**
@@ -262,36 +421,28 @@ export function registerAdapter(type: AdapterType, factory: AdapterFactory): voi
 }
 
 /**
- * Create an adapter instance
+ * Create an adapter instance, wrapped in a DryRunAdapter when `dryRun` is set
  */
 export function createAdapter(config: AdapterConfig): PMAdapter {
   const factory = adapterRegistry.get(config.type);
   if (!factory) {
     throw new Error(`Unknown adapter type: ${config.type}`);
   }
-  return factory(config);
+
+  const adapter = factory(config);
+  return config.dryRun ? new DryRunAdapter(adapter) : adapter;
 }
 
 /**
- * Detect the appropriate adapter based on environment
+ * Detect the adapter to use, following the `adapters` section of
+ * config.yaml. Returns null when nothing is detected or the choice is
+ * ambiguous; use detectAdapterWithReport for the reasoning. Credentials
+ * for several trackers are ambiguous under the default order (this used
+ * to return linear).
  */
-export async function detectAdapter(): Promise<AdapterType | null> {
-  // Check for Linear API key
-  if (process.env.LINEAR_API_KEY) {
-    return 'linear';
-  }
-
-  // Check for GitHub token
-  if (process.env.GITHUB_TOKEN || process.env.GH_TOKEN) {
-    return 'github';
-  }
-
-  // Check for Jira credentials
-  if (process.env.JIRA_API_TOKEN && process.env.JIRA_BASE_URL) {
-    return 'jira';
-  }
-
-  return null;
+export async function detectAdapter(options?: DetectionOptions): Promise<AdapterType | null> {
+  const report = await detectAdapterWithReport(options);
+  return report.adapter;
 }
 
 // ============================================================================
@@ -305,7 +456,7 @@ export class AdapterError extends Error {
     public readonly operation: string,
     public readonly cause?: Error
   ) {
-    super(`[${adapter}] ${operation}: ${message}`);
+    super(redactSecrets(`[${adapter}] ${operation}: ${message}`));
     this.name = 'AdapterError';
   }
 }
@@ -325,7 +476,7 @@ export class AuthenticationError extends AdapterError {
 }
 
 export class RateLimitError extends AdapterError {
-  constructor(adapter: string, retryAfter?: number) {
+  constructor(adapter: string, public readonly retryAfter?: number) {
     super(
       `Rate limit exceeded${retryAfter ? `, retry after ${retryAfter}s` : ''}`,
       adapter,
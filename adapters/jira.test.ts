@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { JiraAdapter } from './jira';
+import { MemoryAdapter } from './memory';
+import { createJiraStubTransport } from './stubs';
+
+function stubbed(deployment: 'cloud' | 'server' = 'cloud') {
+  const backend = new MemoryAdapter();
+  const project = backend.addProject({ name: 'Jira' });
+  const transport = createJiraStubTransport(backend, { deployment });
+  const adapter = new JiraAdapter({
+    apiKey: 'stub',
+    baseUrl: 'https://jira.example.com',
+    email: deployment === 'cloud' ? 'me@example.com' : undefined,
+    projectKey: project.id,
+    fetch: transport.fetch,
+  });
+  return { adapter, backend, transport };
+}
+
+test('an estimate of 0 is written on create', async () => {
+  const { adapter, transport } = stubbed();
+
+  const issue = await adapter.createIssue({ title: 'Trivial', estimate: 0 });
+
+  const create = transport.requests.find(r => r.method === 'POST' && r.path.endsWith('/issue'));
+  assert.equal(create?.body.fields.customfield_10016, 0);
+  assert.equal(issue.estimate, 0);
+});
+
+test('a limited state filter fills up past issues JQL cannot tell apart', async () => {
+  for (const deployment of ['cloud', 'server'] as const) {
+    const { adapter } = stubbed(deployment);
+
+    // Completed and canceled share the Done category; the newest are completed
+    for (const title of ['Dropped 1', 'Dropped 2']) await adapter.createIssue({ title, state: 'Canceled' });
+    for (let i = 1; i <= 120; i++) await adapter.createIssue({ title: `Shipped ${i}`, state: 'Done' });
+
+    const canceled = await adapter.listIssues({ state: ['canceled'], limit: 2 });
+    assert.deepEqual(canceled.map(i => i.title).sort(), ['Dropped 1', 'Dropped 2'], deployment);
+
+    const completed = await adapter.listIssues({ state: ['completed'], limit: 3 });
+    assert.equal(completed.length, 3, deployment);
+  }
+});
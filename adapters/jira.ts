@@ -0,0 +1,1192 @@
+/**
+ * Jira PM Adapter
+ *
+ * Implements PMAdapter interface for Jira Cloud and Jira Server/Data Center.
+ * Uses REST API v2, which both deployments serve (searching goes through
+ * /search/jql on Cloud and /search on Server/DC). Issue filters are
+ * translated to JQL; epics and subtasks map onto Issue.parent/children,
+ * fix versions onto Milestone, and a configurable custom field onto estimate.
+ * Other custom fields and components surface as Issue.customFields.
+ */
+
+import {
+  PMAdapter,
+  AdapterCapabilities,
+  Project,
+  Milestone,
+  Issue,
+  IssueFilter,
+  CreateIssueInput,
+  UpdateIssueInput,
+  BatchOptions,
+  BatchResult,
+  IssueUpdateItem,
+  Comment,
+  IssueRelation,
+  IssueRelationType,
+  Label,
+  Resource,
+  ProjectUpdate,
+  Priority,
+  IssueState,
+  IssueStateType,
+  User,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  AdapterError,
+  NotFoundError,
+  AuthenticationError,
+  registerAdapter,
+} from './interface';
+import { runBatch } from './batch';
+import { RequestPipeline, RetryOptions } from './transport';
+import { rankIssues } from './search';
+import { Credential, CredentialProvider, EnvCredentialProvider } from './credentials';
+import { WorkflowMapper, WorkflowMappings } from './mappings';
+import {
+  ResolvedCustomField,
+  resolveCustomFields,
+  matchesCustomFields,
+  findCustomField,
+} from './custom-fields';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface JiraAdapterConfig {
+  apiKey?: string;
+  credentials?: CredentialProvider; // Source of JIRA_API_TOKEN (default: env)
+  mappings?: WorkflowMappings;  // Team status and priority names
+  baseUrl?: string;
+  email?: string;              // Jira Cloud account; enables basic auth
+  projectKey?: string;         // Default project for new issues
+  storyPointsField?: string;   // Custom field holding the estimate
+  epicLinkField?: string;      // Server/DC "Epic Link" custom field
+  customFields?: string[];     // Custom fields to expose, by name or ID (default: all)
+  fetch?: typeof fetch;        // Transport override (stubs, proxies)
+  retry?: RetryOptions;        // Rate-limit retries and request budget
+}
+
+// ============================================================================
+// Mappings
+// ============================================================================
+
+/** Priority -> Jira priority name (default Jira scheme); "none" is an empty priority */
+const PRIORITY_NAMES: Record<Exclude<Priority, 'none'>, string> = {
+  'P0-Critical': 'Highest',
+  'P1-High': 'High',
+  'P2-Medium': 'Medium',
+  'P3-Low': 'Low',
+};
+
+function defaultPriorityNames(priority: Priority): string[] {
+  if (priority === 'none') return [];
+  // "Lowest" has no Priority of its own; fold it into P3-Low
+  return priority === 'P3-Low' ? [PRIORITY_NAMES[priority], 'Lowest'] : [PRIORITY_NAMES[priority]];
+}
+
+/** IssueStateType -> Jira status category name */
+const STATUS_CATEGORIES: Record<IssueStateType, string> = {
+  backlog: 'To Do',
+  unstarted: 'To Do',
+  started: 'In Progress',
+  completed: 'Done',
+  canceled: 'Done',
+};
+
+/** Resolutions that mean the issue was dropped rather than done */
+const CANCELED_RESOLUTIONS = ["won't do", "won't fix", 'cancelled', 'canceled', 'duplicate', 'declined'];
+
+/** Issue link type names used for relations; other link types read as "related" */
+const LINK_TYPES = {
+  blocks: 'Blocks',
+  related: 'Relates',
+};
+
+const DEFAULT_STORY_POINTS_FIELD = 'customfield_10016';
+
+/** Custom field (or components) with the schema its values are read and written by */
+interface JiraCustomField extends CustomFieldDefinition {
+  schema: any;
+}
+
+// ============================================================================
+// JQL
+// ============================================================================
+
+/**
+ * Translate an IssueFilter into a JQL query
+ */
+export function buildJql(
+  filter: IssueFilter = {},
+  options: {
+    currentProject?: string;
+    priorityNames?: (priority: Priority) => string[];
+    customFields?: ResolvedCustomField[];   // filter.customFields resolved against the field schema
+  } = {}
+): string {
+  const clauses: string[] = [];
+
+  const project = filter.projectId || options.currentProject;
+  if (project) {
+    clauses.push(`project = ${quoteJql(project)}`);
+  }
+
+  if (filter.milestoneId) {
+    clauses.push(`fixVersion = ${quoteJql(filter.milestoneId)}`);
+  }
+
+  if (filter.priority?.length) {
+    const names = filter.priority
+      .flatMap(options.priorityNames || defaultPriorityNames)
+      .map(quoteJql);
+    const alternatives = names.length ? [`priority in (${names.join(', ')})`] : [];
+    if (filter.priority.includes('none')) alternatives.push('priority is EMPTY');
+    clauses.push(alternatives.length > 1 ? `(${alternatives.join(' OR ')})` : alternatives[0]);
+  }
+
+  if (filter.state?.length) {
+    const categories = [...new Set(filter.state.map(s => STATUS_CATEGORIES[s]))];
+    clauses.push(`statusCategory in (${categories.map(quoteJql).join(', ')})`);
+  }
+
+  if (filter.labels?.length) {
+    clauses.push(`labels in (${filter.labels.map(quoteJql).join(', ')})`);
+  }
+
+  if (filter.assignee) {
+    clauses.push(filter.assignee === 'me'
+      ? 'assignee = currentUser()'
+      : `assignee = ${quoteJql(filter.assignee)}`);
+  }
+
+  if (filter.search) {
+    clauses.push(`text ~ ${quoteJql(filter.search)}`);
+  }
+
+  // Unresolved keys are used as JQL field names, which Jira accepts quoted
+  const customFields = options.customFields || Object.entries(filter.customFields || {}).map(
+    ([name, value]): ResolvedCustomField => ({ field: { id: name, name, type: 'select' }, value })
+  );
+  for (const { field, value } of customFields) {
+    clauses.push(customFieldClause(field, value));
+  }
+
+  const where = clauses.join(' AND ');
+  return `${where}${where ? ' ' : ''}ORDER BY created DESC`;
+}
+
+function customFieldClause(field: CustomFieldDefinition, value: CustomFieldValue): string {
+  const name = field.id === 'components'
+    ? 'component'
+    : /^customfield_\d+$/.test(field.id)
+      ? field.id.replace(/^customfield_(\d+)$/, 'cf[$1]')
+      : quoteJql(field.id);
+
+  if (value === null) return `${name} is EMPTY`;
+
+  const values = (Array.isArray(value) ? value : [value]).map(v =>
+    v instanceof Date ? quoteJql(v.toISOString().slice(0, 10))
+      : typeof v === 'string' ? quoteJql(v)
+      : String(v)
+  );
+
+  // Text fields only support contains (~); exact matching happens client-side
+  if (field.type === 'string') {
+    const alternatives = values.map(v => `${name} ~ ${v}`);
+    return alternatives.length > 1 ? `(${alternatives.join(' OR ')})` : alternatives[0];
+  }
+
+  return values.length === 1 ? `${name} = ${values[0]}` : `${name} in (${values.join(', ')})`;
+}
+
+function quoteJql(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// ============================================================================
+// Jira Adapter Implementation
+// ============================================================================
+
+export class JiraAdapter implements PMAdapter {
+  readonly name = 'jira';
+  readonly displayName = 'Jira';
+  readonly capabilities: AdapterCapabilities = {
+    subIssues: true,
+    projectUpdates: false,
+    projectStatuses: false,
+    milestones: true,
+    estimates: true,
+    threadedComments: false,
+    customFields: true,
+  };
+
+  private apiKey: Credential;
+  private baseUrl?: string;
+  private email?: string;
+  private projectKey?: string;
+  private storyPointsField: string;
+  private epicLinkField?: string;
+  private exposedFields?: string[];
+  private customFieldSchema?: Promise<JiraCustomField[]>;
+  private currentUser?: User;
+  private pipeline: RequestPipeline;
+  private mapper: WorkflowMapper;
+
+  constructor(config: JiraAdapterConfig = {}) {
+    this.apiKey = new Credential(
+      config.credentials || new EnvCredentialProvider(),
+      ['JIRA_API_TOKEN'],
+      config.apiKey
+    );
+    this.baseUrl = (config.baseUrl || process.env.JIRA_BASE_URL)?.replace(/\/+$/, '');
+    this.email = config.email || process.env.JIRA_EMAIL;
+    this.projectKey = config.projectKey || process.env.JIRA_PROJECT_KEY;
+    this.storyPointsField = config.storyPointsField
+      || process.env.JIRA_STORY_POINTS_FIELD
+      || DEFAULT_STORY_POINTS_FIELD;
+    this.epicLinkField = config.epicLinkField || process.env.JIRA_EPIC_LINK_FIELD;
+    this.exposedFields = config.customFields
+      || process.env.JIRA_CUSTOM_FIELDS?.split(',').map(f => f.trim()).filter(Boolean);
+    this.pipeline = new RequestPipeline(
+      this.name,
+      config.fetch || ((input, init) => fetch(input, init)),
+      config.retry
+    );
+    this.mapper = new WorkflowMapper(config.mappings);
+  }
+
+  // -------------------------------------------------------------------------
+  // Configuration
+  // -------------------------------------------------------------------------
+
+  async isConfigured(): Promise<boolean> {
+    if (!this.baseUrl || !(await this.apiKey.get())) {
+      return false;
+    }
+
+    try {
+      await this.request('GET', '/myself');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Discovery
+  // -------------------------------------------------------------------------
+
+  async listProjects(): Promise<Project[]> {
+    const projects = await this.request('GET', '/project');
+    return projects.map((p: any) => this.mapProject(p));
+  }
+
+  async getProject(idOrName: string): Promise<Project | null> {
+    // Try by ID or key first
+    try {
+      const project = await this.request('GET', `/project/${encodeURIComponent(idOrName)}`);
+      if (project) {
+        return this.mapProject(project);
+      }
+    } catch {
+      // Not found by ID or key, try by name
+    }
+
+    const projects = await this.listProjects();
+    const match = projects.find(
+      p => p.name.toLowerCase().includes(idOrName.toLowerCase())
+    );
+
+    return match || null;
+  }
+
+  async listMilestones(projectId: string): Promise<Milestone[]> {
+    const versions = await this.request('GET', `/project/${encodeURIComponent(projectId)}/versions`);
+
+    return versions
+      .filter((v: any) => !v.archived)
+      .map((v: any) => this.mapVersion(v));
+  }
+
+  /** Statuses used by the project's issue types, or every status without a project */
+  async listWorkflowStates(): Promise<IssueState[]> {
+    const statuses: any[] = this.projectKey
+      ? (await this.request('GET', `/project/${encodeURIComponent(this.projectKey)}/statuses`))
+        .flatMap((t: any) => t.statuses || [])
+      : await this.request('GET', '/status');
+
+    const unique = new Map<string, IssueState>();
+    for (const status of statuses) {
+      if (!unique.has(status.id)) unique.set(status.id, this.mapState({ status }));
+    }
+    return [...unique.values()];
+  }
+
+  /** Custom fields (from GET /field) and components; see `customFields` to narrow them */
+  async listCustomFields(): Promise<CustomFieldDefinition[]> {
+    const fields = await this.customFields();
+    return fields.map(({ schema: _schema, ...definition }) => definition);
+  }
+
+  // -------------------------------------------------------------------------
+  // Issue Operations
+  // -------------------------------------------------------------------------
+
+  async getIssue(idOrIdentifier: string): Promise<Issue | null> {
+    const customFields = await this.customFields();
+
+    let raw: any;
+    try {
+      raw = await this.request(
+        'GET',
+        `/issue/${encodeURIComponent(idOrIdentifier)}?fields=${this.fields(customFields).join(',')}`
+      );
+    } catch (error) {
+      if (error instanceof NotFoundError) return null;
+      throw error;
+    }
+
+    const issue = this.mapIssue(raw, customFields);
+
+    // Epic children are not embedded in the epic itself
+    if (raw.fields.issuetype?.name === 'Epic') {
+      const field = this.epicLinkField
+        ? this.epicLinkField.replace(/^customfield_(\d+)$/, 'cf[$1]')
+        : 'parent';
+      const jql = `${field} = ${quoteJql(issue.identifier)}`;
+      issue.children = await this.search(jql, 100, customFields);
+    }
+
+    return issue;
+  }
+
+  async listIssues(filter?: IssueFilter): Promise<Issue[]> {
+    const customFields = await this.customFields();
+    const wanted = filter?.customFields
+      ? resolveCustomFields(customFields, filter.customFields, this.name, 'listIssues')
+      : undefined;
+
+    const jql = buildJql(filter, {
+      currentProject: this.projectKey,
+      priorityNames: p => this.priorityNames(p),
+      customFields: wanted,
+    });
+
+    // statusCategory "Done" covers both completed and canceled, and `~` on
+    // text fields also matches partial values, so both are narrowed here
+    const states = filter?.state;
+    const textFilters = wanted?.filter(w => w.field.type === 'string') || [];
+    const keep = states?.length || textFilters.length
+      ? (i: Issue) => (!states?.length || states.includes(i.state.type)) && matchesCustomFields(i, textFilters)
+      : undefined;
+
+    const issues = await this.search(jql, filter?.limit || 50, customFields, keep);
+
+    // JQL `text ~` has no relevance order of its own next to ORDER BY
+    return filter?.search
+      ? rankIssues(issues, filter.search, { prefiltered: true })
+      : issues;
+  }
+
+  async createIssue(data: CreateIssueInput): Promise<Issue> {
+    const fields: any = {
+      project: this.projectRef(data.projectId || this.projectKey),
+      summary: data.title,
+      description: data.description,
+      issuetype: { name: 'Task' },
+    };
+
+    const priority = data.priority && this.priorityNames(data.priority)[0];
+    if (priority) {
+      fields.priority = { name: priority };
+    }
+
+    if (data.labels?.length) {
+      fields.labels = data.labels;
+    }
+
+    if (data.assignee) {
+      fields.assignee = await this.assigneeRef(data.assignee);
+    }
+
+    if (data.milestoneId) {
+      fields.fixVersions = [{ id: data.milestoneId }];
+    }
+
+    if (data.estimate !== undefined) {
+      fields[this.storyPointsField] = data.estimate;
+    }
+
+    if (data.parentId) {
+      Object.assign(fields, await this.parentFields(data.parentId));
+    }
+
+    if (data.customFields) {
+      Object.assign(fields, await this.customFieldValues(data.customFields, 'createIssue'));
+    }
+
+    const created = await this.request('POST', '/issue', { fields });
+
+    if (data.state) {
+      await this.transition(created.key, data.state);
+    }
+
+    const issue = await this.getIssue(created.key);
+    if (!issue) {
+      throw new AdapterError('Failed to create issue', this.name, 'createIssue');
+    }
+
+    return issue;
+  }
+
+  async createSubIssue(parentId: string, data: CreateIssueInput): Promise<Issue> {
+    return this.createIssue({ ...data, parentId });
+  }
+
+  async updateIssue(id: string, data: UpdateIssueInput): Promise<Issue> {
+    const fields: any = {};
+
+    if (data.title !== undefined) fields.summary = data.title;
+    if (data.description !== undefined) fields.description = data.description;
+
+    if (data.priority) {
+      // "none" without a configured name clears the field
+      const priority = this.priorityNames(data.priority)[0];
+      fields.priority = priority ? { name: priority } : null;
+    }
+
+    if (data.labels) {
+      fields.labels = data.labels;
+    }
+
+    if (data.assignee) {
+      fields.assignee = await this.assigneeRef(data.assignee);
+    }
+
+    if (data.estimate !== undefined) {
+      fields[this.storyPointsField] = data.estimate;
+    }
+
+    if (data.milestoneId) {
+      fields.fixVersions = [{ id: data.milestoneId }];
+    }
+
+    if (data.parentId) {
+      Object.assign(fields, await this.parentFields(data.parentId));
+    }
+
+    if (data.customFields) {
+      Object.assign(fields, await this.customFieldValues(data.customFields, 'updateIssue'));
+    }
+
+    if (Object.keys(fields).length > 0) {
+      await this.request('PUT', `/issue/${encodeURIComponent(id)}`, { fields });
+    }
+
+    if (data.state) {
+      await this.transition(id, data.state);
+    }
+
+    const issue = await this.getIssue(id);
+    if (!issue) {
+      throw new NotFoundError(this.name, 'Issue', id);
+    }
+
+    return issue;
+  }
+
+  async batchCreateIssues(inputs: CreateIssueInput[], options: BatchOptions = {}): Promise<BatchResult<Issue>[]> {
+    return runBatch(inputs, data => this.createIssue(data), options.concurrency);
+  }
+
+  async batchUpdateIssues(updates: IssueUpdateItem[], options: BatchOptions = {}): Promise<BatchResult<Issue>[]> {
+    return runBatch(updates, ({ id, data }) => this.updateIssue(id, data), options.concurrency);
+  }
+
+  // -------------------------------------------------------------------------
+  // Comments
+  // -------------------------------------------------------------------------
+
+  async listComments(issueId: string): Promise<Comment[]> {
+    const comments: Comment[] = [];
+    let startAt = 0;
+
+    for (;;) {
+      const page = await this.request(
+        'GET',
+        `/issue/${encodeURIComponent(issueId)}/comment?startAt=${startAt}&maxResults=100&orderBy=created`
+      );
+      comments.push(...page.comments.map((c: any) => this.mapComment(c)));
+      startAt += page.comments.length;
+      if (page.comments.length === 0 || startAt >= page.total) break;
+    }
+
+    return comments;
+  }
+
+  async addComment(issueId: string, body: string): Promise<Comment> {
+    const c = await this.request('POST', `/issue/${encodeURIComponent(issueId)}/comment`, { body });
+    return this.mapComment(c);
+  }
+
+  async replyToComment(_issueId: string, _commentId: string, _body: string): Promise<Comment> {
+    throw new AdapterError('Jira comments are not threaded', this.name, 'replyToComment');
+  }
+
+  async updateComment(issueId: string, commentId: string, body: string): Promise<Comment> {
+    const c = await this.request(
+      'PUT',
+      `/issue/${encodeURIComponent(issueId)}/comment/${encodeURIComponent(commentId)}`,
+      { body }
+    );
+    return this.mapComment(c);
+  }
+
+  // -------------------------------------------------------------------------
+  // Relations
+  // -------------------------------------------------------------------------
+
+  async createRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Promise<IssueRelation> {
+    const related = await this.getIssue(relatedIssueId);
+    if (!related) {
+      throw new NotFoundError(this.name, 'Issue', relatedIssueId);
+    }
+
+    const issue = await this.requireIssue(issueId);
+    const existing = issue.relations?.find(r => r.type === type && r.issue.id === related.id);
+    if (existing) return existing;
+
+    // The inward issue carries the outward description: inward "blocks" outward
+    const [inward, outward] = type === 'blocked-by'
+      ? [related.identifier, issue.identifier]
+      : [issue.identifier, related.identifier];
+
+    await this.request('POST', '/issueLink', {
+      type: { name: type === 'related' ? LINK_TYPES.related : LINK_TYPES.blocks },
+      inwardIssue: { key: inward },
+      outwardIssue: { key: outward },
+    });
+
+    const created = (await this.requireIssue(issueId)).relations?.find(
+      r => r.type === type && r.issue.id === related.id
+    );
+    return created || { type, issue: related };
+  }
+
+  async removeRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Promise<void> {
+    const issue = await this.requireIssue(issueId);
+    const relation = issue.relations?.find(r =>
+      r.type === type &&
+      (r.issue.id === relatedIssueId || r.issue.identifier === relatedIssueId)
+    );
+
+    if (relation?.id) {
+      await this.request('DELETE', `/issueLink/${encodeURIComponent(relation.id)}`);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Labels
+  // -------------------------------------------------------------------------
+
+  async listLabels(_teamId?: string): Promise<Label[]> {
+    // Jira labels are free-form strings; the name is the ID
+    const labels: Label[] = [];
+    let startAt = 0;
+
+    try {
+      for (;;) {
+        const page = await this.request('GET', `/label?startAt=${startAt}&maxResults=1000`);
+        labels.push(...page.values.map((name: string) => ({ id: name, name })));
+        if (page.isLast || page.values.length === 0) break;
+        startAt += page.values.length;
+      }
+    } catch (error) {
+      // Server/DC has no label listing endpoint
+      if (error instanceof NotFoundError) return labels;
+      throw error;
+    }
+
+    return labels;
+  }
+
+  async applyLabels(issueId: string, labelIds: string[]): Promise<void> {
+    await this.updateIssue(issueId, { labels: labelIds });
+  }
+
+  async ensureLabel(name: string, teamId?: string): Promise<Label> {
+    const labels = await this.listLabels(teamId);
+    const existing = labels.find(
+      l => l.name.toLowerCase() === name.toLowerCase()
+    );
+
+    if (existing) return existing;
+
+    // Jira creates labels implicitly the first time they are applied
+    if (/\s/.test(name)) {
+      throw new AdapterError(`Jira labels cannot contain spaces: ${name}`, this.name, 'ensureLabel');
+    }
+
+    return { id: name, name };
+  }
+
+  // -------------------------------------------------------------------------
+  // Project Operations
+  // -------------------------------------------------------------------------
+
+  async linkResourceToProject(projectId: string, resource: Resource): Promise<void> {
+    // Jira projects have no link list; append to the project description
+    const project = await this.request('GET', `/project/${encodeURIComponent(projectId)}`);
+    const description = project.description ? `${project.description.trimEnd()}\n` : '';
+
+    await this.request('PUT', `/project/${encodeURIComponent(projectId)}`, {
+      description: `${description}[${resource.label}|${resource.url}]`,
+    });
+  }
+
+  async createProjectUpdate(_projectId: string, _update: ProjectUpdate): Promise<void> {
+    throw new AdapterError(
+      'Project updates are not supported by Jira',
+      this.name,
+      'createProjectUpdate'
+    );
+  }
+
+  async updateProjectStatus(_projectId: string, _status: string): Promise<void> {
+    throw new AdapterError(
+      'Project statuses are not supported by Jira',
+      this.name,
+      'updateProjectStatus'
+    );
+  }
+
+  // -------------------------------------------------------------------------
+  // Utilities
+  // -------------------------------------------------------------------------
+
+  normalizePriority(priority: string): Priority {
+    const mapped = this.mapper.priority(priority);
+    if (mapped) return mapped;
+
+    const map: Record<string, Priority> = {
+      highest: 'P0-Critical',
+      blocker: 'P0-Critical',
+      critical: 'P0-Critical',
+      high: 'P1-High',
+      major: 'P1-High',
+      medium: 'P2-Medium',
+      low: 'P3-Low',
+      minor: 'P3-Low',
+      lowest: 'P3-Low',
+      trivial: 'P3-Low',
+    };
+
+    const normalized = priority.toLowerCase();
+    return map[normalized] || 'P2-Medium';
+  }
+
+  normalizeState(state: string): IssueStateType {
+    const mapped = this.mapper.state(state);
+    if (mapped) return mapped;
+
+    const map: Record<string, IssueStateType> = {
+      backlog: 'backlog',
+      'to do': 'unstarted',
+      todo: 'unstarted',
+      open: 'unstarted',
+      'selected for development': 'unstarted',
+      'in progress': 'started',
+      'in review': 'started',
+      done: 'completed',
+      closed: 'completed',
+      resolved: 'completed',
+      "won't do": 'canceled',
+      canceled: 'canceled',
+      cancelled: 'canceled',
+    };
+
+    const normalized = state.toLowerCase();
+    return map[normalized] || 'unstarted';
+  }
+
+  buildIssueUrl(issue: Issue): string {
+    return issue.url || `${this.baseUrl}/browse/${issue.identifier}`;
+  }
+
+  buildProjectUrl(project: Project): string {
+    return project.url || `${this.baseUrl}/projects/${project.id}`;
+  }
+
+  // -------------------------------------------------------------------------
+  // Private Helpers
+  // -------------------------------------------------------------------------
+
+  /** Jira priority names for a Priority: the configured ones, else the default scheme */
+  private priorityNames(priority: Priority): string[] {
+    const mapped = this.mapper.priorityNames(priority);
+    return mapped.length ? mapped : defaultPriorityNames(priority);
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<any> {
+    const apiKey = await this.apiKey.get();
+    if (!apiKey || !this.baseUrl) {
+      throw new AuthenticationError(this.name);
+    }
+
+    const authorization = this.email
+      ? `Basic ${Buffer.from(`${this.email}:${apiKey}`).toString('base64')}`
+      : `Bearer ${apiKey}`;
+
+    const response = await this.pipeline.send(`${this.baseUrl}/rest/api/2${path}`, {
+      method,
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        Authorization: authorization,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }, {
+      // POST /search and /search/jql are reads
+      idempotent: ['GET', 'PUT', 'DELETE'].includes(method) || path.startsWith('/search'),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new AuthenticationError(this.name);
+      }
+      if (response.status === 404) {
+        throw new NotFoundError(this.name, 'Resource', path.split('?')[0]);
+      }
+
+      // Jira reports validation failures as errorMessages / errors
+      let detail = `HTTP ${response.status}: ${response.statusText}`;
+      try {
+        const result = await response.json();
+        const messages = [
+          ...(result.errorMessages || []),
+          ...Object.values(result.errors || {}),
+        ];
+        if (messages.length) detail = messages.join('; ');
+      } catch {
+        // Body was not JSON
+      }
+
+      throw new AdapterError(detail, this.name, `${method} ${path.split('?')[0]}`);
+    }
+
+    // Some writes (e.g. POST /issueLink) answer 201 with an empty body
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  }
+
+  private async requireIssue(id: string): Promise<Issue> {
+    const issue = await this.getIssue(id);
+    if (!issue) {
+      throw new NotFoundError(this.name, 'Issue', id);
+    }
+    return issue;
+  }
+
+  /**
+   * Cloud has retired POST /search for /search/jql, which pages by token
+   * and reports no total; Server/DC only has the former
+   */
+  /**
+   * Up to `limit` mapped issues matching the JQL. `keep` narrows results
+   * beyond what JQL can express; it runs before the limit, so paging goes
+   * on until enough issues pass.
+   */
+  private async search(
+    jql: string,
+    limit: number,
+    customFields: JiraCustomField[],
+    keep?: (issue: Issue) => boolean
+  ): Promise<Issue[]> {
+    const issues: Issue[] = [];
+    let startAt = 0;
+    let nextPageToken: string | undefined;
+
+    while (issues.length < limit) {
+      const maxResults = keep ? 100 : Math.min(100, limit - issues.length);
+      const page = this.email
+        ? await this.request('POST', '/search/jql', {
+          jql,
+          nextPageToken,
+          maxResults,
+          fields: this.fields(customFields),
+        })
+        : await this.request('POST', '/search', {
+          jql,
+          startAt,
+          maxResults,
+          fields: this.fields(customFields),
+        });
+
+      const mapped = page.issues.map((i: any) => this.mapIssue(i, customFields));
+      issues.push(...(keep ? mapped.filter(keep) : mapped));
+      startAt += page.issues.length;
+
+      if (page.issues.length === 0) break;
+      if (this.email) {
+        if (page.isLast || !page.nextPageToken) break;
+        nextPageToken = page.nextPageToken;
+      } else if (typeof page.total === 'number' && startAt >= page.total) {
+        break;
+      }
+    }
+
+    return issues.slice(0, limit);
+  }
+
+  private fields(customFields: JiraCustomField[]): string[] {
+    return [
+      'summary',
+      'description',
+      'priority',
+      'status',
+      'resolution',
+      'labels',
+      'assignee',
+      'project',
+      'parent',
+      'subtasks',
+      'issuelinks',
+      'fixVersions',
+      'issuetype',
+      'created',
+      'updated',
+      this.storyPointsField,
+      ...(this.epicLinkField ? [this.epicLinkField] : []),
+      ...customFields.map(f => f.id),
+    ];
+  }
+
+  /** The field schema, fetched once; a failed fetch is retried on the next call */
+  private customFields(): Promise<JiraCustomField[]> {
+    if (!this.customFieldSchema) {
+      this.customFieldSchema = this.fetchCustomFields();
+      this.customFieldSchema.catch(() => { this.customFieldSchema = undefined; });
+    }
+    return this.customFieldSchema;
+  }
+
+  private async fetchCustomFields(): Promise<JiraCustomField[]> {
+    let raw: any[];
+    try {
+      raw = await this.request('GET', '/field');
+    } catch (error) {
+      // Without field metadata, issues simply carry no custom fields
+      if (error instanceof NotFoundError) return [];
+      throw error;
+    }
+
+    // Estimate and epic link already have a home on Issue
+    const reserved = [this.storyPointsField, this.epicLinkField];
+    const fields: JiraCustomField[] = raw
+      .filter(f => (f.custom || f.id === 'components') && !reserved.includes(f.id))
+      .map(f => ({ id: f.id, name: f.name, type: this.customFieldType(f.schema), schema: f.schema || {} }));
+
+    const components = fields.find(f => f.id === 'components');
+    if (components && this.projectKey) {
+      const list = await this.request('GET', `/project/${encodeURIComponent(this.projectKey)}/components`);
+      components.options = list.map((c: any) => c.name);
+    }
+
+    if (!this.exposedFields?.length) return fields;
+    return this.exposedFields
+      .map(key => findCustomField(fields, key))
+      .filter((f): f is JiraCustomField => f !== undefined);
+  }
+
+  private customFieldType(schema: any = {}): CustomFieldDefinition['type'] {
+    switch (schema.type) {
+      case 'number': return 'number';
+      case 'date':
+      case 'datetime': return 'date';
+      case 'user': return 'user';
+      case 'option':
+      case 'option-with-child':
+      case 'version': return 'select';
+      case 'array': return 'multiselect';
+      default: return 'string';
+    }
+  }
+
+  /** Jira `fields` entries for custom field values */
+  private async customFieldValues(
+    values: Record<string, CustomFieldValue>,
+    operation: string
+  ): Promise<any> {
+    const resolved = resolveCustomFields(await this.customFields(), values, this.name, operation);
+    const fields: any = {};
+
+    for (const { field, value } of resolved) {
+      fields[field.id] = await this.toJiraValue(field as JiraCustomField, value);
+    }
+
+    return fields;
+  }
+
+  private async toJiraValue(field: JiraCustomField, value: CustomFieldValue): Promise<any> {
+    if (value === null) return null;
+
+    const schema = field.schema;
+    const item = (name: string, type: string) =>
+      type === 'option' ? { value: name }
+        : type === 'component' || type === 'version' ? { name }
+        : name;
+
+    switch (field.type) {
+      case 'multiselect':
+        return (Array.isArray(value) ? value : [value]).map(v => item(String(v), schema.items));
+      case 'select':
+        return item(String(value), schema.type === 'option-with-child' ? 'option' : schema.type);
+      case 'user':
+        return this.assigneeRef(String(value));
+      case 'date':
+        return schema.type === 'datetime'
+          ? (value as Date).toISOString()
+          : (value as Date).toISOString().slice(0, 10);
+      default:
+        return value;
+    }
+  }
+
+  private async transition(issueId: string, state: string): Promise<void> {
+    const result = await this.request('GET', `/issue/${encodeURIComponent(issueId)}/transitions`);
+    const transitions: any[] = result.transitions || [];
+
+    // Prefer an exact status name match, then fall back to the status category
+    const wanted = state.toLowerCase();
+    const category = STATUS_CATEGORIES[this.normalizeState(state)].toLowerCase();
+    const match =
+      transitions.find(t => t.to?.name?.toLowerCase() === wanted || t.name?.toLowerCase() === wanted) ||
+      transitions.find(t => t.to?.statusCategory?.name?.toLowerCase() === category);
+
+    if (!match) {
+      throw new NotFoundError(this.name, 'Transition', state);
+    }
+
+    await this.request('POST', `/issue/${encodeURIComponent(issueId)}/transitions`, {
+      transition: { id: match.id },
+    });
+  }
+
+  private async parentFields(parentId: string): Promise<any> {
+    const parent = await this.request('GET', `/issue/${encodeURIComponent(parentId)}?fields=issuetype`);
+
+    if (parent.fields.issuetype?.name === 'Epic') {
+      // Server/DC links to epics via a custom field; Cloud uses parent
+      return this.epicLinkField
+        ? { [this.epicLinkField]: parent.key }
+        : { parent: { key: parent.key } };
+    }
+
+    return {
+      parent: { key: parent.key },
+      issuetype: { name: 'Sub-task' },
+    };
+  }
+
+  private projectRef(project?: string): any {
+    if (!project) {
+      throw new AdapterError(
+        'No project given and JIRA_PROJECT_KEY not set',
+        this.name,
+        'createIssue'
+      );
+    }
+    return /^\d+$/.test(project) ? { id: project } : { key: project };
+  }
+
+  private async assigneeRef(assignee: string): Promise<any> {
+    const id = assignee === 'me' ? (await this.getCurrentUser()).id : assignee;
+    // Cloud identifies users by accountId, Server/DC by username
+    return this.email ? { accountId: id } : { name: id };
+  }
+
+  private async getCurrentUser(): Promise<User> {
+    if (!this.currentUser) {
+      this.currentUser = this.mapUser(await this.request('GET', '/myself'));
+    }
+    return this.currentUser;
+  }
+
+  private mapProject(p: any): Project {
+    return {
+      id: p.key,
+      name: p.name,
+      description: p.description || undefined,
+      url: this.baseUrl ? `${this.baseUrl}/browse/${p.key}` : undefined,
+    };
+  }
+
+  private mapVersion(v: any): Milestone {
+    return {
+      id: v.id,
+      name: v.name,
+      description: v.description || undefined,
+      targetDate: v.releaseDate ? new Date(v.releaseDate) : undefined,
+    };
+  }
+
+  private mapComment(c: any): Comment {
+    return {
+      id: String(c.id),
+      body: c.body,
+      author: this.mapUser(c.author),
+      createdAt: new Date(c.created),
+      updatedAt: c.updated && c.updated !== c.created ? new Date(c.updated) : undefined,
+    };
+  }
+
+  private mapUser(u: any): User {
+    return {
+      id: u.accountId || u.name,
+      name: u.displayName || u.name,
+      email: u.emailAddress || undefined,
+    };
+  }
+
+  private mapState(f: any): IssueState {
+    const status = f.status || {};
+    const categoryKey = status.statusCategory?.key;
+    let type: IssueStateType;
+
+    const mapped = this.mapper.state(status.name || '');
+    if (mapped) {
+      type = mapped;
+    } else if (categoryKey === 'done') {
+      const resolution = (f.resolution?.name || '').toLowerCase();
+      type = CANCELED_RESOLUTIONS.includes(resolution) ? 'canceled' : 'completed';
+    } else if (categoryKey === 'indeterminate') {
+      type = 'started';
+    } else {
+      type = this.normalizeState(status.name || '') === 'backlog' ? 'backlog' : 'unstarted';
+    }
+
+    return {
+      id: status.id || '',
+      name: status.name || '',
+      type,
+      color: status.statusCategory?.colorName,
+    };
+  }
+
+  private mapStub(key: string, id: string, f: any = {}): Issue {
+    return {
+      id,
+      identifier: key,
+      title: f.summary || '',
+      description: '',
+      priority: f.priority ? this.normalizePriority(f.priority.name) : 'none',
+      state: f.status ? this.mapState(f) : { id: '', name: '', type: 'unstarted' },
+      labels: [],
+    };
+  }
+
+  /**
+   * On an issue's own links, `outwardIssue` is the target of the outward
+   * description ("this blocks X") and `inwardIssue` the source ("this is
+   * blocked by X")
+   */
+  private mapRelations(links: any[] = []): IssueRelation[] {
+    return links.map((link): IssueRelation => {
+      const other = link.outwardIssue || link.inwardIssue;
+      const blocking = String(link.type?.name).toLowerCase() === LINK_TYPES.blocks.toLowerCase();
+
+      return {
+        id: String(link.id),
+        type: !blocking ? 'related' : link.outwardIssue ? 'blocks' : 'blocked-by',
+        issue: this.mapStub(other.key, other.id, other.fields),
+      };
+    });
+  }
+
+  private mapCustomFields(f: any, customFields: JiraCustomField[]): Issue['customFields'] {
+    const values: Record<string, CustomFieldValue> = {};
+
+    for (const field of customFields) {
+      const raw = f[field.id];
+      if (raw === undefined || raw === null || (Array.isArray(raw) && raw.length === 0)) continue;
+
+      const name = (v: any): string =>
+        typeof v === 'object' ? String(v.value ?? v.name ?? v.displayName ?? '') : String(v);
+
+      switch (field.type) {
+        case 'multiselect':
+          values[field.name] = (Array.isArray(raw) ? raw : [raw]).map(name);
+          break;
+        case 'date':
+          values[field.name] = new Date(raw);
+          break;
+        case 'number':
+          values[field.name] = Number(raw);
+          break;
+        case 'user':
+          values[field.name] = String(raw.displayName || raw.name || raw.accountId);
+          break;
+        default:
+          values[field.name] = typeof raw === 'boolean' ? raw : name(raw);
+      }
+    }
+
+    return Object.keys(values).length ? values : undefined;
+  }
+
+  private mapIssue(i: any, customFields: JiraCustomField[]): Issue {
+    const f = i.fields;
+    const epicKey = this.epicLinkField ? f[this.epicLinkField] : undefined;
+
+    return {
+      id: i.id,
+      identifier: i.key,
+      title: f.summary,
+      description: f.description || '',
+      priority: f.priority ? this.normalizePriority(f.priority.name) : 'none',
+      state: this.mapState(f),
+      labels: (f.labels || []).map((name: string) => ({ id: name, name })),
+      assignee: f.assignee ? this.mapUser(f.assignee) : undefined,
+      project: f.project ? this.mapProject(f.project) : undefined,
+      milestone: f.fixVersions?.length ? this.mapVersion(f.fixVersions[0]) : undefined,
+      parent: f.parent
+        ? this.mapStub(f.parent.key, f.parent.id, f.parent.fields)
+        : epicKey ? this.mapStub(epicKey, epicKey) : undefined,
+      children: f.subtasks?.length
+        ? f.subtasks.map((s: any) => this.mapStub(s.key, s.id, s.fields))
+        : undefined,
+      relations: this.mapRelations(f.issuelinks),
+      estimate: typeof f[this.storyPointsField] === 'number' ? f[this.storyPointsField] : undefined,
+      customFields: this.mapCustomFields(f, customFields),
+      url: this.baseUrl ? `${this.baseUrl}/browse/${i.key}` : undefined,
+      createdAt: f.created ? new Date(f.created) : undefined,
+      updatedAt: f.updated ? new Date(f.updated) : undefined,
+    };
+  }
+}
+
+// Register the adapter
+registerAdapter('jira', (config) => new JiraAdapter({
+  apiKey: config.apiKey,
+  credentials: config.credentials,
+  baseUrl: config.baseUrl,
+  email: config.email,
+  projectKey: config.teamId,
+  storyPointsField: config.storyPointsField,
+  customFields: config.customFields,
+  mappings: config.mappings,
+  fetch: config.fetch,
+  retry: config.retry,
+}));
+
+export default JiraAdapter;
@@ -0,0 +1,141 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { PaginationOptions, PaginationProgress } from './interface';
+import { LinearAdapter } from './linear';
+import { MemoryAdapter } from './memory';
+import { createLinearStubTransport } from './stubs';
+
+function stubbed(pagination?: PaginationOptions, backend = new MemoryAdapter()) {
+  const transport = createLinearStubTransport(backend);
+  const adapter = new LinearAdapter({ apiKey: 'stub', fetch: transport.fetch, pagination });
+  return { adapter, backend, transport };
+}
+
+const requestsFor = (requests: { query?: string }[], field: string) =>
+  requests.filter(r => new RegExp(`\\b${field}\\s*\\(`).test(r.query || '')).length;
+
+test('listIssues follows every page and reports progress', async () => {
+  const progress: PaginationProgress[] = [];
+  const { adapter, backend, transport } = stubbed({ pageSize: 2, onProgress: p => progress.push(p) });
+  for (let i = 1; i <= 5; i++) await backend.createIssue({ title: `Issue ${i}` });
+
+  const issues = await adapter.listIssues();
+
+  assert.equal(issues.length, 5);
+  assert.equal(requestsFor(transport.requests, 'issues'), 3);
+  assert.deepEqual(progress.map(p => [p.fetched, p.hasMore]), [[2, true], [4, true], [5, false]]);
+});
+
+test('iterateIssues stops fetching once the limit is reached', async () => {
+  const { adapter, backend, transport } = stubbed({ pageSize: 2 });
+  for (let i = 1; i <= 5; i++) await backend.createIssue({ title: `Issue ${i}` });
+
+  const titles: string[] = [];
+  for await (const issue of adapter.iterateIssues({ limit: 3 })) titles.push(issue.title);
+
+  assert.equal(titles.length, 3);
+  assert.equal(requestsFor(transport.requests, 'issues'), 2);
+});
+
+test('exceeding maxItems fails instead of truncating', async () => {
+  const { adapter, backend } = stubbed({ pageSize: 2, maxItems: 3 });
+  for (let i = 1; i <= 5; i++) await backend.createIssue({ title: `Issue ${i}` });
+
+  await assert.rejects(adapter.listIssues(), /Pagination cap of 3 items/);
+});
+
+test('workflow states are paged, for listing and for state names on create', async () => {
+  const { adapter, transport } = stubbed({ pageSize: 2 });
+
+  const states = await adapter.listWorkflowStates();
+  assert.deepEqual(states.map(s => s.name), ['Backlog', 'Todo', 'In Progress', 'Done', 'Canceled']);
+  assert.equal(requestsFor(transport.requests, 'workflowStates'), 3);
+
+  // Canceled is on the last page
+  const issue = await adapter.createIssue({ title: 'Dropped', state: 'Canceled' });
+  assert.equal(issue.state.type, 'canceled');
+});
+
+test('workflow states and labels are fetched once across creates', async () => {
+  const { adapter, backend, transport } = stubbed();
+  await backend.ensureLabel('api');
+
+  await adapter.createIssue({ title: 'First', state: 'In Progress', labels: ['api'] });
+  await adapter.createIssue({ title: 'Second', state: 'Done', labels: ['api'] });
+
+  assert.equal(requestsFor(transport.requests, 'workflowStates'), 1);
+  assert.equal(requestsFor(transport.requests, 'issueLabels'), 1);
+});
+
+test('an unknown state name refetches the cached states once', async () => {
+  const { adapter, transport } = stubbed();
+  await adapter.createIssue({ title: 'First', state: 'Todo' });
+
+  await adapter.createIssue({ title: 'Second', state: 'Nonexistent' });
+  assert.equal(requestsFor(transport.requests, 'workflowStates'), 2);
+
+  await adapter.invalidateCache('states');
+  await adapter.createIssue({ title: 'Third', state: 'Todo' });
+  assert.equal(requestsFor(transport.requests, 'workflowStates'), 3);
+});
+
+test('milestones are listed per project and carried through create and filter', async () => {
+  const { adapter, backend } = stubbed({ pageSize: 1 });
+  const project = backend.addProject({ name: 'Checkout' });
+  const beta = backend.addMilestone(project.id, { name: 'Beta', targetDate: new Date('2026-03-01') });
+  backend.addMilestone(project.id, { name: 'GA' });
+
+  const milestones = await adapter.listMilestones(project.id);
+  assert.deepEqual(milestones.map(m => m.name), ['Beta', 'GA']);
+  assert.equal(milestones[0].targetDate?.toISOString().slice(0, 10), '2026-03-01');
+  assert.deepEqual(await adapter.listMilestones('missing'), []);
+
+  await adapter.createIssue({ title: 'In beta', projectId: project.id, milestoneId: beta.id });
+  await adapter.createIssue({ title: 'Unscheduled', projectId: project.id });
+
+  const scheduled = await adapter.listIssues({ milestoneId: beta.id });
+  assert.deepEqual(scheduled.map(i => i.title), ['In beta']);
+  assert.equal(scheduled[0].milestone?.name, 'Beta');
+});
+
+test('cycles are paged, the active one is found by date, and cycleId is sent', async () => {
+  const day = 24 * 60 * 60 * 1000;
+  const cycles = [-21, -7, 7].map((offset, n) => ({
+    id: `cycle-${n + 1}`,
+    number: n + 1,
+    name: null,
+    startsAt: new Date(Date.now() + offset * day).toISOString(),
+    endsAt: new Date(Date.now() + (offset + 14) * day).toISOString(),
+  }));
+
+  const transport = createLinearStubTransport(new MemoryAdapter());
+  const cycleRequests: Record<string, any>[] = [];
+  const cycleFetch = (async (input: unknown, init?: { body?: unknown }) => {
+    const { query, variables } = JSON.parse(String(init?.body));
+    if (!/\bcycles\s*\(/.test(query)) return transport.fetch(input as string, init as RequestInit);
+
+    cycleRequests.push(variables);
+    const start = Number(variables.after || 0);
+    const nodes = cycles.slice(start, start + variables.first);
+    const body = { data: { cycles: {
+      nodes,
+      pageInfo: { hasNextPage: start + nodes.length < cycles.length, endCursor: String(start + nodes.length) },
+    } } };
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+  const adapter = new LinearAdapter({ apiKey: 'stub', teamId: 'team-1', fetch: cycleFetch, pagination: { pageSize: 2 } });
+
+  assert.deepEqual((await adapter.listCycles()).map(c => c.number), [1, 2, 3]);
+  assert.equal(cycleRequests.length, 2);
+  assert.equal(cycleRequests[0].teamId, 'team-1');
+
+  const active = await adapter.getActiveCycle('team-2');
+  assert.equal(active?.id, 'cycle-2');
+  assert.equal(active?.name, undefined);
+  assert.equal(cycleRequests[2].teamId, 'team-2');
+
+  await adapter.createIssue({ title: 'This cycle', cycleId: 'cycle-2' });
+  const create = transport.requests.find(r => /\bissueCreate\b/.test(r.query || ''));
+  assert.equal(create?.variables?.input.cycleId, 'cycle-2');
+});
@@ -5,26 +5,95 @@
  * Uses the existing Linear skill for operations.
  */
 
+import { createHash } from 'crypto';
+
 import {
   PMAdapter,
+  AdapterCapabilities,
   Project,
   Milestone,
+  Cycle,
   Issue,
   IssueFilter,
   CreateIssueInput,
   UpdateIssueInput,
+  BatchOptions,
+  BatchResult,
+  IssueUpdateItem,
   Comment,
+  IssueRelation,
+  IssueRelationType,
   Label,
   Resource,
   ProjectUpdate,
   Priority,
   IssueState,
   IssueStateType,
+  PaginationOptions,
+  CustomFieldDefinition,
+  CustomFieldValue,
   AdapterError,
   NotFoundError,
   AuthenticationError,
   registerAdapter,
 } from './interface';
+import { RequestPipeline, RetryOptions } from './transport';
+import { MetadataCache, MetadataCacheOptions } from './cache';
+import { rankIssues, scoreIssue } from './search';
+import { Credential, CredentialProvider, EnvCredentialProvider } from './credentials';
+import { WorkflowMapper, WorkflowMappings } from './mappings';
+import { resolveCustomFields, findCustomField } from './custom-fields';
+import { toError } from './batch';
+
+/** Linear's priority numbers, by the names its UI shows */
+const PRIORITY_NAMES: Record<number, string> = {
+  0: 'No priority',
+  1: 'Urgent',
+  2: 'High',
+  3: 'Medium',
+  4: 'Low',
+};
+
+/** Aliased mutations per batch request; keeps documents within Linear's complexity limit */
+const DEFAULT_BATCH_SIZE = 25;
+
+/** Metadata kinds held in the cache, for invalidateCache() */
+export type LinearCacheKind = 'states' | 'labels' | 'fields' | 'viewer';
+
+/** A label group; Issue.customFields reads it as a select field */
+interface LabelGroup {
+  id: string;
+  name: string;
+  labels: { id: string; name: string }[];
+}
+
+// ============================================================================
+// Pagination
+// ============================================================================
+
+/** Linear rejects pages larger than 250 */
+const MAX_PAGE_SIZE = 250;
+
+const DEFAULT_PAGINATION: Required<Omit<PaginationOptions, 'onProgress'>> = {
+  pageSize: 100,
+  maxItems: 5000,
+};
+
+interface Connection<T> {
+  nodes: T[];
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+}
 
 // ============================================================================
 // Linear Adapter Implementation
@@ -33,13 +102,55 @@ import {
 export class LinearAdapter implements PMAdapter {
   readonly name = 'linear';
   readonly displayName = 'Linear';
+  readonly capabilities: AdapterCapabilities = {
+    subIssues: true,
+    projectUpdates: true,
+    projectStatuses: true,
+    milestones: true,
+    estimates: true,
+    threadedComments: true,
+    customFields: true,
+  };
 
   private teamId?: string;
-  private apiKey?: string;
-
-  constructor(config: { apiKey?: string; teamId?: string } = {}) {
-    this.apiKey = config.apiKey || process.env.LINEAR_API_KEY;
+  private apiKey: Credential;
+  private pipeline: RequestPipeline;
+  private pagination: PaginationOptions;
+  private cache: MetadataCache;
+  private mapper: WorkflowMapper;
+
+  constructor(config: {
+    apiKey?: string;
+    credentials?: CredentialProvider;
+    teamId?: string;
+    fetch?: typeof fetch;
+    retry?: RetryOptions;
+    pagination?: PaginationOptions;
+    cache?: MetadataCacheOptions;
+    mappings?: WorkflowMappings;
+  } = {}) {
+    this.apiKey = new Credential(
+      config.credentials || new EnvCredentialProvider(),
+      ['LINEAR_API_KEY'],
+      config.apiKey
+    );
     this.teamId = config.teamId;
+    this.pipeline = new RequestPipeline(
+      this.name,
+      config.fetch || ((input, init) => fetch(input, init)),
+      config.retry
+    );
+    this.pagination = { ...DEFAULT_PAGINATION, ...config.pagination };
+    this.cache = new MetadataCache(config.cache);
+    this.mapper = new WorkflowMapper(config.mappings);
+  }
+
+  /**
+   * Drop cached workflow states, labels, label groups and viewer (or just one kind),
+   * e.g. after they were changed outside this adapter
+   */
+  async invalidateCache(kind?: LinearCacheKind): Promise<void> {
+    await this.cache.invalidate(await this.cacheScope() + (kind || ''));
   }
 
   // -------------------------------------------------------------------------
@@ -47,7 +158,7 @@ export class LinearAdapter implements PMAdapter {
   // -------------------------------------------------------------------------
 
   async isConfigured(): Promise<boolean> {
-    if (!this.apiKey) {
+    if (!(await this.apiKey.get())) {
       return false;
     }
 
@@ -65,21 +176,34 @@ export class LinearAdapter implements PMAdapter {
   // -------------------------------------------------------------------------
 
   async listProjects(): Promise<Project[]> {
-    const result = await this.query(`
-      query {
-        projects(first: 50) {
-          nodes {
-            id
-            name
-            description
-            state
-            url
+    return collect(this.iterateProjects());
+  }
+
+  /**
+   * Stream all accessible projects, one page at a time
+   */
+  iterateProjects(): AsyncIterable<Project> {
+    return this.paginate('listProjects', async (first, after) => {
+      const result = await this.query(`
+        query($first: Int!, $after: String) {
+          projects(first: $first, after: $after) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              id
+              name
+              description
+              state
+              url
+            }
           }
         }
-      }
-    `);
+      `, { first, after });
 
-    return result.projects.nodes.map(this.mapProject);
+      return result.projects;
+    }, p => this.mapProject(p));
   }
 
   async getProject(idOrName: string): Promise<Project | null> {
@@ -114,27 +238,83 @@ export class LinearAdapter implements PMAdapter {
   }
 
   async listMilestones(projectId: string): Promise<Milestone[]> {
-    const result = await this.query(`
-      query($projectId: String!) {
-        project(id: $projectId) {
-          projectMilestones {
+    return collect(this.paginate('listMilestones', async (first, after) => {
+      const result = await this.query(`
+        query($projectId: String!, $first: Int!, $after: String) {
+          project(id: $projectId) {
+            projectMilestones(first: $first, after: $after) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              nodes {
+                id
+                name
+                description
+                targetDate
+              }
+            }
+          }
+        }
+      `, { projectId, first, after });
+
+      return result.project?.projectMilestones || this.emptyConnection();
+    }, m => this.mapMilestone(m)));
+  }
+
+  async listWorkflowStates(): Promise<IssueState[]> {
+    return collect(this.paginate('listWorkflowStates', (first, after) =>
+      this.fetchWorkflowStates(first, after), s => this.mapState(s)));
+  }
+
+  /** Label groups, as select fields whose options are the group's labels */
+  async listCustomFields(): Promise<CustomFieldDefinition[]> {
+    const groups = await this.fetchLabelGroups();
+    await this.cache.set(await this.cacheKey('fields'), groups);
+    return groups.map(g => this.mapLabelGroup(g));
+  }
+
+  /**
+   * List a team's cycles, oldest first
+   */
+  async listCycles(teamId?: string): Promise<Cycle[]> {
+    return collect(this.iterateCycles(teamId));
+  }
+
+  /**
+   * Stream a team's cycles, one page at a time
+   */
+  iterateCycles(teamId?: string): AsyncIterable<Cycle> {
+    return this.paginate('listCycles', async (first, after) => {
+      const result = await this.query(`
+        query($teamId: String, $first: Int!, $after: String) {
+          cycles(filter: { team: { id: { eq: $teamId } } }, first: $first, after: $after) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
             nodes {
               id
+              number
               name
-              description
-              targetDate
+              startsAt
+              endsAt
             }
           }
         }
-      }
-    `, { projectId });
+      `, { teamId: teamId || this.teamId, first, after });
 
-    return (result.project?.projectMilestones?.nodes || []).map((m: any) => ({
-      id: m.id,
-      name: m.name,
-      description: m.description,
-      targetDate: m.targetDate ? new Date(m.targetDate) : undefined,
-    }));
+      return result.cycles;
+    }, c => this.mapCycle(c));
+  }
+
+  /**
+   * The cycle in progress now, if the team has one
+   */
+  async getActiveCycle(teamId?: string): Promise<Cycle | null> {
+    const now = Date.now();
+    const cycles = await this.listCycles(teamId);
+    return cycles.find(c => c.startsAt.getTime() <= now && now < c.endsAt.getTime()) || null;
   }
 
   // -------------------------------------------------------------------------
@@ -170,87 +350,69 @@ export class LinearAdapter implements PMAdapter {
   }
 
   async listIssues(filter?: IssueFilter): Promise<Issue[]> {
-    const filterObj: any = {};
-
-    if (filter?.projectId) {
-      filterObj.project = { id: { eq: filter.projectId } };
-    }
-
-    if (filter?.priority?.length) {
-      filterObj.priority = { in: filter.priority.map(this.priorityToNumber) };
-    }
+    const issues = await collect(this.iterateIssues(filter));
+    return filter?.search
+      ? rankIssues(issues, filter.search, { prefiltered: true })
+      : issues;
+  }
 
-    if (filter?.state?.length) {
-      filterObj.state = { type: { in: filter.state } };
-    }
+  /**
+   * Stream issues matching a filter, one page at a time.
+   * Without `filter.limit`, yields every match up to the pagination cap.
+   * With `filter.search`, uses Linear's issue search (titles, descriptions
+   * and comments) and yields matches in Linear's rank order.
+   */
+  iterateIssues(filter?: IssueFilter): AsyncIterable<Issue> {
+    const search = filter?.search?.trim();
+    const variables = async () => {
+      const filterObj = await this.buildIssueFilter(filter);
+      return { filter: Object.keys(filterObj).length > 0 ? filterObj : undefined };
+    };
 
-    if (filter?.labels?.length) {
-      filterObj.labels = { some: { name: { in: filter.labels } } };
-    }
+    if (search) {
+      return this.paginate('listIssues', async (first, after) => {
+        const result = await this.query(`
+          query($term: String!, $filter: IssueFilter, $first: Int!, $after: String) {
+            searchIssues(term: $term, filter: $filter, first: $first, after: $after, includeComments: true) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              nodes {
+                ${this.issueFragment}
+              }
+            }
+          }
+        `, { ...(await variables()), term: search, first, after });
 
-    if (filter?.assignee) {
-      if (filter.assignee === 'me') {
-        filterObj.assignee = { isMe: { eq: true } };
-      } else {
-        filterObj.assignee = { id: { eq: filter.assignee } };
-      }
+        return result.searchIssues;
+      }, i => {
+        const issue = this.mapIssue(i);
+        return { ...issue, relevance: scoreIssue(issue, search) };
+      }, filter?.limit);
     }
 
-    const result = await this.query(`
-      query($filter: IssueFilter, $limit: Int) {
-        issues(filter: $filter, first: $limit) {
-          nodes {
-            ${this.issueFragment}
+    return this.paginate('listIssues', async (first, after) => {
+      const result = await this.query(`
+        query($filter: IssueFilter, $first: Int!, $after: String) {
+          issues(filter: $filter, first: $first, after: $after) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              ${this.issueFragment}
+            }
           }
         }
-      }
-    `, {
-      filter: Object.keys(filterObj).length > 0 ? filterObj : undefined,
-      limit: filter?.limit || 50,
-    });
+      `, { ...(await variables()), first, after });
 
-    return result.issues.nodes.map((i: any) => this.mapIssue(i));
+      return result.issues;
+    }, i => this.mapIssue(i), filter?.limit);
   }
 
   async createIssue(data: CreateIssueInput): Promise<Issue> {
-    const input: any = {
-      title: data.title,
-      description: data.description,
-      teamId: this.teamId,
-    };
-
-    if (data.priority) {
-      input.priority = this.priorityToNumber(data.priority);
-    }
-
-    if (data.state) {
-      // Need to look up state ID
-      const stateId = await this.getStateId(data.state);
-      if (stateId) input.stateId = stateId;
-    }
-
-    if (data.labels?.length) {
-      const labelIds = await this.getLabelIds(data.labels);
-      if (labelIds.length) input.labelIds = labelIds;
-    }
-
-    if (data.assignee) {
-      input.assigneeId = data.assignee === 'me'
-        ? await this.getCurrentUserId()
-        : data.assignee;
-    }
-
-    if (data.projectId) {
-      input.projectId = data.projectId;
-    }
-
-    if (data.parentId) {
-      input.parentId = data.parentId;
-    }
-
-    if (data.estimate) {
-      input.estimate = data.estimate;
-    }
+    const input = await this.createInput(data);
 
     const result = await this.query(`
       mutation($input: IssueCreateInput!) {
@@ -275,38 +437,7 @@ export class LinearAdapter implements PMAdapter {
   }
 
   async updateIssue(id: string, data: UpdateIssueInput): Promise<Issue> {
-    const input: any = {};
-
-    if (data.title !== undefined) input.title = data.title;
-    if (data.description !== undefined) input.description = data.description;
-
-    if (data.priority) {
-      input.priority = this.priorityToNumber(data.priority);
-    }
-
-    if (data.state) {
-      const stateId = await this.getStateId(data.state);
-      if (stateId) input.stateId = stateId;
-    }
-
-    if (data.labels) {
-      const labelIds = await this.getLabelIds(data.labels);
-      input.labelIds = labelIds;
-    }
-
-    if (data.assignee) {
-      input.assigneeId = data.assignee === 'me'
-        ? await this.getCurrentUserId()
-        : data.assignee;
-    }
-
-    if (data.projectId) {
-      input.projectId = data.projectId;
-    }
-
-    if (data.parentId) {
-      input.parentId = data.parentId;
-    }
+    const input = await this.updateInput(data);
 
     const result = await this.query(`
       mutation($id: String!, $input: IssueUpdateInput!) {
@@ -326,56 +457,221 @@ export class LinearAdapter implements PMAdapter {
     return this.mapIssue(result.issueUpdate.issue);
   }
 
+  /**
+   * Create issues as aliased `issueCreate` mutations, `batchSize` per
+   * request. State, label and viewer lookups come from the metadata cache,
+   * so a batch costs one request per chunk plus one per uncached kind.
+   */
+  async batchCreateIssues(inputs: CreateIssueInput[], options: BatchOptions = {}): Promise<BatchResult<Issue>[]> {
+    return this.batchMutate(
+      'batchCreateIssues',
+      inputs.map(data => async () => ({ input: await this.createInput(data) })),
+      options
+    );
+  }
+
+  /**
+   * Update issues as aliased `issueUpdate` mutations, `batchSize` per request
+   */
+  async batchUpdateIssues(updates: IssueUpdateItem[], options: BatchOptions = {}): Promise<BatchResult<Issue>[]> {
+    return this.batchMutate(
+      'batchUpdateIssues',
+      updates.map(({ id, data }) => async () => ({ id, input: await this.updateInput(data) })),
+      options
+    );
+  }
+
+  // -------------------------------------------------------------------------
+  // Comments
+  // -------------------------------------------------------------------------
+
+  async listComments(issueId: string): Promise<Comment[]> {
+    const comments = await collect(this.paginate('listComments', async (first, after) => {
+      const result = await this.query(`
+        query($id: String!, $first: Int!, $after: String) {
+          issue(id: $id) {
+            comments(first: $first, after: $after) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              nodes {
+                ${this.commentFragment}
+              }
+            }
+          }
+        }
+      `, { id: issueId, first, after });
+
+      if (!result.issue) {
+        throw new NotFoundError(this.name, 'Issue', issueId);
+      }
+      return result.issue.comments;
+    }, c => this.mapComment(c)));
+
+    // Page order follows the API's default ordering; the contract is oldest first
+    return comments.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
   async addComment(issueId: string, body: string): Promise<Comment> {
+    return this.createComment('addComment', { issueId, body });
+  }
+
+  async replyToComment(issueId: string, commentId: string, body: string): Promise<Comment> {
+    return this.createComment('replyToComment', { issueId, body, parentId: commentId });
+  }
+
+  async updateComment(_issueId: string, commentId: string, body: string): Promise<Comment> {
+    const result = await this.query(`
+      mutation($id: String!, $body: String!) {
+        commentUpdate(id: $id, input: { body: $body }) {
+          success
+          comment {
+            ${this.commentFragment}
+          }
+        }
+      }
+    `, { id: commentId, body });
+
+    if (!result.commentUpdate.success) {
+      throw new AdapterError('Failed to update comment', this.name, 'updateComment');
+    }
+
+    return this.mapComment(result.commentUpdate.comment);
+  }
+
+  private async createComment(
+    operation: string,
+    input: { issueId: string; body: string; parentId?: string }
+  ): Promise<Comment> {
     const result = await this.query(`
-      mutation($issueId: String!, $body: String!) {
-        commentCreate(input: { issueId: $issueId, body: $body }) {
+      mutation($input: CommentCreateInput!) {
+        commentCreate(input: $input) {
           success
           comment {
+            ${this.commentFragment}
+          }
+        }
+      }
+    `, { input });
+
+    if (!result.commentCreate.success) {
+      throw new AdapterError('Failed to add comment', this.name, operation);
+    }
+
+    return this.mapComment(result.commentCreate.comment);
+  }
+
+  // -------------------------------------------------------------------------
+  // Relations
+  // -------------------------------------------------------------------------
+
+  async createRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Promise<IssueRelation> {
+    // Linear has no "blocked by" type; it is the inverse of "blocks"
+    const [from, to] = type === 'blocked-by'
+      ? [relatedIssueId, issueId]
+      : [issueId, relatedIssueId];
+
+    const result = await this.query(`
+      mutation($issueId: String!, $relatedIssueId: String!, $type: IssueRelationType!) {
+        issueRelationCreate(input: {
+          issueId: $issueId,
+          relatedIssueId: $relatedIssueId,
+          type: $type
+        }) {
+          success
+          issueRelation {
             id
-            body
-            createdAt
-            user {
+            issue {
               id
-              name
+              identifier
+              title
+            }
+            relatedIssue {
+              id
+              identifier
+              title
             }
           }
         }
       }
-    `, { issueId, body });
+    `, { issueId: from, relatedIssueId: to, type: type === 'related' ? 'related' : 'blocks' });
 
-    if (!result.commentCreate.success) {
-      throw new AdapterError('Failed to add comment', this.name, 'addComment');
+    if (!result.issueRelationCreate.success) {
+      throw new AdapterError('Failed to create relation', this.name, 'createRelation');
     }
 
-    const c = result.commentCreate.comment;
+    const r = result.issueRelationCreate.issueRelation;
     return {
-      id: c.id,
-      body: c.body,
-      author: { id: c.user.id, name: c.user.name },
-      createdAt: new Date(c.createdAt),
+      id: r.id,
+      type,
+      issue: this.mapIssueStub(type === 'blocked-by' ? r.issue : r.relatedIssue),
     };
   }
 
+  async removeRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Promise<void> {
+    const issue = await this.getIssue(issueId);
+    if (!issue) {
+      throw new NotFoundError(this.name, 'Issue', issueId);
+    }
+
+    const relation = issue.relations?.find(r =>
+      r.type === type &&
+      (r.issue.id === relatedIssueId || r.issue.identifier === relatedIssueId)
+    );
+    if (!relation) return;
+
+    await this.query(`
+      mutation($id: String!) {
+        issueRelationDelete(id: $id) {
+          success
+        }
+      }
+    `, { id: relation.id });
+  }
+
   // -------------------------------------------------------------------------
   // Labels
   // -------------------------------------------------------------------------
 
   async listLabels(teamId?: string): Promise<Label[]> {
-    const result = await this.query(`
-      query($teamId: String) {
-        issueLabels(filter: { team: { id: { eq: $teamId } } }, first: 100) {
-          nodes {
-            id
-            name
-            color
-            description
+    const labels = await collect(this.iterateLabels(teamId));
+    await this.cache.set(await this.cacheKey('labels', teamId), labels);
+    return labels;
+  }
+
+  /**
+   * Stream all labels for a team, one page at a time
+   */
+  iterateLabels(teamId?: string): AsyncIterable<Label> {
+    return this.paginate('listLabels', async (first, after) => {
+      const result = await this.query(`
+        query($teamId: String, $first: Int!, $after: String) {
+          issueLabels(filter: { team: { id: { eq: $teamId } } }, first: $first, after: $after) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              id
+              name
+              color
+              description
+            }
           }
         }
-      }
-    `, { teamId: teamId || this.teamId });
+      `, { teamId: teamId || this.teamId, first, after });
 
-    return result.issueLabels.nodes.map((l: any) => ({
+      return result.issueLabels;
+    }, (l: any): Label => ({
       id: l.id,
       name: l.name,
       color: l.color,
@@ -388,11 +684,13 @@ export class LinearAdapter implements PMAdapter {
   }
 
   async ensureLabel(name: string, teamId?: string): Promise<Label> {
-    const labels = await this.listLabels(teamId);
-    const existing = labels.find(
-      l => l.name.toLowerCase() === name.toLowerCase()
-    );
+    const matches = (l: Label) => l.name.toLowerCase() === name.toLowerCase();
 
+    const cached = (await this.getCachedLabels(teamId)).find(matches);
+    if (cached) return cached;
+
+    // The cache may predate a label created elsewhere; check before creating
+    const existing = (await this.listLabels(teamId)).find(matches);
     if (existing) return existing;
 
     // Create new label
@@ -413,11 +711,14 @@ export class LinearAdapter implements PMAdapter {
       throw new AdapterError('Failed to create label', this.name, 'ensureLabel');
     }
 
-    return {
+    const label: Label = {
       id: result.issueLabelCreate.issueLabel.id,
       name: result.issueLabelCreate.issueLabel.name,
       color: result.issueLabelCreate.issueLabel.color,
     };
+
+    await this.cache.update<Label[]>(await this.cacheKey('labels', teamId), labels => [...labels, label]);
+    return label;
   }
 
   // -------------------------------------------------------------------------
@@ -495,15 +796,21 @@ export class LinearAdapter implements PMAdapter {
   // -------------------------------------------------------------------------
 
   normalizePriority(priority: string): Priority {
+    const mapped = this.mapper.priority(priority);
+    if (mapped) return mapped;
+
     const map: Record<string, Priority> = {
+      'no priority': 'none',
+      none: 'none',
       urgent: 'P0-Critical',
       high: 'P1-High',
       medium: 'P2-Medium',
       low: 'P3-Low',
-      '0': 'P0-Critical',
-      '1': 'P1-High',
-      '2': 'P2-Medium',
-      '3': 'P3-Low',
+      // Linear's numbering, as in numberToPriority
+      '0': 'none',
+      '1': 'P0-Critical',
+      '2': 'P1-High',
+      '3': 'P2-Medium',
       '4': 'P3-Low',
     };
 
@@ -512,6 +819,9 @@ export class LinearAdapter implements PMAdapter {
   }
 
   normalizeState(state: string): IssueStateType {
+    const mapped = this.mapper.state(state);
+    if (mapped) return mapped;
+
     const map: Record<string, IssueStateType> = {
       backlog: 'backlog',
       todo: 'unstarted',
@@ -538,18 +848,274 @@ export class LinearAdapter implements PMAdapter {
   // Private Helpers
   // -------------------------------------------------------------------------
 
-  private async query(query: string, variables?: Record<string, any>): Promise<any> {
-    if (!this.apiKey) {
-      throw new AuthenticationError(this.name);
-    }
+  /**
+   * Follow Linear's cursor pagination, yielding mapped nodes as pages arrive.
+   * Stops at `limit` when given; otherwise fails once `maxItems` would be
+   * exceeded, so a large backlog is never silently truncated.
+   */
+  private async *paginate<T>(
+    operation: string,
+    fetchPage: (first: number, after: string | null) => Promise<Connection<any>>,
+    map: (node: any) => T,
+    limit?: number
+  ): AsyncGenerator<T> {
+    const pageSize = Math.min(this.pagination.pageSize || DEFAULT_PAGINATION.pageSize, MAX_PAGE_SIZE);
+    const maxItems = this.pagination.maxItems || DEFAULT_PAGINATION.maxItems;
+    const wanted = limit ?? Infinity;
+
+    let after: string | null = null;
+    let fetched = 0;
+    let pages = 0;
+
+    while (fetched < wanted) {
+      const page = await fetchPage(Math.min(pageSize, wanted - fetched), after);
+      pages++;
+
+      for (const node of page.nodes) {
+        if (fetched >= wanted) break;
+        if (fetched >= maxItems) {
+          throw new AdapterError(
+            `Pagination cap of ${maxItems} items reached; narrow the filter or raise pagination.maxItems`,
+            this.name,
+            operation
+          );
+        }
+        fetched++;
+        yield map(node);
+      }
+
+      const hasMore = page.pageInfo.hasNextPage && page.nodes.length > 0;
+      this.pagination.onProgress?.({ operation, fetched, pages, hasMore });
+
+      if (!hasMore) break;
+      after = page.pageInfo.endCursor;
+    }
+  }
+
+  private emptyConnection(): Connection<any> {
+    return { nodes: [], pageInfo: { hasNextPage: false, endCursor: null } };
+  }
+
+  /** IssueCreateInput for `data`, with names resolved to IDs */
+  private async createInput(data: CreateIssueInput): Promise<any> {
+    const input: any = {
+      title: data.title,
+      description: data.description,
+      teamId: this.teamId,
+    };
+
+    if (data.priority) {
+      input.priority = this.priorityToNumber(data.priority);
+    }
+
+    if (data.state) {
+      // Need to look up state ID
+      const stateId = await this.getStateId(data.state);
+      if (stateId) input.stateId = stateId;
+    }
+
+    if (data.labels?.length) {
+      const labelIds = await this.getLabelIds(data.labels);
+      if (labelIds.length) input.labelIds = labelIds;
+    }
+
+    if (data.assignee) {
+      input.assigneeId = data.assignee === 'me'
+        ? await this.getCurrentUserId()
+        : data.assignee;
+    }
+
+    if (data.projectId) {
+      input.projectId = data.projectId;
+    }
+
+    if (data.milestoneId) {
+      input.projectMilestoneId = data.milestoneId;
+    }
+
+    if (data.cycleId) {
+      input.cycleId = data.cycleId;
+    }
+
+    if (data.parentId) {
+      input.parentId = data.parentId;
+    }
+
+    if (data.estimate) {
+      input.estimate = data.estimate;
+    }
+
+    if (data.customFields) {
+      const labelIds = (await this.labelGroupValues(data.customFields, 'createIssue'))
+        .flatMap(g => g.labelIds);
+      if (labelIds.length) input.labelIds = [...(input.labelIds || []), ...labelIds];
+    }
+
+    return input;
+  }
+
+  /** IssueUpdateInput for `data`, with names resolved to IDs */
+  private async updateInput(data: UpdateIssueInput): Promise<any> {
+    const input: any = {};
+
+    if (data.title !== undefined) input.title = data.title;
+    if (data.description !== undefined) input.description = data.description;
+
+    if (data.priority) {
+      input.priority = this.priorityToNumber(data.priority);
+    }
+
+    if (data.state) {
+      const stateId = await this.getStateId(data.state);
+      if (stateId) input.stateId = stateId;
+    }
+
+    if (data.labels) {
+      const labelIds = await this.getLabelIds(data.labels);
+      input.labelIds = labelIds;
+    }
+
+    if (data.assignee) {
+      input.assigneeId = data.assignee === 'me'
+        ? await this.getCurrentUserId()
+        : data.assignee;
+    }
+
+    if (data.projectId) {
+      input.projectId = data.projectId;
+    }
+
+    if (data.milestoneId) {
+      input.projectMilestoneId = data.milestoneId;
+    }
+
+    if (data.cycleId) {
+      input.cycleId = data.cycleId;
+    }
+
+    if (data.parentId) {
+      input.parentId = data.parentId;
+    }
+
+    if (data.customFields) {
+      // Setting a group replaces whichever of its labels the issue had
+      const groups = await this.labelGroupValues(data.customFields, 'updateIssue');
+      const added = groups.flatMap(g => g.labelIds);
+      const removed = groups
+        .flatMap(g => g.group.labels.map(l => l.id))
+        .filter(id => !added.includes(id));
+
+      if (input.labelIds) {
+        input.labelIds = [...input.labelIds.filter((id: string) => !removed.includes(id)), ...added];
+      } else {
+        if (added.length) input.addedLabelIds = added;
+        if (removed.length) input.removedLabelIds = removed;
+      }
+    }
+
+    return input;
+  }
+
+  private async buildIssueFilter(filter?: IssueFilter): Promise<any> {
+    const filterObj: any = {};
+
+    if (filter?.projectId) {
+      filterObj.project = { id: { eq: filter.projectId } };
+    }
+
+    if (filter?.milestoneId) {
+      filterObj.projectMilestone = { id: { eq: filter.milestoneId } };
+    }
+
+    if (filter?.cycleId) {
+      filterObj.cycle = { id: { eq: filter.cycleId } };
+    }
+
+    if (filter?.priority?.length) {
+      filterObj.priority = { in: filter.priority.map(p => this.priorityToNumber(p)) };
+    }
+
+    if (filter?.state?.length) {
+      filterObj.state = { type: { in: filter.state } };
+    }
+
+    if (filter?.labels?.length) {
+      filterObj.labels = { some: { name: { in: filter.labels } } };
+    }
+
+    if (filter?.assignee) {
+      if (filter.assignee === 'me') {
+        filterObj.assignee = { isMe: { eq: true } };
+      } else {
+        filterObj.assignee = { id: { eq: filter.assignee } };
+      }
+    }
+
+    if (filter?.customFields) {
+      // One `labels` condition per group, so each group must match
+      const groups = await this.labelGroupValues(filter.customFields, 'listIssues');
+      const conditions = groups.map(({ group, labelIds }) => {
+        if (!labelIds.length) {
+          throw new AdapterError(
+            `Cannot filter on an unset label group: ${group.name}`,
+            this.name,
+            'listIssues'
+          );
+        }
+        return { labels: { some: { id: { in: labelIds } } } };
+      });
+
+      if (filterObj.labels) {
+        conditions.unshift({ labels: filterObj.labels });
+        delete filterObj.labels;
+      }
+      if (conditions.length) filterObj.and = conditions;
+    }
+
+    return filterObj;
+  }
+
+  private async query(query: string, variables?: Record<string, any>): Promise<any> {
+    const result = await this.send(query, variables);
+
+    if (result.errors.length) {
+      throw new AdapterError(
+        result.errors[0].message,
+        this.name,
+        'query'
+      );
+    }
 
-    const response = await fetch('https://api.linear.app/graphql', {
+    return result.data;
+  }
+
+  /**
+   * POST a GraphQL document. GraphQL errors are returned rather than
+   * thrown, since in a batch each aliased mutation fails on its own.
+   */
+  private async send(
+    query: string,
+    variables?: Record<string, any>
+  ): Promise<{ data: any; errors: any[] }> {
+    const apiKey = await this.apiKey.get();
+    if (!apiKey) {
+      throw new AuthenticationError(this.name);
+    }
+
+    const response = await this.pipeline.send('https://api.linear.app/graphql', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        Authorization: this.apiKey,
+        Authorization: apiKey,
       },
       body: JSON.stringify({ query, variables }),
+    }, {
+      idempotent: !/^\s*mutation\b/.test(query),
+      // Linear reports rate limiting as a GraphQL error, not only as HTTP 429
+      detectRateLimit: async r => {
+        const body = await r.json();
+        return (body.errors || []).some((e: any) => e.extensions?.code === 'RATELIMITED');
+      },
     });
 
     if (!response.ok) {
@@ -564,18 +1130,96 @@ export class LinearAdapter implements PMAdapter {
     }
 
     const result = await response.json();
+    return { data: result.data ?? null, errors: result.errors || [] };
+  }
 
-    if (result.errors?.length) {
-      throw new AdapterError(
-        result.errors[0].message,
-        this.name,
-        'query'
-      );
+  /**
+   * Send issue mutations as aliased documents (`m0: issueCreate(...)`),
+   * `batchSize` per request, one request after another. An item whose
+   * input can't be built, or whose alias fails, fails alone; a request
+   * that fails outright fails every item in it.
+   */
+  private async batchMutate(
+    operation: string,
+    items: Array<() => Promise<{ id?: string; input: any }>>,
+    options: BatchOptions
+  ): Promise<BatchResult<Issue>[]> {
+    const results: BatchResult<Issue>[] = new Array(items.length);
+    const prepared: { index: number; id?: string; input: any }[] = [];
+
+    for (const [index, build] of items.entries()) {
+      try {
+        prepared.push({ index, ...(await build()) });
+      } catch (error) {
+        results[index] = { index, ok: false, error: toError(error) };
+      }
     }
 
-    return result.data;
+    const batchSize = Math.max(1, options.batchSize || DEFAULT_BATCH_SIZE);
+
+    for (let start = 0; start < prepared.length; start += batchSize) {
+      const chunk = prepared.slice(start, start + batchSize);
+      const params: string[] = [];
+      const variables: Record<string, any> = {};
+
+      const fields = chunk.map((item, n) => {
+        variables[`input${n}`] = item.input;
+        if (item.id === undefined) {
+          params.push(`$input${n}: IssueCreateInput!`);
+          return `m${n}: issueCreate(input: $input${n}) { success issue { ${this.issueFragment} } }`;
+        }
+
+        variables[`id${n}`] = item.id;
+        params.push(`$id${n}: String!`, `$input${n}: IssueUpdateInput!`);
+        return `m${n}: issueUpdate(id: $id${n}, input: $input${n}) { success issue { ${this.issueFragment} } }`;
+      });
+
+      let response: { data: any; errors: any[] };
+      try {
+        response = await this.send(`mutation(${params.join(', ')}) {\n${fields.join('\n')}\n}`, variables);
+      } catch (error) {
+        for (const item of chunk) {
+          results[item.index] = { index: item.index, ok: false, error: toError(error) };
+        }
+        continue;
+      }
+
+      chunk.forEach((item, n) => {
+        const payload = response.data?.[`m${n}`];
+        if (payload?.success) {
+          results[item.index] = { index: item.index, ok: true, value: this.mapIssue(payload.issue) };
+          return;
+        }
+
+        // Errors without a path (e.g. a rejected document) apply to every alias
+        const error = response.errors.find(e => e.path?.[0] === `m${n}`)
+          || response.errors.find(e => !e.path);
+        results[item.index] = {
+          index: item.index,
+          ok: false,
+          error: new AdapterError(error?.message || 'Mutation was not applied', this.name, operation),
+        };
+      });
+    }
+
+    return results;
   }
 
+  private readonly commentFragment = `
+    id
+    body
+    createdAt
+    editedAt
+    parent {
+      id
+    }
+    user {
+      id
+      name
+      email
+    }
+  `;
+
   private readonly issueFragment = `
     id
     identifier
@@ -596,6 +1240,10 @@ export class LinearAdapter implements PMAdapter {
         id
         name
         color
+        parent {
+          id
+          name
+        }
       }
     }
     assignee {
@@ -607,6 +1255,19 @@ export class LinearAdapter implements PMAdapter {
       id
       name
     }
+    projectMilestone {
+      id
+      name
+      description
+      targetDate
+    }
+    cycle {
+      id
+      number
+      name
+      startsAt
+      endsAt
+    }
     parent {
       id
       identifier
@@ -619,6 +1280,28 @@ export class LinearAdapter implements PMAdapter {
         title
       }
     }
+    relations(first: 50) {
+      nodes {
+        id
+        type
+        relatedIssue {
+          id
+          identifier
+          title
+        }
+      }
+    }
+    inverseRelations(first: 50) {
+      nodes {
+        id
+        type
+        issue {
+          id
+          identifier
+          title
+        }
+      }
+    }
     estimate
   `;
 
@@ -639,12 +1322,7 @@ export class LinearAdapter implements PMAdapter {
       title: i.title,
       description: i.description || '',
       priority: this.numberToPriority(i.priority),
-      state: {
-        id: i.state.id,
-        name: i.state.name,
-        type: i.state.type,
-        color: i.state.color,
-      },
+      state: this.mapState(i.state),
       labels: (i.labels?.nodes || []).map((l: any) => ({
         id: l.id,
         name: l.name,
@@ -659,44 +1337,126 @@ export class LinearAdapter implements PMAdapter {
         id: i.project.id,
         name: i.project.name,
       } : undefined,
-      parent: i.parent ? {
-        id: i.parent.id,
-        identifier: i.parent.identifier,
-        title: i.parent.title,
-        description: '',
-        priority: 'P2-Medium',
-        state: { id: '', name: '', type: 'unstarted' },
-        labels: [],
-      } : undefined,
-      children: i.children?.nodes?.map((c: any) => ({
-        id: c.id,
-        identifier: c.identifier,
-        title: c.title,
-        description: '',
-        priority: 'P2-Medium' as Priority,
-        state: { id: '', name: '', type: 'unstarted' as IssueStateType },
-        labels: [],
-      })),
+      milestone: i.projectMilestone ? this.mapMilestone(i.projectMilestone) : undefined,
+      cycle: i.cycle ? this.mapCycle(i.cycle) : undefined,
+      parent: i.parent ? this.mapIssueStub(i.parent) : undefined,
+      children: i.children?.nodes?.map((c: any) => this.mapIssueStub(c)),
+      relations: this.mapRelations(i),
       estimate: i.estimate,
+      customFields: this.mapLabelGroupValues(i.labels?.nodes || []),
       url: i.url,
       createdAt: i.createdAt ? new Date(i.createdAt) : undefined,
       updatedAt: i.updatedAt ? new Date(i.updatedAt) : undefined,
     };
   }
 
+  /** Labels that belong to a group, as group name -> label name */
+  private mapLabelGroupValues(labels: any[]): Issue['customFields'] {
+    const grouped = labels.filter(l => l.parent);
+    return grouped.length
+      ? Object.fromEntries(grouped.map(l => [l.parent.name, l.name]))
+      : undefined;
+  }
+
+  private mapLabelGroup(g: LabelGroup): CustomFieldDefinition {
+    return {
+      id: g.id,
+      name: g.name,
+      type: 'select',
+      options: g.labels.map(l => l.name),
+    };
+  }
+
+  private mapComment(c: any): Comment {
+    return {
+      id: c.id,
+      body: c.body,
+      // Integration and bot comments have no user
+      author: c.user
+        ? { id: c.user.id, name: c.user.name, email: c.user.email }
+        : { id: '', name: 'Unknown' },
+      createdAt: new Date(c.createdAt),
+      updatedAt: c.editedAt ? new Date(c.editedAt) : undefined,
+      parentId: c.parent?.id,
+    };
+  }
+
+  private mapMilestone(m: any): Milestone {
+    return {
+      id: m.id,
+      name: m.name,
+      description: m.description || undefined,
+      targetDate: m.targetDate ? new Date(m.targetDate) : undefined,
+    };
+  }
+
+  private mapCycle(c: any): Cycle {
+    return {
+      id: c.id,
+      number: c.number,
+      name: c.name || undefined,
+      startsAt: new Date(c.startsAt),
+      endsAt: new Date(c.endsAt),
+    };
+  }
+
+  private mapIssueStub(i: any): Issue {
+    return {
+      id: i.id,
+      identifier: i.identifier,
+      title: i.title,
+      description: '',
+      priority: 'P2-Medium',
+      state: { id: '', name: '', type: 'unstarted' },
+      labels: [],
+    };
+  }
+
+  /**
+   * Linear stores each relation once. Outgoing "blocks" blocks the other
+   * issue; incoming "blocks" means this issue is blocked. Duplicate and
+   * similar relations are reported as "related".
+   */
+  private mapRelations(i: any): IssueRelation[] {
+    const outgoing = (i.relations?.nodes || []).map((r: any): IssueRelation => ({
+      id: r.id,
+      type: r.type === 'blocks' ? 'blocks' : 'related',
+      issue: this.mapIssueStub(r.relatedIssue),
+    }));
+
+    const incoming = (i.inverseRelations?.nodes || []).map((r: any): IssueRelation => ({
+      id: r.id,
+      type: r.type === 'blocks' ? 'blocked-by' : 'related',
+      issue: this.mapIssueStub(r.issue),
+    }));
+
+    return [...outgoing, ...incoming];
+  }
+
   private priorityToNumber(priority: Priority): number {
+    // A configured mapping names the Linear priority by number or label
+    for (const name of this.mapper.priorityNames(priority)) {
+      const num = Object.entries(PRIORITY_NAMES)
+        .find(([n, label]) => n === name || label.toLowerCase() === name.toLowerCase())?.[0];
+      if (num !== undefined) return Number(num);
+    }
+
     const map: Record<Priority, number> = {
       'P0-Critical': 1,
       'P1-High': 2,
       'P2-Medium': 3,
       'P3-Low': 4,
+      none: 0,
     };
-    return map[priority] || 3;
+    return map[priority] ?? 3;
   }
 
   private numberToPriority(num: number): Priority {
+    const mapped = this.mapper.priority(num, PRIORITY_NAMES[num] || '');
+    if (mapped) return mapped;
+
     const map: Record<number, Priority> = {
-      0: 'P3-Low',      // No priority
+      0: 'none',        // No priority
       1: 'P0-Critical', // Urgent
       2: 'P1-High',     // High
       3: 'P2-Medium',   // Medium
@@ -705,39 +1465,173 @@ export class LinearAdapter implements PMAdapter {
     return map[num] || 'P2-Medium';
   }
 
-  private async getStateId(stateName: string): Promise<string | null> {
+  /** A configured mapping overrides the type Linear reports */
+  private mapState(s: any): IssueState {
+    return {
+      id: s.id,
+      name: s.name,
+      type: this.mapper.state(s.name) || s.type,
+      color: s.color,
+    };
+  }
+
+  /**
+   * Cache keys are scoped to the API key, so a persisted cache shared
+   * between workspaces never serves one workspace's metadata to another
+   */
+  private async cacheScope(): Promise<string> {
+    const account = createHash('sha256').update(await this.apiKey.get() || '').digest('hex').slice(0, 12);
+    return `linear:${account}:`;
+  }
+
+  private async cacheKey(kind: LinearCacheKind, teamId?: string): Promise<string> {
+    const scope = await this.cacheScope();
+    return kind === 'viewer'
+      ? `${scope}viewer`
+      : `${scope}${kind}:${teamId || this.teamId || ''}`;
+  }
+
+  private async getCachedLabels(teamId?: string): Promise<Label[]> {
+    return this.cache.getOrLoad(
+      await this.cacheKey('labels', teamId),
+      () => collect(this.iterateLabels(teamId))
+    );
+  }
+
+  private async fetchLabelGroups(): Promise<LabelGroup[]> {
+    return collect(this.paginate('listCustomFields', async (first, after) => {
+      const result = await this.query(`
+        query($teamId: String, $first: Int!, $after: String) {
+          issueLabels(
+            filter: { isGroup: { eq: true }, team: { id: { eq: $teamId } } },
+            first: $first,
+            after: $after
+          ) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              id
+              name
+              children(first: 250) {
+                nodes {
+                  id
+                  name
+                }
+              }
+            }
+          }
+        }
+      `, { teamId: this.teamId, first, after });
+
+      return result.issueLabels;
+    }, (g: any): LabelGroup => ({
+      id: g.id,
+      name: g.name,
+      labels: (g.children?.nodes || []).map((l: any) => ({ id: l.id, name: l.name })),
+    })));
+  }
+
+  private async getCachedLabelGroups(): Promise<LabelGroup[]> {
+    return this.cache.getOrLoad(await this.cacheKey('fields'), () => this.fetchLabelGroups());
+  }
+
+  /**
+   * Resolve custom field values to label groups and the IDs of the chosen
+   * labels (none for null)
+   */
+  private async labelGroupValues(
+    values: Record<string, CustomFieldValue>,
+    operation: string
+  ): Promise<{ group: LabelGroup; labelIds: string[] }[]> {
+    let groups = await this.getCachedLabelGroups();
+    const known = (key: string) => findCustomField(groups.map(g => this.mapLabelGroup(g)), key);
+
+    if (!Object.keys(values).every(known)) {
+      // Unknown group: the cached groups may be stale, refetch once
+      await this.invalidateCache('fields');
+      groups = await this.getCachedLabelGroups();
+    }
+
+    const fields = groups.map(g => this.mapLabelGroup(g));
+    return resolveCustomFields(fields, values, this.name, operation).map(({ field, value }) => {
+      const group = groups.find(g => g.id === field.id)!;
+      const names = value === null ? [] : Array.isArray(value) ? value : [String(value)];
+      return {
+        group,
+        labelIds: names.map(name => group.labels.find(l => l.name === name)!.id),
+      };
+    });
+  }
+
+  private async fetchWorkflowStates(first: number, after: string | null): Promise<Connection<any>> {
     const result = await this.query(`
-      query($teamId: String) {
-        workflowStates(filter: { team: { id: { eq: $teamId } } }) {
+      query($teamId: String, $first: Int!, $after: String) {
+        workflowStates(filter: { team: { id: { eq: $teamId } } }, first: $first, after: $after) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
           nodes {
             id
             name
+            type
+            color
           }
         }
       }
-    `, { teamId: this.teamId });
+    `, { teamId: this.teamId, first, after });
 
-    const state = result.workflowStates.nodes.find(
-      (s: any) => s.name.toLowerCase() === stateName.toLowerCase()
+    return result.workflowStates;
+  }
+
+  private async getCachedStates(): Promise<{ id: string; name: string }[]> {
+    return this.cache.getOrLoad(await this.cacheKey('states'), () =>
+      collect(this.paginate('listWorkflowStates', (first, after) =>
+        this.fetchWorkflowStates(first, after), (s: any) => ({ id: s.id, name: s.name })))
     );
+  }
+
+  private async getStateId(stateName: string): Promise<string | null> {
+    const find = (states: { id: string; name: string }[]) =>
+      states.find(s => s.name.toLowerCase() === stateName.toLowerCase());
+
+    let state = find(await this.getCachedStates());
+    if (!state) {
+      // Unknown name: the cached states may be stale, refetch once
+      await this.invalidateCache('states');
+      state = find(await this.getCachedStates());
+    }
 
     return state?.id || null;
   }
 
   private async getLabelIds(labels: string[]): Promise<string[]> {
-    const allLabels = await this.listLabels();
-    const labelMap = new Map(
-      allLabels.map(l => [l.name.toLowerCase(), l.id])
-    );
+    const resolve = (allLabels: Label[]) => {
+      const labelMap = new Map(
+        allLabels.map(l => [l.name.toLowerCase(), l.id])
+      );
+      const labelIds = new Set(allLabels.map(l => l.id));
+
+      // Accept label IDs as well as names
+      return labels.map(label => labelIds.has(label) ? label : labelMap.get(label.toLowerCase()));
+    };
+
+    let resolved = resolve(await this.getCachedLabels());
+    if (resolved.includes(undefined)) {
+      // Unknown label: the cached labels may be stale, refetch once
+      resolved = resolve(await this.listLabels());
+    }
 
-    return labels
-      .map(name => labelMap.get(name.toLowerCase()))
-      .filter((id): id is string => id !== undefined);
+    return resolved.filter((id): id is string => id !== undefined);
   }
 
   private async getCurrentUserId(): Promise<string> {
-    const result = await this.query('query { viewer { id } }');
-    return result.viewer.id;
+    return this.cache.getOrLoad(await this.cacheKey('viewer'), async () => {
+      const result = await this.query('query { viewer { id } }');
+      return result.viewer.id as string;
+    });
   }
 }
 
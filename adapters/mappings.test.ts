@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { LinearAdapter } from './linear';
+import { MappingError, WorkflowMapper, WorkflowMappings, loadMappings, validateMappings } from './mappings';
+import { MemoryAdapter } from './memory';
+import { createLinearStubTransport } from './stubs';
+
+/** Linear over a stub whose team has QA and Ready for Deploy states */
+function linear(mappings?: WorkflowMappings) {
+  const backend = new MemoryAdapter({
+    states: [
+      { id: 'state-todo', name: 'Todo', type: 'unstarted' },
+      { id: 'state-qa', name: 'QA', type: 'started' },
+      { id: 'state-deploy', name: 'Ready for Deploy', type: 'started' },
+      { id: 'state-done', name: 'Done', type: 'completed' },
+    ],
+  });
+  const transport = createLinearStubTransport(backend);
+  return new LinearAdapter({ apiKey: 'stub', fetch: transport.fetch, mappings });
+}
+
+test('WorkflowMapper looks names up case-insensitively', () => {
+  const mapper = new WorkflowMapper({
+    states: { QA: 'started' },
+    priorities: { 'No priority': 'none', 2: 'P1-High', Blocker: 'P0-Critical' },
+  });
+
+  assert.equal(mapper.state('qa'), 'started');
+  assert.equal(mapper.state('Review'), undefined);
+  assert.equal(mapper.priority(9, 'no PRIORITY'), 'none');
+  assert.equal(mapper.priority(2), 'P1-High');
+  assert.deepEqual(mapper.priorityNames('P0-Critical'), ['Blocker']);
+});
+
+test('Linear normalizePriority reads names and Linear numbers', () => {
+  const adapter = linear();
+
+  assert.deepEqual(['0', '1', '2', '3', '4'].map(n => adapter.normalizePriority(n)),
+    ['none', 'P0-Critical', 'P1-High', 'P2-Medium', 'P3-Low']);
+  assert.equal(adapter.normalizePriority('Urgent'), 'P0-Critical');
+  assert.equal(adapter.normalizePriority('No priority'), 'none');
+  assert.equal(linear({ priorities: { Urgent: 'P1-High' } }).normalizePriority('urgent'), 'P1-High');
+});
+
+test('mapped states and priorities apply to issues read from and written to Linear', async () => {
+  const adapter = linear({ states: { QA: 'started' }, priorities: { High: 'P0-Critical' } });
+
+  assert.equal(adapter.normalizeState('QA'), 'started');
+  const issue = await adapter.createIssue({ title: 'Hotfix', priority: 'P0-Critical', state: 'QA' });
+  assert.equal(issue.priority, 'P0-Critical');
+  assert.equal(issue.state.name, 'QA');
+});
+
+test('validateMappings flags unknown mapped states and misread tracker states', async () => {
+  const result = await validateMappings(linear(), { states: { QA: 'started', Staging: 'started' } });
+
+  assert.equal(result.valid, false);
+  assert.equal(result.errors.length, 1);
+  assert.match(result.errors[0], /^State "Staging" is mapped but Linear has no such state/);
+  assert.deepEqual(result.warnings, [
+    'State "Ready for Deploy" is started in Linear but reads as unstarted; add it to the mapping',
+  ]);
+
+  const clean = await validateMappings(linear(), { states: { QA: 'started', 'Ready for Deploy': 'started' } });
+  assert.deepEqual(clean, { valid: true, errors: [], warnings: [] });
+});
+
+test('loadMappings merges a team block over the adapter mapping and rejects unknown values', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-mappings-'));
+  try {
+    const file = path.join(dir, 'config.yaml');
+    await fs.writeFile(file, [
+      'wave-planner:',
+      '  adapters:',
+      '    mappings:',
+      '      linear:',
+      '        states:',
+      '          QA: started',
+      '          Triage: unstarted',
+      '        priorities:',
+      '          No priority: none',
+      '        teams:',
+      '          ENG:',
+      '            states:',
+      '              Triage: backlog',
+      '',
+    ].join('\n'), 'utf8');
+
+    assert.deepEqual(await loadMappings('linear', 'eng', { paths: [file] }), {
+      states: { QA: 'started', Triage: 'backlog' },
+      priorities: { 'No priority': 'none' },
+    });
+    assert.deepEqual(await loadMappings('jira', undefined, { paths: [file] }), {});
+
+    await fs.writeFile(file, 'wave-planner:\n  adapters:\n    mappings:\n      linear:\n        states:\n          QA: testing\n', 'utf8');
+    await assert.rejects(loadMappings('linear', undefined, { paths: [file] }), MappingError);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,198 @@
+/**
+ * Workflow Mappings
+ *
+ * Teams name their workflow states and priorities as they like ("QA",
+ * "Ready for Deploy", "No priority"). Mappings declared in config.yaml
+ * under `adapters.mappings.<adapter>` translate those names into
+ * IssueStateType and Priority, ahead of each adapter's built-in names.
+ * A `teams.<key>` block overrides the adapter-wide mapping for one team
+ * (Linear team, Jira project key, GitHub repository).
+ *
+ * validateMappings checks a mapping against the tracker's real workflow
+ * states, so typos surface at startup instead of as misplaced issues.
+ */
+
+import {
+  PMAdapter,
+  Priority,
+  IssueStateType,
+  IssueState,
+} from './interface';
+import { loadConfig, getConfigValue, ConfigLoadOptions } from '../lib/config';
+import type { YamlValue } from '../lib/yaml';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WorkflowMappings {
+  states?: Record<string, IssueStateType>;   // Tracker state name -> type
+  priorities?: Record<string, Priority>;      // Tracker priority name or number -> Priority
+}
+
+export interface MappingValidation {
+  valid: boolean;
+  errors: string[];           // Mapped names the tracker doesn't have
+  warnings: string[];         // Tracker states the adapter would misclassify
+}
+
+export class MappingError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid workflow mappings:\n${problems.map(p => `- ${p}`).join('\n')}`);
+    this.name = 'MappingError';
+  }
+}
+
+export const STATE_TYPES: IssueStateType[] = ['backlog', 'unstarted', 'started', 'completed', 'canceled'];
+
+export const PRIORITIES: Priority[] = ['P0-Critical', 'P1-High', 'P2-Medium', 'P3-Low', 'none'];
+
+// ============================================================================
+// Workflow Mapper
+// ============================================================================
+
+/**
+ * Case-insensitive lookups over a WorkflowMappings. Adapters consult it
+ * before their built-in names; undefined means "not mapped".
+ */
+export class WorkflowMapper {
+  private states: Map<string, IssueStateType>;
+  private priorities: Map<string, Priority>;
+
+  constructor(private mappings: WorkflowMappings = {}) {
+    this.states = lowerKeys(mappings.states);
+    this.priorities = lowerKeys(mappings.priorities);
+  }
+
+  state(name: string): IssueStateType | undefined {
+    return this.states.get(name.toLowerCase());
+  }
+
+  /** First of the given names (e.g. Linear's number, then its label) that is mapped */
+  priority(...names: Array<string | number>): Priority | undefined {
+    for (const name of names) {
+      const priority = this.priorities.get(String(name).toLowerCase());
+      if (priority) return priority;
+    }
+    return undefined;
+  }
+
+  /** Tracker names mapped to `priority`, for writes; the first one is used */
+  priorityNames(priority: Priority): string[] {
+    return Object.entries(this.mappings.priorities || {})
+      .filter(([, p]) => p === priority)
+      .map(([name]) => name);
+  }
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Read the mapping for one adapter (and optionally one team) from
+ * config.yaml. Unknown state types or priorities throw MappingError.
+ */
+export async function loadMappings(
+  adapter: string,
+  team?: string,
+  options: ConfigLoadOptions = {}
+): Promise<WorkflowMappings> {
+  const config = await loadConfig(options);
+  const section = getConfigValue(config, `adapters.mappings.${adapter}`);
+  if (!isMap(section)) return {};
+
+  const problems: string[] = [];
+  const base = parseMappings(section, `${adapter}`, problems);
+
+  const teams = section.teams;
+  const teamSection = team && isMap(teams)
+    ? Object.entries(teams).find(([key]) => key.toLowerCase() === team.toLowerCase())?.[1]
+    : undefined;
+  const override = isMap(teamSection) ? parseMappings(teamSection, `${adapter}.teams.${team}`, problems) : {};
+
+  if (problems.length > 0) throw new MappingError(problems);
+
+  return {
+    states: { ...base.states, ...override.states },
+    priorities: { ...base.priorities, ...override.priorities },
+  };
+}
+
+function parseMappings(
+  section: { [key: string]: YamlValue },
+  where: string,
+  problems: string[]
+): WorkflowMappings {
+  const result: WorkflowMappings = {};
+
+  if (isMap(section.states)) {
+    result.states = {};
+    for (const [name, value] of Object.entries(section.states)) {
+      const type = String(value) as IssueStateType;
+      if (STATE_TYPES.includes(type)) result.states[name] = type;
+      else problems.push(`${where}.states.${name}: "${value}" is not one of ${STATE_TYPES.join(', ')}`);
+    }
+  }
+
+  if (isMap(section.priorities)) {
+    result.priorities = {};
+    for (const [name, value] of Object.entries(section.priorities)) {
+      const priority = PRIORITIES.find(p => p.toLowerCase() === String(value).toLowerCase());
+      if (priority) result.priorities[name] = priority;
+      else problems.push(`${where}.priorities.${name}: "${value}" is not one of ${PRIORITIES.join(', ')}`);
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Compare a mapping with the tracker's workflow states. A mapped state
+ * the tracker doesn't have is an error; a tracker state the adapter reads
+ * as a different type than the tracker reports, and that isn't mapped,
+ * is a warning.
+ */
+export async function validateMappings(
+  adapter: PMAdapter,
+  mappings: WorkflowMappings
+): Promise<MappingValidation> {
+  const states = await adapter.listWorkflowStates();
+  const names = new Set(states.map(s => s.name.toLowerCase()));
+  const mapper = new WorkflowMapper(mappings);
+
+  const errors = Object.keys(mappings.states || {})
+    .filter(name => !names.has(name.toLowerCase()))
+    .map(name => `State "${name}" is mapped but ${adapter.displayName} has no such state (has: ${states.map(s => s.name).join(', ')})`);
+
+  const warnings = states
+    .filter(s => !mapper.state(s.name) && misread(adapter, s))
+    .map(s => `State "${s.name}" is ${s.type} in ${adapter.displayName} but reads as ${adapter.normalizeState(s.name)}; add it to the mapping`);
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Validate and throw MappingError if any mapped state doesn't exist
+ */
+export async function assertValidMappings(adapter: PMAdapter, mappings: WorkflowMappings): Promise<string[]> {
+  const result = await validateMappings(adapter, mappings);
+  if (!result.valid) throw new MappingError(result.errors);
+  return result.warnings;
+}
+
+function misread(adapter: PMAdapter, state: IssueState): boolean {
+  return adapter.normalizeState(state.name) !== state.type;
+}
+
+function lowerKeys<T>(record: Record<string, T> = {}): Map<string, T> {
+  return new Map(Object.entries(record).map(([key, value]) => [key.toLowerCase(), value]));
+}
+
+function isMap(value: YamlValue | undefined): value is { [key: string]: YamlValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,706 @@
+/**
+ * Memory PM Adapter
+ *
+ * Reference implementation of PMAdapter that keeps everything in memory.
+ * Defines the expected contract semantics for the conformance suite and
+ * backs the stubbed transports used to exercise the HTTP adapters.
+ */
+
+import {
+  PMAdapter,
+  AdapterCapabilities,
+  Project,
+  Milestone,
+  Issue,
+  IssueFilter,
+  CreateIssueInput,
+  UpdateIssueInput,
+  BatchOptions,
+  BatchResult,
+  IssueUpdateItem,
+  Comment,
+  IssueRelation,
+  IssueRelationType,
+  Label,
+  Resource,
+  ProjectUpdate,
+  Priority,
+  IssueState,
+  IssueStateType,
+  User,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  AdapterError,
+  NotFoundError,
+  registerAdapter,
+} from './interface';
+import { runBatch } from './batch';
+import { matchesSearch, rankIssues } from './search';
+import { resolveCustomFields, matchesCustomFields } from './custom-fields';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MemoryAdapterConfig {
+  prefix?: string;             // Identifier prefix (default: MEM)
+  viewer?: User;               // Who "me" refers to
+  users?: User[];
+  states?: IssueState[];
+  projects?: Project[];
+  customFields?: CustomFieldDefinition[];
+}
+
+interface IssueRecord {
+  id: string;
+  identifier: string;
+  title: string;
+  description: string;
+  priority: Priority;
+  stateId: string;
+  labelIds: string[];
+  parentId?: string;
+  projectId?: string;
+  milestoneId?: string;
+  assigneeId?: string;
+  estimate?: number;
+  customFields: Record<string, CustomFieldValue>; // By field ID
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Stored in one direction only: "blocked-by" is kept as the inverse "blocks" */
+interface RelationRecord {
+  id: string;
+  type: 'blocks' | 'related';
+  issueId: string;
+  relatedIssueId: string;
+}
+
+const DEFAULT_STATES: IssueState[] = [
+  { id: 'state-backlog', name: 'Backlog', type: 'backlog' },
+  { id: 'state-todo', name: 'Todo', type: 'unstarted' },
+  { id: 'state-in-progress', name: 'In Progress', type: 'started' },
+  { id: 'state-done', name: 'Done', type: 'completed' },
+  { id: 'state-canceled', name: 'Canceled', type: 'canceled' },
+];
+
+const DEFAULT_VIEWER: User = { id: 'user-me', name: 'Me' };
+
+// ============================================================================
+// Memory Adapter Implementation
+// ============================================================================
+
+export class MemoryAdapter implements PMAdapter {
+  readonly name = 'memory';
+  readonly displayName = 'In-Memory';
+  readonly capabilities: AdapterCapabilities = {
+    subIssues: true,
+    projectUpdates: true,
+    projectStatuses: true,
+    milestones: true,
+    estimates: true,
+    threadedComments: true,
+    customFields: true,
+  };
+
+  /** Resources linked via linkResourceToProject, by project ID */
+  readonly projectLinks = new Map<string, Resource[]>();
+
+  /** Updates posted via createProjectUpdate, by project ID */
+  readonly projectUpdates = new Map<string, ProjectUpdate[]>();
+
+  private prefix: string;
+  private viewer: User;
+  private users = new Map<string, User>();
+  private states: IssueState[];
+  private projects = new Map<string, Project>();
+  private milestones = new Map<string, Milestone & { projectId: string }>();
+  private labels = new Map<string, Label>();
+  private issues = new Map<string, IssueRecord>();
+  private comments = new Map<string, Comment[]>();
+  private relations = new Map<string, RelationRecord>();
+  private customFields: CustomFieldDefinition[] = [];
+  private counter = 0;
+
+  constructor(config: MemoryAdapterConfig = {}) {
+    this.prefix = config.prefix || 'MEM';
+    this.viewer = config.viewer || DEFAULT_VIEWER;
+    this.states = config.states || DEFAULT_STATES;
+
+    for (const user of [this.viewer, ...(config.users || [])]) {
+      this.users.set(user.id, user);
+    }
+    for (const project of config.projects || []) {
+      this.addProject(project);
+    }
+    for (const field of config.customFields || []) {
+      this.defineCustomField(field);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Seeding
+  // -------------------------------------------------------------------------
+
+  /** Add a project (PMAdapter has no project creation) */
+  addProject(project: Omit<Project, 'id'> & { id?: string }): Project {
+    const stored: Project = { ...project, id: project.id || this.nextId('project') };
+    this.projects.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  /** Add a milestone to an existing project */
+  addMilestone(projectId: string, milestone: Omit<Milestone, 'id'> & { id?: string }): Milestone {
+    if (!this.projects.has(projectId)) {
+      throw new NotFoundError(this.name, 'Project', projectId);
+    }
+
+    const stored = { ...milestone, id: milestone.id || this.nextId('milestone'), projectId };
+    this.milestones.set(stored.id, stored);
+    return this.mapMilestone(stored);
+  }
+
+  /** Define a custom field issues can carry */
+  defineCustomField(field: Omit<CustomFieldDefinition, 'id'> & { id?: string }): CustomFieldDefinition {
+    const stored: CustomFieldDefinition = { ...field, id: field.id || this.nextId('field') };
+    this.customFields.push(stored);
+    return { ...stored };
+  }
+
+  /** Workflow states issues can move through */
+  listStates(): IssueState[] {
+    return this.states.map(s => ({ ...s }));
+  }
+
+  /** The user "me" resolves to */
+  getViewer(): User {
+    return { ...this.viewer };
+  }
+
+  // -------------------------------------------------------------------------
+  // Configuration
+  // -------------------------------------------------------------------------
+
+  async isConfigured(): Promise<boolean> {
+    return true;
+  }
+
+  // -------------------------------------------------------------------------
+  // Discovery
+  // -------------------------------------------------------------------------
+
+  async listProjects(): Promise<Project[]> {
+    return [...this.projects.values()].map(p => ({ ...p }));
+  }
+
+  async getProject(idOrName: string): Promise<Project | null> {
+    const byId = this.projects.get(idOrName);
+    if (byId) return { ...byId };
+
+    const match = [...this.projects.values()].find(
+      p => p.name.toLowerCase().includes(idOrName.toLowerCase())
+    );
+
+    return match ? { ...match } : null;
+  }
+
+  async listMilestones(projectId: string): Promise<Milestone[]> {
+    return [...this.milestones.values()]
+      .filter(m => m.projectId === projectId)
+      .map(m => this.mapMilestone(m));
+  }
+
+  async listWorkflowStates(): Promise<IssueState[]> {
+    return this.listStates();
+  }
+
+  async listCustomFields(): Promise<CustomFieldDefinition[]> {
+    return this.customFields.map(f => ({ ...f, options: f.options && [...f.options] }));
+  }
+
+  // -------------------------------------------------------------------------
+  // Issue Operations
+  // -------------------------------------------------------------------------
+
+  async getIssue(idOrIdentifier: string): Promise<Issue | null> {
+    const record = this.findRecord(idOrIdentifier);
+    return record ? this.mapIssue(record) : null;
+  }
+
+  async listIssues(filter?: IssueFilter): Promise<Issue[]> {
+    const customFields = filter?.customFields
+      ? resolveCustomFields(this.customFields, filter.customFields, this.name, 'listIssues')
+      : [];
+
+    const issues = [...this.issues.values()]
+      .map(r => this.mapIssue(r))
+      .filter(issue => this.matchesFilter(issue, filter))
+      .filter(issue => matchesCustomFields(issue, customFields));
+
+    const ranked = filter?.search ? rankIssues(issues, filter.search) : issues;
+    return ranked.slice(0, filter?.limit || 50);
+  }
+
+  async createIssue(data: CreateIssueInput): Promise<Issue> {
+    if (data.parentId && !this.findRecord(data.parentId)) {
+      throw new NotFoundError(this.name, 'Issue', data.parentId);
+    }
+
+    const number = ++this.counter;
+    const now = new Date();
+    const record: IssueRecord = {
+      id: `issue-${number}`,
+      identifier: `${this.prefix}-${number}`,
+      title: data.title,
+      description: data.description || '',
+      priority: data.priority || 'P2-Medium',
+      stateId: data.state ? this.resolveState(data.state).id : this.defaultState().id,
+      labelIds: data.labels ? this.resolveLabelIds(data.labels) : [],
+      parentId: data.parentId ? this.findRecord(data.parentId)!.id : undefined,
+      projectId: data.projectId ? this.requireProject(data.projectId).id : undefined,
+      milestoneId: data.milestoneId ? this.requireMilestone(data.milestoneId).id : undefined,
+      assigneeId: data.assignee ? this.resolveUser(data.assignee).id : undefined,
+      estimate: data.estimate,
+      customFields: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (data.customFields) this.setCustomFields(record, data.customFields, 'createIssue');
+
+    this.issues.set(record.id, record);
+    return this.mapIssue(record);
+  }
+
+  async createSubIssue(parentId: string, data: CreateIssueInput): Promise<Issue> {
+    return this.createIssue({ ...data, parentId });
+  }
+
+  async updateIssue(id: string, data: UpdateIssueInput): Promise<Issue> {
+    const record = this.requireRecord(id);
+
+    if (data.title !== undefined) record.title = data.title;
+    if (data.description !== undefined) record.description = data.description;
+    if (data.priority) record.priority = data.priority;
+    if (data.state) record.stateId = this.resolveState(data.state).id;
+    if (data.labels) record.labelIds = this.resolveLabelIds(data.labels);
+    if (data.assignee) record.assigneeId = this.resolveUser(data.assignee).id;
+    if (data.estimate !== undefined) record.estimate = data.estimate;
+    if (data.projectId) record.projectId = this.requireProject(data.projectId).id;
+    if (data.milestoneId) record.milestoneId = this.requireMilestone(data.milestoneId).id;
+    if (data.customFields) this.setCustomFields(record, data.customFields, 'updateIssue');
+
+    if (data.parentId) {
+      const parent = this.requireRecord(data.parentId);
+      if (parent.id === record.id) {
+        throw new AdapterError('An issue cannot be its own parent', this.name, 'updateIssue');
+      }
+      record.parentId = parent.id;
+    }
+
+    record.updatedAt = new Date();
+    return this.mapIssue(record);
+  }
+
+  async batchCreateIssues(inputs: CreateIssueInput[], options: BatchOptions = {}): Promise<BatchResult<Issue>[]> {
+    return runBatch(inputs, data => this.createIssue(data), options.concurrency);
+  }
+
+  async batchUpdateIssues(updates: IssueUpdateItem[], options: BatchOptions = {}): Promise<BatchResult<Issue>[]> {
+    return runBatch(updates, ({ id, data }) => this.updateIssue(id, data), options.concurrency);
+  }
+
+  // -------------------------------------------------------------------------
+  // Comments
+  // -------------------------------------------------------------------------
+
+  async listComments(issueId: string): Promise<Comment[]> {
+    const record = this.requireRecord(issueId);
+    return (this.comments.get(record.id) || []).map(c => ({ ...c }));
+  }
+
+  async addComment(issueId: string, body: string): Promise<Comment> {
+    return this.storeComment(issueId, body);
+  }
+
+  async replyToComment(issueId: string, commentId: string, body: string): Promise<Comment> {
+    this.requireComment(issueId, commentId);
+    return this.storeComment(issueId, body, commentId);
+  }
+
+  async updateComment(issueId: string, commentId: string, body: string): Promise<Comment> {
+    const comment = this.requireComment(issueId, commentId);
+    comment.body = body;
+    comment.updatedAt = new Date();
+    return { ...comment };
+  }
+
+  // -------------------------------------------------------------------------
+  // Relations
+  // -------------------------------------------------------------------------
+
+  async createRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Promise<IssueRelation> {
+    const issue = this.requireRecord(issueId);
+    const related = this.requireRecord(relatedIssueId);
+
+    if (issue.id === related.id) {
+      throw new AdapterError('An issue cannot be related to itself', this.name, 'createRelation');
+    }
+
+    const existing = this.findRelation(issue.id, related.id, type);
+    const record = existing || {
+      id: this.nextId('relation'),
+      ...this.canonicalRelation(issue.id, related.id, type),
+    };
+    this.relations.set(record.id, record);
+
+    return { id: record.id, type, issue: this.mapStub(related) };
+  }
+
+  async removeRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Promise<void> {
+    const issue = this.requireRecord(issueId);
+    const related = this.requireRecord(relatedIssueId);
+    const existing = this.findRelation(issue.id, related.id, type);
+
+    if (existing) {
+      this.relations.delete(existing.id);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Labels
+  // -------------------------------------------------------------------------
+
+  async listLabels(_teamId?: string): Promise<Label[]> {
+    return [...this.labels.values()].map(l => ({ ...l }));
+  }
+
+  async applyLabels(issueId: string, labelIds: string[]): Promise<void> {
+    await this.updateIssue(issueId, { labels: labelIds });
+  }
+
+  async ensureLabel(name: string, _teamId?: string): Promise<Label> {
+    const existing = this.findLabel(name);
+    if (existing) return { ...existing };
+
+    const label: Label = { id: this.nextId('label'), name };
+    this.labels.set(label.id, label);
+    return { ...label };
+  }
+
+  // -------------------------------------------------------------------------
+  // Project Operations
+  // -------------------------------------------------------------------------
+
+  async linkResourceToProject(projectId: string, resource: Resource): Promise<void> {
+    const project = this.requireProject(projectId);
+    this.projectLinks.set(project.id, [...(this.projectLinks.get(project.id) || []), { ...resource }]);
+  }
+
+  async createProjectUpdate(projectId: string, update: ProjectUpdate): Promise<void> {
+    const project = this.requireProject(projectId);
+    this.projectUpdates.set(project.id, [...(this.projectUpdates.get(project.id) || []), { ...update }]);
+  }
+
+  async updateProjectStatus(projectId: string, status: string): Promise<void> {
+    this.requireProject(projectId).state = status;
+  }
+
+  // -------------------------------------------------------------------------
+  // Utilities
+  // -------------------------------------------------------------------------
+
+  normalizePriority(priority: string): Priority {
+    const map: Record<string, Priority> = {
+      none: 'none',
+      'no priority': 'none',
+      'p0-critical': 'P0-Critical',
+      'p1-high': 'P1-High',
+      'p2-medium': 'P2-Medium',
+      'p3-low': 'P3-Low',
+      urgent: 'P0-Critical',
+      critical: 'P0-Critical',
+      high: 'P1-High',
+      medium: 'P2-Medium',
+      low: 'P3-Low',
+    };
+
+    const normalized = priority.toLowerCase();
+    return map[normalized] || 'P2-Medium';
+  }
+
+  normalizeState(state: string): IssueStateType {
+    const match = this.states.find(
+      s => s.name.toLowerCase() === state.toLowerCase() || s.id === state
+    );
+    if (match) return match.type;
+
+    const types: IssueStateType[] = ['backlog', 'unstarted', 'started', 'completed', 'canceled'];
+    return types.find(t => t === state.toLowerCase()) || 'unstarted';
+  }
+
+  buildIssueUrl(issue: Issue): string {
+    return issue.url || `memory://issue/${issue.identifier}`;
+  }
+
+  buildProjectUrl(project: Project): string {
+    return project.url || `memory://project/${project.id}`;
+  }
+
+  // -------------------------------------------------------------------------
+  // Private Helpers
+  // -------------------------------------------------------------------------
+
+  private nextId(kind: string): string {
+    return `${kind}-${++this.counter}`;
+  }
+
+  private findRecord(idOrIdentifier: string): IssueRecord | undefined {
+    return this.issues.get(idOrIdentifier) || [...this.issues.values()].find(
+      r => r.identifier.toLowerCase() === idOrIdentifier.toLowerCase()
+    );
+  }
+
+  private requireRecord(idOrIdentifier: string): IssueRecord {
+    const record = this.findRecord(idOrIdentifier);
+    if (!record) {
+      throw new NotFoundError(this.name, 'Issue', idOrIdentifier);
+    }
+    return record;
+  }
+
+  private storeComment(issueId: string, body: string, parentId?: string): Comment {
+    const record = this.requireRecord(issueId);
+    const comment: Comment = {
+      id: this.nextId('comment'),
+      body,
+      author: { ...this.viewer },
+      createdAt: new Date(),
+      parentId,
+    };
+
+    this.comments.set(record.id, [...(this.comments.get(record.id) || []), comment]);
+    return { ...comment };
+  }
+
+  private requireComment(issueId: string, commentId: string): Comment {
+    const record = this.requireRecord(issueId);
+    const comment = this.comments.get(record.id)?.find(c => c.id === commentId);
+    if (!comment) {
+      throw new NotFoundError(this.name, 'Comment', commentId);
+    }
+    return comment;
+  }
+
+  private requireProject(id: string): Project {
+    const project = this.projects.get(id);
+    if (!project) {
+      throw new NotFoundError(this.name, 'Project', id);
+    }
+    return project;
+  }
+
+  private requireMilestone(id: string): Milestone & { projectId: string } {
+    const milestone = this.milestones.get(id);
+    if (!milestone) {
+      throw new NotFoundError(this.name, 'Milestone', id);
+    }
+    return milestone;
+  }
+
+  private findLabel(idOrName: string): Label | undefined {
+    return this.labels.get(idOrName) || [...this.labels.values()].find(
+      l => l.name.toLowerCase() === idOrName.toLowerCase()
+    );
+  }
+
+  private resolveLabelIds(labels: string[]): string[] {
+    // Unknown names are ignored, matching how LinearAdapter resolves labels
+    const ids = labels
+      .map(l => this.findLabel(l)?.id)
+      .filter((id): id is string => id !== undefined);
+    return [...new Set(ids)];
+  }
+
+  private canonicalRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): Omit<RelationRecord, 'id'> {
+    return type === 'blocked-by'
+      ? { type: 'blocks', issueId: relatedIssueId, relatedIssueId: issueId }
+      : { type, issueId, relatedIssueId };
+  }
+
+  private findRelation(
+    issueId: string,
+    relatedIssueId: string,
+    type: IssueRelationType
+  ): RelationRecord | undefined {
+    const wanted = this.canonicalRelation(issueId, relatedIssueId, type);
+
+    return [...this.relations.values()].find(r =>
+      r.type === wanted.type && (
+        (r.issueId === wanted.issueId && r.relatedIssueId === wanted.relatedIssueId) ||
+        // "related" has no direction
+        (r.type === 'related' && r.issueId === wanted.relatedIssueId && r.relatedIssueId === wanted.issueId)
+      )
+    );
+  }
+
+  private mapRelations(record: IssueRecord): IssueRelation[] {
+    const relations: IssueRelation[] = [];
+
+    for (const r of this.relations.values()) {
+      if (r.issueId === record.id) {
+        relations.push({ id: r.id, type: r.type, issue: this.mapStub(this.issues.get(r.relatedIssueId)!) });
+      } else if (r.relatedIssueId === record.id) {
+        relations.push({
+          id: r.id,
+          type: r.type === 'blocks' ? 'blocked-by' : 'related',
+          issue: this.mapStub(this.issues.get(r.issueId)!),
+        });
+      }
+    }
+
+    return relations;
+  }
+
+  private resolveState(state: string): IssueState {
+    const match =
+      this.states.find(s => s.id === state || s.name.toLowerCase() === state.toLowerCase()) ||
+      this.states.find(s => s.type === this.normalizeState(state));
+
+    if (!match) {
+      throw new NotFoundError(this.name, 'State', state);
+    }
+    return match;
+  }
+
+  private defaultState(): IssueState {
+    return this.states.find(s => s.type === 'unstarted') || this.states[0];
+  }
+
+  private resolveUser(assignee: string): User {
+    if (assignee === 'me') return this.viewer;
+
+    const user = this.users.get(assignee);
+    if (!user) {
+      throw new NotFoundError(this.name, 'User', assignee);
+    }
+    return user;
+  }
+
+  /** Merge values into the record; null removes a field */
+  private setCustomFields(
+    record: IssueRecord,
+    values: Record<string, CustomFieldValue>,
+    operation: string
+  ): void {
+    for (const { field, value } of resolveCustomFields(this.customFields, values, this.name, operation)) {
+      if (value === null) delete record.customFields[field.id];
+      else record.customFields[field.id] = value;
+    }
+  }
+
+  private matchesFilter(issue: Issue, filter?: IssueFilter): boolean {
+    if (!filter) return true;
+
+    if (filter.projectId && issue.project?.id !== filter.projectId) return false;
+    if (filter.milestoneId && issue.milestone?.id !== filter.milestoneId) return false;
+    if (filter.priority?.length && !filter.priority.includes(issue.priority)) return false;
+    if (filter.state?.length && !filter.state.includes(issue.state.type)) return false;
+
+    if (filter.labels?.length) {
+      const wanted = new Set(filter.labels.map(l => l.toLowerCase()));
+      if (!issue.labels.some(l => wanted.has(l.name.toLowerCase()))) return false;
+    }
+
+    if (filter.assignee) {
+      const assigneeId = filter.assignee === 'me' ? this.viewer.id : filter.assignee;
+      if (issue.assignee?.id !== assigneeId) return false;
+    }
+
+    if (filter.search && !matchesSearch(issue, filter.search)) return false;
+
+    return true;
+  }
+
+  private mapMilestone(m: Milestone & { projectId: string }): Milestone {
+    const project = this.projects.get(m.projectId);
+    return {
+      id: m.id,
+      name: m.name,
+      description: m.description,
+      targetDate: m.targetDate,
+      project: project ? { ...project } : undefined,
+    };
+  }
+
+  private mapStub(record: IssueRecord): Issue {
+    return {
+      id: record.id,
+      identifier: record.identifier,
+      title: record.title,
+      description: '',
+      priority: record.priority,
+      state: { ...this.states.find(s => s.id === record.stateId)! },
+      labels: [],
+    };
+  }
+
+  private mapIssue(record: IssueRecord): Issue {
+    const parent = record.parentId ? this.issues.get(record.parentId) : undefined;
+    const children = [...this.issues.values()].filter(r => r.parentId === record.id);
+    const project = record.projectId ? this.projects.get(record.projectId) : undefined;
+    const milestone = record.milestoneId ? this.milestones.get(record.milestoneId) : undefined;
+    const assignee = record.assigneeId ? this.users.get(record.assigneeId) : undefined;
+
+    return {
+      id: record.id,
+      identifier: record.identifier,
+      title: record.title,
+      description: record.description,
+      priority: record.priority,
+      state: { ...this.states.find(s => s.id === record.stateId)! },
+      labels: record.labelIds
+        .map(id => this.labels.get(id))
+        .filter((l): l is Label => l !== undefined)
+        .map(l => ({ ...l })),
+      parent: parent ? this.mapStub(parent) : undefined,
+      children: children.length ? children.map(c => this.mapStub(c)) : undefined,
+      relations: this.mapRelations(record),
+      project: project ? { ...project } : undefined,
+      milestone: milestone ? this.mapMilestone(milestone) : undefined,
+      assignee: assignee ? { ...assignee } : undefined,
+      estimate: record.estimate,
+      customFields: this.mapCustomFields(record),
+      url: `memory://issue/${record.identifier}`,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  private mapCustomFields(record: IssueRecord): Issue['customFields'] {
+    const entries = this.customFields
+      .filter(f => f.id in record.customFields)
+      .map(f => {
+        const value = record.customFields[f.id];
+        return [f.name, Array.isArray(value) ? [...value] : value] as const;
+      });
+    return entries.length ? Object.fromEntries(entries) : undefined;
+  }
+}
+
+// Register the adapter
+registerAdapter('memory', (config) => new MemoryAdapter({ prefix: config.teamId }));
+
+export default MemoryAdapter;
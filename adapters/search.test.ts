@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { Issue } from './interface';
+import { matchesSearch, rankIssues, scoreIssue, tokenize } from './search';
+
+function issue(title: string, description = '', labels: string[] = []): Issue {
+  return {
+    id: title,
+    identifier: title,
+    title,
+    description,
+    priority: 'none',
+    state: { id: 'todo', name: 'Todo', type: 'unstarted' },
+    labels: labels.map(name => ({ id: name, name })),
+  };
+}
+
+test('tokenize lowercases and splits on anything but letters and digits', () => {
+  assert.deepEqual(tokenize('OAuth2 log-in: Ünïcode_names!'), ['oauth2', 'log', 'in', 'ünïcode', 'names']);
+  assert.deepEqual(tokenize('  '), []);
+});
+
+test('matchesSearch needs every term, as a word or word prefix', () => {
+  const login = issue('Fix login redirect', 'Users land on /home', ['auth']);
+
+  assert.equal(matchesSearch(login, 'login'), true);
+  assert.equal(matchesSearch(login, 'LOG redir'), true);
+  assert.equal(matchesSearch(login, 'login auth'), true);
+  assert.equal(matchesSearch(login, 'login payment'), false);
+  assert.equal(matchesSearch(login, 'ogin'), false);
+  assert.equal(matchesSearch(login, ''), true);
+});
+
+test('scoreIssue weighs title over labels over description', () => {
+  assert.equal(scoreIssue(issue('Login page'), 'login'), 1);
+  assert.equal(scoreIssue(issue('Page', '', ['login']), 'login'), 0.667);
+  assert.equal(scoreIssue(issue('Page', 'login'), 'login'), 0.333);
+  assert.equal(scoreIssue(issue('Authentication'), 'auth'), 0.75);
+  assert.equal(scoreIssue(issue('Page'), 'login'), 0);
+
+  // Whole query in the title earns a bonus over scattered terms
+  assert.equal(scoreIssue(issue('Log in page'), 'in pag'), 1);
+  assert.equal(scoreIssue(issue('Page to log in'), 'in pag'), 0.875);
+});
+
+test('rankIssues sorts by relevance, keeps ties in input order and drops non-matches', () => {
+  const issues = [
+    issue('Checkout', 'login required'),
+    issue('Settings'),
+    issue('Login page'),
+    issue('Login form'),
+  ];
+
+  const ranked = rankIssues(issues, 'login');
+  assert.deepEqual(ranked.map(i => i.title), ['Login page', 'Login form', 'Checkout']);
+  assert.deepEqual(ranked.map(i => i.relevance), [1, 1, 0.333]);
+  assert.equal(issues[0].relevance, undefined);
+
+  // A tracker's own matches are all kept
+  assert.equal(rankIssues(issues, 'login', { prefiltered: true }).length, 4);
+});
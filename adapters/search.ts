@@ -0,0 +1,100 @@
+/**
+ * Issue Search
+ *
+ * Client-side full-text matching and relevance scoring. Adapters without
+ * native search filter with `matchesSearch`; every adapter scores its
+ * results with `rankIssues`, so scope selection can sort on
+ * `Issue.relevance` the same way whichever tracker answered the query.
+ */
+
+import type { Issue } from './interface';
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/** A term found in the title counts for more than one in the description */
+const FIELD_WEIGHTS = {
+  title: 3,
+  labels: 2,
+  description: 1,
+};
+
+const MAX_WEIGHT = FIELD_WEIGHTS.title;
+const PREFIX_FACTOR = 0.75;     // "auth" matching "authentication"
+const PHRASE_BONUS = 0.2;       // Whole multi-word query found in the title
+
+/**
+ * Split text into lowercase word tokens
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * True when every query term appears in the title, description or labels,
+ * either as a whole word or as a word prefix. An empty query matches all.
+ */
+export function matchesSearch(issue: Issue, query: string): boolean {
+  return termWeights(issue, query).every(w => w > 0);
+}
+
+/**
+ * Relevance of an issue to a query, in [0, 1]. Each term scores by the
+ * best field it appears in; terms that don't appear score nothing, so
+ * results from a tracker's own search (which may match on comments or
+ * fuzzy spellings) still get partial credit.
+ */
+export function scoreIssue(issue: Issue, query: string): number {
+  const weights = termWeights(issue, query);
+  if (weights.length === 0) return 0;
+
+  let score = weights.reduce((sum, w) => sum + w, 0) / (weights.length * MAX_WEIGHT);
+
+  const phrase = tokenize(query).join(' ');
+  if (weights.length > 1 && tokenize(issue.title).join(' ').includes(phrase)) {
+    score += PHRASE_BONUS;
+  }
+
+  return Math.round(Math.min(score, 1) * 1000) / 1000;
+}
+
+/**
+ * Score issues against a query and sort them by relevance, highest first.
+ * Ties keep their input order, so a tracker's own ranking breaks them.
+ *
+ * With `prefiltered`, the issues already matched the tracker's native
+ * search and are all kept; otherwise non-matching issues are dropped.
+ */
+export function rankIssues(
+  issues: Issue[],
+  query: string,
+  options: { prefiltered?: boolean } = {}
+): Issue[] {
+  return issues
+    .filter(issue => options.prefiltered || matchesSearch(issue, query))
+    .map((issue, index) => ({ issue: { ...issue, relevance: scoreIssue(issue, query) }, index }))
+    .sort((a, b) => b.issue.relevance - a.issue.relevance || a.index - b.index)
+    .map(r => r.issue);
+}
+
+function termWeights(issue: Issue, query: string): number[] {
+  const terms = [...new Set(tokenize(query))];
+  const fields: Array<[number, string[]]> = [
+    [FIELD_WEIGHTS.title, tokenize(issue.title)],
+    [FIELD_WEIGHTS.labels, issue.labels.flatMap(l => tokenize(l.name))],
+    [FIELD_WEIGHTS.description, tokenize(issue.description || '')],
+  ];
+
+  return terms.map(term => {
+    let best = 0;
+    for (const [weight, words] of fields) {
+      if (words.includes(term)) {
+        best = Math.max(best, weight);
+      } else if (words.some(w => w.startsWith(term))) {
+        best = Math.max(best, weight * PREFIX_FACTOR);
+      }
+    }
+    return best;
+  });
+}
@@ -0,0 +1,1400 @@
+/**
+ * Stubbed Transports
+ *
+ * `fetch` replacements that answer an HTTP adapter's requests from a
+ * MemoryAdapter, so the real adapter code (query building, filter
+ * translation, response mapping) runs without network or credentials.
+ * Pair with runConformanceSuite to check an adapter against the contract.
+ *
+ * Stubs exist for Linear (GraphQL), GitHub (REST and GraphQL) and Jira
+ * (REST v2, Cloud or Server/DC).
+ */
+
+import {
+  Issue,
+  IssueFilter,
+  IssueRelation,
+  IssueState,
+  IssueStateType,
+  Priority,
+  Comment,
+  Label,
+  Milestone,
+  Project,
+  ProjectUpdate,
+  User,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  UpdateIssueInput,
+  NotFoundError,
+} from './interface';
+import { MemoryAdapter } from './memory';
+import { matchesSearch } from './search';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FetchLike = typeof fetch;
+
+export interface StubRequest {
+  method: string;
+  path: string;                       // Path and query string
+  body?: any;                         // Parsed JSON body
+
+  /** GraphQL requests only */
+  query?: string;
+  variables?: Record<string, any>;
+}
+
+export interface StubTransport {
+  fetch: FetchLike;
+
+  /** Every request the adapter sent, in order */
+  requests: StubRequest[];
+}
+
+// ============================================================================
+// Linear
+// ============================================================================
+
+const LINEAR_PRIORITIES: Record<number, Priority> = {
+  0: 'none',
+  1: 'P0-Critical',
+  2: 'P1-High',
+  3: 'P2-Medium',
+  4: 'P3-Low',
+};
+
+const LINEAR_PROJECT_STATUSES = [
+  { id: 'status-backlog', name: 'Backlog' },
+  { id: 'status-planned', name: 'Planned' },
+  { id: 'status-started', name: 'In Progress' },
+  { id: 'status-completed', name: 'Completed' },
+  { id: 'status-canceled', name: 'Canceled' },
+];
+
+/**
+ * Serve Linear's GraphQL API from a MemoryAdapter.
+ *
+ * Filter fields the stub does not understand are rejected, so an adapter
+ * that sends a filter the stub can't honour fails loudly rather than
+ * returning unfiltered data.
+ */
+export function createLinearStubTransport(backend: MemoryAdapter): StubTransport {
+  const requests: StubRequest[] = [];
+
+  const stubFetch = (async (input: unknown, init?: { method?: string; body?: unknown }) => {
+    const body = JSON.parse(String(init?.body ?? '{}'));
+    const { query, variables = {} } = body;
+    requests.push({ method: init?.method || 'POST', path: new URL(String(input)).pathname, body, query, variables });
+
+    try {
+      const batch = await resolveLinearBatch(backend, query, variables);
+      if (batch) return jsonResponse(batch);
+
+      const data = await resolveLinear(backend, query, variables);
+      return jsonResponse({ data });
+    } catch (error) {
+      return jsonResponse({ errors: [{ message: errorMessage(error) }] });
+    }
+  }) as FetchLike;
+
+  return { fetch: stubFetch, requests };
+}
+
+async function resolveLinear(
+  backend: MemoryAdapter,
+  query: string,
+  variables: Record<string, any>
+): Promise<any> {
+  const has = (field: string) => new RegExp(`\\b${field}\\s*[({]`).test(query);
+
+  if (has('issueRelationCreate')) {
+    const relation = await backend.createRelation(variables.issueId, variables.relatedIssueId, variables.type);
+    const [issue, related] = await Promise.all([
+      backend.getIssue(variables.issueId),
+      backend.getIssue(variables.relatedIssueId),
+    ]);
+    return {
+      issueRelationCreate: {
+        success: true,
+        issueRelation: { id: relation.id, issue: toLinearRef(issue!), relatedIssue: toLinearRef(related!) },
+      },
+    };
+  }
+
+  if (has('issueRelationDelete')) {
+    for (const issue of await listAllIssues(backend)) {
+      const relation = issue.relations?.find(r => r.id === variables.id);
+      if (relation) {
+        await backend.removeRelation(issue.id, relation.issue.id, relation.type);
+        return { issueRelationDelete: { success: true } };
+      }
+    }
+    throw new Error(`Unknown relation: ${variables.id}`);
+  }
+
+  if (has('issueCreate')) {
+    const issue = await backend.createIssue(fromLinearInput(variables.input));
+    return { issueCreate: { success: true, issue: toLinearIssue(issue) } };
+  }
+
+  if (has('issueUpdate')) {
+    const issue = await backend.updateIssue(variables.id, fromLinearInput(variables.input));
+    return { issueUpdate: { success: true, issue: toLinearIssue(issue) } };
+  }
+
+  if (has('commentCreate')) {
+    const { issueId, body, parentId } = variables.input;
+    const c = parentId
+      ? await backend.replyToComment(issueId, parentId, body)
+      : await backend.addComment(issueId, body);
+    return { commentCreate: { success: true, comment: toLinearComment(c) } };
+  }
+
+  if (has('commentUpdate')) {
+    const { issueId } = await findComment(backend, c => c.id === variables.id);
+    const c = await backend.updateComment(issueId, variables.id, variables.body);
+    return { commentUpdate: { success: true, comment: toLinearComment(c) } };
+  }
+
+  if (has('comments')) {
+    const issue = await backend.getIssue(variables.id);
+    if (!issue) return { issue: null };
+
+    const comments = await backend.listComments(issue.id);
+    return { issue: { comments: connection(comments.map(toLinearComment), variables) } };
+  }
+
+  if (has('issueLabelCreate')) {
+    const label = await backend.ensureLabel(variables.name, variables.teamId);
+    return { issueLabelCreate: { success: true, issueLabel: label } };
+  }
+
+  if (has('issueLabels')) {
+    // Memory labels are flat: there are no label groups
+    if (/\bisGroup\b/.test(query)) return { issueLabels: connection([], variables) };
+    return { issueLabels: connection(await backend.listLabels(variables.teamId), variables) };
+  }
+
+  if (has('workflowStates')) {
+    return { workflowStates: connection(backend.listStates(), variables) };
+  }
+
+  if (has('entityExternalLinkCreate')) {
+    await backend.linkResourceToProject(variables.projectId, {
+      url: variables.url,
+      label: variables.label,
+    });
+    return { entityExternalLinkCreate: { success: true } };
+  }
+
+  if (has('projectUpdateCreate')) {
+    await backend.createProjectUpdate(variables.projectId, {
+      body: variables.body,
+      health: variables.health,
+    });
+    return { projectUpdateCreate: { success: true } };
+  }
+
+  if (has('projectStatuses')) {
+    return { projectStatuses: connection(LINEAR_PROJECT_STATUSES) };
+  }
+
+  if (has('projectUpdate')) {
+    const status = LINEAR_PROJECT_STATUSES.find(s => s.id === variables.statusId);
+    if (!status) throw new Error(`Unknown project status: ${variables.statusId}`);
+    await backend.updateProjectStatus(variables.projectId, status.name);
+    return { projectUpdate: { success: true } };
+  }
+
+  if (has('searchIssues')) {
+    const filter = fromLinearFilter(variables.filter || {});
+    const issues = await backend.listIssues({
+      ...filter,
+      search: variables.term,
+      limit: Number.MAX_SAFE_INTEGER,
+    });
+    return { searchIssues: connection(issues.map(toLinearIssue), variables) };
+  }
+
+  if (has('issues')) {
+    const filter = fromLinearFilter(variables.filter || {});
+    const issues = await backend.listIssues({ ...filter, limit: Number.MAX_SAFE_INTEGER });
+    return { issues: connection(issues.map(toLinearIssue), variables) };
+  }
+
+  if (has('issue')) {
+    const issue = await backend.getIssue(variables.id ?? variables.identifier);
+    return { issue: issue ? toLinearIssue(issue) : null };
+  }
+
+  if (has('projects')) {
+    return { projects: connection(await backend.listProjects(), variables) };
+  }
+
+  if (has('project')) {
+    const id = variables.id ?? variables.projectId;
+    const project = await backend.getProject(id);
+    if (!project || project.id !== id) return { project: null };
+
+    const milestones = await backend.listMilestones(project.id);
+    return {
+      project: {
+        ...project,
+        projectMilestones: connection(milestones.map(m => ({
+          id: m.id,
+          name: m.name,
+          description: m.description,
+          targetDate: m.targetDate?.toISOString().slice(0, 10),
+        })), variables),
+      },
+    };
+  }
+
+  if (/\bviewer\b/.test(query)) {
+    return { viewer: backend.getViewer() };
+  }
+
+  throw new Error('Linear stub: unsupported operation');
+}
+
+/**
+ * Serve an aliased multi-mutation document (`m0: issueCreate(...)`) the
+ * way Linear does: each alias succeeds or fails on its own, and failures
+ * are reported in `errors` with the alias as `path`. Null for any other
+ * document.
+ */
+async function resolveLinearBatch(
+  backend: MemoryAdapter,
+  query: string,
+  variables: Record<string, any>
+): Promise<{ data: any; errors?: any[] } | null> {
+  const calls = [...query.matchAll(/(\w+)\s*:\s*(issueCreate|issueUpdate)\s*\(([^)]*)\)/g)];
+  if (calls.length === 0) return null;
+
+  const data: Record<string, any> = {};
+  const errors: any[] = [];
+
+  for (const [, alias, operation, args] of calls) {
+    const arg = (name: string) => variables[args.match(new RegExp(`${name}\\s*:\\s*\\$(\\w+)`))?.[1] ?? ''];
+
+    try {
+      const issue = operation === 'issueCreate'
+        ? await backend.createIssue(fromLinearInput(arg('input')))
+        : await backend.updateIssue(arg('id'), fromLinearInput(arg('input')));
+      data[alias] = { success: true, issue: toLinearIssue(issue) };
+    } catch (error) {
+      data[alias] = null;
+      errors.push({ message: error instanceof Error ? error.message : String(error), path: [alias] });
+    }
+  }
+
+  return errors.length ? { data, errors } : { data };
+}
+
+function fromLinearInput(input: Record<string, any> = {}): any {
+  return {
+    title: input.title,
+    description: input.description,
+    priority: input.priority !== undefined ? LINEAR_PRIORITIES[input.priority] : undefined,
+    state: input.stateId,
+    labels: input.labelIds,
+    assignee: input.assigneeId,
+    estimate: input.estimate,
+    projectId: input.projectId,
+    milestoneId: input.projectMilestoneId,
+    parentId: input.parentId,
+  };
+}
+
+function fromLinearFilter(filter: Record<string, any>): IssueFilter {
+  const result: IssueFilter = {};
+
+  for (const [key, value] of Object.entries(filter)) {
+    switch (key) {
+      case 'project':
+        result.projectId = value.id.eq;
+        break;
+      case 'projectMilestone':
+        result.milestoneId = value.id.eq;
+        break;
+      case 'priority':
+        result.priority = value.in.map((n: number) => LINEAR_PRIORITIES[n]);
+        break;
+      case 'state':
+        result.state = value.type.in as IssueStateType[];
+        break;
+      case 'labels':
+        result.labels = value.some.name.in;
+        break;
+      case 'assignee':
+        result.assignee = value.isMe?.eq ? 'me' : value.id.eq;
+        break;
+      case 'searchableContent':
+        result.search = value.contains;
+        break;
+      default:
+        throw new Error(`Linear stub: unsupported filter field "${key}"`);
+    }
+  }
+
+  return result;
+}
+
+function toLinearIssue(issue: Issue): any {
+  const priorityNumbers: Record<Priority, number> = {
+    'P0-Critical': 1,
+    'P1-High': 2,
+    'P2-Medium': 3,
+    'P3-Low': 4,
+    none: 0,
+  };
+
+  return {
+    id: issue.id,
+    identifier: issue.identifier,
+    title: issue.title,
+    description: issue.description,
+    priority: priorityNumbers[issue.priority],
+    url: issue.url,
+    createdAt: issue.createdAt?.toISOString(),
+    updatedAt: issue.updatedAt?.toISOString(),
+    state: issue.state,
+    labels: connection(issue.labels),
+    assignee: issue.assignee || null,
+    project: issue.project ? { id: issue.project.id, name: issue.project.name } : null,
+    projectMilestone: issue.milestone ? {
+      id: issue.milestone.id,
+      name: issue.milestone.name,
+      description: issue.milestone.description,
+      targetDate: issue.milestone.targetDate?.toISOString().slice(0, 10),
+    } : null,
+    parent: issue.parent
+      ? { id: issue.parent.id, identifier: issue.parent.identifier, title: issue.parent.title }
+      : null,
+    children: connection((issue.children || []).map(toLinearRef)),
+    relations: connection((issue.relations || [])
+      .filter(r => r.type !== 'blocked-by')
+      .map(r => ({ id: r.id, type: r.type, relatedIssue: toLinearRef(r.issue) }))),
+    inverseRelations: connection((issue.relations || [])
+      .filter(r => r.type === 'blocked-by')
+      .map(r => ({ id: r.id, type: 'blocks', issue: toLinearRef(r.issue) }))),
+    estimate: issue.estimate ?? null,
+  };
+}
+
+function toLinearRef(issue: Issue): any {
+  return { id: issue.id, identifier: issue.identifier, title: issue.title };
+}
+
+// ============================================================================
+// GitHub
+// ============================================================================
+
+/** REST database IDs are offset from issue numbers so the two can't be mixed up */
+const GITHUB_DATABASE_ID_OFFSET = 100000;
+
+const GITHUB_PROJECT_STATUSES: Record<string, string> = {
+  INACTIVE: 'Inactive',
+  ON_TRACK: 'On track',
+  AT_RISK: 'At risk',
+  OFF_TRACK: 'Off track',
+  COMPLETE: 'Complete',
+};
+
+const GITHUB_HEALTH: Record<string, ProjectUpdate['health']> = {
+  ON_TRACK: 'onTrack',
+  AT_RISK: 'atRisk',
+  OFF_TRACK: 'offTrack',
+};
+
+/**
+ * Serve GitHub's REST and GraphQL APIs for one repository from a
+ * MemoryAdapter.
+ *
+ * Issue, milestone and comment numbers are the numeric part of the
+ * memory IDs; project node IDs are the memory project IDs. Priorities and
+ * in-progress states travel as labels, as they do on GitHub. Unknown
+ * routes and issue filters are rejected.
+ */
+export function createGitHubStubTransport(backend: MemoryAdapter): StubTransport {
+  const requests: StubRequest[] = [];
+
+  const stubFetch = (async (input: unknown, init?: { method?: string; body?: unknown }) => {
+    const url = new URL(String(input));
+    const method = init?.method || 'GET';
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+
+    if (url.pathname.endsWith('/graphql')) {
+      const { query, variables = {} } = body;
+      requests.push({ method, path: url.pathname, body, query, variables });
+
+      try {
+        return jsonResponse({ data: await resolveGitHubGraphql(backend, query, variables) });
+      } catch (error) {
+        return jsonResponse({ errors: [{ message: errorMessage(error) }] });
+      }
+    }
+
+    requests.push({ method, path: url.pathname + url.search, body });
+
+    try {
+      const result = await resolveGitHubRest(backend, method, url, body);
+      return jsonResponse(result, method === 'POST' ? 201 : 200);
+    } catch (error) {
+      const message = errorMessage(error);
+      return jsonResponse({ message }, error instanceof NotFoundError ? 404 : 422, message);
+    }
+  }) as FetchLike;
+
+  return { fetch: stubFetch, requests };
+}
+
+async function resolveGitHubRest(
+  backend: MemoryAdapter,
+  method: string,
+  url: URL,
+  body: any
+): Promise<any> {
+  const route = `${method} ${url.pathname.replace(/^\/repos\/[^/]+\/[^/]+/, '')}`;
+  const page = Number(url.searchParams.get('page') || 1);
+  const perPage = Number(url.searchParams.get('per_page') || 30);
+  const paged = <T>(items: T[]) => items.slice((page - 1) * perPage, page * perPage);
+  let m: RegExpMatchArray | null;
+
+  if (route === 'GET /labels') {
+    return paged((await backend.listLabels()).map(toGitHubLabel));
+  }
+
+  if (route === 'POST /labels') {
+    return toGitHubLabel(await backend.ensureLabel(body.name));
+  }
+
+  if (route === 'GET /milestones') {
+    return paged((await listAllMilestones(backend)).map(toGitHubMilestone));
+  }
+
+  if (route === 'POST /issues') {
+    const issue = await backend.createIssue({
+      title: body.title,
+      description: body.body,
+      labels: body.labels && await ensureLabels(backend, body.labels),
+      assignee: body.assignees?.[0],
+      milestoneId: body.milestone ? (await githubMilestone(backend, body.milestone)).id : undefined,
+    });
+    return toGitHubRestIssue(issue);
+  }
+
+  if ((m = route.match(/^(GET|PATCH) \/issues\/(\d+)$/))) {
+    const issue = await githubIssue(backend, Number(m[2]));
+    if (m[1] === 'GET') return toGitHubRestIssue(issue);
+
+    const data: UpdateIssueInput = {
+      title: body.title,
+      description: body.body,
+      labels: body.labels && await ensureLabels(backend, body.labels),
+      assignee: body.assignees?.[0],
+      milestoneId: body.milestone ? (await githubMilestone(backend, body.milestone)).id : undefined,
+    };
+    const closed = issue.state.type === 'completed' || issue.state.type === 'canceled';
+    if (body.state === 'closed') {
+      data.state = body.state_reason === 'not_planned' ? 'canceled' : 'completed';
+    } else if (body.state === 'open' && closed) {
+      data.state = 'unstarted';
+    }
+
+    return toGitHubRestIssue(await backend.updateIssue(issue.id, data));
+  }
+
+  if ((m = route.match(/^PUT \/issues\/(\d+)\/labels$/))) {
+    const issue = await githubIssue(backend, Number(m[1]));
+    const updated = await backend.updateIssue(issue.id, { labels: await ensureLabels(backend, body.labels) });
+    return updated.labels.map(toGitHubLabel);
+  }
+
+  if ((m = route.match(/^(GET|POST) \/issues\/(\d+)\/comments$/))) {
+    const issue = await githubIssue(backend, Number(m[2]));
+    if (m[1] === 'POST') return toGitHubComment(await backend.addComment(issue.id, body.body));
+    return paged((await backend.listComments(issue.id)).map(toGitHubComment));
+  }
+
+  if ((m = route.match(/^PATCH \/issues\/comments\/(\d+)$/))) {
+    const { issueId, comment } = await findComment(backend, c => numericId(c.id) === Number(m![1]));
+    return toGitHubComment(await backend.updateComment(issueId, comment.id, body.body));
+  }
+
+  if ((m = route.match(/^POST \/issues\/(\d+)\/sub_issues$/))) {
+    const parent = await githubIssue(backend, Number(m[1]));
+    const child = await githubIssue(backend, body.sub_issue_id - GITHUB_DATABASE_ID_OFFSET);
+    await backend.updateIssue(child.id, { parentId: parent.id });
+    return toGitHubRestIssue(parent);
+  }
+
+  if ((m = route.match(/^POST \/issues\/(\d+)\/dependencies\/blocked_by$/))) {
+    const blocked = await githubIssue(backend, Number(m[1]));
+    const blocker = await githubIssue(backend, body.issue_id - GITHUB_DATABASE_ID_OFFSET);
+    await backend.createRelation(blocked.id, blocker.id, 'blocked-by');
+    return toGitHubRestIssue(blocker);
+  }
+
+  if ((m = route.match(/^DELETE \/issues\/(\d+)\/dependencies\/blocked_by\/(\d+)$/))) {
+    const blocked = await githubIssue(backend, Number(m[1]));
+    const blocker = await githubIssue(backend, Number(m[2]) - GITHUB_DATABASE_ID_OFFSET);
+    await backend.removeRelation(blocked.id, blocker.id, 'blocked-by');
+    return toGitHubRestIssue(blocker);
+  }
+
+  throw new Error(`GitHub stub: unsupported route ${route}`);
+}
+
+async function resolveGitHubGraphql(
+  backend: MemoryAdapter,
+  query: string,
+  variables: Record<string, any>
+): Promise<any> {
+  const has = (field: string) => new RegExp(`\\b${field}\\s*[({]`).test(query);
+  const page = { first: Number(query.match(/\bfirst:\s*(\d+)/)?.[1]) || undefined, after: variables.after };
+
+  if (has('addProjectV2ItemById')) {
+    const project = await githubProject(backend, variables.projectId);
+    await backend.updateIssue(variables.contentId, { projectId: project.id });
+    return { addProjectV2ItemById: { item: { id: `item-${variables.contentId}` } } };
+  }
+
+  if (has('updateProjectV2')) {
+    // Links are kept as "- [label](url)" lines of the README
+    const project = await githubProject(backend, variables.projectId);
+    const linked = backend.projectLinks.get(project.id) || [];
+    for (const [, label, url] of String(variables.readme).matchAll(/^- \[([^\]]*)\]\(([^)]*)\)$/gm)) {
+      if (!linked.some(l => l.url === url && l.label === label)) {
+        await backend.linkResourceToProject(project.id, { label, url });
+      }
+    }
+    return { updateProjectV2: { projectV2: { id: project.id } } };
+  }
+
+  if (has('createProjectV2StatusUpdate')) {
+    const project = await githubProject(backend, variables.projectId);
+    if (variables.body !== undefined) {
+      await backend.createProjectUpdate(project.id, {
+        body: variables.body,
+        health: variables.status ? GITHUB_HEALTH[variables.status] : undefined,
+      });
+    } else {
+      await backend.updateProjectStatus(project.id, GITHUB_PROJECT_STATUSES[variables.status]);
+    }
+    return { createProjectV2StatusUpdate: { statusUpdate: { id: `status-${project.id}` } } };
+  }
+
+  if (has('search')) {
+    const terms = String(variables.q).split(/\s+/);
+    const assignee = terms.find(t => t.startsWith('assignee:'))?.slice('assignee:'.length);
+    const search = terms.filter(t => !/^(?:repo|is|assignee):/.test(t)).join(' ');
+
+    const issues = await backend.listIssues({
+      search,
+      assignee: assignee === '@me' ? 'me' : assignee,
+      limit: Number.MAX_SAFE_INTEGER,
+    });
+    return { search: connection(issues.map(toGitHubNode), page) };
+  }
+
+  if (has('items')) {
+    const project = (await backend.listProjects()).find(p => p.id === variables.id);
+    if (!project) return { node: null };
+
+    const issues = await backend.listIssues({ projectId: project.id, limit: Number.MAX_SAFE_INTEGER });
+    return { node: { items: connection(issues.map(i => ({ content: { number: numericId(i.id) } })), page) } };
+  }
+
+  if (has('issues')) {
+    const issues = (await backend.listIssues({ limit: Number.MAX_SAFE_INTEGER }))
+      .filter(matchesGitHubFilter(variables.filterBy || {}, backend.getViewer().id))
+      .reverse();   // CREATED_AT DESC
+    return { repository: { issues: connection(issues.map(toGitHubNode), page) } };
+  }
+
+  if (has('issue')) {
+    const issue = (await listAllIssues(backend)).find(i => numericId(i.id) === variables.number);
+    return { repository: { issue: issue ? toGitHubNode(issue) : null } };
+  }
+
+  if (has('projectsV2')) {
+    return { repository: { projectsV2: connection((await backend.listProjects()).map(toGitHubProject), page) } };
+  }
+
+  if (has('node')) {
+    const project = (await backend.listProjects()).find(p => p.id === variables.id);
+    if (!project) return { node: null };
+
+    if (/\breadme\b/.test(query)) {
+      const links = backend.projectLinks.get(project.id) || [];
+      return { node: { readme: links.map(l => `- [${l.label}](${l.url})\n`).join('') || null } };
+    }
+    return { node: toGitHubProject(project) };
+  }
+
+  if (/\bviewer\b/.test(query)) {
+    return { viewer: { login: backend.getViewer().id } };
+  }
+
+  throw new Error('GitHub stub: unsupported operation');
+}
+
+function matchesGitHubFilter(filterBy: Record<string, any>, viewerId: string): (issue: Issue) => boolean {
+  for (const key of Object.keys(filterBy)) {
+    if (!['states', 'assignee', 'milestoneNumber'].includes(key)) {
+      throw new Error(`GitHub stub: unsupported filterBy field "${key}"`);
+    }
+  }
+
+  return issue => {
+    const closed = issue.state.type === 'completed' || issue.state.type === 'canceled';
+    if (filterBy.states && !filterBy.states.includes(closed ? 'CLOSED' : 'OPEN')) return false;
+    if (filterBy.assignee && issue.assignee?.id !== (filterBy.assignee === '@me' ? viewerId : filterBy.assignee)) {
+      return false;
+    }
+    if (filterBy.milestoneNumber && (!issue.milestone || numericId(issue.milestone.id) !== Number(filterBy.milestoneNumber))) {
+      return false;
+    }
+    return true;
+  };
+}
+
+async function githubIssue(backend: MemoryAdapter, number: number): Promise<Issue> {
+  const issue = (await listAllIssues(backend)).find(i => numericId(i.id) === number);
+  if (!issue) throw new NotFoundError(backend.name, 'Issue', `#${number}`);
+  return issue;
+}
+
+async function githubMilestone(backend: MemoryAdapter, number: number): Promise<Milestone> {
+  const milestone = (await listAllMilestones(backend)).find(m => numericId(m.id) === Number(number));
+  if (!milestone) throw new NotFoundError(backend.name, 'Milestone', String(number));
+  return milestone;
+}
+
+async function githubProject(backend: MemoryAdapter, id: string): Promise<Project> {
+  const project = (await backend.listProjects()).find(p => p.id === id);
+  if (!project) throw new NotFoundError(backend.name, 'Project', id);
+  return project;
+}
+
+function toGitHubRestIssue(issue: Issue): any {
+  const number = numericId(issue.id);
+  const closed = issue.state.type === 'completed' || issue.state.type === 'canceled';
+
+  return {
+    id: number + GITHUB_DATABASE_ID_OFFSET,
+    node_id: issue.id,
+    number,
+    title: issue.title,
+    body: issue.description,
+    state: closed ? 'closed' : 'open',
+    labels: issue.labels.map(toGitHubLabel),
+    html_url: issue.url,
+  };
+}
+
+function toGitHubNode(issue: Issue): any {
+  const closed = issue.state.type === 'completed' || issue.state.type === 'canceled';
+  const related = (type: IssueRelation['type']) =>
+    (issue.relations || []).filter(r => r.type === type).map(r => toGitHubRef(r.issue));
+
+  return {
+    id: issue.id,
+    number: numericId(issue.id),
+    title: issue.title,
+    body: issue.description,
+    url: issue.url,
+    state: closed ? 'CLOSED' : 'OPEN',
+    stateReason: issue.state.type === 'canceled' ? 'NOT_PLANNED' : closed ? 'COMPLETED' : null,
+    createdAt: issue.createdAt?.toISOString(),
+    updatedAt: issue.updatedAt?.toISOString(),
+    labels: { nodes: issue.labels.map(toGitHubLabel) },
+    assignees: {
+      nodes: issue.assignee
+        ? [{ login: issue.assignee.id, name: issue.assignee.name, email: issue.assignee.email ?? null }]
+        : [],
+    },
+    milestone: issue.milestone ? toGitHubMilestone(issue.milestone) : null,
+    parent: issue.parent ? toGitHubRef(issue.parent) : null,
+    subIssues: { nodes: (issue.children || []).map(toGitHubRef) },
+    blocking: { nodes: related('blocks') },
+    blockedBy: { nodes: related('blocked-by') },
+  };
+}
+
+function toGitHubRef(issue: Issue): any {
+  return { number: numericId(issue.id), title: issue.title };
+}
+
+function toGitHubLabel(label: Label): any {
+  return { id: label.id, name: label.name, color: label.color || 'ededed', description: label.description ?? null };
+}
+
+function toGitHubMilestone(m: Milestone): any {
+  const due = m.targetDate?.toISOString() ?? null;
+  return { number: numericId(m.id), title: m.name, description: m.description ?? null, due_on: due, dueOn: due };
+}
+
+function toGitHubProject(p: Project): any {
+  return { id: p.id, title: p.name, shortDescription: p.description ?? null, closed: p.state === 'closed', url: p.url ?? null };
+}
+
+function toGitHubComment(c: Comment): any {
+  return {
+    id: numericId(c.id),
+    body: c.body,
+    user: { login: c.author.id },
+    created_at: c.createdAt.toISOString(),
+    updated_at: (c.updatedAt || c.createdAt).toISOString(),
+  };
+}
+
+// ============================================================================
+// Jira
+// ============================================================================
+
+export interface JiraStubOptions {
+  /** Cloud serves /search/jql and /label; Server/DC /search only (default: cloud) */
+  deployment?: 'cloud' | 'server';
+}
+
+const JIRA_PRIORITIES: Record<string, Priority> = {
+  highest: 'P0-Critical',
+  high: 'P1-High',
+  medium: 'P2-Medium',
+  low: 'P3-Low',
+  lowest: 'P3-Low',
+};
+
+const JIRA_PRIORITY_NAMES: Record<Exclude<Priority, 'none'>, string> = {
+  'P0-Critical': 'Highest',
+  'P1-High': 'High',
+  'P2-Medium': 'Medium',
+  'P3-Low': 'Low',
+};
+
+const JIRA_CATEGORIES: Record<IssueStateType, { key: string; name: string; colorName: string }> = {
+  backlog: { key: 'new', name: 'To Do', colorName: 'blue-gray' },
+  unstarted: { key: 'new', name: 'To Do', colorName: 'blue-gray' },
+  started: { key: 'indeterminate', name: 'In Progress', colorName: 'yellow' },
+  completed: { key: 'done', name: 'Done', colorName: 'green' },
+  canceled: { key: 'done', name: 'Done', colorName: 'green' },
+};
+
+const JIRA_STORY_POINTS_FIELD = 'customfield_10016';
+
+/** Largest page either search endpoint returns, so paging code runs */
+const JIRA_MAX_RESULTS = 50;
+
+/** Issue fields the stub reads on create and update */
+const JIRA_WRITABLE_FIELDS = [
+  'project', 'summary', 'description', 'issuetype', 'priority', 'labels',
+  'assignee', 'fixVersions', 'parent', JIRA_STORY_POINTS_FIELD,
+];
+
+/**
+ * Serve Jira's REST API v2 from a MemoryAdapter.
+ *
+ * Project keys are the memory project IDs and issue keys the memory
+ * identifiers; issue, comment and link IDs are the numeric part of the
+ * memory IDs, and memory custom fields appear as `customfield_<n>`. JQL is
+ * parsed as buildJql writes it; clauses the stub can't evaluate are
+ * rejected. Cloud answers searches only on /search/jql and Server/DC only
+ * on /search, as the real deployments do.
+ */
+export function createJiraStubTransport(backend: MemoryAdapter, options: JiraStubOptions = {}): StubTransport {
+  const requests: StubRequest[] = [];
+  const cloud = (options.deployment || 'cloud') === 'cloud';
+
+  const stubFetch = (async (input: unknown, init?: { method?: string; body?: unknown }) => {
+    const url = new URL(String(input));
+    const method = init?.method || 'GET';
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+    requests.push({ method, path: url.pathname + url.search, body });
+
+    try {
+      const result = await resolveJira(backend, cloud, method, url, body);
+      return result === undefined ? new Response(null, { status: 204 }) : jsonResponse(result);
+    } catch (error) {
+      return jsonResponse({ errorMessages: [errorMessage(error)] }, error instanceof NotFoundError ? 404 : 400);
+    }
+  }) as FetchLike;
+
+  return { fetch: stubFetch, requests };
+}
+
+async function resolveJira(
+  backend: MemoryAdapter,
+  cloud: boolean,
+  method: string,
+  url: URL,
+  body: any
+): Promise<any> {
+  const route = `${method} ${url.pathname.replace(/^.*\/rest\/api\/2/, '')}`;
+  const startAt = Number(url.searchParams.get('startAt') || 0);
+  const maxResults = Number(url.searchParams.get('maxResults') || JIRA_MAX_RESULTS);
+  let m: RegExpMatchArray | null;
+
+  if (route === 'GET /myself') {
+    return toJiraUser(backend.getViewer());
+  }
+
+  if (route === 'GET /field') {
+    const fields = await backend.listCustomFields();
+    return [
+      { id: 'summary', name: 'Summary', custom: false, schema: { type: 'string' } },
+      { id: JIRA_STORY_POINTS_FIELD, name: 'Story Points', custom: true, schema: { type: 'number' } },
+      ...fields.map(f => ({ id: jiraFieldId(f), name: f.name, custom: true, schema: jiraSchema(f) })),
+    ];
+  }
+
+  if (route === 'GET /status') {
+    return backend.listStates().map(toJiraStatus);
+  }
+
+  if (route === 'GET /label') {
+    if (!cloud) throw new NotFoundError(backend.name, 'Resource', '/label');
+
+    // Jira lists the labels issues carry; there are no standalone labels
+    const names = [...new Set((await listAllIssues(backend)).flatMap(i => i.labels.map(l => l.name)))];
+    const values = names.slice(startAt, startAt + maxResults);
+    return { values, startAt, maxResults, total: names.length, isLast: startAt + values.length >= names.length };
+  }
+
+  if (route === 'POST /search' || route === 'POST /search/jql') {
+    if (cloud !== (route === 'POST /search/jql')) {
+      throw new NotFoundError(backend.name, 'Resource', url.pathname);
+    }
+
+    const issues = await searchJira(backend, body.jql);
+    const fields = await backend.listCustomFields();
+    const start = cloud ? Number(body.nextPageToken || 0) : body.startAt || 0;
+    const page = issues.slice(start, start + Math.min(body.maxResults || JIRA_MAX_RESULTS, JIRA_MAX_RESULTS));
+    const end = start + page.length;
+
+    return cloud
+      ? { issues: page.map(i => toJiraIssue(i, fields)), nextPageToken: end < issues.length ? String(end) : undefined, isLast: end >= issues.length }
+      : { issues: page.map(i => toJiraIssue(i, fields)), startAt: start, maxResults: page.length, total: issues.length };
+  }
+
+  if (route === 'GET /project') {
+    return (await backend.listProjects()).map(p => toJiraProject(backend, p));
+  }
+
+  if ((m = route.match(/^(GET|PUT) \/project\/([^/]+)$/))) {
+    const project = await jiraProject(backend, decodeURIComponent(m[2]));
+    if (m[1] === 'GET') return toJiraProject(backend, project);
+
+    // Links are kept as "[label|url]" lines of the description
+    const linked = backend.projectLinks.get(project.id) || [];
+    for (const [, label, url] of String(body.description || '').matchAll(/\[([^|\]]*)\|([^\]]*)\]/g)) {
+      if (!linked.some(l => l.url === url && l.label === label)) {
+        await backend.linkResourceToProject(project.id, { label, url });
+      }
+    }
+    return toJiraProject(backend, project);
+  }
+
+  if ((m = route.match(/^GET \/project\/([^/]+)\/(versions|statuses|components)$/))) {
+    const project = await jiraProject(backend, decodeURIComponent(m[1]));
+    if (m[2] === 'versions') return (await backend.listMilestones(project.id)).map(toJiraVersion);
+    if (m[2] === 'statuses') return [{ name: 'Task', statuses: backend.listStates().map(toJiraStatus) }];
+    return [];
+  }
+
+  if (route === 'POST /issue') {
+    const issue = await backend.createIssue({ title: body.fields.summary, ...await fromJiraFields(backend, body.fields) });
+    return { id: String(numericId(issue.id)), key: issue.identifier };
+  }
+
+  if ((m = route.match(/^(GET|PUT) \/issue\/([^/]+)$/))) {
+    const issue = await jiraIssue(backend, decodeURIComponent(m[2]));
+    if (m[1] === 'GET') return toJiraIssue(issue, await backend.listCustomFields());
+
+    await backend.updateIssue(issue.id, await fromJiraFields(backend, body.fields));
+    return undefined;
+  }
+
+  if ((m = route.match(/^(GET|POST) \/issue\/([^/]+)\/transitions$/))) {
+    const issue = await jiraIssue(backend, decodeURIComponent(m[2]));
+    const states = backend.listStates();
+
+    if (m[1] === 'GET') {
+      return { transitions: states.map(s => ({ id: s.id, name: s.name, to: toJiraStatus(s) })) };
+    }
+
+    const state = states.find(s => s.id === body.transition?.id);
+    if (!state) throw new Error(`Unknown transition: ${body.transition?.id}`);
+    await backend.updateIssue(issue.id, { state: state.id });
+    return undefined;
+  }
+
+  if ((m = route.match(/^(GET|POST) \/issue\/([^/]+)\/comment$/))) {
+    const issue = await jiraIssue(backend, decodeURIComponent(m[2]));
+    if (m[1] === 'POST') return toJiraComment(await backend.addComment(issue.id, body.body));
+
+    const comments = await backend.listComments(issue.id);
+    const page = comments.slice(startAt, startAt + maxResults);
+    return { comments: page.map(toJiraComment), startAt, maxResults, total: comments.length };
+  }
+
+  if ((m = route.match(/^PUT \/issue\/([^/]+)\/comment\/(\d+)$/))) {
+    const issue = await jiraIssue(backend, decodeURIComponent(m[1]));
+    const comment = (await backend.listComments(issue.id)).find(c => numericId(c.id) === Number(m![2]));
+    if (!comment) throw new NotFoundError(backend.name, 'Comment', m[2]);
+    return toJiraComment(await backend.updateComment(issue.id, comment.id, body.body));
+  }
+
+  if (route === 'POST /issueLink') {
+    const inward = await jiraIssue(backend, body.inwardIssue.key);
+    const outward = await jiraIssue(backend, body.outwardIssue.key);
+    const type = String(body.type?.name).toLowerCase();
+    if (type !== 'blocks' && type !== 'relates') throw new Error(`Unknown link type: ${body.type?.name}`);
+
+    await backend.createRelation(inward.id, outward.id, type === 'blocks' ? 'blocks' : 'related');
+    return undefined;
+  }
+
+  if ((m = route.match(/^DELETE \/issueLink\/(\d+)$/))) {
+    for (const issue of await listAllIssues(backend)) {
+      const relation = issue.relations?.find(r => numericId(r.id!) === Number(m![1]));
+      if (relation) {
+        await backend.removeRelation(issue.id, relation.issue.id, relation.type);
+        return undefined;
+      }
+    }
+    throw new NotFoundError(backend.name, 'IssueLink', m[1]);
+  }
+
+  throw new Error(`Jira stub: unsupported route ${route}`);
+}
+
+/** CreateIssueInput/UpdateIssueInput for a Jira `fields` object */
+async function fromJiraFields(backend: MemoryAdapter, fields: Record<string, any>): Promise<UpdateIssueInput> {
+  const customFields = await backend.listCustomFields();
+  const data: UpdateIssueInput = {};
+  const values: Record<string, CustomFieldValue> = {};
+
+  for (const [key, value] of Object.entries(fields)) {
+    const custom = customFields.find(f => jiraFieldId(f) === key);
+    if (custom) {
+      values[custom.id] = fromJiraFieldValue(value);
+    } else if (!JIRA_WRITABLE_FIELDS.includes(key)) {
+      throw new Error(`Jira stub: unsupported field "${key}"`);
+    }
+  }
+
+  if (fields.summary !== undefined) data.title = fields.summary;
+  if (fields.description !== undefined) data.description = fields.description || '';
+  if (fields.priority !== undefined) {
+    data.priority = fields.priority ? JIRA_PRIORITIES[String(fields.priority.name).toLowerCase()] : 'none';
+  }
+  if (fields.labels) data.labels = await ensureLabels(backend, fields.labels);
+  if (fields.assignee) data.assignee = fields.assignee.accountId ?? fields.assignee.name;
+  if (fields.fixVersions?.length) data.milestoneId = fields.fixVersions[0].id;
+  if (fields[JIRA_STORY_POINTS_FIELD] !== undefined) data.estimate = fields[JIRA_STORY_POINTS_FIELD] ?? undefined;
+  if (fields.project) data.projectId = (await jiraProject(backend, fields.project.key ?? fields.project.id)).id;
+  if (fields.parent) data.parentId = (await jiraIssue(backend, fields.parent.key)).id;
+  if (Object.keys(values).length) data.customFields = values;
+
+  return data;
+}
+
+function fromJiraFieldValue(value: any): CustomFieldValue {
+  if (value === null) return null;
+  if (Array.isArray(value)) return value.map(v => String(v?.value ?? v?.name ?? v));
+  if (typeof value === 'object') return String(value.value ?? value.name ?? value.accountId);
+  return value;
+}
+
+async function jiraIssue(backend: MemoryAdapter, ref: string): Promise<Issue> {
+  const issue = /^\d+$/.test(ref)
+    ? (await listAllIssues(backend)).find(i => numericId(i.id) === Number(ref))
+    : (await listAllIssues(backend)).find(i => i.identifier.toLowerCase() === ref.toLowerCase());
+  if (!issue) throw new NotFoundError(backend.name, 'Issue', ref);
+  return issue;
+}
+
+async function jiraProject(backend: MemoryAdapter, key: string): Promise<Project> {
+  const project = (await backend.listProjects()).find(p => p.id.toLowerCase() === String(key).toLowerCase());
+  if (!project) throw new NotFoundError(backend.name, 'Project', key);
+  return project;
+}
+
+function jiraFieldId(field: CustomFieldDefinition): string {
+  return `customfield_${numericId(field.id)}`;
+}
+
+function jiraSchema(field: CustomFieldDefinition): any {
+  switch (field.type) {
+    case 'select': return { type: 'option' };
+    case 'multiselect': return { type: 'array', items: 'option' };
+    case 'number': return { type: 'number' };
+    case 'date': return { type: 'date' };
+    case 'user': return { type: 'user' };
+    default: return { type: 'string' };
+  }
+}
+
+function toJiraFieldValue(field: CustomFieldDefinition, value: CustomFieldValue): any {
+  if (value === null) return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+
+  switch (field.type) {
+    case 'select': return { value: String(value) };
+    case 'multiselect': return (Array.isArray(value) ? value : [value]).map(v => ({ value: String(v) }));
+    case 'user': return { accountId: String(value), name: String(value), displayName: String(value) };
+    default: return value;
+  }
+}
+
+function toJiraIssue(issue: Issue, customFields: CustomFieldDefinition[]): any {
+  const fields: Record<string, any> = {
+    summary: issue.title,
+    description: issue.description || null,
+    priority: issue.priority === 'none' ? null : { name: JIRA_PRIORITY_NAMES[issue.priority] },
+    status: toJiraStatus(issue.state),
+    resolution: issue.state.type === 'canceled' ? { name: "Won't Do" }
+      : issue.state.type === 'completed' ? { name: 'Done' }
+      : null,
+    labels: issue.labels.map(l => l.name),
+    assignee: issue.assignee ? toJiraUser(issue.assignee) : null,
+    project: issue.project ? { id: issue.project.id, key: issue.project.id, name: issue.project.name } : null,
+    parent: issue.parent ? toJiraRef(issue.parent) : undefined,
+    subtasks: (issue.children || []).map(toJiraRef),
+    issuelinks: (issue.relations || []).map(r => ({
+      id: String(numericId(r.id!)),
+      type: { name: r.type === 'related' ? 'Relates' : 'Blocks', inward: 'is blocked by', outward: 'blocks' },
+      [r.type === 'blocked-by' ? 'inwardIssue' : 'outwardIssue']: toJiraRef(r.issue),
+    })),
+    fixVersions: issue.milestone ? [toJiraVersion(issue.milestone)] : [],
+    issuetype: { name: issue.parent ? 'Sub-task' : 'Task' },
+    created: issue.createdAt?.toISOString(),
+    updated: issue.updatedAt?.toISOString(),
+    [JIRA_STORY_POINTS_FIELD]: issue.estimate ?? null,
+  };
+
+  for (const field of customFields) {
+    const value = issue.customFields?.[field.name];
+    if (value !== undefined) fields[jiraFieldId(field)] = toJiraFieldValue(field, value);
+  }
+
+  return { id: String(numericId(issue.id)), key: issue.identifier, fields };
+}
+
+function toJiraRef(issue: Issue): any {
+  return {
+    id: String(numericId(issue.id)),
+    key: issue.identifier,
+    fields: {
+      summary: issue.title,
+      status: toJiraStatus(issue.state),
+      priority: issue.priority === 'none' ? null : { name: JIRA_PRIORITY_NAMES[issue.priority] },
+    },
+  };
+}
+
+function toJiraStatus(state: IssueState): any {
+  return { id: state.id, name: state.name, statusCategory: JIRA_CATEGORIES[state.type] };
+}
+
+function toJiraUser(user: User): any {
+  return { accountId: user.id, name: user.id, displayName: user.name, emailAddress: user.email };
+}
+
+function toJiraVersion(m: Milestone): any {
+  return {
+    id: m.id,
+    name: m.name,
+    description: m.description,
+    releaseDate: m.targetDate?.toISOString().slice(0, 10),
+    archived: false,
+  };
+}
+
+function toJiraProject(backend: MemoryAdapter, p: Project): any {
+  const links = (backend.projectLinks.get(p.id) || []).map(l => `[${l.label}|${l.url}]`);
+  return {
+    id: p.id,
+    key: p.id,
+    name: p.name,
+    description: [p.description, ...links].filter(Boolean).join('\n'),
+  };
+}
+
+function toJiraComment(c: Comment): any {
+  return {
+    id: String(numericId(c.id)),
+    body: c.body,
+    author: toJiraUser(c.author),
+    created: c.createdAt.toISOString(),
+    updated: (c.updatedAt || c.createdAt).toISOString(),
+  };
+}
+
+// ----------------------------------------------------------------------------
+// JQL
+// ----------------------------------------------------------------------------
+
+type JqlToken = { kind: 'string' | 'word' | 'number' | 'punct'; value: string };
+
+const JQL_TOKEN = /\s*(?:"((?:[^"\\]|\\.)*)"|([(),=~])|([A-Za-z_]\w*(?:\[\d+\]|\(\))?)|(-?\d+(?:\.\d+)?))/y;
+
+/** Issues matching a JQL query, in its ORDER BY created order */
+async function searchJira(backend: MemoryAdapter, jql: string): Promise<Issue[]> {
+  const tokens = tokenizeJql(jql);
+  const orderAt = tokens.findIndex((t, i) => isWord(t, 'ORDER') && isWord(tokens[i + 1], 'BY'));
+  const where = orderAt === -1 ? tokens : tokens.slice(0, orderAt);
+  const order = orderAt === -1 ? [] : tokens.slice(orderAt + 2);
+
+  if (order.length && (!isWord(order[0], 'created') || (order[1] && !/^(ASC|DESC)$/i.test(order[1].value)))) {
+    throw new Error(`Jira stub: unsupported ORDER BY in "${jql}"`);
+  }
+
+  const customFields = await backend.listCustomFields();
+  const viewer = backend.getViewer().id;
+  const predicate = where.length ? new JqlParser(where, customFields, viewer).parse() : () => true;
+
+  const issues = (await listAllIssues(backend)).filter(predicate);
+  return order[1] && /^DESC$/i.test(order[1].value) ? issues.reverse() : issues;
+}
+
+function tokenizeJql(jql: string): JqlToken[] {
+  const tokens: JqlToken[] = [];
+  JQL_TOKEN.lastIndex = 0;
+
+  while (JQL_TOKEN.lastIndex < jql.trimEnd().length) {
+    const match = JQL_TOKEN.exec(jql);
+    if (!match) throw new Error(`Jira stub: cannot parse JQL "${jql}"`);
+
+    const [, string, punct, word, number] = match;
+    if (string !== undefined) tokens.push({ kind: 'string', value: string.replace(/\\(.)/g, '$1') });
+    else if (punct) tokens.push({ kind: 'punct', value: punct });
+    else if (word) tokens.push({ kind: 'word', value: word });
+    else tokens.push({ kind: 'number', value: number });
+  }
+
+  return tokens;
+}
+
+function isWord(token: JqlToken | undefined, word: string): boolean {
+  return token?.kind === 'word' && token.value.toUpperCase() === word.toUpperCase();
+}
+
+/**
+ * Recursive descent over `clause (AND|OR clause)*` with parentheses;
+ * AND binds tighter than OR
+ */
+class JqlParser {
+  private pos = 0;
+
+  constructor(
+    private tokens: JqlToken[],
+    private customFields: CustomFieldDefinition[],
+    private viewer: string
+  ) {}
+
+  parse(): (issue: Issue) => boolean {
+    const predicate = this.or();
+    if (this.pos < this.tokens.length) throw this.error();
+    return predicate;
+  }
+
+  private or(): (issue: Issue) => boolean {
+    const parts = [this.and()];
+    while (isWord(this.tokens[this.pos], 'OR')) {
+      this.pos++;
+      parts.push(this.and());
+    }
+    return issue => parts.some(p => p(issue));
+  }
+
+  private and(): (issue: Issue) => boolean {
+    const parts = [this.unit()];
+    while (isWord(this.tokens[this.pos], 'AND')) {
+      this.pos++;
+      parts.push(this.unit());
+    }
+    return issue => parts.every(p => p(issue));
+  }
+
+  private unit(): (issue: Issue) => boolean {
+    if (this.tokens[this.pos]?.value === '(') {
+      this.pos++;
+      const inner = this.or();
+      this.expect(')');
+      return inner;
+    }
+    return this.clause();
+  }
+
+  private clause(): (issue: Issue) => boolean {
+    const field = this.next();
+    const operator = this.next();
+    const read = this.field(field);
+
+    if (isWord(operator, 'is')) {
+      if (!isWord(this.next(), 'EMPTY')) throw this.error();
+      return issue => read(issue).length === 0;
+    }
+
+    if (isWord(operator, 'in')) {
+      this.expect('(');
+      const wanted = [this.value()];
+      while (this.tokens[this.pos]?.value === ',') {
+        this.pos++;
+        wanted.push(this.value());
+      }
+      this.expect(')');
+      return issue => read(issue).some(v => wanted.includes(v));
+    }
+
+    if (operator?.value === '=') {
+      const wanted = this.value();
+      return issue => read(issue).includes(wanted);
+    }
+
+    if (operator?.value === '~') {
+      const wanted = this.value();
+      return field.value === 'text'
+        ? issue => matchesSearch(issue, wanted)
+        : issue => read(issue).some(v => v.includes(wanted));
+    }
+
+    throw this.error();
+  }
+
+  /** Lower-cased values of a field on an issue; empty when unset */
+  private field(token: JqlToken): (issue: Issue) => string[] {
+    const values = (...list: Array<string | undefined>) =>
+      list.filter((v): v is string => v !== undefined).map(v => v.toLowerCase());
+
+    switch (token.value) {
+      case 'project': return issue => values(issue.project?.id);
+      case 'fixVersion': return issue => values(issue.milestone?.id);
+      case 'priority': return issue => values(issue.priority === 'none' ? undefined : JIRA_PRIORITY_NAMES[issue.priority]);
+      case 'statusCategory': return issue => values(JIRA_CATEGORIES[issue.state.type].name);
+      case 'labels': return issue => values(...issue.labels.map(l => l.name));
+      case 'assignee': return issue => values(issue.assignee?.id);
+      case 'parent': return issue => values(issue.parent?.identifier);
+      case 'text': return () => [];
+    }
+
+    const custom = token.value.match(/^cf\[(\d+)\]$/);
+    const field = custom && this.customFields.find(f => numericId(f.id) === Number(custom[1]));
+    if (field) {
+      return issue => {
+        const value = issue.customFields?.[field.name];
+        if (value === undefined || value === null) return [];
+        const list = Array.isArray(value) ? value : [value];
+        return values(...list.map(v => v instanceof Date ? v.toISOString().slice(0, 10) : String(v)));
+      };
+    }
+
+    throw new Error(`Jira stub: unsupported JQL field "${token.value}"`);
+  }
+
+  private value(): string {
+    const token = this.next();
+    if (isWord(token, 'currentUser()')) return this.viewer.toLowerCase();
+    if (token?.kind !== 'string' && token?.kind !== 'number') throw this.error();
+    return token.value.toLowerCase();
+  }
+
+  private next(): JqlToken {
+    const token = this.tokens[this.pos++];
+    if (!token) throw this.error();
+    return token;
+  }
+
+  private expect(value: string): void {
+    if (this.next().value !== value) throw this.error();
+  }
+
+  private error(): Error {
+    const near = this.tokens.slice(Math.max(0, this.pos - 1), this.pos + 2).map(t => t.value).join(' ');
+    return new Error(`Jira stub: unsupported JQL near "${near}"`);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toLinearComment(c: Comment): any {
+  return {
+    id: c.id,
+    body: c.body,
+    createdAt: c.createdAt.toISOString(),
+    editedAt: c.updatedAt?.toISOString() ?? null,
+    parent: c.parentId ? { id: c.parentId } : null,
+    user: c.author,
+  };
+}
+
+async function findComment(
+  backend: MemoryAdapter,
+  matches: (comment: Comment) => boolean
+): Promise<{ issueId: string; comment: Comment }> {
+  for (const issue of await listAllIssues(backend)) {
+    const comment = (await backend.listComments(issue.id)).find(matches);
+    if (comment) return { issueId: issue.id, comment };
+  }
+  throw new NotFoundError(backend.name, 'Comment', 'no match');
+}
+
+function listAllIssues(backend: MemoryAdapter): Promise<Issue[]> {
+  return backend.listIssues({ limit: Number.MAX_SAFE_INTEGER });
+}
+
+async function listAllMilestones(backend: MemoryAdapter): Promise<Milestone[]> {
+  const projects = await backend.listProjects();
+  return (await Promise.all(projects.map(p => backend.listMilestones(p.id)))).flat();
+}
+
+/** Label names as the memory backend knows them, created on first use */
+async function ensureLabels(backend: MemoryAdapter, names: string[]): Promise<string[]> {
+  return Promise.all(names.map(async name => (await backend.ensureLabel(name)).name));
+}
+
+/** Trailing number of a memory ID ("issue-12" → 12) */
+function numericId(id: string): number {
+  return Number(id.match(/(\d+)$/)?.[1]);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Wrap nodes in a Relay-style connection. With `first`/`after` variables,
+ * serves one page using offset cursors so pagination code paths run.
+ */
+function connection<T>(
+  nodes: T[],
+  page: { first?: number; after?: string | null } = {}
+): { nodes: T[]; pageInfo: { hasNextPage: boolean; endCursor: string | null } } {
+  const start = page.after ? Number(page.after) : 0;
+  const end = page.first ? start + page.first : nodes.length;
+  const slice = nodes.slice(start, end);
+
+  return {
+    nodes: slice,
+    pageInfo: {
+      hasNextPage: end < nodes.length,
+      endCursor: slice.length ? String(start + slice.length) : page.after ?? null,
+    },
+  };
+}
+
+function jsonResponse(body: unknown, status = 200, statusText?: string): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,148 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { MemoryAdapter } from './memory';
+import { FileAdapter } from './file';
+import { SyncEngine, SyncOptions, SyncReport } from './sync';
+
+/** A memory tracker (side a) paired with a file tracker (side b) */
+async function withPair(fn: (a: MemoryAdapter, b: FileAdapter) => Promise<void>) {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-sync-'));
+  try {
+    await fn(new MemoryAdapter(), new FileAdapter({ directory, user: 'tester' }));
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 10));
+
+function assertNoChanges(report: SyncReport) {
+  assert.deepEqual(report, { created: [], updated: [], conflicts: [], comments: 0, errors: [] });
+}
+
+/** Link one issue from a, then edit it on a and, later, on b */
+async function conflictingEdits(a: MemoryAdapter, b: FileAdapter, options: SyncOptions) {
+  const engine = new SyncEngine(a, b, options);
+  const issue = await a.createIssue({ title: 'Original' });
+  await engine.sync();
+
+  const [copy] = await b.listIssues();
+  await a.updateIssue(issue.id, { title: 'Edited on a' });
+  await tick();
+  await b.updateIssue(copy.id, { title: 'Edited on b' });
+
+  const report = await engine.sync();
+  return {
+    report,
+    titles: [(await a.getIssue(issue.id))!.title, (await b.getIssue(copy.id))!.title],
+  };
+}
+
+test('a first run mirrors issues both ways and a second run changes nothing', async () => {
+  await withPair(async (a, b) => {
+    const engine = new SyncEngine(a, b);
+    await a.ensureLabel('api');
+    await a.createIssue({ title: 'From a', priority: 'P1-High', state: 'In Progress', labels: ['api'] });
+    await b.createIssue({ title: 'From b', description: 'Filed locally' });
+
+    const first = await engine.sync();
+    assert.equal(first.created.length, 2);
+    assert.deepEqual(first.errors, []);
+
+    const copy = (await b.listIssues()).find(i => i.title === 'From a')!;
+    assert.equal(copy.priority, 'P1-High');
+    assert.equal(copy.state.type, 'started');
+    assert.deepEqual(copy.labels.map(l => l.name), ['api']);
+    assert.equal((await a.listIssues()).find(i => i.title === 'From b')?.description, 'Filed locally');
+
+    assertNoChanges(await engine.sync());
+  });
+});
+
+test('last-writer-wins keeps the later edit', async () => {
+  await withPair(async (a, b) => {
+    const { report, titles } = await conflictingEdits(a, b, { conflict: 'last-writer-wins' });
+
+    assert.equal(report.conflicts.length, 1);
+    assert.equal(report.conflicts[0].winner, 'b');
+    assert.deepEqual(titles, ['Edited on b', 'Edited on b']);
+  });
+});
+
+test('source-of-truth keeps the configured side', async () => {
+  await withPair(async (a, b) => {
+    const { report, titles } = await conflictingEdits(a, b, { conflict: 'source-of-truth', sourceOfTruth: 'a' });
+
+    assert.equal(report.conflicts.length, 1);
+    assert.equal(report.conflicts[0].winner, 'a');
+    assert.deepEqual(titles, ['Edited on a', 'Edited on a']);
+  });
+});
+
+test('a-to-b never writes to a', async () => {
+  await withPair(async (a, b) => {
+    const engine = new SyncEngine(a, b, { direction: 'a-to-b' });
+    const issue = await a.createIssue({ title: 'From a' });
+    await b.createIssue({ title: 'From b' });
+
+    const first = await engine.sync();
+    assert.deepEqual(first.created.map(c => c.from), ['a']);
+    assert.deepEqual((await a.listIssues()).map(i => i.title), ['From a']);
+
+    // Edits on b stay there; edits on a still flow
+    const copy = (await b.listIssues()).find(i => i.title === 'From a')!;
+    await b.updateIssue(copy.id, { title: 'Edited on b' });
+    assertNoChanges(await engine.sync());
+    assert.equal((await a.getIssue(issue.id))!.title, 'From a');
+
+    await a.updateIssue(issue.id, { priority: 'P0-Critical' });
+    const report = await engine.sync();
+    assert.deepEqual(report.updated.map(u => u.fields), [['title', 'priority']]);
+    assert.equal((await b.getIssue(copy.id))!.title, 'From a');
+  });
+});
+
+test('b-to-a never writes to b', async () => {
+  await withPair(async (a, b) => {
+    const engine = new SyncEngine(a, b, { direction: 'b-to-a' });
+    await a.createIssue({ title: 'From a' });
+    const issue = await b.createIssue({ title: 'From b' });
+    await b.addComment(issue.id, 'Local note');
+
+    const report = await engine.sync();
+    assert.deepEqual(report.created.map(c => c.from), ['b']);
+    assert.equal(report.comments, 1);
+    assert.deepEqual((await b.listIssues()).map(i => i.title), ['From b']);
+    assert.equal((await b.listComments(issue.id)).length, 1);
+  });
+});
+
+test('replies are mirrored under the copy of their parent', async () => {
+  await withPair(async (a, b) => {
+    const engine = new SyncEngine(a, b);
+    const issue = await a.createIssue({ title: 'Threaded' });
+    await engine.sync();
+
+    const question = await a.addComment(issue.id, 'Which endpoint?');
+    assert.equal((await engine.sync()).comments, 1);
+
+    const [copy] = await b.listIssues();
+    const [mirrored] = await b.listComments(copy.id);
+    assert.match(mirrored.body, /Which endpoint\?$/);
+    await b.replyToComment(copy.id, mirrored.id, 'The v2 one');
+    assert.equal((await engine.sync()).comments, 1);
+
+    const comments = await a.listComments(issue.id);
+    assert.equal(comments.length, 2);
+    assert.equal(comments[1].parentId, question.id);
+    assert.match(comments[1].body, /The v2 one$/);
+
+    // Copies are in the map, so nothing is mirrored back
+    assertNoChanges(await engine.sync());
+    assert.equal((await b.listComments(copy.id)).length, 2);
+  });
+});
@@ -0,0 +1,436 @@
+/**
+ * Cross-Tool Issue Sync
+ *
+ * Mirrors issues between two PMAdapters, e.g. a team planning in Linear
+ * and contributors filing bugs in GitHub Issues. Title, description,
+ * priority, state, labels and new comments are copied in one or both
+ * directions.
+ *
+ * A persistent ID map records which issues and comments are copies of each
+ * other, along with a fingerprint of each side's synced fields as of the
+ * last run. A side whose fingerprint moved has changed since; when both
+ * have, the conflict rule picks the winner.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import {
+  PMAdapter,
+  Issue,
+  IssueFilter,
+  IssueStateType,
+  Comment,
+  UpdateIssueInput,
+  AdapterError,
+} from './interface';
+import { CapabilityGuard } from './capabilities';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SyncSide = 'a' | 'b';
+
+export type SyncDirection = 'a-to-b' | 'b-to-a' | 'both';
+
+export type ConflictRule = 'last-writer-wins' | 'source-of-truth';
+
+export interface SyncOptions {
+  direction?: SyncDirection;    // Default: 'both'
+  conflict?: ConflictRule;      // Default: 'last-writer-wins'
+  sourceOfTruth?: SyncSide;     // Winner for 'source-of-truth', and for ties (default: 'a')
+  comments?: boolean;           // Mirror new comments (default: true)
+  store?: SyncStore;            // ID map (default: in memory)
+
+  /** Which issues to mirror from each side, e.g. { a: { projectId } } */
+  filters?: Partial<Record<SyncSide, IssueFilter>>;
+
+  /** Project that issues created on a side are filed under */
+  projects?: Partial<Record<SyncSide, string>>;
+
+  /** State name to use on a side for each state type; default: the source state's name */
+  states?: Partial<Record<SyncSide, Partial<Record<IssueStateType, string>>>>;
+}
+
+/** One mirrored pair of issues */
+export interface SyncLink {
+  a: string;
+  b: string;
+  fingerprints: Record<SyncSide, string>;   // Synced fields as of the last run
+  syncedAt: string;
+  comments: Array<Record<SyncSide, string>>;
+}
+
+export interface SyncStore {
+  load(): Promise<SyncLink[]>;
+  save(links: SyncLink[]): Promise<void>;
+}
+
+export interface SyncChange {
+  from: SyncSide;
+  source: string;               // Identifier on the side copied from
+  target: string;               // Identifier on the side written to
+  fields?: string[];            // Updated fields (updates only)
+}
+
+export interface SyncConflict {
+  a: string;
+  b: string;
+  winner: SyncSide;
+}
+
+export interface SyncError {
+  side: SyncSide;
+  issue: string;
+  message: string;
+}
+
+export interface SyncReport {
+  created: SyncChange[];
+  updated: SyncChange[];
+  conflicts: SyncConflict[];
+  comments: number;             // Comments mirrored
+  errors: SyncError[];
+}
+
+type SyncedField = 'title' | 'description' | 'priority' | 'state' | 'labels';
+
+const SYNCED_FIELDS: SyncedField[] = ['title', 'description', 'priority', 'state', 'labels'];
+
+const SYNC_SCAN_LIMIT = 1000;
+
+// ============================================================================
+// ID Map Stores
+// ============================================================================
+
+export class MemorySyncStore implements SyncStore {
+  private links: SyncLink[] = [];
+
+  async load(): Promise<SyncLink[]> {
+    return structuredClone(this.links);
+  }
+
+  async save(links: SyncLink[]): Promise<void> {
+    this.links = structuredClone(links);
+  }
+}
+
+/**
+ * ID map kept in a JSON file, one file per pair of trackers. Unlike the
+ * metadata cache, write errors propagate: a lost map would duplicate
+ * every issue on the next run.
+ */
+export class FileSyncStore implements SyncStore {
+  constructor(private file: string) {}
+
+  async load(): Promise<SyncLink[]> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.file, 'utf8'));
+      return Array.isArray(data?.links) ? data.links : [];
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async save(links: SyncLink[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(this.file, JSON.stringify({ links }, null, 2), 'utf8');
+  }
+}
+
+// ============================================================================
+// Sync Engine
+// ============================================================================
+
+export class SyncEngine {
+  private options: Required<Omit<SyncOptions, 'filters' | 'projects' | 'states'>> &
+    Pick<SyncOptions, 'filters' | 'projects' | 'states'>;
+  private guards: Record<SyncSide, CapabilityGuard>;
+
+  constructor(
+    private a: PMAdapter,
+    private b: PMAdapter,
+    options: SyncOptions = {}
+  ) {
+    this.options = {
+      direction: 'both',
+      conflict: 'last-writer-wins',
+      sourceOfTruth: 'a',
+      comments: true,
+      store: new MemorySyncStore(),
+      ...options,
+    };
+    this.guards = { a: new CapabilityGuard(a), b: new CapabilityGuard(b) };
+  }
+
+  /**
+   * Run one sync pass. Failures on one issue are reported and don't stop
+   * the rest; the ID map is saved even when some issues fail.
+   */
+  async sync(): Promise<SyncReport> {
+    const report: SyncReport = { created: [], updated: [], conflicts: [], comments: 0, errors: [] };
+    const links = await this.options.store.load();
+
+    try {
+      const [listedA, listedB] = await Promise.all([this.list('a'), this.list('b')]);
+
+      for (const link of links) {
+        await this.attempt(report, 'a', link.a, () => this.reconcile(link, listedA, listedB, report));
+      }
+
+      for (const from of ['a', 'b'] as SyncSide[]) {
+        if (!this.writes(other(from))) continue;
+
+        const linked = new Set(links.map(l => l[from]));
+        for (const issue of from === 'a' ? listedA : listedB) {
+          if (linked.has(issue.id)) continue;
+          await this.attempt(report, from, issue.identifier, async () => {
+            links.push(await this.create(from, issue, report));
+          });
+        }
+      }
+
+      if (this.options.comments) {
+        for (const link of links) {
+          await this.attempt(report, 'a', link.a, () => this.mirrorComments(link, report));
+        }
+      }
+    } finally {
+      await this.options.store.save(links);
+    }
+
+    return report;
+  }
+
+  // -------------------------------------------------------------------------
+  // Issues
+  // -------------------------------------------------------------------------
+
+  private async reconcile(
+    link: SyncLink,
+    listedA: Issue[],
+    listedB: Issue[],
+    report: SyncReport
+  ): Promise<void> {
+    const issueA = listedA.find(i => i.id === link.a) || await this.a.getIssue(link.a);
+    const issueB = listedB.find(i => i.id === link.b) || await this.b.getIssue(link.b);
+
+    if (!issueA || !issueB) {
+      const side: SyncSide = issueA ? 'b' : 'a';
+      throw new AdapterError(`Linked issue ${link[side]} no longer exists`, this.adapter(side).name, 'sync');
+    }
+
+    const changedA = fingerprint(issueA) !== link.fingerprints.a;
+    const changedB = fingerprint(issueB) !== link.fingerprints.b;
+    if (!changedA && !changedB) return;
+
+    let from: SyncSide = changedA ? 'a' : 'b';
+    if (changedA && changedB) {
+      from = this.resolveConflict(issueA, issueB);
+
+      // Both sides made the same edit: nothing to resolve
+      if (SYNCED_FIELDS.some(f => fieldValue(issueA, f) !== fieldValue(issueB, f))) {
+        report.conflicts.push({ a: issueA.identifier, b: issueB.identifier, winner: from });
+      }
+    }
+
+    if (!this.writes(other(from))) return;
+
+    const [source, target] = from === 'a' ? [issueA, issueB] : [issueB, issueA];
+    await this.update(link, from, source, target, report);
+  }
+
+  private resolveConflict(issueA: Issue, issueB: Issue): SyncSide {
+    if (this.options.conflict === 'source-of-truth') {
+      return this.options.sourceOfTruth;
+    }
+
+    const timeA = issueA.updatedAt?.getTime();
+    const timeB = issueB.updatedAt?.getTime();
+    if (timeA === undefined || timeB === undefined || timeA === timeB) {
+      return this.options.sourceOfTruth;
+    }
+    return timeA > timeB ? 'a' : 'b';
+  }
+
+  private async create(from: SyncSide, source: Issue, report: SyncReport): Promise<SyncLink> {
+    const to = other(from);
+    const created = await this.adapter(to).createIssue({
+      title: source.title,
+      description: source.description,
+      priority: source.priority,
+      state: this.stateName(to, source),
+      labels: await this.ensureLabels(to, source),
+      projectId: this.options.projects?.[to],
+    });
+
+    report.created.push({ from, source: source.identifier, target: created.identifier });
+
+    const ids = { [from]: source.id, [to]: created.id } as Record<SyncSide, string>;
+    return {
+      ...ids,
+      fingerprints: { [from]: fingerprint(source), [to]: fingerprint(created) } as Record<SyncSide, string>,
+      syncedAt: new Date().toISOString(),
+      comments: [],
+    };
+  }
+
+  private async update(
+    link: SyncLink,
+    from: SyncSide,
+    source: Issue,
+    target: Issue,
+    report: SyncReport
+  ): Promise<void> {
+    const to = other(from);
+    const fields = SYNCED_FIELDS.filter(f => fieldValue(source, f) !== fieldValue(target, f));
+    let updated = target;
+
+    if (fields.length > 0) {
+      const input: UpdateIssueInput = {};
+      if (fields.includes('title')) input.title = source.title;
+      if (fields.includes('description')) input.description = source.description;
+      if (fields.includes('priority')) input.priority = source.priority;
+      if (fields.includes('state')) input.state = this.stateName(to, source);
+      if (fields.includes('labels')) input.labels = await this.ensureLabels(to, source);
+
+      updated = await this.adapter(to).updateIssue(target.id, input);
+      report.updated.push({ from, source: source.identifier, target: target.identifier, fields });
+    }
+
+    // Fingerprint what the target stored, which may be lossy (e.g. GitHub
+    // has no "canceled"), so the difference doesn't read as a change
+    link.fingerprints[from] = fingerprint(source);
+    link.fingerprints[to] = fingerprint(updated);
+    link.syncedAt = new Date().toISOString();
+  }
+
+  // -------------------------------------------------------------------------
+  // Comments
+  // -------------------------------------------------------------------------
+
+  /**
+   * Copy comments not yet in the map to the other side. Copies are added
+   * to the map, so they are never mirrored back. Edits are not synced.
+   */
+  private async mirrorComments(link: SyncLink, report: SyncReport): Promise<void> {
+    const [commentsA, commentsB] = await Promise.all([
+      this.a.listComments(link.a),
+      this.b.listComments(link.b),
+    ]);
+
+    for (const from of ['a', 'b'] as SyncSide[]) {
+      const to = other(from);
+      if (!this.writes(to)) continue;
+
+      const mapped = new Set(link.comments.map(p => p[from]));
+      for (const comment of from === 'a' ? commentsA : commentsB) {
+        if (mapped.has(comment.id)) continue;
+
+        const copy = await this.copyComment(link, from, comment);
+        link.comments.push({ [from]: comment.id, [to]: copy.id } as Record<SyncSide, string>);
+        report.comments++;
+      }
+    }
+  }
+
+  private async copyComment(link: SyncLink, from: SyncSide, comment: Comment): Promise<Comment> {
+    const to = other(from);
+    const target = this.adapter(to);
+    const body = `**${comment.author.name}** on ${this.adapter(from).displayName}:\n\n${comment.body}`;
+
+    const parent = comment.parentId
+      ? link.comments.find(p => p[from] === comment.parentId)?.[to]
+      : undefined;
+
+    // Unthreaded trackers get a top-level comment quoting the parent
+    return parent
+      ? this.guards[to].replyToComment(link[to], parent, body)
+      : target.addComment(link[to], body);
+  }
+
+  // -------------------------------------------------------------------------
+  // Private Helpers
+  // -------------------------------------------------------------------------
+
+  private adapter(side: SyncSide): PMAdapter {
+    return side === 'a' ? this.a : this.b;
+  }
+
+  /** Whether this run may write to a side */
+  private writes(side: SyncSide): boolean {
+    const { direction } = this.options;
+    return direction === 'both' || direction === (side === 'b' ? 'a-to-b' : 'b-to-a');
+  }
+
+  private list(side: SyncSide): Promise<Issue[]> {
+    return this.adapter(side).listIssues({ limit: SYNC_SCAN_LIMIT, ...this.options.filters?.[side] });
+  }
+
+  private stateName(side: SyncSide, source: Issue): string {
+    return this.options.states?.[side]?.[source.state.type] || source.state.name;
+  }
+
+  /** Make sure the source's labels exist on a side, returning their names */
+  private async ensureLabels(side: SyncSide, source: Issue): Promise<string[]> {
+    const labels = await Promise.all(source.labels.map(l => this.adapter(side).ensureLabel(l.name)));
+    return labels.map(l => l.name);
+  }
+
+  private async attempt(
+    report: SyncReport,
+    side: SyncSide,
+    issue: string,
+    fn: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await fn();
+    } catch (error) {
+      report.errors.push({
+        side,
+        issue,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Render a sync report, one line per change
+ */
+export function formatSyncReport(report: SyncReport): string {
+  const lines = [
+    ...report.created.map(c => `➕ ${c.source} → ${c.target} (created)`),
+    ...report.updated.map(c => `✏️ ${c.source} → ${c.target} (${c.fields?.join(', ')})`),
+    ...report.conflicts.map(c => `⚔️ ${c.a} ↔ ${c.b}: kept ${c.winner === 'a' ? c.a : c.b}`),
+    ...report.errors.map(e => `❌ ${e.issue}: ${e.message}`),
+  ];
+
+  lines.push(
+    `${report.created.length} created, ${report.updated.length} updated, ` +
+    `${report.comments} comment(s) mirrored, ${report.errors.length} error(s)`
+  );
+  return lines.join('\n');
+}
+
+function other(side: SyncSide): SyncSide {
+  return side === 'a' ? 'b' : 'a';
+}
+
+function fieldValue(issue: Issue, field: SyncedField): string {
+  switch (field) {
+    case 'state':
+      return issue.state.type;
+    case 'labels':
+      return issue.labels.map(l => l.name.toLowerCase()).sort().join('\n');
+    default:
+      return String(issue[field] ?? '');
+  }
+}
+
+function fingerprint(issue: Issue): string {
+  const fields = SYNCED_FIELDS.map(f => fieldValue(issue, f));
+  return createHash('sha256').update(JSON.stringify(fields)).digest('hex').slice(0, 16);
+}
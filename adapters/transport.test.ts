@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { RateLimitError } from './interface';
+import { RequestPipeline, RetryOptions, parseRateLimitHeaders } from './transport';
+
+/** A pipeline over scripted responses that records its waits instead of sleeping */
+function scripted(responses: (Response | Error)[], options: RetryOptions = {}) {
+  const waits: number[] = [];
+  let calls = 0;
+  const fetchImpl = (async () => {
+    const next = responses[Math.min(calls++, responses.length - 1)];
+    if (next instanceof Error) throw next;
+    return next.clone();
+  }) as typeof fetch;
+
+  const pipeline = new RequestPipeline('test', fetchImpl, {
+    sleep: async ms => { waits.push(ms); },
+    random: () => 1,
+    ...options,
+  });
+  return { pipeline, waits, calls: () => calls };
+}
+
+const status = (code: number, headers: Record<string, string> = {}) =>
+  new Response(null, { status: code, headers });
+
+const read = { idempotent: true };
+const write = { idempotent: false };
+
+test('parseRateLimitHeaders reads Retry-After and each reset format', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  assert.deepEqual(parseRateLimitHeaders(new Headers({ 'Retry-After': '7' }), now),
+    { limited: false, retryAfter: 7, remaining: undefined });
+  assert.equal(parseRateLimitHeaders(new Headers({ 'Retry-After': 'Thu, 01 Jan 2026 00:00:30 GMT' }), now).retryAfter, 30);
+
+  const reset = (value: string) => parseRateLimitHeaders(
+    new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': value }), now);
+  assert.equal(reset(String(now + 5000)).retryAfter, 5);                    // Linear: epoch ms
+  assert.equal(reset(String(now / 1000 + 60)).retryAfter, 60);              // GitHub: epoch s
+  assert.equal(reset('2026-01-01T00:02:00Z').retryAfter, 120);              // Jira: ISO
+  assert.equal(reset('2026-01-01T00:02:00Z').limited, true);
+
+  // Quota left: the reset time is not a wait
+  const open = parseRateLimitHeaders(new Headers({ 'X-RateLimit-Remaining': '10', 'X-RateLimit-Reset': '60' }), now);
+  assert.deepEqual(open, { limited: false, retryAfter: undefined, remaining: 10 });
+});
+
+test('429 is retried for mutations too, waiting at least Retry-After', async () => {
+  const { pipeline, waits, calls } = scripted([status(429, { 'Retry-After': '2' }), status(200)]);
+
+  const response = await pipeline.send('https://api.example.com', {}, write);
+
+  assert.equal(response.status, 200);
+  assert.equal(calls(), 2);
+  assert.deepEqual(waits, [2000]);
+});
+
+test('GitHub 403 with an exhausted quota is a rate limit, a plain 403 is not', async () => {
+  const limited = scripted([status(403, { 'X-RateLimit-Remaining': '0' }), status(200)]);
+  assert.equal((await limited.pipeline.send('https://api.example.com', {}, read)).status, 200);
+
+  const forbidden = scripted([status(403)]);
+  assert.equal((await forbidden.pipeline.send('https://api.example.com', {}, read)).status, 403);
+  assert.equal(forbidden.calls(), 1);
+});
+
+test('backoff doubles per attempt up to maxDelayMs, then RateLimitError', async () => {
+  const { pipeline, waits, calls } = scripted([status(429)], { baseDelayMs: 100, maxDelayMs: 300 });
+
+  await assert.rejects(pipeline.send('https://api.example.com', {}, read), RateLimitError);
+  assert.equal(calls(), 4);
+  assert.deepEqual(waits, [100, 200, 300]);
+});
+
+test('transient failures are retried only for idempotent requests', async () => {
+  const reads = scripted([new TypeError('fetch failed'), status(503), status(200)]);
+  assert.equal((await reads.pipeline.send('https://api.example.com', {}, read)).status, 200);
+  assert.equal(reads.calls(), 3);
+
+  const writes = scripted([status(503)]);
+  assert.equal((await writes.pipeline.send('https://api.example.com', {}, write)).status, 503);
+  assert.equal(writes.calls(), 1);
+
+  const dropped = scripted([new TypeError('fetch failed')]);
+  await assert.rejects(dropped.pipeline.send('https://api.example.com', {}, write), /fetch failed/);
+  assert.equal(dropped.calls(), 1);
+});
+
+test('detectRateLimit flags rate limits hidden in a normal response', async () => {
+  const body = JSON.stringify({ errors: [{ extensions: { code: 'RATELIMITED' } }] });
+  const { pipeline, calls } = scripted([new Response(body, { status: 200 }), status(200)]);
+
+  await pipeline.send('https://api.example.com', {}, {
+    idempotent: false,
+    detectRateLimit: async r => (await r.text()).includes('RATELIMITED'),
+  });
+
+  assert.equal(calls(), 2);
+});
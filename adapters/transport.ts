@@ -0,0 +1,257 @@
+/**
+ * Adapter Request Pipeline
+ *
+ * Shared HTTP layer for the tracker adapters: request budgeting,
+ * rate-limit header parsing, and retries with jittered exponential backoff.
+ *
+ * Retry policy:
+ * - Rate-limit rejections (HTTP 429, GitHub's 403 + exhausted quota, or an
+ *   adapter-detected error such as Linear's RATELIMITED) are retried for
+ *   every request, mutations included: the server refused the request, so
+ *   nothing was applied.
+ * - Transient failures (network errors, 502/503/504) are retried only for
+ *   idempotent requests, since a mutation may already have taken effect.
+ */
+
+import { RateLimitError } from './interface';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RetryOptions {
+  maxRetries?: number;        // Retries after the first attempt (default: 3)
+  baseDelayMs?: number;       // First backoff step (default: 500)
+  maxDelayMs?: number;        // Longest single wait (default: 30000)
+  budget?: BudgetOptions;     // Client-side request budget
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+export interface BudgetOptions {
+  maxRequests: number;        // Requests allowed per window
+  windowMs: number;           // Window length in milliseconds
+}
+
+export interface SendOptions {
+  /** Safe to repeat after an ambiguous failure (reads, PUT, DELETE) */
+  idempotent: boolean;
+
+  /** Adapter-specific rate-limit signal in an otherwise normal response */
+  detectRateLimit?: (response: Response) => Promise<boolean>;
+}
+
+export interface RateLimitInfo {
+  limited: boolean;
+  retryAfter?: number;        // Seconds until requests are accepted again
+  remaining?: number;
+}
+
+const DEFAULT_RETRY: Required<Omit<RetryOptions, 'budget' | 'sleep' | 'random'>> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+const TRANSIENT_STATUSES = [502, 503, 504];
+
+// ============================================================================
+// Rate-Limit Headers
+// ============================================================================
+
+/**
+ * Read rate-limit state from response headers. Understands Retry-After
+ * (seconds or HTTP date) and the X-RateLimit-* families used by Linear
+ * (epoch milliseconds), GitHub (epoch seconds) and Jira (ISO timestamps).
+ */
+export function parseRateLimitHeaders(headers: Headers, now = Date.now()): RateLimitInfo {
+  const retryAfterHeader = headers.get('retry-after');
+  const remainingHeader =
+    headers.get('x-ratelimit-remaining') ??
+    headers.get('x-ratelimit-requests-remaining');
+  const resetHeader =
+    headers.get('x-ratelimit-reset') ??
+    headers.get('x-ratelimit-requests-reset');
+
+  const remaining = remainingHeader !== null && remainingHeader !== '' && !isNaN(Number(remainingHeader))
+    ? Number(remainingHeader)
+    : undefined;
+
+  let retryAfter: number | undefined;
+
+  if (retryAfterHeader) {
+    retryAfter = /^\d+(\.\d+)?$/.test(retryAfterHeader.trim())
+      ? Number(retryAfterHeader)
+      : secondsUntil(Date.parse(retryAfterHeader), now);
+  } else if (resetHeader && remaining === 0) {
+    retryAfter = secondsUntil(parseResetTime(resetHeader, now), now);
+  }
+
+  return {
+    limited: remaining === 0,
+    retryAfter,
+    remaining,
+  };
+}
+
+function parseResetTime(value: string, now: number): number {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const n = Number(trimmed);
+    if (n > 1e12) return n;          // Epoch milliseconds
+    if (n > 1e9) return n * 1000;    // Epoch seconds
+    return now + n * 1000;           // Seconds from now
+  }
+  return Date.parse(trimmed);
+}
+
+function secondsUntil(timestamp: number, now: number): number | undefined {
+  if (isNaN(timestamp)) return undefined;
+  return Math.max(0, Math.ceil((timestamp - now) / 1000));
+}
+
+// ============================================================================
+// Request Budget
+// ============================================================================
+
+/**
+ * Sliding-window request budget. Callers await `acquire()` before each
+ * request; the server can also force a pause via `pauseUntil()`.
+ */
+export class RequestBudget {
+  private sent: number[] = [];
+  private resumeAt = 0;
+
+  constructor(
+    private options: BudgetOptions,
+    private sleep: (ms: number) => Promise<void> = defaultSleep
+  ) {}
+
+  async acquire(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+
+      if (now < this.resumeAt) {
+        await this.sleep(this.resumeAt - now);
+        continue;
+      }
+
+      this.sent = this.sent.filter(t => now - t < this.options.windowMs);
+      if (this.sent.length < this.options.maxRequests) {
+        this.sent.push(now);
+        return;
+      }
+
+      await this.sleep(this.sent[0] + this.options.windowMs - now);
+    }
+  }
+
+  pauseUntil(timestamp: number): void {
+    this.resumeAt = Math.max(this.resumeAt, timestamp);
+  }
+}
+
+// ============================================================================
+// Request Pipeline
+// ============================================================================
+
+export class RequestPipeline {
+  private options: Required<Omit<RetryOptions, 'budget'>>;
+  private budget?: RequestBudget;
+
+  constructor(
+    private adapter: string,
+    private fetchImpl: typeof fetch,
+    options: RetryOptions = {}
+  ) {
+    this.options = {
+      ...DEFAULT_RETRY,
+      sleep: defaultSleep,
+      random: Math.random,
+      ...options,
+    };
+    if (options.budget) {
+      this.budget = new RequestBudget(options.budget, this.options.sleep);
+    }
+  }
+
+  /**
+   * Send a request, retrying per the policy above. Returns the final
+   * response (which may still be a non-OK status for callers to map),
+   * or throws RateLimitError once retries are exhausted.
+   */
+  async send(url: string, init: RequestInit, options: SendOptions): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.budget?.acquire();
+
+      let response: Response;
+      try {
+        response = await this.fetchImpl(url, init);
+      } catch (error) {
+        if (options.idempotent && attempt < this.options.maxRetries) {
+          await this.options.sleep(this.backoff(attempt));
+          continue;
+        }
+        throw error;
+      }
+
+      const info = parseRateLimitHeaders(response.headers);
+      if (info.limited && info.retryAfter !== undefined) {
+        // Quota is spent; hold further requests until it resets
+        this.budget?.pauseUntil(Date.now() + info.retryAfter * 1000);
+      }
+
+      if (await this.isRateLimited(response, info, options)) {
+        if (attempt < this.options.maxRetries) {
+          const waitMs = Math.min(
+            Math.max((info.retryAfter ?? 0) * 1000, this.backoff(attempt)),
+            this.options.maxDelayMs
+          );
+          await this.options.sleep(waitMs);
+          continue;
+        }
+        throw new RateLimitError(this.adapter, info.retryAfter);
+      }
+
+      if (TRANSIENT_STATUSES.includes(response.status) && options.idempotent && attempt < this.options.maxRetries) {
+        await this.options.sleep(this.backoff(attempt));
+        continue;
+      }
+
+      return response;
+    }
+  }
+
+  private async isRateLimited(
+    response: Response,
+    info: RateLimitInfo,
+    options: SendOptions
+  ): Promise<boolean> {
+    if (response.status === 429) return true;
+
+    // GitHub signals primary and secondary limits with 403
+    if (response.status === 403 && (info.limited || info.retryAfter !== undefined)) {
+      return true;
+    }
+
+    if (options.detectRateLimit) {
+      try {
+        return await options.detectRateLimit(response.clone());
+      } catch {
+        return false;
+      }
+    }
+
+    return false;
+  }
+
+  /** Exponential backoff with jitter in [50%, 100%] of the step */
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(ceiling * (0.5 + this.options.random() / 2));
+  }
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
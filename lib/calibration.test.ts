@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { Issue, Priority } from '../adapters/interface';
+import {
+  CalibrationError,
+  Calibrator,
+  MIN_CALIBRATION_SAMPLES,
+  MemoryCalibrationStore,
+  calibrationFile,
+} from './calibration';
+import { CodebaseContext, DEFAULT_CONFIG, EstimationConfig, TokenEstimator } from './estimator';
+
+function issue(identifier: string, priority: Priority = 'P2-Medium'): Issue {
+  return {
+    id: identifier,
+    identifier,
+    title: identifier,
+    description: '',
+    priority,
+    state: { id: 'todo', name: 'Todo', type: 'unstarted' },
+    labels: [],
+  };
+}
+
+/** A context touching one file of `lines` lines, with `related` lines of related files */
+function context(lines: number, related = 0): CodebaseContext {
+  return {
+    filesLikelyTouched: [{ path: 'src/a.ts', lines, language: 'typescript', complexity: 'medium' }],
+    relatedFiles: related ? [{ path: 'src/b.ts', lines: related, language: 'typescript', complexity: 'low' }] : [],
+    newFiles: [],
+    untestedFiles: [],
+    totalLines: lines,
+    avgComplexity: 'medium',
+  };
+}
+
+/**
+ * Record issues of varied size whose actual usage, and its test part, is
+ * what `truth` would have estimated
+ */
+async function recordSamples(calibrator: Calibrator, truth: Partial<EstimationConfig>, count = 8) {
+  const estimator = new TokenEstimator(truth);
+  for (let i = 0; i < count; i++) {
+    const item = issue(`APP-${i}`, i % 2 ? 'P1-High' : 'P2-Medium');
+    const ctx = context(50 + 120 * i, i % 3 ? 200 + 40 * i : 0);
+    const { total, breakdown } = estimator.estimateTokens(item.priority, ctx);
+    await calibrator.record(item, ctx, total, { tests: breakdown.tests });
+  }
+}
+
+test('calibrate fits the config to recorded usage, leaving unrecorded overheads and review cycles alone', async () => {
+  const calibrator = new Calibrator(new MemoryCalibrationStore());
+  await recordSamples(calibrator, { tokensPerLine: 60, multipliers: { ...DEFAULT_CONFIG.multipliers, testOverhead: 0.3 } });
+
+  const { config, report } = await calibrator.calibrate();
+
+  // Tokens per line trades off against the complexity and priority
+  // factors, so only its direction is certain
+  assert.ok(config.tokensPerLine < DEFAULT_CONFIG.tokensPerLine, `tokensPerLine ${config.tokensPerLine}`);
+  assert.ok(Math.abs(config.multipliers.testOverhead - 0.3) / 0.3 < 0.1, `testOverhead ${config.multipliers.testOverhead}`);
+  assert.equal(config.multipliers.reviewOverhead, DEFAULT_CONFIG.multipliers.reviewOverhead);
+  assert.equal(config.reviewCycles, DEFAULT_CONFIG.reviewCycles);
+  assert.ok(report.before.mape > 0.2);
+  assert.ok(report.before.bias > 0);
+  assert.ok(report.after.mape < 0.02, `MAPE ${report.after.mape}`);
+  assert.deepEqual(await calibrator.config(), config);
+});
+
+test('calibrate needs enough records; record needs a positive count and replaces by identifier', async () => {
+  const calibrator = new Calibrator(new MemoryCalibrationStore());
+  await recordSamples(calibrator, {}, MIN_CALIBRATION_SAMPLES - 1);
+
+  await assert.rejects(calibrator.calibrate(), CalibrationError);
+  await assert.rejects(calibrator.record(issue('APP-9'), context(10), 0), CalibrationError);
+
+  await calibrator.record(issue('APP-0'), context(10), 12345);
+  const records = await calibrator.records();
+  assert.equal(records.length, MIN_CALIBRATION_SAMPLES - 1);
+  assert.equal(records[records.length - 1].actual, 12345);
+});
+
+test('a project calibration is kept on disk and reset keeps the records', async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-calibration-'));
+  try {
+    const base = { reviewCycles: 1 };
+    await recordSamples(Calibrator.forProject(root, base), { tokensPerLine: 150 });
+    const { config } = await Calibrator.forProject(root, base).calibrate();
+
+    const reopened = Calibrator.forProject(root, base);
+    assert.deepEqual(await reopened.config(), config);
+    assert.equal((await reopened.reports()).length, 1);
+    assert.equal(config.reviewCycles, 1);
+    assert.ok(JSON.parse(await fs.readFile(calibrationFile(root), 'utf8')).config);
+
+    await reopened.reset();
+    assert.equal((await reopened.config()).tokensPerLine, DEFAULT_CONFIG.tokensPerLine);
+    assert.equal((await reopened.records()).length, 8);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+});
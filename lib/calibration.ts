@@ -0,0 +1,404 @@
+/**
+ * Calibration Module
+ *
+ * Fits EstimationConfig to what issues actually cost. After an issue is
+ * executed, its real token usage is recorded against the context it was
+ * estimated from, keyed by issue identifier. `calibrate` then searches for
+ * the multipliers, complexity and priority factors and tokens per line
+ * that minimise the mean absolute percentage error over every record.
+ * The fitted config and an accuracy report for each refit are persisted
+ * per project.
+ *
+ * Usually only the total is known, and a total can't tell test, review
+ * or documentation overhead apart from implementation. Those multipliers
+ * are fitted only once some record carries an actual breakdown for that
+ * part. Review cycles are a process setting and are never fitted. A
+ * light pull towards the previous config breaks ties between factors
+ * the data can't tell apart.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Issue, Priority } from '../adapters/interface';
+import {
+  TokenEstimator,
+  EstimationConfig,
+  CodebaseContext,
+  TokenBreakdown,
+  Complexity,
+  DEFAULT_CONFIG,
+} from './estimator';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UsageRecord {
+  identifier: string;
+  priority: Priority;
+  context: CodebaseContext;               // As analyzed when the issue was estimated
+  estimated: number;                      // Estimate from the config in use when recorded
+  actual: number;
+  actualBreakdown?: Partial<TokenBreakdown>;
+  recordedAt: string;
+}
+
+export interface AccuracyMetrics {
+  mape: number;               // Mean absolute percentage error, as a fraction
+  bias: number;               // Mean signed percentage error; positive overestimates
+}
+
+export interface AccuracyReport {
+  samples: number;
+  before: AccuracyMetrics;    // Config in use before the refit
+  after: AccuracyMetrics;     // Fitted config
+  fittedAt: string;
+}
+
+export interface CalibrationData {
+  records: UsageRecord[];
+  config?: EstimationConfig;  // Last fitted config
+  reports: AccuracyReport[];  // One per refit, oldest first
+}
+
+export interface CalibrationStore {
+  load(): Promise<CalibrationData>;
+  save(data: CalibrationData): Promise<void>;
+}
+
+export class CalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalibrationError';
+  }
+}
+
+/** Fewest records calibrate will fit to */
+export const MIN_CALIBRATION_SAMPLES = 5;
+
+const PRIOR_WEIGHT = 0.01;    // Pull towards the previous config, per squared log-ratio
+const MAX_FIT_ROUNDS = 200;
+const MIN_STEP = 0.005;       // Smallest log-scale step before the search stops
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+export class MemoryCalibrationStore implements CalibrationStore {
+  private data: CalibrationData = { records: [], reports: [] };
+
+  async load(): Promise<CalibrationData> {
+    return structuredClone(this.data);
+  }
+
+  async save(data: CalibrationData): Promise<void> {
+    this.data = structuredClone(data);
+  }
+}
+
+/**
+ * Calibration kept in a JSON file, by default
+ * .wave-planner/calibration.json in the project
+ */
+export class FileCalibrationStore implements CalibrationStore {
+  constructor(private file: string) {}
+
+  async load(): Promise<CalibrationData> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.file, 'utf8'));
+      return {
+        records: Array.isArray(data?.records) ? data.records : [],
+        config: data?.config,
+        reports: Array.isArray(data?.reports) ? data.reports : [],
+      };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { records: [], reports: [] };
+      throw error;
+    }
+  }
+
+  async save(data: CalibrationData): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(this.file, JSON.stringify(data, null, 2), 'utf8');
+  }
+}
+
+export function calibrationFile(projectRoot: string): string {
+  return path.join(projectRoot, '.wave-planner', 'calibration.json');
+}
+
+// ============================================================================
+// Calibrator
+// ============================================================================
+
+export class Calibrator {
+  constructor(
+    private store: CalibrationStore,
+    private base: Partial<EstimationConfig> = {}
+  ) {}
+
+  /**
+   * Calibrator for a project, stored in its .wave-planner directory
+   */
+  static forProject(projectRoot: string, base: Partial<EstimationConfig> = {}): Calibrator {
+    return new Calibrator(new FileCalibrationStore(calibrationFile(projectRoot)), base);
+  }
+
+  /**
+   * Config to estimate with: the last fit if there is one, else the base
+   */
+  async config(): Promise<EstimationConfig> {
+    const { config } = await this.store.load();
+    return config || resolveConfig(this.base);
+  }
+
+  async estimator(): Promise<TokenEstimator> {
+    return new TokenEstimator(await this.config());
+  }
+
+  /**
+   * Record an executed issue's real token usage. A second record for the
+   * same identifier replaces the first.
+   */
+  async record(
+    issue: Issue,
+    context: CodebaseContext,
+    actual: number,
+    actualBreakdown?: Partial<TokenBreakdown>
+  ): Promise<UsageRecord> {
+    if (!(actual > 0)) {
+      throw new CalibrationError(`Actual usage for ${issue.identifier} must be a positive token count, got ${actual}`);
+    }
+
+    const data = await this.store.load();
+    const estimator = new TokenEstimator(data.config || resolveConfig(this.base));
+    const record: UsageRecord = {
+      identifier: issue.identifier,
+      priority: issue.priority,
+      context,
+      estimated: estimator.estimateTokens(issue.priority, context).total,
+      actual,
+      actualBreakdown,
+      recordedAt: new Date().toISOString(),
+    };
+
+    data.records = [...data.records.filter(r => r.identifier !== issue.identifier), record];
+    await this.store.save(data);
+    return record;
+  }
+
+  async records(): Promise<UsageRecord[]> {
+    return (await this.store.load()).records;
+  }
+
+  async reports(): Promise<AccuracyReport[]> {
+    return (await this.store.load()).reports;
+  }
+
+  /**
+   * Refit the config to every record, persist it, and report accuracy
+   * before and after. Throws CalibrationError with too few records.
+   */
+  async calibrate(): Promise<{ config: EstimationConfig; report: AccuracyReport }> {
+    const data = await this.store.load();
+    if (data.records.length < MIN_CALIBRATION_SAMPLES) {
+      throw new CalibrationError(
+        `Calibration needs at least ${MIN_CALIBRATION_SAMPLES} recorded issues, have ${data.records.length}`
+      );
+    }
+
+    const current = data.config || resolveConfig(this.base);
+    const config = fitConfig(data.records, current);
+    const report: AccuracyReport = {
+      samples: data.records.length,
+      before: measureAccuracy(data.records, current),
+      after: measureAccuracy(data.records, config),
+      fittedAt: new Date().toISOString(),
+    };
+
+    data.config = config;
+    data.reports = [...data.reports, report];
+    await this.store.save(data);
+    return { config, report };
+  }
+
+  /**
+   * Drop the fitted config; records and reports are kept
+   */
+  async reset(): Promise<void> {
+    const data = await this.store.load();
+    delete data.config;
+    await this.store.save(data);
+  }
+}
+
+// ============================================================================
+// Fitting
+// ============================================================================
+
+interface Parameter {
+  get(config: EstimationConfig): number;
+  set(config: EstimationConfig, value: number): void;
+}
+
+/**
+ * Coordinate search in log space: nudge each parameter up or down by the
+ * current step, keep any move that lowers the objective, and halve the
+ * step when no move helps
+ */
+export function fitConfig(records: UsageRecord[], start: EstimationConfig): EstimationConfig {
+  const params = fittedParameters(records);
+  const prior = params.map(p => p.get(start));
+  const objective = (config: EstimationConfig) =>
+    fitError(records, config) +
+    PRIOR_WEIGHT * params.reduce((sum, p, i) => sum + Math.log(p.get(config) / prior[i]) ** 2, 0);
+
+  let config = cloneConfig(start);
+  let best = objective(config);
+  let step = Math.log(2);
+
+  for (let round = 0; round < MAX_FIT_ROUNDS && step >= MIN_STEP; round++) {
+    let improved = false;
+
+    for (const param of params) {
+      for (const direction of [1, -1]) {
+        const candidate = cloneConfig(config);
+        param.set(candidate, param.get(config) * Math.exp(direction * step));
+
+        const score = objective(candidate);
+        if (score < best) {
+          config = candidate;
+          best = score;
+          improved = true;
+          break;
+        }
+      }
+    }
+
+    if (!improved) step /= 2;
+  }
+
+  return roundConfig(config);
+}
+
+/**
+ * Parameters the records can say something about: overheads only where
+ * their part was recorded, and complexity and priority factors only for
+ * the levels that occur
+ */
+function fittedParameters(records: UsageRecord[]): Parameter[] {
+  const multiplier = (key: keyof EstimationConfig['multipliers']): Parameter => ({
+    get: c => c.multipliers[key],
+    set: (c, v) => { c.multipliers[key] = v; },
+  });
+
+  const params: Parameter[] = [
+    { get: c => c.tokensPerLine, set: (c, v) => { c.tokensPerLine = v; } },
+  ];
+
+  const recorded = (part: keyof TokenBreakdown) => records.some(r => (r.actualBreakdown?.[part] ?? 0) > 0);
+  if (recorded('tests')) params.push(multiplier('testOverhead'));
+  if (recorded('review')) params.push(multiplier('reviewOverhead'));
+  if (recorded('documentation')) params.push(multiplier('documentation'));
+
+  if (records.some(r => r.context.relatedFiles.length > 0)) {
+    params.push(multiplier('contextExpansion'));
+  }
+
+  for (const level of new Set<Complexity>(records.map(r => r.context.avgComplexity))) {
+    params.push({ get: c => c.complexity[level], set: (c, v) => { c.complexity[level] = v; } });
+  }
+  for (const priority of new Set(records.map(r => r.priority))) {
+    params.push({
+      get: c => c.priority[priority] ?? 1.0,
+      set: (c, v) => { c.priority[priority] = v; },
+    });
+  }
+
+  return params;
+}
+
+/** Mean absolute percentage error of the totals, plus of each recorded part */
+function fitError(records: UsageRecord[], config: EstimationConfig): number {
+  const estimator = new TokenEstimator(config);
+
+  const errors = records.map(record => {
+    const { total, breakdown } = estimator.estimateTokens(record.priority, record.context);
+    let error = Math.abs(total - record.actual) / record.actual;
+
+    const parts = Object.entries(record.actualBreakdown || {})
+      .filter((entry): entry is [keyof TokenBreakdown, number] => typeof entry[1] === 'number' && entry[1] > 0);
+    for (const [part, actual] of parts) {
+      error += Math.abs(breakdown[part] - actual) / actual / parts.length;
+    }
+
+    return error;
+  });
+
+  return errors.reduce((a, b) => a + b, 0) / records.length;
+}
+
+/**
+ * MAPE and bias of a config's totals against the recorded actuals
+ */
+export function measureAccuracy(records: UsageRecord[], config: EstimationConfig): AccuracyMetrics {
+  if (records.length === 0) return { mape: 0, bias: 0 };
+
+  const estimator = new TokenEstimator(config);
+  const errors = records.map(r => (estimator.estimateTokens(r.priority, r.context).total - r.actual) / r.actual);
+
+  return {
+    mape: errors.reduce((sum, e) => sum + Math.abs(e), 0) / errors.length,
+    bias: errors.reduce((sum, e) => sum + e, 0) / errors.length,
+  };
+}
+
+function resolveConfig(config: Partial<EstimationConfig>): EstimationConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    ...config,
+    multipliers: { ...DEFAULT_CONFIG.multipliers, ...config.multipliers },
+    complexity: { ...DEFAULT_CONFIG.complexity, ...config.complexity },
+    priority: { ...DEFAULT_CONFIG.priority, ...config.priority },
+  };
+}
+
+function cloneConfig(config: EstimationConfig): EstimationConfig {
+  return {
+    ...config,
+    multipliers: { ...config.multipliers },
+    complexity: { ...config.complexity },
+    priority: { ...config.priority },
+  };
+}
+
+/** Three significant figures, so persisted configs stay readable */
+function roundConfig(config: EstimationConfig): EstimationConfig {
+  const round = (value: number) => Number(value.toPrecision(3));
+  const roundAll = <T extends Record<string, number>>(record: T): T =>
+    Object.fromEntries(Object.entries(record).map(([k, v]) => [k, round(v)])) as T;
+
+  return {
+    ...config,
+    multipliers: roundAll(config.multipliers),
+    complexity: roundAll(config.complexity),
+    priority: roundAll(config.priority),
+    tokensPerLine: round(config.tokensPerLine),
+  };
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+export function formatAccuracyReport(report: AccuracyReport): string {
+  const percent = (value: number, signed = false) =>
+    `${signed && value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+  return [
+    `Calibrated on ${report.samples} issue(s) at ${report.fittedAt}`,
+    `MAPE: ${percent(report.before.mape)} → ${percent(report.after.mape)}`,
+    `Bias: ${percent(report.before.bias, true)} → ${percent(report.after.bias, true)}` +
+      ' (positive overestimates)',
+  ].join('\n');
+}
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { isIgnored, listProjectFiles, parseGitignore } from './codebase';
+
+test('gitignore patterns: unanchored, anchored, directory-only, ** and negation', () => {
+  const rules = parseGitignore([
+    '# build output',
+    '*.log',
+    '!keep.log',
+    '/dist',
+    'cache/',
+    'docs/**/draft-*.md',
+    '\\#notes',
+  ].join('\n'));
+
+  const ignored = (file: string, isDir = false) => isIgnored(rules, file, isDir);
+
+  assert.equal(ignored('debug.log'), true);
+  assert.equal(ignored('src/deep/debug.log'), true);
+  assert.equal(ignored('src/keep.log'), false);
+  assert.equal(ignored('dist', true), true);
+  assert.equal(ignored('src/dist', true), false);
+  assert.equal(ignored('cache', true), true);
+  assert.equal(ignored('cache', false), false);
+  assert.equal(ignored('docs/draft-a.md'), true);
+  assert.equal(ignored('docs/guides/v2/draft-b.md'), true);
+  assert.equal(ignored('docs/guides/final.md'), false);
+  assert.equal(ignored('#notes'), true);
+});
+
+test('nested .gitignore rules apply below their directory only', () => {
+  const rules = [...parseGitignore('*.tmp'), ...parseGitignore('fixtures/\n!important.tmp', 'tests')];
+
+  assert.equal(isIgnored(rules, 'tests/fixtures', true), true);
+  assert.equal(isIgnored(rules, 'fixtures', true), false);
+  assert.equal(isIgnored(rules, 'tests/important.tmp', false), false);
+  assert.equal(isIgnored(rules, 'important.tmp', false), true);
+});
+
+test('listProjectFiles walks in sorted order, honouring .gitignore and maxFiles', async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-codebase-'));
+  try {
+    const files: Record<string, string> = {
+      '.gitignore': 'build/\n',
+      'b.ts': '',
+      'a.ts': '',
+      'src/.gitignore': '*.gen.ts\n',
+      'src/index.ts': '',
+      'src/types.gen.ts': '',
+      'build/out.js': '',
+      'node_modules/pkg/index.js': '',
+      '.git/HEAD': '',
+    };
+    for (const [file, text] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+      await fs.writeFile(path.join(root, file), text, 'utf8');
+    }
+
+    assert.deepEqual(await listProjectFiles(root), ['.gitignore', 'a.ts', 'b.ts', 'src/.gitignore', 'src/index.ts']);
+    assert.deepEqual(await listProjectFiles(root, { maxFiles: 2 }), ['.gitignore', 'a.ts']);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+});
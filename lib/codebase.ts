@@ -0,0 +1,186 @@
+/**
+ * Codebase Module
+ *
+ * Lists a project's files the way git sees them: `.gitignore` files at
+ * the root and in subdirectories are honoured (globs, `**`, directory-only
+ * patterns and `!` negation), `.git` and `node_modules` are always
+ * skipped, and symlinks are not followed. Pure Node; no git or ripgrep
+ * binary is needed.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WalkOptions {
+  maxFiles?: number;          // Stop after this many files (default: 10000)
+}
+
+export interface IgnoreRule {
+  base: string;               // Directory of the .gitignore, relative to the root ('' for the root)
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+const ALWAYS_SKIPPED = new Set(['.git', 'node_modules']);
+
+const DEFAULT_MAX_FILES = 10000;
+
+// ============================================================================
+// Walking
+// ============================================================================
+
+/**
+ * Paths of the project's files, relative to `root` with forward slashes,
+ * in a stable (sorted, depth-first) order
+ */
+export async function listProjectFiles(root: string, options: WalkOptions = {}): Promise<string[]> {
+  const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  const files: string[] = [];
+
+  const walk = async (dir: string, inherited: IgnoreRule[]): Promise<void> => {
+    const absolute = path.join(root, dir);
+    const rules = [...inherited, ...await readIgnoreFile(absolute, dir)];
+
+    let entries;
+    try {
+      entries = await fs.readdir(absolute, { withFileTypes: true });
+    } catch {
+      return;                 // Unreadable directory: treat as empty
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (files.length >= maxFiles) return;
+      if (entry.isSymbolicLink() || ALWAYS_SKIPPED.has(entry.name)) continue;
+
+      const relative = dir ? `${dir}/${entry.name}` : entry.name;
+      const isDir = entry.isDirectory();
+      if (!isDir && !entry.isFile()) continue;
+      if (isIgnored(rules, relative, isDir)) continue;
+
+      if (isDir) await walk(relative, rules);
+      else files.push(relative);
+    }
+  };
+
+  await walk('', []);
+  return files;
+}
+
+async function readIgnoreFile(absoluteDir: string, base: string): Promise<IgnoreRule[]> {
+  try {
+    return parseGitignore(await fs.readFile(path.join(absoluteDir, '.gitignore'), 'utf8'), base);
+  } catch {
+    return [];
+  }
+}
+
+// ============================================================================
+// Gitignore
+// ============================================================================
+
+/**
+ * Parse a .gitignore. `base` is its directory relative to the project
+ * root; anchored patterns are matched from there.
+ */
+export function parseGitignore(text: string, base = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+
+    // A slash anywhere but the end anchors the pattern to `base`
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+    if (!line) continue;
+
+    const body = globToRegex(line);
+    rules.push({
+      base,
+      regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+      negate,
+      dirOnly,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Whether `relative` (a path from the project root) is ignored. The last
+ * matching rule wins, as in git.
+ */
+export function isIgnored(rules: IgnoreRule[], relative: string, isDir: boolean): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    if (rule.base && !relative.startsWith(`${rule.base}/`)) continue;
+
+    const local = rule.base ? relative.slice(rule.base.length + 1) : relative;
+    if (rule.regex.test(local)) ignored = !rule.negate;
+  }
+
+  return ignored;
+}
+
+function globToRegex(glob: string): string {
+  let out = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        const atStart = i === 0 || glob[i - 1] === '/';
+        const atEnd = i + 2 === glob.length;
+        if (atStart && glob[i + 2] === '/') {
+          out += '(?:.*/)?';  // "**/" matches zero or more directories
+          i += 2;
+          continue;
+        }
+        if (atStart && atEnd) {
+          out += '.*';        // Trailing "/**" matches everything inside
+          i += 1;
+          continue;
+        }
+      }
+      out += '[^/]*';
+    } else if (c === '?') {
+      out += '[^/]';
+    } else if (c === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close === -1) {
+        out += '\\[';
+      } else {
+        const set = glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        out += `[${set}]`;
+        i = close;
+      }
+    } else if (c === '\\' && i + 1 < glob.length) {
+      out += escapeRegex(glob[++i]);
+    } else {
+      out += escapeRegex(c);
+    }
+  }
+
+  return out;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
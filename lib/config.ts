@@ -0,0 +1,117 @@
+/**
+ * Configuration Module
+ *
+ * Loads the `wave-planner` section of config.yaml. The skill's own file
+ * (~/.claude/skills/wave-planner/config.yaml) is read first, then the
+ * project's .claude/config.yaml on top of it. Nested maps merge key by
+ * key; lists and scalars from the later file replace earlier ones.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseYaml, YamlValue } from './yaml';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ConfigMap = { [key: string]: YamlValue };
+
+export interface ConfigLoadOptions {
+  projectRoot?: string;       // Default: process.cwd()
+  homeDir?: string;           // Default: os.homedir()
+  paths?: string[];           // Explicit files, lowest precedence first
+}
+
+export class ConfigError extends Error {
+  constructor(message: string, public readonly file: string) {
+    super(`${file}: ${message}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const SECTION = 'wave-planner';
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Files consulted by loadConfig, lowest precedence first
+ */
+export function configPaths(options: ConfigLoadOptions = {}): string[] {
+  if (options.paths) return options.paths;
+
+  const home = options.homeDir ?? os.homedir();
+  const root = options.projectRoot ?? process.cwd();
+
+  return [
+    path.join(home, '.claude', 'skills', 'wave-planner', 'config.yaml'),
+    path.join(root, '.claude', 'config.yaml'),
+  ];
+}
+
+/**
+ * Load and merge the `wave-planner` section from every config file that
+ * exists. Missing files are skipped; malformed ones throw ConfigError.
+ */
+export async function loadConfig(options: ConfigLoadOptions = {}): Promise<ConfigMap> {
+  let merged: ConfigMap = {};
+
+  for (const file of configPaths(options)) {
+    let text: string;
+    try {
+      text = await fs.readFile(file, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') continue;
+      throw new ConfigError(error.message, file);
+    }
+
+    let data: YamlValue;
+    try {
+      data = parseYaml(text);
+    } catch (error) {
+      throw new ConfigError(error instanceof Error ? error.message : String(error), file);
+    }
+
+    const section = isMap(data) ? data[SECTION] : undefined;
+    if (section === undefined || section === null) continue;
+    if (!isMap(section)) {
+      throw new ConfigError(`"${SECTION}" must be a map`, file);
+    }
+
+    merged = mergeConfig(merged, section);
+  }
+
+  return merged;
+}
+
+/**
+ * Read a dotted path such as "adapters.preferred"
+ */
+export function getConfigValue(config: ConfigMap, key: string): YamlValue | undefined {
+  let value: YamlValue | undefined = config;
+
+  for (const part of key.split('.')) {
+    if (!isMap(value)) return undefined;
+    value = value[part];
+  }
+
+  return value;
+}
+
+export function mergeConfig(base: ConfigMap, override: ConfigMap): ConfigMap {
+  const result: ConfigMap = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    const current = result[key];
+    result[key] = isMap(current) && isMap(value) ? mergeConfig(current, value) : value;
+  }
+
+  return result;
+}
+
+function isMap(value: YamlValue | undefined): value is ConfigMap {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ImportGraph, buildImportGraph } from './dependencies';
+
+/** The import graph of a temporary project holding the given files */
+async function graphOf(files: Record<string, string>): Promise<ImportGraph> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-dependencies-'));
+  try {
+    for (const [file, text] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+      await fs.writeFile(path.join(root, file), text, 'utf8');
+    }
+    return await buildImportGraph(root, Object.keys(files));
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+test('TypeScript imports resolve relative paths, .js specifiers, index files and requires', async () => {
+  const graph = await graphOf({
+    'src/app.ts': [
+      "import { a } from './a.js';",
+      "export * from './lib';",
+      "const b = await import('../shared/b');",
+      "const c = require('./c');",
+      "import express from 'express';",
+    ].join('\n'),
+    'src/a.ts': '',
+    'src/lib/index.ts': '',
+    'shared/b.tsx': '',
+    'src/c.cjs': '',
+  });
+
+  assert.deepEqual(graph.importsOf('src/app.ts'), ['src/a.ts', 'src/lib/index.ts', 'shared/b.tsx', 'src/c.cjs']);
+  assert.deepEqual(graph.importersOf('src/a.ts'), ['src/app.ts']);
+});
+
+test('tsconfig paths and baseUrl aliases resolve, following extends', async () => {
+  const graph = await graphOf({
+    'tsconfig.base.json': '{\n  // Shared\n  "compilerOptions": { "baseUrl": "src", "paths": { "@core/*": ["core/*"], "~config": ["config/index.ts"], }, },\n}',
+    'tsconfig.json': '{ "extends": "./tsconfig.base" }',
+    'src/app.ts': "import '@core/db';\nimport '~config';\nimport 'utils/log';\n",
+    'src/core/db.ts': '',
+    'src/config/index.ts': '',
+    'src/utils/log.ts': '',
+  });
+
+  assert.deepEqual(graph.importsOf('src/app.ts'), ['src/core/db.ts', 'src/config/index.ts', 'src/utils/log.ts']);
+});
+
+test('Python imports resolve absolute, src/, from-imports of submodules and relative', async () => {
+  const graph = await graphOf({
+    'app/main.py': 'import app.models, os\nfrom app.services import billing, helper\nfrom . import views\nfrom ..shared import util\n',
+    'app/__init__.py': '',
+    'app/models.py': '',
+    'app/services/__init__.py': 'def helper(): pass\n',
+    'app/services/billing.py': '',
+    'app/views.py': '',
+    'shared/util.py': '',
+    'src/tools/cli.py': 'from tools import config\n',
+    'src/tools/config.py': '',
+  });
+
+  assert.deepEqual(graph.importsOf('app/main.py').sort(), [
+    'app/models.py',
+    'app/services/__init__.py',
+    'app/services/billing.py',
+    'app/views.py',
+    'shared/util.py',
+  ]);
+  assert.deepEqual(graph.importsOf('src/tools/cli.py'), ['src/tools/config.py']);
+});
+
+test('Go imports under the module path link to every non-test file in the package', async () => {
+  const graph = await graphOf({
+    'go.mod': 'module example.com/shop\n\ngo 1.22\n',
+    'cmd/server/main.go': 'package main\n\nimport (\n\t"fmt"\n\tstore "example.com/shop/internal/store"\n)\n',
+    'internal/store/store.go': '',
+    'internal/store/cache.go': 'package store\n\nimport "example.com/other/pkg"\n',
+    'internal/store/store_test.go': '',
+  });
+
+  assert.deepEqual(graph.importsOf('cmd/server/main.go').sort(), ['internal/store/cache.go', 'internal/store/store.go']);
+  assert.deepEqual(graph.importsOf('internal/store/cache.go'), []);
+});
+
+test('related walks both directions up to the given depth, nearest first', () => {
+  const graph = new ImportGraph();
+  graph.add('a.ts', 'b.ts');
+  graph.add('b.ts', 'c.ts');
+  graph.add('d.ts', 'a.ts');
+  graph.add('c.ts', 'c.ts');
+
+  assert.deepEqual(graph.related(['a.ts'], 1), ['b.ts', 'd.ts']);
+  assert.deepEqual(graph.related(['a.ts'], 2), ['b.ts', 'd.ts', 'c.ts']);
+  assert.deepEqual(graph.related(['a.ts'], 0), []);
+  assert.deepEqual(graph.importsOf('c.ts'), []);
+});
@@ -0,0 +1,349 @@
+/**
+ * Dependencies Module
+ *
+ * Builds a project's import graph from source text, without running a
+ * compiler:
+ *
+ * - TypeScript/JavaScript: ESM `import`/`export ... from`, dynamic
+ *   `import()`, CommonJS `require()`; relative specifiers (including
+ *   `./foo.js` pointing at `foo.ts`) and tsconfig/jsconfig `paths` and
+ *   `baseUrl` aliases
+ * - Python: `import a.b` and `from a.b import c`, absolute (from the
+ *   project root or `src/`) and relative
+ * - Go: imports under the go.mod module path; importing a package links
+ *   to every non-test file in its directory
+ *
+ * Packages outside the project are ignored.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PathAliases {
+  baseUrl?: string;           // Relative to the project root
+  pathsBase: string;          // Where `paths` targets resolve from
+  paths: Record<string, string[]>;
+}
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+const JS_SPECIFIER = /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)(['"])([^'"\n]+)\1/g;
+
+const PY_IMPORT = /^[ \t]*import[ \t]+([\w., \t]+)/gm;
+const PY_FROM_IMPORT = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(?:\(([^)]*)\)|([\w., \t]+))/gm;
+
+const GO_IMPORT_BLOCK = /\bimport\s*\(([\s\S]*?)\)/g;
+const GO_IMPORT_LINE = /\bimport\s+(?:[\w.]+\s+)?"([^"]+)"/g;
+const GO_QUOTED = /"([^"]+)"/g;
+
+// ============================================================================
+// Import Graph
+// ============================================================================
+
+/**
+ * Edges between project files, both ways. Paths are relative to the
+ * project root with forward slashes.
+ */
+export class ImportGraph {
+  private imports = new Map<string, Set<string>>();
+  private importers = new Map<string, Set<string>>();
+
+  add(from: string, to: string): void {
+    if (from === to) return;
+    link(this.imports, from, to);
+    link(this.importers, to, from);
+  }
+
+  /** Files `file` imports */
+  importsOf(file: string): string[] {
+    return [...this.imports.get(file) || []];
+  }
+
+  /** Files that import `file` */
+  importersOf(file: string): string[] {
+    return [...this.importers.get(file) || []];
+  }
+
+  /**
+   * Files within `depth` import hops of any of `files`, in either
+   * direction, nearest first. The given files themselves are excluded.
+   */
+  related(files: string[], depth: number): string[] {
+    const seen = new Set(files);
+    const found: string[] = [];
+    let frontier = files;
+
+    for (let level = 0; level < depth && frontier.length > 0; level++) {
+      const next: string[] = [];
+      for (const file of frontier) {
+        for (const neighbour of [...this.importsOf(file), ...this.importersOf(file)]) {
+          if (seen.has(neighbour)) continue;
+          seen.add(neighbour);
+          found.push(neighbour);
+          next.push(neighbour);
+        }
+      }
+      frontier = next;
+    }
+
+    return found;
+  }
+}
+
+function link(map: Map<string, Set<string>>, from: string, to: string): void {
+  if (!map.has(from)) map.set(from, new Set());
+  map.get(from)!.add(to);
+}
+
+// ============================================================================
+// Building
+// ============================================================================
+
+/**
+ * Read every TS/JS, Python and Go file in `files` and link it to the
+ * project files it imports
+ */
+export async function buildImportGraph(root: string, files: string[]): Promise<ImportGraph> {
+  const graph = new ImportGraph();
+  const known = new Set(files);
+  const aliases = await loadPathAliases(root);
+  const goModule = await readGoModule(root);
+
+  for (const file of files) {
+    const ext = path.posix.extname(file);
+    const language = JS_EXTENSIONS.includes(ext) ? 'js' : ext === '.py' ? 'python' : ext === '.go' ? 'go' : null;
+    if (!language) continue;
+
+    let text: string;
+    try {
+      text = await fs.readFile(path.join(root, file), 'utf8');
+    } catch {
+      continue;
+    }
+
+    const targets = language === 'js' ? jsImports(file, text, known, aliases)
+      : language === 'python' ? pythonImports(file, text, known)
+      : goImports(text, known, goModule);
+
+    for (const target of targets) graph.add(file, target);
+  }
+
+  return graph;
+}
+
+// ============================================================================
+// TypeScript / JavaScript
+// ============================================================================
+
+function jsImports(file: string, text: string, known: Set<string>, aliases: PathAliases | null): string[] {
+  const targets: string[] = [];
+
+  for (const match of text.matchAll(JS_SPECIFIER)) {
+    const target = resolveJsSpecifier(file, match[2], known, aliases);
+    if (target) targets.push(target);
+  }
+
+  return targets;
+}
+
+function resolveJsSpecifier(
+  file: string,
+  specifier: string,
+  known: Set<string>,
+  aliases: PathAliases | null
+): string | null {
+  if (specifier.startsWith('.')) {
+    return resolveJsPath(path.posix.join(path.posix.dirname(file), specifier), known);
+  }
+  if (!aliases) return null;
+
+  for (const [pattern, targets] of Object.entries(aliases.paths)) {
+    const star = pattern.indexOf('*');
+    const prefix = star === -1 ? pattern : pattern.slice(0, star);
+    const suffix = star === -1 ? '' : pattern.slice(star + 1);
+    const matches = star === -1
+      ? specifier === pattern
+      : specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length;
+    if (!matches) continue;
+
+    const wildcard = star === -1 ? '' : specifier.slice(prefix.length, specifier.length - suffix.length);
+    for (const target of targets) {
+      const resolved = resolveJsPath(path.posix.join(aliases.pathsBase, target.replace('*', wildcard)), known);
+      if (resolved) return resolved;
+    }
+  }
+
+  return aliases.baseUrl !== undefined
+    ? resolveJsPath(path.posix.join(aliases.baseUrl, specifier), known)
+    : null;
+}
+
+/**
+ * The project file a path refers to: itself, with a JS/TS extension, or
+ * its index file. `foo.js` also finds `foo.ts`, as TypeScript ESM allows.
+ */
+function resolveJsPath(target: string, known: Set<string>): string | null {
+  const normalized = path.posix.normalize(target).replace(/^\.\//, '');
+  const stem = normalized.replace(/\.[mc]?js$/, '');
+
+  const candidates = [
+    normalized,
+    ...JS_EXTENSIONS.map(ext => stem + ext),
+    ...JS_EXTENSIONS.map(ext => `${normalized}/index${ext}`),
+  ];
+
+  return candidates.find(c => known.has(c)) || null;
+}
+
+/**
+ * `paths` and `baseUrl` from tsconfig.json (or jsconfig.json) at the
+ * root, following relative `extends`
+ */
+async function loadPathAliases(root: string): Promise<PathAliases | null> {
+  for (const name of ['tsconfig.json', 'jsconfig.json']) {
+    const options = await readCompilerOptions(root, name, 0);
+    if (!options) continue;
+    if (!options.paths && options.baseUrl === undefined) return null;
+
+    return {
+      baseUrl: options.baseUrl,
+      pathsBase: options.baseUrl ?? options.pathsDir ?? '',
+      paths: options.paths || {},
+    };
+  }
+  return null;
+}
+
+async function readCompilerOptions(
+  root: string,
+  file: string,
+  depth: number
+): Promise<{ baseUrl?: string; paths?: Record<string, string[]>; pathsDir?: string } | null> {
+  if (depth > 5) return null;   // Extends cycle
+
+  let config: any;
+  try {
+    config = parseJsonc(await fs.readFile(path.join(root, file), 'utf8'));
+  } catch {
+    return null;
+  }
+
+  const dir = path.posix.dirname(file) === '.' ? '' : path.posix.dirname(file);
+  const parent = typeof config.extends === 'string' && config.extends.startsWith('.')
+    ? await readCompilerOptions(root, path.posix.join(dir, withJsonExtension(config.extends)), depth + 1)
+    : null;
+
+  const own = config.compilerOptions || {};
+  return {
+    baseUrl: typeof own.baseUrl === 'string' ? path.posix.join(dir, own.baseUrl).replace(/^\.$/, '') : parent?.baseUrl,
+    paths: own.paths || parent?.paths,
+    pathsDir: own.paths ? dir : parent?.pathsDir,
+  };
+}
+
+function withJsonExtension(file: string): string {
+  return file.endsWith('.json') ? file : `${file}.json`;
+}
+
+/** JSON with comments and trailing commas, as tsconfig allows */
+function parseJsonc(text: string): any {
+  const stripped = text
+    .replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, string) => string ?? '')
+    .replace(/,(\s*[}\]])/g, '$1');
+  return JSON.parse(stripped);
+}
+
+// ============================================================================
+// Python
+// ============================================================================
+
+function pythonImports(file: string, text: string, known: Set<string>): string[] {
+  const targets: string[] = [];
+  const add = (target: string | null) => { if (target) targets.push(target); };
+
+  for (const match of text.matchAll(PY_IMPORT)) {
+    for (const part of match[1].split(',')) {
+      const module = part.trim().split(/\s+/)[0];
+      if (module) add(resolvePythonModule(file, module, known));
+    }
+  }
+
+  for (const match of text.matchAll(PY_FROM_IMPORT)) {
+    const module = match[1];
+    const names = (match[2] ?? match[3]).split(',').map(n => n.trim().split(/\s+/)[0]).filter(n => n && n !== '*');
+
+    // `from pkg import mod` may name submodules as well as attributes
+    const submodules = names.map(name => resolvePythonModule(file, module.endsWith('.') ? module + name : `${module}.${name}`, known));
+    submodules.forEach(add);
+    if (!module.endsWith('.') || submodules.every(s => !s)) add(resolvePythonModule(file, module, known));
+  }
+
+  return targets;
+}
+
+/**
+ * `a.b.c` to a/b/c.py or a/b/c/__init__.py, from the project root or
+ * src/; leading dots resolve from the importing file's package
+ */
+function resolvePythonModule(file: string, module: string, known: Set<string>): string | null {
+  const dots = module.match(/^\.*/)![0].length;
+  const rest = module.slice(dots).split('.').filter(Boolean).join('/');
+
+  let bases: string[];
+  if (dots > 0) {
+    let base = path.posix.dirname(file);
+    for (let i = 1; i < dots; i++) base = path.posix.dirname(base);
+    bases = [base === '.' ? '' : base];
+  } else {
+    bases = ['', 'src'];
+  }
+
+  for (const base of bases) {
+    const stem = [base, rest].filter(Boolean).join('/');
+    const candidates = rest ? [`${stem}.py`, `${stem}/__init__.py`] : [`${stem ? `${stem}/` : ''}__init__.py`];
+    const found = candidates.find(c => known.has(c));
+    if (found) return found;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Go
+// ============================================================================
+
+function goImports(text: string, known: Set<string>, goModule: string | null): string[] {
+  if (!goModule) return [];
+
+  const specifiers = [...text.matchAll(GO_IMPORT_LINE)].map(m => m[1]);
+  for (const block of text.matchAll(GO_IMPORT_BLOCK)) {
+    specifiers.push(...[...block[1].matchAll(GO_QUOTED)].map(m => m[1]));
+  }
+
+  const targets: string[] = [];
+  for (const specifier of specifiers) {
+    if (specifier !== goModule && !specifier.startsWith(`${goModule}/`)) continue;
+
+    const dir = specifier.slice(goModule.length + 1);
+    for (const candidate of known) {
+      if (path.posix.dirname(candidate) === (dir || '.') && candidate.endsWith('.go') && !candidate.endsWith('_test.go')) {
+        targets.push(candidate);
+      }
+    }
+  }
+
+  return targets;
+}
+
+async function readGoModule(root: string): Promise<string | null> {
+  try {
+    const text = await fs.readFile(path.join(root, 'go.mod'), 'utf8');
+    return text.match(/^module\s+(\S+)/m)?.[1] || null;
+  } catch {
+    return null;
+  }
+}
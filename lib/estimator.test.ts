@@ -0,0 +1,200 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { Issue } from '../adapters/interface';
+import { CodebaseAnalyzer, DEFAULT_CONFIG, loadAnalyzerConfig, loadEstimationConfig } from './estimator';
+
+function issue(title: string, description = ''): Issue {
+  return {
+    id: title,
+    identifier: 'APP-1',
+    title,
+    description,
+    priority: 'P2-Medium',
+    state: { id: 'todo', name: 'Todo', type: 'unstarted' },
+    labels: [],
+  };
+}
+
+/** A temporary project holding the given files */
+async function withProject(files: Record<string, string>, fn: (root: string) => Promise<void>) {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-estimator-'));
+  try {
+    for (const [file, text] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+      await fs.writeFile(path.join(root, file), text, 'utf8');
+    }
+    await fn(root);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+const SESSION = [
+  'export function refreshSession(token: string) {',
+  '  return renew(token);',
+  '}',
+].join('\n');
+
+test('search ranks files by keywords, identifiers and paths, skipping ignored ones', async () => {
+  await withProject({
+    '.gitignore': 'generated/\n',
+    'src/auth/session.ts': SESSION,
+    'src/auth/cookies.ts': 'export const name = "session";\n// token stored here\n',
+    'src/billing/invoice.ts': 'export const total = 1;\n',
+    'src/notes.ts': '// mentions session once\n',
+    'generated/session.ts': SESSION,
+  }, async root => {
+    const context = await new CodebaseAnalyzer().analyzeIssue(issue('Refresh the session token'), root);
+
+    assert.deepEqual(context.filesLikelyTouched.map(f => f.path), ['src/auth/session.ts', 'src/auth/cookies.ts']);
+  });
+});
+
+test('search keeps maxResults files and skips files over maxFileSize', async () => {
+  await withProject({
+    'src/session-a.ts': SESSION,
+    'src/session-b.ts': SESSION,
+    'src/session-large.ts': SESSION + '\n'.repeat(200) + '// refreshSession token',
+  }, async root => {
+    const analyzer = new CodebaseAnalyzer({ search: { maxResults: 1, maxFileSize: 150, maxFiles: 100 } });
+    const context = await analyzer.analyzeIssue(issue('Refresh the session token'), root);
+
+    assert.deepEqual(context.filesLikelyTouched.map(f => f.path), ['src/session-a.ts']);
+  });
+});
+
+test('loadAnalyzerConfig reads estimation.search', async () => {
+  await withProject({
+    'config.yaml': [
+      'wave-planner:',
+      '  estimation:',
+      '    search:',
+      '      max_results: 5',
+      '      max_file_size: 1024',
+      '',
+    ].join('\n'),
+  }, async root => {
+    const config = await loadAnalyzerConfig({ paths: [path.join(root, 'config.yaml')] });
+
+    assert.deepEqual(config.search, { maxResults: 5, maxFileSize: 1024, maxFiles: 10000 });
+  });
+});
+
+test('file analysis counts non-blank lines and scores complexity per function', async () => {
+  const branchy = [
+    'export function route(req: Request) {',
+    '  if (req.user && req.admin) return admin();',
+    '',
+    '  for (const rule of rules) {',
+    '    if (rule.matches(req) || rule.fallback) return rule.run();',
+    '  }',
+    '  return req.cached ?? fallback();',
+    '}',
+  ].join('\n');
+
+  await withProject({
+    'src/route.ts': branchy,
+    'src/session.ts': SESSION,
+    'src/route.py': 'def route(req):\n    # if and or\n    return "if or and"\n',
+    'docs/guide.md': '# Guide\n\nText\n',
+  }, async root => {
+    const mentioned = issue('Tidy up', '`src/route.ts`, `src/session.ts`, `src/route.py` and `docs/guide.md`');
+    const context = await new CodebaseAnalyzer().analyzeIssue(mentioned, root);
+    const files = Object.fromEntries(context.filesLikelyTouched.map(f => [f.path, f]));
+
+    // 1 + 6 branch points over one function
+    assert.deepEqual(files['src/route.ts'], { path: 'src/route.ts', lines: 7, language: 'typescript', complexity: 'high' });
+    assert.equal(files['src/session.ts'].complexity, 'low');
+    assert.equal(files['src/route.py'].complexity, 'low');
+    assert.equal(files['docs/guide.md'].complexity, 'low');
+    assert.equal(context.totalLines, 7 + 3 + 3 + 2);
+
+    const lenient = new CodebaseAnalyzer({ complexityThresholds: { medium: 3, high: 10 } });
+    const [route] = (await lenient.analyzeIssue(issue('Tidy', '`src/route.ts`'), root)).filesLikelyTouched;
+    assert.equal(route.complexity, 'medium');
+  });
+});
+
+test('mentioned paths that are missing are new; directories, oversized and outside files are not', async () => {
+  await withProject({
+    'project/src/views.old/index.ts': SESSION,
+    'project/src/big.ts': SESSION.repeat(10),
+    'outside.ts': SESSION,
+  }, async dir => {
+    const root = path.join(dir, 'project');
+    const analyzer = new CodebaseAnalyzer({ search: { maxResults: 10, maxFileSize: 100, maxFiles: 100 } });
+    const context = await analyzer.analyzeIssue(
+      issue('Move', 'Replace `src/views.old` and `src/big.ts`, add `src/views.ts`, see `../outside.ts`'),
+      root
+    );
+
+    // The directory's own files may still turn up through search
+    assert.deepEqual(context.filesLikelyTouched.map(f => f.path), ['src/views.old/index.ts']);
+    assert.deepEqual(context.newFiles, ['src/views.ts']);
+  });
+});
+
+test('loadAnalyzerConfig reads estimation.complexity_thresholds', async () => {
+  await withProject({
+    'config.yaml': 'wave-planner:\n  estimation:\n    complexity_thresholds:\n      high: 9\n',
+  }, async root => {
+    const config = await loadAnalyzerConfig({ paths: [path.join(root, 'config.yaml')] });
+
+    assert.deepEqual(config.complexityThresholds, { medium: 3, high: 9 });
+  });
+});
+
+test('related files follow imports up to import_depth', async () => {
+  await withProject({
+    'config.yaml': 'wave-planner:\n  estimation:\n    import_depth: 2\n',
+    'session.ts': "import { renew } from './renew';\n" + SESSION,
+    'renew.ts': "import { clock } from './clock';\nexport const renew = (t: string) => t;\n",
+    'clock.ts': 'export const clock = 0;\n',
+  }, async root => {
+    const config = await loadAnalyzerConfig({ paths: [path.join(root, 'config.yaml')] });
+    assert.equal(config.importDepth, 2);
+
+    const mentioned = issue('Fix', '`session.ts`');
+    const related = async (analyzer: CodebaseAnalyzer) =>
+      (await analyzer.analyzeIssue(mentioned, root)).relatedFiles.map(f => f.path);
+
+    assert.deepEqual(await related(new CodebaseAnalyzer({ importDepth: 1 })), ['renew.ts']);
+    assert.deepEqual(await related(new CodebaseAnalyzer(config)), ['renew.ts', 'clock.ts']);
+    assert.deepEqual(await related(new CodebaseAnalyzer({ importDepth: 0 })), []);
+  });
+});
+
+test('loadEstimationConfig reads the estimation section', async () => {
+  await withProject({
+    'config.yaml': [
+      'wave-planner:',
+      '  estimation:',
+      '    include_review_cycles: false',
+      '    review_cycle_count: 3',
+      '    tokens_per_line: 80',
+      '    multipliers:',
+      '      test_overhead: 0.4',
+      '    complexity:',
+      '      high: 3',
+      '    priority:',
+      '      P0-Critical: 2',
+      '      P3-Low: slow',
+      '',
+    ].join('\n'),
+  }, async root => {
+    const config = await loadEstimationConfig({ paths: [path.join(root, 'config.yaml')] });
+
+    assert.deepEqual(config, {
+      ...DEFAULT_CONFIG,
+      multipliers: { ...DEFAULT_CONFIG.multipliers, testOverhead: 0.4 },
+      complexity: { ...DEFAULT_CONFIG.complexity, high: 3 },
+      priority: { ...DEFAULT_CONFIG.priority, 'P0-Critical': 2 },
+      reviewCycles: 0,
+      tokensPerLine: 80,
+    });
+  });
+});
@@ -5,7 +5,13 @@
  * Estimates context loading, implementation, tests, review, and documentation overhead.
  */
 
-import { Issue } from '../adapters/interface';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Issue, Comment, Priority } from '../adapters/interface';
+import { listProjectFiles } from './codebase';
+import { loadConfig, getConfigValue, ConfigLoadOptions, ConfigMap } from './config';
+import { buildImportGraph, ImportGraph } from './dependencies';
+import { TestLocator, detectTestConventions, isTestFile } from './test-locator';
 
 // ============================================================================
 // Types
@@ -40,6 +46,8 @@ export interface TokenBreakdown {
 export interface CodebaseContext {
   filesLikelyTouched: FileInfo[];
   relatedFiles: FileInfo[];
+  newFiles: string[];           // Paths mentioned in the issue that don't exist yet
+  untestedFiles: string[];      // Files likely touched that have no test
   totalLines: number;
   avgComplexity: Complexity;
 }
@@ -54,6 +62,22 @@ export interface EstimationConfig {
   complexity: Record<Complexity, number>;
   priority: Record<string, number>;
   reviewCycles: number;
+  tokensPerLine: number;        // ~2 tokens per character, ~50 characters per line (default: 100)
+}
+
+export interface AnalyzerConfig {
+  search: {
+    maxResults: number;         // Files returned per issue (default: 10)
+    maxFileSize: number;        // Larger files are skipped, in bytes (default: 256KB)
+    maxFiles: number;           // Files scanned per project (default: 10000)
+  };
+  // Average cyclomatic complexity per function at which a file becomes
+  // medium or high complexity
+  complexityThresholds: {
+    medium: number;             // default: 3
+    high: number;               // default: 6
+  };
+  importDepth: number;          // Import hops followed for related files; 0 disables (default: 1)
 }
 
 // ============================================================================
@@ -77,8 +101,23 @@ export const DEFAULT_CONFIG: EstimationConfig = {
     'P1-High': 1.2,
     'P2-Medium': 1.0,
     'P3-Low': 0.8,
+    none: 1.0,
   },
   reviewCycles: 2,
+  tokensPerLine: 100,
+};
+
+export const DEFAULT_ANALYZER_CONFIG: AnalyzerConfig = {
+  search: {
+    maxResults: 10,
+    maxFileSize: 256 * 1024,
+    maxFiles: 10000,
+  },
+  complexityThresholds: {
+    medium: 3,
+    high: 6,
+  },
+  importDepth: 1,
 };
 
 // ============================================================================
@@ -103,48 +142,25 @@ export class TokenEstimator {
    */
   estimate(issue: Issue, context: CodebaseContext): TokenEstimate {
     const assumptions: string[] = [];
-
-    // Base overhead for system prompt and tool calls
-    const BASE_OVERHEAD = 5000;
-
-    // Context loading (existing code to read)
-    const contextTokens = this.estimateContextTokens(context, assumptions);
-
-    // Implementation (new code to write)
-    const implTokens = this.estimateImplementationTokens(issue, context, assumptions);
-
-    // TDD overhead
-    const testTokens = Math.round(implTokens * this.config.multipliers.testOverhead);
-    assumptions.push(`Tests estimated at ${this.config.multipliers.testOverhead * 100}% of implementation`);
-
-    // Review cycles
-    const reviewTokens = Math.round(
-      (implTokens + testTokens) *
-      this.config.multipliers.reviewOverhead *
-      this.config.reviewCycles
-    );
-    assumptions.push(`${this.config.reviewCycles} review cycles at ${this.config.multipliers.reviewOverhead * 100}% overhead each`);
-
-    // Documentation
-    const docTokens = Math.round(implTokens * this.config.multipliers.documentation);
-
-    const total = BASE_OVERHEAD + contextTokens + implTokens + testTokens + reviewTokens + docTokens;
+    const { total, breakdown } = this.calculateTokens(issue.priority, context, assumptions);
 
     return {
       total,
-      breakdown: {
-        codebaseContext: contextTokens,
-        implementation: implTokens,
-        tests: testTokens,
-        review: reviewTokens,
-        documentation: docTokens,
-      },
+      breakdown,
       confidence: this.calculateConfidence(issue, context),
       assumptions,
       filesAnalyzed: context.filesLikelyTouched.length + context.relatedFiles.length,
     };
   }
 
+  /**
+   * Total and breakdown alone, from an issue's priority and context.
+   * Calibration replays recorded issues through this.
+   */
+  estimateTokens(priority: Priority, context: CodebaseContext): Pick<TokenEstimate, 'total' | 'breakdown'> {
+    return this.calculateTokens(priority, context, []);
+  }
+
   /**
    * Estimate tokens for multiple issues (wave)
    */
@@ -202,20 +218,62 @@ export class TokenEstimator {
   // Private Methods
   // -------------------------------------------------------------------------
 
+  private calculateTokens(
+    priority: Priority,
+    context: CodebaseContext,
+    assumptions: string[]
+  ): Pick<TokenEstimate, 'total' | 'breakdown'> {
+    // Base overhead for system prompt and tool calls
+    const BASE_OVERHEAD = 5000;
+
+    // Context loading (existing code to read)
+    const contextTokens = this.estimateContextTokens(context, assumptions);
+
+    // Implementation (new code to write)
+    const implTokens = this.estimateImplementationTokens(priority, context, assumptions);
+
+    // TDD overhead
+    const testTokens = Math.round(implTokens * this.config.multipliers.testOverhead);
+    assumptions.push(`Tests estimated at ${this.config.multipliers.testOverhead * 100}% of implementation`);
+
+    // Review cycles
+    const reviewTokens = Math.round(
+      (implTokens + testTokens) *
+      this.config.multipliers.reviewOverhead *
+      this.config.reviewCycles
+    );
+    assumptions.push(`${this.config.reviewCycles} review cycles at ${this.config.multipliers.reviewOverhead * 100}% overhead each`);
+
+    // Documentation
+    const docTokens = Math.round(implTokens * this.config.multipliers.documentation);
+
+    const total = BASE_OVERHEAD + contextTokens + implTokens + testTokens + reviewTokens + docTokens;
+
+    return {
+      total,
+      breakdown: {
+        codebaseContext: contextTokens,
+        implementation: implTokens,
+        tests: testTokens,
+        review: reviewTokens,
+        documentation: docTokens,
+      },
+    };
+  }
+
   private estimateContextTokens(
     context: CodebaseContext,
     assumptions: string[]
   ): number {
-    // ~2 tokens per character, ~50 characters per line average
-    const TOKENS_PER_LINE = 100;
+    const { tokensPerLine } = this.config;
 
     const directTokens = context.filesLikelyTouched.reduce(
-      (sum, f) => sum + f.lines * TOKENS_PER_LINE,
+      (sum, f) => sum + f.lines * tokensPerLine,
       0
     );
 
     const relatedTokens = context.relatedFiles.reduce(
-      (sum, f) => sum + f.lines * TOKENS_PER_LINE,
+      (sum, f) => sum + f.lines * tokensPerLine,
       0
     );
 
@@ -232,22 +290,29 @@ export class TokenEstimator {
   }
 
   private estimateImplementationTokens(
-    issue: Issue,
+    priority: Priority,
     context: CodebaseContext,
     assumptions: string[]
   ): number {
-    const TOKENS_PER_LINE = 100;
-
-    // Base estimate from lines likely to be touched/written
-    const baseTokens = context.totalLines * 2 * TOKENS_PER_LINE;
+    const NEW_FILE_LINES = 100;
+
+    // Base estimate from lines likely to be touched, plus new files
+    // written from scratch at a typical size
+    const newLines = context.newFiles.length * NEW_FILE_LINES;
+    const baseTokens = (context.totalLines * 2 + newLines) * this.config.tokensPerLine;
+    if (context.newFiles.length > 0) {
+      assumptions.push(`${context.newFiles.length} new files at ~${NEW_FILE_LINES} lines each`);
+    }
 
     // Apply complexity multiplier
     const complexityMult = this.config.complexity[context.avgComplexity];
     assumptions.push(`Complexity: ${context.avgComplexity} (${complexityMult}x)`);
 
-    // Apply priority multiplier
-    const priorityMult = this.config.priority[issue.priority] || 1.0;
-    assumptions.push(`Priority: ${issue.priority} (${priorityMult}x)`);
+    // Apply priority multiplier; unprioritised issues are treated as routine
+    const priorityMult = this.config.priority[priority] || 1.0;
+    assumptions.push(priority === 'none'
+      ? `Priority: none, unprioritised (${priorityMult}x)`
+      : `Priority: ${priority} (${priorityMult}x)`);
 
     return Math.round(baseTokens * complexityMult * priorityMult);
   }
@@ -330,6 +395,8 @@ export class TokenEstimator {
     return {
       filesLikelyTouched: [],
       relatedFiles: [],
+      newFiles: [],
+      untestedFiles: [],
       totalLines: 50, // Assume at least some work
       avgComplexity: 'medium',
     };
@@ -341,26 +408,49 @@ export class TokenEstimator {
 // ============================================================================
 
 export class CodebaseAnalyzer {
+  private config: AnalyzerConfig;
+  private fileLists = new Map<string, Promise<string[]>>();
+  private importGraphs = new Map<string, Promise<ImportGraph>>();
+  private testLocators = new Map<string, Promise<TestLocator>>();
+
+  constructor(config: Partial<AnalyzerConfig> = {}) {
+    this.config = {
+      ...DEFAULT_ANALYZER_CONFIG,
+      ...config,
+      search: { ...DEFAULT_ANALYZER_CONFIG.search, ...config.search },
+      complexityThresholds: { ...DEFAULT_ANALYZER_CONFIG.complexityThresholds, ...config.complexityThresholds },
+    };
+  }
+
   /**
-   * Analyze which files an issue is likely to touch
+   * Analyze which files an issue is likely to touch. Comments are read
+   * too, since decisions and file pointers often land in the thread.
    */
-  async analyzeIssue(issue: Issue, projectRoot: string): Promise<CodebaseContext> {
+  async analyzeIssue(
+    issue: Issue,
+    projectRoot: string,
+    comments: Comment[] = []
+  ): Promise<CodebaseContext> {
     const filesLikelyTouched: FileInfo[] = [];
     const relatedFiles: FileInfo[] = [];
+    const newFiles: string[] = [];
+    const discussion = [issue.description, ...comments.map(c => c.body)].join('\n\n');
 
     // Extract file paths mentioned in issue
-    const mentionedPaths = this.extractFilePaths(issue.description);
+    const mentionedPaths = this.extractFilePaths(discussion);
 
     // Extract keywords for searching
-    const keywords = this.extractKeywords(issue.title + ' ' + issue.description);
+    const keywords = this.extractKeywords(issue.title + ' ' + discussion);
 
     // Search for files matching keywords
     const searchedFiles = await this.searchCodebase(keywords, projectRoot);
 
-    // Categorize files
+    // Categorize files; mentioned paths that don't exist are to be created.
+    // Directories, oversized files, and paths outside the root are neither.
     for (const path of mentionedPaths) {
       const info = await this.getFileInfo(path, projectRoot);
       if (info) filesLikelyTouched.push(info);
+      else if (await isMissing(path, projectRoot)) newFiles.push(path);
     }
 
     for (const path of searchedFiles) {
@@ -391,6 +481,12 @@ export class CodebaseAnalyzer {
       }
     }
 
+    // Touched files with no test, by the project's test convention
+    const locator = await this.testLocator(projectRoot);
+    const untestedFiles = filesLikelyTouched
+      .map(f => f.path)
+      .filter(path => locator.locate(path).missing);
+
     // Calculate totals
     const totalLines = filesLikelyTouched.reduce((sum, f) => sum + f.lines, 0);
     const avgComplexity = this.calculateAvgComplexity(filesLikelyTouched);
@@ -398,6 +494,8 @@ export class CodebaseAnalyzer {
     return {
       filesLikelyTouched,
       relatedFiles,
+      newFiles,
+      untestedFiles,
       totalLines,
       avgComplexity,
     };
@@ -459,53 +557,136 @@ export class CodebaseAnalyzer {
     return [...new Set([...words, ...camelTerms, ...pascalTerms])].slice(0, 20);
   }
 
+  /**
+   * Rank the project's files against the issue's keywords and return the
+   * best `search.maxResults`. Binary and oversized files are skipped.
+   */
   private async searchCodebase(keywords: string[], projectRoot: string): Promise<string[]> {
-    // This would use grep/ripgrep in practice
-    // For now, return empty array - actual implementation would search
-    return [];
+    if (keywords.length === 0) return [];
+
+    const { maxResults, maxFileSize } = this.config.search;
+    const files = await this.projectFiles(projectRoot);
+    const scored: Array<{ path: string; score: number }> = [];
+
+    for (const file of files) {
+      const text = await readTextFile(path.join(projectRoot, file), maxFileSize);
+      if (text === null) continue;
+
+      const score = scoreFile(file, text, keywords);
+      if (score > 0) scored.push({ path: file, score });
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, maxResults)
+      .map(s => s.path);
   }
 
-  private async getFileInfo(path: string, projectRoot: string): Promise<FileInfo | null> {
-    // This would read actual file stats
-    // For now, return estimated info based on path
-    const ext = path.split('.').pop() || '';
-    const language = this.extToLanguage(ext);
+  /** Files under a project root, listed once per analyzer */
+  private projectFiles(projectRoot: string): Promise<string[]> {
+    if (!this.fileLists.has(projectRoot)) {
+      const listing = listProjectFiles(projectRoot, { maxFiles: this.config.search.maxFiles });
+      // Don't cache a failure; the next call retries
+      listing.catch(() => this.fileLists.delete(projectRoot));
+      this.fileLists.set(projectRoot, listing);
+    }
+    return this.fileLists.get(projectRoot)!;
+  }
 
+  /**
+   * Non-blank line count and complexity of a file, or null if it doesn't
+   * exist, isn't a regular file, is over `search.maxFileSize`, or resolves
+   * outside the project root. Binary files count as zero lines.
+   */
+  private async getFileInfo(file: string, projectRoot: string): Promise<FileInfo | null> {
+    const resolved = resolveInProject(file, projectRoot);
+    if (!resolved) return null;
+
+    let buffer: Buffer;
+    try {
+      const stat = await fs.stat(resolved);
+      if (!stat.isFile() || stat.size > this.config.search.maxFileSize) return null;
+      buffer = await fs.readFile(resolved);
+    } catch {
+      return null;
+    }
+
+    const language = this.extToLanguage(path.extname(file).slice(1));
+    if (isBinary(buffer)) {
+      return { path: file, lines: 0, language, complexity: 'low' };
+    }
+
+    const text = buffer.toString('utf8');
     return {
-      path,
-      lines: 100, // Default estimate
+      path: file,
+      lines: countLines(text),
       language,
-      complexity: 'medium',
+      complexity: this.classifyComplexity(complexityScore(text, language), language),
     };
   }
 
+  /**
+   * Bucket a complexity score. Languages without a scorer are medium,
+   * except data and docs, which are low.
+   */
+  private classifyComplexity(score: number | null, language: string): Complexity {
+    if (score === null) {
+      return ['markdown', 'yaml', 'json'].includes(language) ? 'low' : 'medium';
+    }
+
+    const { medium, high } = this.config.complexityThresholds;
+    if (score >= high) return 'high';
+    if (score >= medium) return 'medium';
+    return 'low';
+  }
+
+  /**
+   * Tests for the given files, then files within `importDepth` import
+   * hops of them (importers and importees)
+   */
   private async findRelatedFiles(paths: string[], projectRoot: string): Promise<string[]> {
     const related: string[] = [];
+    const locator = await this.testLocator(projectRoot);
 
     for (const path of paths) {
-      // Find test files
-      const testPath = this.guessTestPath(path);
-      if (testPath) related.push(testPath);
+      related.push(...locator.locate(path).tests);
+    }
 
-      // Would also find imports here in practice
+    if (this.config.importDepth > 0 && paths.length > 0) {
+      const graph = await this.importGraph(projectRoot);
+      related.push(...graph.related(paths, this.config.importDepth));
     }
 
-    return related;
+    return [...new Set(related)];
   }
 
-  private isTestFile(path: string): boolean {
-    return /\.(test|spec)\.\w+$/.test(path) || path.includes('/tests/') || path.includes('/__tests__/');
+  /** Import graph of a project, built once per analyzer */
+  private importGraph(projectRoot: string): Promise<ImportGraph> {
+    if (!this.importGraphs.has(projectRoot)) {
+      const graph = this.projectFiles(projectRoot).then(files => buildImportGraph(projectRoot, files));
+      // Don't cache a failure; the next call retries
+      graph.catch(() => this.importGraphs.delete(projectRoot));
+      this.importGraphs.set(projectRoot, graph);
+    }
+    return this.importGraphs.get(projectRoot)!;
   }
 
-  private guessTestPath(path: string): string | null {
-    // src/foo.ts -> tests/foo.test.ts
-    if (path.startsWith('src/')) {
-      const testPath = path
-        .replace(/^src\//, 'tests/')
-        .replace(/\.(\w+)$/, '.test.$1');
-      return testPath;
+  /** Test locator for a project, with its conventions detected once per analyzer */
+  private testLocator(projectRoot: string): Promise<TestLocator> {
+    if (!this.testLocators.has(projectRoot)) {
+      const locator = this.projectFiles(projectRoot).then(async files =>
+        new TestLocator(files, await detectTestConventions(projectRoot, files))
+      );
+      // Don't cache a failure; the next call retries
+      locator.catch(() => this.testLocators.delete(projectRoot));
+      this.testLocators.set(projectRoot, locator);
     }
-    return null;
+    return this.testLocators.get(projectRoot)!;
+  }
+
+  private isTestFile(path: string): boolean {
+    // Fixtures and helpers under test directories count as test code too
+    return isTestFile(path) || /(?:^|\/)(?:tests?|__tests__)\//.test(path);
   }
 
   private extToLanguage(ext: string): string {
@@ -546,6 +727,231 @@ export class CodebaseAnalyzer {
   }
 }
 
+// ============================================================================
+// Search Scoring
+// ============================================================================
+
+const MAX_HITS_PER_KEYWORD = 20;  // One common word shouldn't swamp the rest
+const MIN_DENSITY_LINES = 50;     // Tiny files don't get outsized density
+const MAX_DENSITY_SCORE = 5;
+const IDENTIFIER_WEIGHT = 3;
+const PATH_WEIGHT = 2;
+
+const DECLARATION_PATTERN = /\b(?:function|class|interface|type|enum|struct|const|let|var|def|func|fn)\s+([A-Za-z_$][\w$]*)/g;
+
+/**
+ * Score a file against the keywords: one point per keyword present, up
+ * to MAX_DENSITY_SCORE for hits per ten lines, and bonuses for identifier
+ * matches (a camelCase keyword used verbatim, or a keyword naming a
+ * declaration) and keywords in the path. A file must contain two
+ * keywords, or match an identifier or its path, to score at all.
+ */
+function scoreFile(file: string, text: string, keywords: string[]): number {
+  const lower = text.toLowerCase();
+  const lowerPath = file.toLowerCase();
+  const lines = countLines(text);
+
+  const declared = new Set<string>();
+  for (const match of text.matchAll(DECLARATION_PATTERN)) {
+    declared.add(match[1].toLowerCase());
+  }
+
+  let matched = 0;
+  let hits = 0;
+  let identifiers = 0;
+  let pathMatches = 0;
+
+  for (const keyword of keywords) {
+    const term = keyword.toLowerCase();
+    const count = countOccurrences(lower, term);
+    if (count > 0) matched++;
+    hits += Math.min(count, MAX_HITS_PER_KEYWORD);
+
+    const isIdentifier = /[a-z][A-Z]/.test(keyword) && text.includes(keyword);
+    if (isIdentifier || declared.has(term)) identifiers++;
+    if (lowerPath.includes(term)) pathMatches++;
+  }
+
+  if (matched < Math.min(2, keywords.length) && identifiers === 0 && pathMatches === 0) return 0;
+
+  const density = Math.min((hits / Math.max(lines, MIN_DENSITY_LINES)) * 10, MAX_DENSITY_SCORE);
+  return matched + density + identifiers * IDENTIFIER_WEIGHT + pathMatches * PATH_WEIGHT;
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  for (let i = text.indexOf(term); i !== -1; i = text.indexOf(term, i + term.length)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * A file's contents, or null when it's missing, too large, or binary
+ * (has a NUL byte in its first 8KB)
+ */
+async function readTextFile(file: string, maxSize: number): Promise<string | null> {
+  try {
+    const stat = await fs.stat(file);
+    if (stat.size > maxSize) return null;
+
+    const buffer = await fs.readFile(file);
+    return isBinary(buffer) ? null : buffer.toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+/** Absolute path of a project-relative path, or null if it escapes the root */
+function resolveInProject(file: string, projectRoot: string): string | null {
+  const root = path.resolve(projectRoot);
+  const resolved = path.resolve(root, file);
+  const relative = path.relative(root, resolved);
+  if (!relative || relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative)) {
+    return null;
+  }
+  return resolved;
+}
+
+/** Whether a path inside the project root doesn't exist yet */
+async function isMissing(file: string, projectRoot: string): Promise<boolean> {
+  const resolved = resolveInProject(file, projectRoot);
+  if (!resolved) return false;
+  try {
+    await fs.stat(resolved);
+    return false;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'ENOENT';
+  }
+}
+
+function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8192).includes(0);
+}
+
+function countLines(text: string): number {
+  return text.split('\n').filter(l => l.trim()).length;
+}
+
+// ============================================================================
+// Complexity Scoring
+// ============================================================================
+
+interface ComplexityRules {
+  decisions: RegExp;          // Branch points: each adds a path through the code
+  functions: RegExp;
+  literals: RegExp;           // Comments and strings, blanked before matching
+}
+
+const C_STYLE_LITERALS = /\/\*[\s\S]*?\*\/|\/\/[^\n]*|`(?:[^`\\]|\\[\s\S])*`|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/g;
+
+const JS_RULES: ComplexityRules = {
+  decisions: /\b(?:if|for|while|case|catch)\b|&&|\|\||\?\?|\?(?![.?:])/g,
+  // Declarations, arrows, and methods (a name and parameters opening a block)
+  functions: /\bfunction\b|=>|^[ \t]*(?:(?:public|private|protected|static|async|readonly|override|get|set)\s+)*(?!(?:if|for|while|switch|catch|return|function)\b)[A-Za-z_$][\w$]*\s*(?:<[^>\n]*>)?\s*\([^)]*\)\s*(?::\s*[^{;\n]+)?\{/gm,
+  literals: C_STYLE_LITERALS,
+};
+
+const COMPLEXITY_RULES: Record<string, ComplexityRules> = {
+  typescript: JS_RULES,
+  javascript: JS_RULES,
+  go: {
+    decisions: /\b(?:if|for|case)\b|&&|\|\|/g,
+    functions: /\bfunc\b/g,
+    literals: C_STYLE_LITERALS,
+  },
+  python: {
+    decisions: /\b(?:if|elif|for|while|except|case|and|or)\b/g,
+    functions: /\b(?:def|lambda)\b/g,
+    literals: /"""[\s\S]*?"""|'''[\s\S]*?'''|#[^\n]*|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/g,
+  },
+};
+
+/**
+ * Average cyclomatic complexity per function: 1 plus the file's branch
+ * points spread over its functions (module-level code counts as one
+ * function). Null for languages without rules.
+ */
+function complexityScore(text: string, language: string): number | null {
+  const rules = COMPLEXITY_RULES[language];
+  if (!rules) return null;
+
+  const code = text.replace(rules.literals, match => match.replace(/[^\n]/g, ' '));
+  const decisions = (code.match(rules.decisions) || []).length;
+  const functions = (code.match(rules.functions) || []).length;
+
+  return 1 + decisions / Math.max(functions, 1);
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Read TokenEstimator options from the `estimation` section of
+ * config.yaml. Keys that are unset, or not numbers, keep their defaults;
+ * `include_review_cycles: false` means no review cycles.
+ */
+export async function loadEstimationConfig(options: ConfigLoadOptions = {}): Promise<Partial<EstimationConfig>> {
+  const config = await loadConfig(options);
+  const defaults = DEFAULT_CONFIG;
+  const number = (key: string) => configNumber(config, `estimation.${key}`);
+
+  const priority = { ...defaults.priority };
+  const priorities = getConfigValue(config, 'estimation.priority');
+  if (priorities && typeof priorities === 'object' && !Array.isArray(priorities)) {
+    for (const [name, value] of Object.entries(priorities)) {
+      if (typeof value === 'number') priority[name] = value;
+    }
+  }
+
+  const includeReview = getConfigValue(config, 'estimation.include_review_cycles');
+
+  return {
+    multipliers: {
+      contextExpansion: number('multipliers.context_expansion') ?? defaults.multipliers.contextExpansion,
+      testOverhead: number('multipliers.test_overhead') ?? defaults.multipliers.testOverhead,
+      reviewOverhead: number('multipliers.review_overhead') ?? defaults.multipliers.reviewOverhead,
+      documentation: number('multipliers.documentation') ?? defaults.multipliers.documentation,
+    },
+    complexity: {
+      low: number('complexity.low') ?? defaults.complexity.low,
+      medium: number('complexity.medium') ?? defaults.complexity.medium,
+      high: number('complexity.high') ?? defaults.complexity.high,
+    },
+    priority,
+    reviewCycles: includeReview === false ? 0 : number('review_cycle_count') ?? defaults.reviewCycles,
+    tokensPerLine: number('tokens_per_line') ?? defaults.tokensPerLine,
+  };
+}
+
+/**
+ * Read CodebaseAnalyzer options from the `estimation` section of
+ * config.yaml. Keys that are unset, or not numbers, keep their defaults.
+ */
+export async function loadAnalyzerConfig(options: ConfigLoadOptions = {}): Promise<Partial<AnalyzerConfig>> {
+  const config = await loadConfig(options);
+  const defaults = DEFAULT_ANALYZER_CONFIG;
+
+  return {
+    search: {
+      maxResults: configNumber(config, 'estimation.search.max_results') ?? defaults.search.maxResults,
+      maxFileSize: configNumber(config, 'estimation.search.max_file_size') ?? defaults.search.maxFileSize,
+      maxFiles: configNumber(config, 'estimation.search.max_files') ?? defaults.search.maxFiles,
+    },
+    complexityThresholds: {
+      medium: configNumber(config, 'estimation.complexity_thresholds.medium') ?? defaults.complexityThresholds.medium,
+      high: configNumber(config, 'estimation.complexity_thresholds.high') ?? defaults.complexityThresholds.high,
+    },
+    importDepth: configNumber(config, 'estimation.import_depth') ?? defaults.importDepth,
+  };
+}
+
+function configNumber(config: ConfigMap, key: string): number | undefined {
+  const value = getConfigValue(config, key);
+  return typeof value === 'number' ? value : undefined;
+}
+
 // ============================================================================
 // Exports
 // ============================================================================
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { Issue, Priority } from '../adapters/interface';
+import { CodebaseContext } from './estimator';
+import { WaveOrganizer, loadOrganizerConfig } from './organizer';
+
+function issue(identifier: string, priority: Priority, component: string): Issue {
+  return {
+    id: identifier,
+    identifier,
+    title: `Change ${identifier}`,
+    description: '',
+    priority,
+    state: { id: 'todo', name: 'Todo', type: 'unstarted' },
+    labels: [],
+    customFields: { Component: component },
+  };
+}
+
+/** Contexts touching the given files, keyed by issue ID */
+function contextsFor(issues: Issue[], files: Record<string, string[]> = {}): Map<string, CodebaseContext> {
+  return new Map(issues.map(i => [i.id, {
+    filesLikelyTouched: (files[i.id] || []).map(path => ({ path, lines: 10, language: 'typescript', complexity: 'low' as const })),
+    relatedFiles: [],
+    newFiles: [],
+    untestedFiles: [],
+    totalLines: 10,
+    avgComplexity: 'low' as const,
+  }]));
+}
+
+test('groupBy keeps issues with the same value together without shared files', () => {
+  // Priorities interleave the components
+  const issues = [
+    issue('API-1', 'P0-Critical', 'API'),
+    issue('WEB-1', 'P1-High', 'Web'),
+    issue('API-2', 'P2-Medium', 'API'),
+    issue('API-3', 'P3-Low', 'API'),
+  ];
+
+  const waves = new WaveOrganizer({ groupBy: 'Component' }).organize(issues, contextsFor(issues));
+
+  assert.deepEqual(waves.map(w => w.issues.map(i => i.identifier)), [['API-1', 'API-2', 'API-3'], ['WEB-1']]);
+  assert.match(waves[0].name, /^API: /);
+});
+
+test('groupBy waves split by size stay adjacent, similar issues first', () => {
+  const issues = [
+    issue('API-1', 'P0-Critical', 'API'),
+    issue('WEB-1', 'P0-Critical', 'Web'),
+    issue('API-2', 'P1-High', 'API'),
+    issue('API-3', 'P2-Medium', 'API'),
+  ];
+  const contexts = contextsFor(issues, { 'API-1': ['src/api/auth.ts'], 'API-3': ['src/api/auth.ts'] });
+
+  const waves = new WaveOrganizer({ groupBy: 'Component', maxIssuesPerWave: 2 }).organize(issues, contexts);
+
+  assert.deepEqual(waves.map(w => w.issues.map(i => i.identifier)), [['API-1', 'API-3'], ['API-2'], ['WEB-1']]);
+});
+
+test('loadOrganizerConfig reads the organization section, group_by included', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-organizer-'));
+  try {
+    const file = path.join(dir, 'config.yaml');
+    await fs.writeFile(file, [
+      'wave-planner:',
+      '  organization:',
+      '    algorithm: context-sharing',
+      '    similarity_threshold: 0.5',
+      '    split_threshold: 80000',
+      '    respect_dependencies: false',
+      '    group_by: Component',
+      '',
+    ].join('\n'), 'utf8');
+
+    assert.deepEqual(await loadOrganizerConfig({ paths: [file] }), {
+      similarityThreshold: 0.5,
+      tokenBudgetPerWave: 80000,
+      respectDependencies: false,
+      groupBy: 'Component',
+    });
+    assert.deepEqual(await loadOrganizerConfig({ paths: [path.join(dir, 'missing.yaml')] }), {});
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
@@ -2,11 +2,15 @@
  * Wave Organizer Module
  *
  * Organizes issues into waves based on shared context and dependencies.
- * Uses Jaccard similarity for context grouping.
+ * Uses Jaccard similarity for context grouping, optionally within
+ * partitions by a custom field (e.g. one wave per component).
  */
 
-import { Issue } from '../adapters/interface';
+import { Issue, Priority } from '../adapters/interface';
+import { customFieldValue, formatCustomFieldValue } from '../adapters/custom-fields';
+import type { IssueGraph } from '../adapters/hierarchy';
 import { CodebaseContext, TokenEstimate, TokenEstimator } from './estimator';
+import { loadConfig, getConfigValue, ConfigLoadOptions } from './config';
 
 // ============================================================================
 // Types
@@ -44,6 +48,7 @@ export interface WaveGroup {
   issues: Issue[];
   sharedFiles: Set<string>;
   similarity: number;
+  fieldValue?: string;            // Shared value of config.groupBy, when set
 }
 
 export interface OrganizerConfig {
@@ -51,6 +56,7 @@ export interface OrganizerConfig {
   maxIssuesPerWave: number;       // Soft limit (default: 5)
   tokenBudgetPerWave: number;     // Split if exceeded (default: 150000)
   respectDependencies: boolean;   // Order by dependencies (default: true)
+  groupBy?: string;               // Custom field no wave mixes values of (e.g. "Component")
 }
 
 // ============================================================================
@@ -81,12 +87,15 @@ export class WaveOrganizer {
   }
 
   /**
-   * Organize issues into waves based on shared context
+   * Organize issues into waves based on shared context. Accepts a loaded
+   * hierarchy (see HierarchyLoader), in which case its roots and their
+   * descendants are planned.
    */
   organize(
-    issues: Issue[],
+    input: Issue[] | IssueGraph,
     contexts: Map<string, CodebaseContext>
   ): Wave[] {
+    const issues = Array.isArray(input) ? input : input.issues;
     if (issues.length === 0) return [];
 
     // Step 1: Calculate file overlap matrix
@@ -171,15 +180,46 @@ export class WaveOrganizer {
     issues: Issue[],
     overlapMatrix: Map<string, Map<string, number>>
   ): WaveGroup[] {
-    const groups: WaveGroup[] = [];
-    const assigned = new Set<string>();
-
-    // Sort issues by priority to seed groups with high-priority items
+    // Sort issues by priority to seed groups with high-priority items;
+    // unprioritised issues come last
     const sortedIssues = [...issues].sort((a, b) => {
-      const priorityOrder = { 'P0-Critical': 0, 'P1-High': 1, 'P2-Medium': 2, 'P3-Low': 3 };
+      const priorityOrder: Record<Priority, number> = {
+        'P0-Critical': 0, 'P1-High': 1, 'P2-Medium': 2, 'P3-Low': 3, none: 4,
+      };
       return priorityOrder[a.priority] - priorityOrder[b.priority];
     });
 
+    if (!this.config.groupBy) {
+      return this.clusterBySimilarity(sortedIssues, overlapMatrix);
+    }
+
+    // One group per config.groupBy value. Similar issues sit next to each
+    // other, so splitting the group keeps them in the same wave.
+    const partitions = new Map<string, Issue[]>();
+    for (const issue of sortedIssues) {
+      const fieldValue = this.fieldValue(issue)!;
+      partitions.set(fieldValue, [...(partitions.get(fieldValue) || []), issue]);
+    }
+
+    return [...partitions].map(([fieldValue, members]) => {
+      const ordered = this.clusterBySimilarity(members, overlapMatrix).flatMap(g => g.issues);
+      return {
+        issues: ordered,
+        sharedFiles: this.findSharedFiles(ordered, overlapMatrix),
+        similarity: this.calculateAvgSimilarity(ordered, overlapMatrix),
+        fieldValue,
+      };
+    });
+  }
+
+  /** Greedy clusters: each unassigned issue, in order, gathers those similar to it */
+  private clusterBySimilarity(
+    sortedIssues: Issue[],
+    overlapMatrix: Map<string, Map<string, number>>
+  ): WaveGroup[] {
+    const groups: WaveGroup[] = [];
+    const assigned = new Set<string>();
+
     for (const issue of sortedIssues) {
       if (assigned.has(issue.id)) continue;
 
@@ -211,6 +251,14 @@ export class WaveOrganizer {
     return groups;
   }
 
+  /** The issue's config.groupBy value, as text ('' when unset); undefined without groupBy */
+  private fieldValue(issue: Issue): string | undefined {
+    if (!this.config.groupBy) return undefined;
+
+    const value = customFieldValue(issue, this.config.groupBy);
+    return value === undefined || value === null ? '' : formatCustomFieldValue(value);
+  }
+
   private findSharedFiles(
     issues: Issue[],
     overlapMatrix: Map<string, Map<string, number>>
@@ -245,38 +293,64 @@ export class WaveOrganizer {
   // -------------------------------------------------------------------------
 
   private orderByDependencies(groups: WaveGroup[], issues: Issue[]): WaveGroup[] {
-    // Build dependency map from parent-child relationships
+    const dependencyMap = this.buildDependencyMap(issues);
+
+    const dependsOn = (a: WaveGroup, b: WaveGroup) =>
+      a.issues.some(issueA =>
+        b.issues.some(issueB => dependencyMap.get(issueA.id)?.has(issueB.id))
+      );
+
+    // Stable topological order: repeatedly take the first group that waits
+    // on no remaining group. A pairwise sort can't order chains (A -> B -> C)
+    // because unrelated pairs compare equal.
+    const remaining = [...groups];
+    const ordered: WaveGroup[] = [];
+
+    while (remaining.length > 0) {
+      let index = remaining.findIndex(group =>
+        !remaining.some(other => other !== group && dependsOn(group, other))
+      );
+
+      // Dependency cycle: keep the original order for the rest
+      if (index === -1) index = 0;
+
+      ordered.push(remaining.splice(index, 1)[0]);
+    }
+
+    return ordered;
+  }
+
+  /**
+   * Map each issue ID to the issues that must be done before it: its
+   * parent, and any issue with a blocking relation to it. Blocking is read
+   * from both sides, so one fetched end of a relation is enough.
+   */
+  private buildDependencyMap(issues: Issue[]): Map<string, Set<string>> {
     const dependencyMap = new Map<string, Set<string>>();
 
+    const addDependency = (issueId: string, dependsOnId: string) => {
+      if (issueId === dependsOnId) return;
+      if (!dependencyMap.has(issueId)) {
+        dependencyMap.set(issueId, new Set());
+      }
+      dependencyMap.get(issueId)!.add(dependsOnId);
+    };
+
     for (const issue of issues) {
       if (issue.parent) {
-        if (!dependencyMap.has(issue.id)) {
-          dependencyMap.set(issue.id, new Set());
+        addDependency(issue.id, issue.parent.id);
+      }
+
+      for (const relation of issue.relations || []) {
+        if (relation.type === 'blocked-by') {
+          addDependency(issue.id, relation.issue.id);
+        } else if (relation.type === 'blocks') {
+          addDependency(relation.issue.id, issue.id);
         }
-        dependencyMap.get(issue.id)!.add(issue.parent.id);
       }
     }
 
-    // Sort groups so that dependencies come first
-    return [...groups].sort((a, b) => {
-      // Check if any issue in A depends on any issue in B
-      const aDependsOnB = a.issues.some(issueA =>
-        b.issues.some(issueB =>
-          dependencyMap.get(issueA.id)?.has(issueB.id)
-        )
-      );
-
-      // Check if any issue in B depends on any issue in A
-      const bDependsOnA = b.issues.some(issueB =>
-        a.issues.some(issueA =>
-          dependencyMap.get(issueB.id)?.has(issueA.id)
-        )
-      );
-
-      if (aDependsOnB && !bDependsOnA) return 1;  // A comes after B
-      if (bDependsOnA && !aDependsOnB) return -1; // B comes after A
-      return 0; // No dependency relationship
-    });
+    return dependencyMap;
   }
 
   // -------------------------------------------------------------------------
@@ -302,7 +376,7 @@ export class WaveOrganizer {
 
         waves.push({
           number: waveNumber,
-          name: this.generateWaveName(subGroup.issues, waveNumber),
+          name: this.generateWaveName(subGroup, waveNumber),
           description: this.generateWaveDescription(subGroup),
           issues: subGroup.issues,
           tokenEstimate,
@@ -338,6 +412,8 @@ export class WaveOrganizer {
       const ctx = contexts.get(issue.id) || {
         filesLikelyTouched: [],
         relatedFiles: [],
+        newFiles: [],
+        untestedFiles: [],
         totalLines: 50,
         avgComplexity: 'medium' as const,
       };
@@ -354,6 +430,7 @@ export class WaveOrganizer {
           issues: currentIssues,
           sharedFiles: new Set(),
           similarity: group.similarity,
+          fieldValue: group.fieldValue,
         });
         currentIssues = [];
         currentTokens = 0;
@@ -369,13 +446,19 @@ export class WaveOrganizer {
         issues: currentIssues,
         sharedFiles: new Set(),
         similarity: group.similarity,
+        fieldValue: group.fieldValue,
       });
     }
 
     return subGroups;
   }
 
-  private generateWaveName(issues: Issue[], waveNumber: number): string {
+  private generateWaveName(group: WaveGroup, waveNumber: number): string {
+    const name = this.baseWaveName(group.issues, waveNumber);
+    return group.fieldValue ? `${group.fieldValue}: ${name}` : name;
+  }
+
+  private baseWaveName(issues: Issue[], waveNumber: number): string {
     // Try to derive name from common labels
     const labelCounts = new Map<string, number>();
 
@@ -425,14 +508,19 @@ export class WaveOrganizer {
     existingWaves: Omit<Wave, 'agents'>[]
   ): number[] {
     const dependencies = new Set<number>();
+    const dependencyMap = this.buildDependencyMap([
+      ...existingWaves.flatMap(wave => wave.issues),
+      ...issues,
+    ]);
 
     for (const issue of issues) {
-      if (issue.parent) {
-        // Find which wave contains the parent
-        for (const wave of existingWaves) {
-          if (wave.issues.some(i => i.id === issue.parent?.id)) {
-            dependencies.add(wave.number);
-          }
+      const prerequisites = dependencyMap.get(issue.id);
+      if (!prerequisites) continue;
+
+      // Find which waves contain the parent or blockers
+      for (const wave of existingWaves) {
+        if (wave.issues.some(i => prerequisites.has(i.id))) {
+          dependencies.add(wave.number);
         }
       }
     }
@@ -441,11 +529,12 @@ export class WaveOrganizer {
   }
 
   private isParallelizable(issues: Issue[]): boolean {
-    // Check if any issues have parent-child relationships within the group
+    // Check if any issues depend on each other (parent or blocker) within the group
     const ids = new Set(issues.map(i => i.id));
+    const dependencyMap = this.buildDependencyMap(issues);
 
     for (const issue of issues) {
-      if (issue.parent && ids.has(issue.parent.id)) {
+      if ([...(dependencyMap.get(issue.id) || [])].some(id => ids.has(id))) {
         return false; // Has internal dependencies
       }
     }
@@ -553,6 +642,34 @@ export class WaveOrganizer {
   }
 }
 
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Read the `organization` section of config.yaml as WaveOrganizer options.
+ * Keys that are unset, or not of the expected type, keep their defaults.
+ */
+export async function loadOrganizerConfig(options: ConfigLoadOptions = {}): Promise<Partial<OrganizerConfig>> {
+  const config = await loadConfig(options);
+  const value = (key: string) => getConfigValue(config, `organization.${key}`);
+  const result: Partial<OrganizerConfig> = {};
+
+  const threshold = value('similarity_threshold');
+  if (typeof threshold === 'number') result.similarityThreshold = threshold;
+
+  const budget = value('split_threshold');
+  if (typeof budget === 'number') result.tokenBudgetPerWave = budget;
+
+  const respect = value('respect_dependencies');
+  if (typeof respect === 'boolean') result.respectDependencies = respect;
+
+  const groupBy = value('group_by');
+  if (typeof groupBy === 'string' && groupBy) result.groupBy = groupBy;
+
+  return result;
+}
+
 // ============================================================================
 // Exports
 // ============================================================================
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { Comment, Issue } from '../adapters/interface';
+import { RiskPredictor } from './risk-predictor';
+
+function issue(id: string, title: string, labels: string[] = []): Issue {
+  return {
+    id,
+    identifier: id,
+    title,
+    description: '',
+    priority: 'P2-Medium',
+    state: { id: 'todo', name: 'Todo', type: 'unstarted' },
+    labels: labels.map(name => ({ id: name, name })),
+  };
+}
+
+function comment(body: string): Comment {
+  return { id: body, body, author: { id: 'me', name: 'Me' }, createdAt: new Date() };
+}
+
+const categories = (issues: Issue[], comments?: Map<string, Comment[]>) =>
+  new RiskPredictor().analyze(issues, new Map(), comments).risks.map(r => r.category);
+
+test('a quiet issue carries no risks', () => {
+  assert.deepEqual(categories([issue('WEB-1', 'Tidy settings page')]), []);
+});
+
+test('label names are scanned for risk keywords', () => {
+  assert.deepEqual(categories([issue('WEB-1', 'Tidy settings page', ['security'])]), ['security']);
+});
+
+test('comment threads are scanned along with the issue', () => {
+  const quiet = issue('WEB-1', 'Tidy settings page');
+  const thread = new Map([[quiet.id, [comment('Needs a schema migration first')]]]);
+
+  assert.deepEqual(categories([quiet], thread), ['breaking_change']);
+});
@@ -8,7 +8,8 @@
  * @version 1.1.0
  */
 
-import type { Issue, CodebaseContext } from '../adapters/interface';
+import type { Issue, Comment } from '../adapters/interface';
+import type { CodebaseContext } from './estimator';
 
 // =============================================================================
 // Types
@@ -204,11 +205,13 @@ export class RiskPredictor {
   }
 
   /**
-   * Analyze issues for potential risks and blockers
+   * Analyze issues for potential risks and blockers. Comment threads,
+   * keyed by issue ID, are scanned along with the description.
    */
   analyze(
     issues: Issue[],
-    contexts: Map<string, CodebaseContext>
+    contexts: Map<string, CodebaseContext>,
+    comments: Map<string, Comment[]> = new Map()
   ): RiskAnalysisResult {
     const risks: Risk[] = [];
     let riskIdCounter = 1;
@@ -216,7 +219,7 @@ export class RiskPredictor {
     // Analyze each issue for risks
     for (const issue of issues) {
       const context = contexts.get(issue.id);
-      const issueRisks = this.analyzeIssue(issue, context, riskIdCounter);
+      const issueRisks = this.analyzeIssue(issue, context, riskIdCounter, comments.get(issue.id));
       risks.push(...issueRisks);
       riskIdCounter += issueRisks.length;
     }
@@ -252,11 +255,13 @@ export class RiskPredictor {
   private analyzeIssue(
     issue: Issue,
     context: CodebaseContext | undefined,
-    startId: number
+    startId: number,
+    comments: Comment[] = []
   ): Risk[] {
     const risks: Risk[] = [];
-    const content = `${issue.title} ${issue.description || ''} ${issue.labels?.join(' ') || ''}`.toLowerCase();
-    const files = context?.filePaths || [];
+    const thread = comments.map((c) => c.body).join(' ');
+    const content = `${issue.title} ${issue.description || ''} ${issue.labels?.map((l) => l.name).join(' ') || ''} ${thread}`.toLowerCase();
+    const files = contextFiles(context);
 
     for (const pattern of this.patterns) {
       // Check keywords
@@ -282,7 +287,7 @@ export class RiskPredictor {
 
         // Adjust impact based on priority
         let impact = pattern.defaultImpact;
-        if (issue.priority === 'urgent' || issue.priority === 'critical') {
+        if (issue.priority === 'P0-Critical') {
           if (impact === 'medium') impact = 'high';
           else if (impact === 'high') impact = 'critical';
         }
@@ -314,8 +319,8 @@ export class RiskPredictor {
 
     // Check for parent-child dependencies
     for (const issue of issues) {
-      if (issue.parentId) {
-        const parent = issues.find((i) => i.id === issue.parentId);
+      if (issue.parent) {
+        const parent = issues.find((i) => i.id === issue.parent!.id);
         if (parent) {
           risks.push({
             id: `RISK-${startId + risks.length}`,
@@ -333,14 +338,38 @@ export class RiskPredictor {
       }
     }
 
-    // Check for label-based dependencies (e.g., "depends:SMI-123")
+    // Check for blocking relations
+    for (const issue of issues) {
+      for (const relation of issue.relations || []) {
+        if (relation.type !== 'blocked-by') continue;
+
+        const blocker = issues.find((i) => i.id === relation.issue.id);
+        if (blocker) {
+          risks.push({
+            id: `RISK-${startId + risks.length}`,
+            category: 'integration',
+            issueId: issue.id,
+            issueIdentifier: issue.identifier,
+            description: `${issue.identifier} is blocked by ${blocker.identifier}`,
+            likelihood: 'high',
+            impact: 'high',
+            mitigation: `Complete ${blocker.identifier} before starting ${issue.identifier}`,
+            affectedIssues: [issue.identifier, blocker.identifier],
+            suggestedWaveAdjustment: `Place ${blocker.identifier} in earlier wave than ${issue.identifier}`,
+          });
+        }
+      }
+    }
+
+    // Check for label-based dependencies (e.g., "depends:SMI-123"),
+    // for trackers or teams that don't use relations
     for (const issue of issues) {
       const dependsLabels = issue.labels?.filter((l) =>
-        l.toLowerCase().startsWith('depends:')
+        l.name.toLowerCase().startsWith('depends:')
       ) || [];
 
       for (const label of dependsLabels) {
-        const dependsOn = label.replace(/^depends:/i, '');
+        const dependsOn = label.name.replace(/^depends:/i, '');
         const dependency = issues.find(
           (i) => i.identifier.toLowerCase() === dependsOn.toLowerCase()
         );
@@ -385,7 +414,7 @@ export class RiskPredictor {
     };
 
     const baseDescription = categoryDescriptions[pattern.category];
-    const files = context?.filePaths?.slice(0, 3).join(', ') || 'multiple files';
+    const files = contextFiles(context).slice(0, 3).join(', ') || 'multiple files';
 
     return `${issue.identifier} ${baseDescription} (affects: ${files})`;
   }
@@ -400,18 +429,16 @@ export class RiskPredictor {
   ): string {
     let mitigation = pattern.mitigationTemplate;
 
-    // Add context-specific suggestions
-    if (context?.filePaths?.length) {
-      const testFiles = context.filePaths.filter((f) =>
-        /\.(test|spec)\.(ts|js)$/.test(f)
-      );
-      if (testFiles.length === 0) {
-        mitigation += '. Add test coverage for affected files';
-      }
+    // Add context-specific suggestions; the analyzer has already checked
+    // touched files against the project's test convention
+    if (context?.untestedFiles.length) {
+      const untested = context.untestedFiles.slice(0, 3).join(', ');
+      const more = context.untestedFiles.length > 3 ? ` and ${context.untestedFiles.length - 3} more` : '';
+      mitigation += `. Add test coverage for ${untested}${more}`;
     }
 
     // Add priority-specific suggestions
-    if (issue.priority === 'urgent' || issue.priority === 'critical') {
+    if (issue.priority === 'P0-Critical') {
       mitigation += '. Consider spike/POC first given high priority';
     }
 
@@ -554,6 +581,14 @@ export class RiskPredictor {
   }
 }
 
+/**
+ * Paths of the files an issue touches or depends on
+ */
+function contextFiles(context: CodebaseContext | undefined): string[] {
+  if (!context) return [];
+  return [...context.filesLikelyTouched, ...context.relatedFiles].map((f) => f.path);
+}
+
 // =============================================================================
 // Exports
 // =============================================================================
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { DEFAULT_TEST_CONVENTIONS, TestLocator, detectTestConventions, isTestFile } from './test-locator';
+
+/** Conventions detected in a temporary project holding the given files */
+async function detect(files: Record<string, string>) {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'wave-planner-test-locator-'));
+  try {
+    for (const [file, text] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+      await fs.writeFile(path.join(root, file), text, 'utf8');
+    }
+    return await detectTestConventions(root, Object.keys(files));
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+test('isTestFile recognises each convention', () => {
+  assert.equal(isTestFile('src/user.test.ts'), true);
+  assert.equal(isTestFile('src/user.spec.jsx'), true);
+  assert.equal(isTestFile('src/__tests__/user.ts'), true);
+  assert.equal(isTestFile('tests/test_user.py'), true);
+  assert.equal(isTestFile('app/user_test.py'), true);
+  assert.equal(isTestFile('store/user_test.go'), true);
+  assert.equal(isTestFile('src/user.ts'), false);
+  assert.equal(isTestFile('src/testing.py'), false);
+  assert.equal(isTestFile('docs/user.test.md'), false);
+});
+
+test('locate finds colocated, __tests__ and mirrored tests for the same module', () => {
+  const locator = new TestLocator([
+    'src/auth/session.ts',
+    'src/auth/session.test.ts',
+    'src/auth/__tests__/token.spec.ts',
+    'tests/auth/cookies.test.ts',
+    'tests/billing/session.test.ts',
+    'app/models.py',
+    'tests/app/test_models.py',
+    'store/cart.go',
+    'store/cart_test.go',
+  ]);
+
+  assert.deepEqual(locator.locate('src/auth/session.ts').tests, ['src/auth/session.test.ts']);
+  assert.deepEqual(locator.locate('src/auth/token.ts').tests, ['src/auth/__tests__/token.spec.ts']);
+  assert.deepEqual(locator.locate('src/auth/cookies.ts').tests, ['tests/auth/cookies.test.ts']);
+  assert.deepEqual(locator.locate('app/models.py').tests, ['tests/app/test_models.py']);
+  assert.deepEqual(locator.locate('store/cart.go'), {
+    source: 'store/cart.go',
+    tests: ['store/cart_test.go'],
+    expected: 'store/cart_test.go',
+    missing: false,
+  });
+});
+
+test('locate reports where a missing test belongs; tests and non-code files never miss one', () => {
+  const locator = new TestLocator([], DEFAULT_TEST_CONVENTIONS);
+
+  assert.deepEqual(locator.locate('src/auth/login.ts'), {
+    source: 'src/auth/login.ts',
+    tests: [],
+    expected: 'tests/auth/login.test.ts',
+    missing: true,
+  });
+  assert.equal(locator.locate('src/api/users.py').expected, 'tests/api/test_users.py');
+  assert.equal(locator.locate('src/auth/login.test.ts').missing, false);
+  assert.equal(locator.locate('README.md').expected, null);
+  assert.equal(locator.locate('src/types.d.ts').missing, false);
+
+  const colocated = new TestLocator([], {
+    js: { layout: '__tests__', suffix: 'spec', testsDir: 'tests' },
+    python: { layout: 'colocated', style: 'suffix', testsDir: 'tests' },
+  });
+  assert.equal(colocated.locate('src/auth/login.ts').expected, 'src/auth/__tests__/login.spec.ts');
+  assert.equal(colocated.locate('app/users.py').expected, 'app/users_test.py');
+});
+
+test('detectTestConventions follows the most common existing layout and naming', async () => {
+  const conventions = await detect({
+    'src/a.spec.ts': '',
+    'src/b.spec.ts': '',
+    'test/c.test.ts': '',
+    'app/a_test.py': '',
+    'app/b_test.py': '',
+    'conftest.py': '',
+  });
+
+  assert.deepEqual(conventions.js, { layout: 'colocated', suffix: 'spec', testsDir: 'test', runner: undefined });
+  assert.deepEqual(conventions.python, { layout: 'colocated', style: 'suffix', testsDir: 'tests', runner: 'pytest' });
+});
+
+test('detectTestConventions falls back to runner configuration without tests', async () => {
+  const jest = await detect({ 'package.json': '{ "jest": { "roots": ["<rootDir>/spec"] } }' });
+  assert.deepEqual(jest.js, { layout: 'mirror', suffix: 'test', testsDir: 'spec', runner: 'jest' });
+
+  const vitest = await detect({
+    'vitest.config.ts': "export default { test: { include: ['src/**/*.spec.ts'] } }",
+    'pyproject.toml': '[tool.pytest.ini_options]\ntestpaths = ["qa"]\npython_files = "*_test.py"\n',
+  });
+  assert.deepEqual(vitest.js, { layout: 'colocated', suffix: 'spec', testsDir: 'tests', runner: 'vitest' });
+  assert.deepEqual(vitest.python, { layout: 'mirror', style: 'suffix', testsDir: 'qa', runner: 'pytest' });
+
+  const bare = await detect({});
+  assert.deepEqual(bare.js, { ...DEFAULT_TEST_CONVENTIONS.js, runner: undefined });
+  assert.deepEqual(bare.python, { ...DEFAULT_TEST_CONVENTIONS.python, runner: undefined });
+});
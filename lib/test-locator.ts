@@ -0,0 +1,290 @@
+/**
+ * Test Locator Module
+ *
+ * Finds the tests for a source file the way the project lays them out.
+ * The convention is detected from the tests that already exist and, where
+ * there are none, from jest/vitest and pytest configuration:
+ *
+ * - TypeScript/JavaScript: colocated (`foo.test.ts`, `foo.spec.ts`),
+ *   `__tests__/foo.test.ts`, or a mirrored `tests/` directory
+ * - Python: `test_foo.py` or `foo_test.py`, colocated or under `tests/`
+ * - Go: `foo_test.go` beside the file
+ *
+ * `locate` returns the tests that exist and, when there are none, where
+ * one is expected, so callers can flag untested code.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TestLayout = 'colocated' | '__tests__' | 'mirror';
+
+export interface TestConventions {
+  js: {
+    layout: TestLayout;
+    suffix: 'test' | 'spec';
+    testsDir: string;         // Mirror layout root (default: tests)
+    runner?: 'jest' | 'vitest';
+  };
+  python: {
+    layout: Exclude<TestLayout, '__tests__'>;
+    style: 'prefix' | 'suffix';   // test_foo.py | foo_test.py
+    testsDir: string;
+    runner?: 'pytest';
+  };
+}
+
+export interface TestLocation {
+  source: string;
+  tests: string[];            // Existing tests for the file
+  expected: string | null;    // Where a test belongs by convention; null if the file isn't testable code
+  missing: boolean;           // Testable, and no test exists
+}
+
+const JS_SOURCE = /\.(?:[mc]?[jt]sx?)$/;
+const JS_TEST = /\.(test|spec)\.[mc]?[jt]sx?$/;
+const PY_TEST = /(?:^|\/)(?:test_[^/]+|[^/]+_test)\.py$/;
+const GO_TEST = /_test\.go$/;
+
+const TEST_DIRS = new Set(['tests', 'test', '__tests__', 'spec', 'specs']);
+
+// Directories left out when comparing a test's location with its source's
+const NEUTRAL_DIRS = new Set([...TEST_DIRS, 'src']);
+
+const JEST_CONFIGS = ['jest.config.js', 'jest.config.ts', 'jest.config.mjs', 'jest.config.cjs', 'jest.config.json'];
+const VITEST_CONFIGS = ['vitest.config.ts', 'vitest.config.js', 'vitest.config.mts', 'vitest.config.mjs', 'vite.config.ts', 'vite.config.js'];
+const PYTEST_CONFIGS = ['pytest.ini', 'pyproject.toml', 'setup.cfg', 'tox.ini'];
+
+export const DEFAULT_TEST_CONVENTIONS: TestConventions = {
+  js: { layout: 'mirror', suffix: 'test', testsDir: 'tests' },
+  python: { layout: 'mirror', style: 'prefix', testsDir: 'tests' },
+};
+
+// ============================================================================
+// Test Locator
+// ============================================================================
+
+export class TestLocator {
+  private testsByStem = new Map<string, string[]>();
+
+  constructor(
+    files: string[],
+    readonly conventions: TestConventions = DEFAULT_TEST_CONVENTIONS
+  ) {
+    for (const file of files) {
+      const stem = testStem(file);
+      if (stem === null) continue;
+      if (!this.testsByStem.has(stem)) this.testsByStem.set(stem, []);
+      this.testsByStem.get(stem)!.push(file);
+    }
+  }
+
+  /**
+   * Existing tests for a source file, and where one belongs if there are
+   * none. Test files themselves and non-code files are never missing tests.
+   */
+  locate(source: string): TestLocation {
+    const expected = isTestFile(source) ? null : this.expectedPath(source);
+    if (expected === null) return { source, tests: [], expected: null, missing: false };
+
+    const language = languageOf(source);
+    const dir = this.neutralDir(source);
+    const tests = (this.testsByStem.get(stemOf(source)) || []).filter(test =>
+      languageOf(test) === language &&
+      // Same module once src/ and test directories are set aside, or a flat tests/ directory
+      (this.neutralDir(test) === dir || this.neutralDir(test) === '')
+    );
+
+    return { source, tests, expected, missing: tests.length === 0 };
+  }
+
+  /** Path a new test for `source` should have under the detected convention */
+  private expectedPath(source: string): string | null {
+    const dir = path.posix.dirname(source) === '.' ? '' : path.posix.dirname(source);
+    const ext = path.posix.extname(source);
+    const stem = stemOf(source);
+    const join = (...parts: string[]) => parts.filter(Boolean).join('/');
+
+    switch (languageOf(source)) {
+      case 'js': {
+        const { layout, suffix, testsDir } = this.conventions.js;
+        const name = `${stem}.${suffix}${ext}`;
+        if (layout === 'colocated') return join(dir, name);
+        if (layout === '__tests__') return join(dir, '__tests__', name);
+        return join(testsDir, dir.replace(/^src(?:\/|$)/, ''), name);
+      }
+      case 'python': {
+        const { layout, style, testsDir } = this.conventions.python;
+        const name = style === 'prefix' ? `test_${stem}.py` : `${stem}_test.py`;
+        if (layout === 'colocated') return join(dir, name);
+        return join(testsDir, dir.replace(/^src(?:\/|$)/, ''), name);
+      }
+      case 'go':
+        return join(dir, `${stem}_test.go`);
+      default:
+        return null;
+    }
+  }
+
+  /** A file's directory without src/, test directories, or the configured tests directories */
+  private neutralDir(file: string): string {
+    const { js, python } = this.conventions;
+    const prefix = [js.testsDir, python.testsDir].find(dir => file.startsWith(`${dir}/`));
+    const rest = prefix ? file.slice(prefix.length + 1) : file;
+    return rest.split('/').slice(0, -1).filter(d => !NEUTRAL_DIRS.has(d)).join('/');
+  }
+}
+
+/**
+ * Whether a path is a test under any supported convention
+ */
+export function isTestFile(file: string): boolean {
+  return testStem(file) !== null;
+}
+
+function languageOf(file: string): 'js' | 'python' | 'go' | null {
+  if (JS_SOURCE.test(file) && !file.endsWith('.d.ts')) return 'js';
+  if (file.endsWith('.py')) return 'python';
+  if (file.endsWith('.go')) return 'go';
+  return null;
+}
+
+/** Name of the module a test covers (`foo` for foo.spec.ts, test_foo.py, foo_test.go), or null if not a test */
+function testStem(file: string): string | null {
+  const base = path.posix.basename(file);
+  const language = languageOf(file);
+
+  if (language === 'js') {
+    if (JS_TEST.test(base)) return base.replace(JS_TEST, '');
+    if (file.split('/').includes('__tests__')) return stemOf(file);
+  }
+  if (language === 'python' && PY_TEST.test(file)) {
+    return base.replace(/^test_/, '').replace(/(?:_test)?\.py$/, '');
+  }
+  if (language === 'go' && GO_TEST.test(base)) {
+    return base.replace(GO_TEST, '');
+  }
+  return null;
+}
+
+function stemOf(file: string): string {
+  return path.posix.basename(file).replace(/\.[^.]+$/, '');
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Work out the project's test conventions. Existing tests decide (the
+ * most common layout and naming wins); without any, runner configuration
+ * gives hints; otherwise the defaults apply (a mirrored tests/ directory,
+ * or colocated tests when jest or vitest is configured).
+ */
+export async function detectTestConventions(root: string, files: string[]): Promise<TestConventions> {
+  const jsConfig = await readFirst(root, [...JEST_CONFIGS, ...VITEST_CONFIGS]);
+  const packageJson = await readFile(root, 'package.json');
+  const jestInPackage = packageJson ? /"jest"\s*:/.test(packageJson) : false;
+  const pyConfig = (await Promise.all(PYTEST_CONFIGS.map(name => readFile(root, name))))
+    .filter((text): text is string => text !== null && /pytest/.test(text))
+    .join('\n');
+
+  return {
+    js: detectJs(files, jsConfig, jestInPackage ? packageJson : null),
+    python: detectPython(files, pyConfig),
+  };
+}
+
+function detectJs(
+  files: string[],
+  config: { name: string; text: string } | null,
+  packageJson: string | null
+): TestConventions['js'] {
+  const runner = config ? (config.name.startsWith('jest') ? 'jest' : 'vitest') : packageJson ? 'jest' : undefined;
+  const hints = [config?.text, packageJson].filter(Boolean).join('\n');
+  const tests = files.filter(f => languageOf(f) === 'js' && isTestFile(f));
+
+  const layouts = { colocated: 0, __tests__: 0, mirror: 0 };
+  const testsDirs = new Map<string, number>();
+  let spec = 0;
+  for (const test of tests) {
+    const segments = test.split('/');
+    if (segments.includes('__tests__')) layouts.__tests__++;
+    else if (TEST_DIRS.has(segments[0])) {
+      layouts.mirror++;
+      testsDirs.set(segments[0], (testsDirs.get(segments[0]) || 0) + 1);
+    } else layouts.colocated++;
+    if (/\.spec\.[^.]+$/.test(test)) spec++;
+  }
+
+  if (tests.length > 0) {
+    return {
+      layout: mostCommon(layouts),
+      suffix: spec * 2 > tests.length ? 'spec' : 'test',
+      testsDir: mostCommon(Object.fromEntries(testsDirs)) || 'tests',
+      runner,
+    };
+  }
+
+  const rootsHint = hints.match(/["'](?:<rootDir>\/)?(tests?|spec)\/?["']/);
+  return {
+    layout: /__tests__/.test(hints) ? '__tests__' : rootsHint ? 'mirror' : runner ? 'colocated' : 'mirror',
+    suffix: /\.spec\b|\bspec\./.test(hints) && !/\.test\b|\btest\./.test(hints) ? 'spec' : 'test',
+    testsDir: rootsHint?.[1] || 'tests',
+    runner,
+  };
+}
+
+function detectPython(files: string[], config: string): TestConventions['python'] {
+  const tests = files.filter(f => PY_TEST.test(f));
+  const runner = config || files.some(f => path.posix.basename(f) === 'conftest.py') ? 'pytest' as const : undefined;
+
+  const testpaths = config.match(/^\s*testpaths\s*=\s*\[?\s*["']?([\w./-]+)/m)?.[1]?.replace(/\/$/, '');
+  const pythonFiles = config.match(/^\s*python_files\s*=\s*\[?\s*["']?([\w*.]+)/m)?.[1];
+  const testsDirOf = (file: string) => testpaths && file.startsWith(`${testpaths}/`) ? testpaths
+    : TEST_DIRS.has(file.split('/')[0]) ? file.split('/')[0]
+    : null;
+
+  if (tests.length > 0) {
+    const suffixed = tests.filter(f => /_test\.py$/.test(f) && !/(?:^|\/)test_[^/]+$/.test(f)).length;
+    const mirrored = tests.filter(f => testsDirOf(f) !== null);
+    return {
+      layout: mirrored.length * 2 >= tests.length ? 'mirror' : 'colocated',
+      style: suffixed * 2 > tests.length ? 'suffix' : 'prefix',
+      testsDir: (mirrored.length > 0 && testsDirOf(mirrored[0])) || testpaths || 'tests',
+      runner,
+    };
+  }
+
+  return {
+    layout: 'mirror',
+    style: pythonFiles === '*_test.py' ? 'suffix' : 'prefix',
+    testsDir: testpaths || 'tests',
+    runner,
+  };
+}
+
+function mostCommon<K extends string>(counts: Record<K, number>): K {
+  return (Object.entries(counts) as Array<[K, number]>)
+    .reduce<[K, number] | null>((best, entry) => !best || entry[1] > best[1] ? entry : best, null)?.[0] as K;
+}
+
+async function readFirst(root: string, names: string[]): Promise<{ name: string; text: string } | null> {
+  for (const name of names) {
+    const text = await readFile(root, name);
+    if (text !== null) return { name, text };
+  }
+  return null;
+}
+
+async function readFile(root: string, name: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(root, name), 'utf8');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { parseYaml, stringifyYaml } from './yaml';
+
+const roundTrip = (value: unknown) => parseYaml(stringifyYaml(value));
+
+test('multi-line strings round-trip as block scalars', () => {
+  const value = { description: 'first\nsecond\n\nfourth', notes: 'kept\n' };
+  assert.deepEqual(roundTrip(value), value);
+  assert.match(stringifyYaml(value), /description: \|-\n {2}first/);
+});
+
+test('an indented first line gets an indentation indicator', () => {
+  const values = [
+    '    const x = 1;\nplain text',
+    '  indented\nok',
+    '  indented\nwith trailing newline\n',
+    '\n  after a blank line\nok',
+    '\ttabbed\nok',
+  ];
+
+  for (const description of values) {
+    const value = { id: 'LOCAL-1', description, comments: [{ body: description }], list: [description] };
+    assert.deepEqual(roundTrip(value), value, JSON.stringify(description));
+  }
+  assert.match(stringifyYaml({ body: '  a\nb' }), /^body: \|2-\n {4}a\n {2}b\n$/);
+});
+
+test('indentation indicators are read in either order', () => {
+  assert.deepEqual(parseYaml('a: |2\n    x\n  y\nb: 1\n'), { a: '  x\ny\n', b: 1 });
+  assert.deepEqual(parseYaml('a: |-2\n    x\n  y\n'), { a: '  x\ny' });
+  assert.deepEqual(parseYaml('- |2-\n    x\n  y\n'), ['  x\ny']);
+});
+
+test('lines less indented than the indicator end the scalar', () => {
+  assert.throws(() => parseYaml('a: |4\n    x\n   y\n'), /Unexpected indentation/);
+});
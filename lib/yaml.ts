@@ -0,0 +1,371 @@
+/**
+ * Minimal YAML Module
+ *
+ * Parses and serializes the YAML subset used by wave-planner files:
+ * nested maps, block and flow lists, quoted and plain scalars, comments,
+ * and literal block scalars (`|`, `|-`, with an optional indentation
+ * indicator such as `|2-`). Anchors, tags, folded scalars
+ * and multi-document streams are not supported.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type YamlValue =
+  | string
+  | number
+  | boolean
+  | null
+  | YamlValue[]
+  | { [key: string]: YamlValue };
+
+export class YamlError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`YAML line ${line + 1}: ${message}`);
+    this.name = 'YamlError';
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+// "|", "|-", and either with an indentation indicator ("|2", "|2-", "|-2")
+const BLOCK_SCALAR_HEADER = /^\|(?:([1-9])?(-)?|(-)([1-9]))$/;
+
+const KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-?:][^:#]*?|-[^\s:#][^:#]*?)\s*:(?:\s+(.*)|$)/;
+
+/**
+ * Parse a YAML document into plain objects, arrays and scalars
+ */
+export function parseYaml(text: string): YamlValue {
+  const parser = new YamlParser(text.replace(/\r\n/g, '\n').split('\n'));
+  return parser.parseDocument();
+}
+
+class YamlParser {
+  private pos = 0;
+
+  constructor(private lines: string[]) {}
+
+  parseDocument(): YamlValue {
+    const first = this.peek();
+    if (first === null) return null;
+
+    const value = this.parseBlock(first.indent);
+    const rest = this.peek();
+    if (rest !== null) {
+      throw new YamlError('Unexpected content', this.pos);
+    }
+    return value;
+  }
+
+  /** Next significant line, skipping blanks, comments and "---" markers */
+  private peek(): { indent: number; text: string } | null {
+    while (this.pos < this.lines.length) {
+      const raw = this.lines[this.pos];
+      const text = stripComment(raw).trimEnd();
+      if (text.trim() === '' || (text === '---' && this.pos === 0)) {
+        this.pos++;
+        continue;
+      }
+      const indent = text.length - text.trimStart().length;
+      return { indent, text: text.trimStart() };
+    }
+    return null;
+  }
+
+  private parseBlock(indent: number): YamlValue {
+    const line = this.peek();
+    if (line === null) return null;
+
+    if (line.text === '-' || line.text.startsWith('- ')) {
+      return this.parseList(indent);
+    }
+    if (KEY_PATTERN.test(line.text)) {
+      return this.parseMap(indent);
+    }
+
+    this.pos++;
+    return parseScalar(line.text, this.pos - 1);
+  }
+
+  private parseMap(indent: number): { [key: string]: YamlValue } {
+    const map: { [key: string]: YamlValue } = {};
+
+    for (let line = this.peek(); line !== null && line.indent === indent; line = this.peek()) {
+      const match = line.text.match(KEY_PATTERN);
+      if (!match) {
+        throw new YamlError(`Expected "key: value", got "${line.text}"`, this.pos);
+      }
+
+      const key = unquoteKey(match[1]);
+      const rest = (match[2] || '').trim();
+      const keyLine = this.pos;
+      this.pos++;
+
+      if (BLOCK_SCALAR_HEADER.test(rest)) {
+        map[key] = this.parseBlockScalar(indent, rest);
+      } else if (rest !== '') {
+        map[key] = parseScalar(rest, keyLine);
+      } else {
+        const next = this.peek();
+        const isList = next !== null && (next.text === '-' || next.text.startsWith('- '));
+        if (next !== null && (next.indent > indent || (next.indent === indent && isList))) {
+          map[key] = this.parseBlock(next.indent);
+        } else {
+          map[key] = null;
+        }
+      }
+    }
+
+    const trailing = this.peek();
+    if (trailing !== null && trailing.indent > indent) {
+      throw new YamlError('Unexpected indentation', this.pos);
+    }
+
+    return map;
+  }
+
+  private parseList(indent: number): YamlValue[] {
+    const list: YamlValue[] = [];
+
+    for (let line = this.peek(); line !== null && line.indent === indent; line = this.peek()) {
+      if (line.text !== '-' && !line.text.startsWith('- ')) break;
+
+      const content = line.text.slice(1).trimStart();
+
+      if (content === '') {
+        this.pos++;
+        const next = this.peek();
+        list.push(next !== null && next.indent > indent ? this.parseBlock(next.indent) : null);
+      } else if (BLOCK_SCALAR_HEADER.test(content)) {
+        this.pos++;
+        list.push(this.parseBlockScalar(indent, content));
+      } else if (KEY_PATTERN.test(content) && !/^["'[{]/.test(content)) {
+        // "- key: value" starts a map whose keys align with the first key
+        const itemIndent = indent + (line.text.length - content.length);
+        this.lines[this.pos] = ' '.repeat(itemIndent) + content;
+        list.push(this.parseMap(itemIndent));
+      } else {
+        this.pos++;
+        list.push(parseScalar(content, this.pos - 1));
+      }
+    }
+
+    return list;
+  }
+
+  private parseBlockScalar(parentIndent: number, header: string): string {
+    const [, indicator, chomp, chompFirst, indicatorLast] = header.match(BLOCK_SCALAR_HEADER)!;
+    const strip = (chomp || chompFirst) === '-';
+    const explicit = indicator || indicatorLast;
+
+    const collected: string[] = [];
+    // Without an indicator the first non-blank line sets the indentation
+    let blockIndent = explicit ? parentIndent + Number(explicit) : -1;
+
+    while (this.pos < this.lines.length) {
+      const raw = this.lines[this.pos];
+      if (raw.trim() === '') {
+        collected.push('');
+        this.pos++;
+        continue;
+      }
+
+      const indent = raw.length - raw.trimStart().length;
+      if (indent <= parentIndent) break;
+      if (blockIndent === -1) blockIndent = indent;
+      if (indent < blockIndent) break;
+
+      collected.push(raw.slice(blockIndent));
+      this.pos++;
+    }
+
+    // Trailing blank lines belong to the document, not the scalar
+    while (collected.length && collected[collected.length - 1] === '') {
+      collected.pop();
+    }
+
+    const body = collected.join('\n');
+    return strip || body === '' ? body : `${body}\n`;
+  }
+}
+
+function stripComment(line: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+
+  return line;
+}
+
+function unquoteKey(key: string): string {
+  if (key.startsWith('"') || key.startsWith("'")) {
+    return String(parseScalar(key, 0));
+  }
+  return key.trim();
+}
+
+function parseScalar(text: string, line: number): YamlValue {
+  const value = text.trim();
+
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new YamlError(`Invalid double-quoted string: ${value}`, line);
+    }
+  }
+
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) {
+      throw new YamlError(`Invalid single-quoted string: ${value}`, line);
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (value.startsWith('[')) {
+    if (!value.endsWith(']')) {
+      throw new YamlError(`Unterminated flow list: ${value}`, line);
+    }
+    const inner = value.slice(1, -1).trim();
+    return inner === '' ? [] : splitFlow(inner).map(item => parseScalar(item, line));
+  }
+
+  if (value === '{}') return {};
+
+  return value;
+}
+
+function splitFlow(text: string): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ',') {
+      items.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  items.push(text.slice(start));
+  return items.map(s => s.trim());
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+/**
+ * Serialize plain data to YAML. Undefined values are omitted and
+ * Dates are written as ISO strings.
+ */
+export function stringifyYaml(value: unknown): string {
+  if (isPlainObject(value) || Array.isArray(value)) {
+    const lines = emitBlock(value, 0);
+    return lines.length ? `${lines.join('\n')}\n` : '{}\n';
+  }
+  return `${formatScalar(value)}\n`;
+}
+
+function emitBlock(value: object, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (item === undefined) continue;
+
+      if (isPlainObject(item) && Object.keys(item).length > 0) {
+        const nested = emitBlock(item, indent + 2);
+        lines.push(`${pad}- ${nested[0].trimStart()}`, ...nested.slice(1));
+      } else if (Array.isArray(item) && item.length > 0) {
+        lines.push(`${pad}-`, ...emitBlock(item, indent + 2));
+      } else {
+        lines.push(`${pad}- ${formatInline(item, indent + 2)}`);
+      }
+    }
+    return lines;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue;
+
+    const name = formatKey(key);
+    if ((isPlainObject(item) && Object.keys(item).length > 0) || (Array.isArray(item) && item.length > 0)) {
+      lines.push(`${pad}${name}:`, ...emitBlock(item, indent + 2));
+    } else {
+      lines.push(`${pad}${name}: ${formatInline(item, indent + 2)}`);
+    }
+  }
+
+  return lines;
+}
+
+function formatInline(value: unknown, indent: number): string {
+  if (Array.isArray(value)) return '[]';
+  if (isPlainObject(value)) return '{}';
+
+  if (typeof value === 'string' && value.includes('\n') && !/[^\S\n]$/m.test(value)) {
+    const trailing = value.endsWith('\n');
+    const body = trailing ? value.slice(0, -1) : value;
+    // Block scalars cannot preserve multiple trailing newlines
+    if (body !== '' && !body.endsWith('\n')) {
+      const pad = ' '.repeat(indent);
+      const lines = body.split('\n').map(l => (l === '' ? '' : pad + l));
+      // An indented first line would otherwise be taken as the block's indentation
+      const indicator = /^\s/.test(body.replace(/^\n+/, '')) ? '2' : '';
+      return `|${indicator}${trailing ? '' : '-'}\n${lines.join('\n')}`;
+    }
+  }
+
+  return formatScalar(value);
+}
+
+function formatKey(key: string): string {
+  return /^[\w][\w .\-/]*$/.test(key) && !/\s$/.test(key) ? key : JSON.stringify(key);
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+  const text = String(value);
+  const needsQuotes =
+    text === '' ||
+    text !== text.trim() ||
+    /^(true|false|null|~|-?\d+(\.\d+)?)$/.test(text) ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /:(\s|$)|\s#|[\n\t]/.test(text);
+
+  return needsQuotes ? JSON.stringify(text) : text;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}